@@ -3,7 +3,10 @@ import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from './lib/stores/auth';
 import { useUIStore } from './lib/stores/ui';
 import { useMediaSession } from './lib/hooks/useMediaSession';
-// import { useAnalytics } from './lib/hooks/useAnalytics'; // Disabled - backend doesn't have analytics endpoints
+import { usePlaybackSession } from './lib/hooks/usePlaybackSession';
+import { useDeviceSync } from './lib/hooks/useDeviceSync';
+import { useEqualizerProfile } from './lib/hooks/useEqualizerProfile';
+import { useAnalytics } from './lib/hooks/useAnalytics';
 
 // Layout components
 import { Sidebar } from './lib/components/Layout/Sidebar';
@@ -15,6 +18,7 @@ import { FullPlayer } from './lib/components/Player/FullPlayer';
 import { MiniPlayer } from './lib/components/Player/MiniPlayer';
 import { NowPlaying } from './lib/components/Player/NowPlaying';
 import { Queue } from './lib/components/Player/Queue';
+import { Devices } from './lib/components/Player/Devices';
 
 // Modal components
 import { Lyrics } from './lib/components/Modals/Lyrics';
@@ -94,7 +98,10 @@ const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 
   useKeyboardShortcuts();
   useMediaSession(); // Enable background playback controls
-  // useAnalytics(); // Disabled - backend doesn't have analytics endpoints yet
+  usePlaybackSession(); // Restore and save queue/position across reloads
+  useDeviceSync(); // Register for remote control from other devices
+  useEqualizerProfile(); // Per-user, per-output EQ settings
+  useAnalytics(); // Sessions and listens for the listening stats
 
   return (
     <div className="app-container">
@@ -107,6 +114,7 @@ const AppLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
       <MiniPlayer />
       <NowPlaying />
       <Queue />
+      <Devices />
       
       <BottomNav />
       
@@ -1,47 +1,65 @@
 import { post } from './client';
+import { s } from './schema';
+
+const sessionStartSchema = s.object({
+  sessionId: s.number(),
+});
+
+const listenStartSchema = s.object({
+  listenEventId: s.number(),
+});
 
 /**
- * Start a new session
+ * Start a new session. The token is made up by the client and identifies the
+ * session in heartbeats and when it ends.
  */
-export async function startSession(): Promise<{ sessionId: string }> {
-  return post('/api/analytics/session/start');
+export async function startSession(userId: number, sessionToken: string): Promise<{ sessionId: number }> {
+  return post('/api/analytics/session/start', { userId, sessionToken }, sessionStartSchema);
 }
 
 /**
  * Send session heartbeat
  */
-export async function sessionHeartbeat(): Promise<void> {
-  await post('/api/analytics/session/heartbeat');
+export async function sessionHeartbeat(sessionToken: string): Promise<void> {
+  await post('/api/analytics/session/heartbeat', { sessionToken });
 }
 
 /**
  * End the current session
  */
-export async function endSession(): Promise<void> {
-  await post('/api/analytics/session/end');
+export async function endSession(sessionToken: string): Promise<void> {
+  await post('/api/analytics/session/end', { sessionToken });
 }
 
 /**
- * Start tracking a listen event
+ * Start tracking a listen event. startedAt (ms) dates a listen sent after the
+ * fact, the server uses the current time without it.
  */
-export async function startListen(trackId: number): Promise<{ listenId: string }> {
-  return post('/api/analytics/listen/start', { trackId });
+export async function startListen(
+  userId: number,
+  trackId: number,
+  sessionId: number | null = null,
+  startedAt?: number
+): Promise<{ listenEventId: number }> {
+  return post('/api/analytics/listen/start', { userId, musicId: trackId, sessionId, startedAt }, listenStartSchema);
 }
 
 /**
- * End a listen event
+ * End a listen event, at endedAt (ms) when given
  */
 export async function endListen(
-  listenId: string,
+  listenEventId: number,
   duration: number,
   completed: boolean,
-  skipped: boolean
+  skipped: boolean,
+  endedAt?: number
 ): Promise<void> {
   await post('/api/analytics/listen/end', {
-    listenId,
-    duration,
+    listenEventId,
+    durationListened: duration,
     completed,
     skipped,
+    endedAt,
   });
 }
 
@@ -49,9 +67,9 @@ export async function endListen(
  * Track a search query
  */
 export async function trackSearch(
+  userId: number | null,
   query: string,
   resultsCount: number
 ): Promise<void> {
-  await post('/api/analytics/search', { query, resultsCount });
+  await post('/api/analytics/search', { userId, query, resultsCount });
 }
-
@@ -1,4 +1,5 @@
-import { api, getApiBase } from './client';
+import { api, getApiBase, setSessionTokens, clearSessionTokens } from './client';
+import { s } from './schema';
 
 export interface User {
   id: number;
@@ -12,15 +13,31 @@ export interface User {
 export interface LoginResponse {
   success: boolean;
   token: string;
+  refreshToken?: string; // Servers before refresh tokens only send the access token
   user: User;
 }
 
 export interface SignupResponse {
   success: boolean;
   token: string;
+  refreshToken?: string;
   user: User;
 }
 
+// A users row without the password hash
+const userSchema = s.object({
+  id: s.number(),
+  username: s.string(),
+  name: s.string().optional(),
+  email: s.string().or(''),
+  is_admin: s.flag().or(false),
+  created_at: s.string().or(''),
+});
+
+const currentUserSchema = s.object({
+  user: userSchema,
+});
+
 /**
  * Login error response
  */
@@ -145,15 +162,15 @@ export async function signup(
  * Get current user info
  */
 export async function getCurrentUser(): Promise<User> {
-  const response = await api<{ user: User }>('/api/auth/me');
+  const response = await api('/api/auth/me', {}, currentUserSchema);
   return response.user;
 }
 
 /**
  * Store auth data in localStorage
  */
-export function storeAuth(token: string, user: User): void {
-  localStorage.setItem('musicstream_token', token);
+export function storeAuth(token: string, user: User, refreshToken?: string): void {
+  setSessionTokens(token, refreshToken);
   localStorage.setItem('musicstream_user', JSON.stringify(user));
 }
 
@@ -161,7 +178,7 @@ export function storeAuth(token: string, user: User): void {
  * Clear auth data from localStorage
  */
 export function clearAuth(): void {
-  localStorage.removeItem('musicstream_token');
+  clearSessionTokens();
   localStorage.removeItem('musicstream_user');
 }
 
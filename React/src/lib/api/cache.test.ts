@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  cachedQuery,
+  clearQueryCache,
+  getCachedData,
+  invalidateQueries,
+  retainQuery,
+  subscribeQueries,
+} from './cache';
+
+const TTL = 1000;
+
+// A fetcher whose requests the test answers by hand
+function manualFetcher<T>() {
+  const requests: { signal: AbortSignal; resolve: (data: T) => void }[] = [];
+  const fetcher = vi.fn((signal: AbortSignal) => new Promise<T>(resolve => {
+    requests.push({ signal, resolve });
+  }));
+  return { fetcher, requests };
+}
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  clearQueryCache();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('cachedQuery', () => {
+  it('shares a request in flight between callers', async () => {
+    const { fetcher, requests } = manualFetcher<string>();
+    const first = cachedQuery('tracks', fetcher, { ttl: TTL });
+    const second = cachedQuery('tracks', fetcher, { ttl: TTL });
+
+    requests[0].resolve('data');
+
+    expect(await first).toBe('data');
+    expect(await second).toBe('data');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers from the cache while the data is fresh', async () => {
+    const fetcher = vi.fn(async () => 'data');
+    await cachedQuery('tracks', fetcher, { ttl: TTL });
+
+    vi.advanceTimersByTime(TTL - 1);
+    expect(await cachedQuery('tracks', fetcher, { ttl: TTL })).toBe('data');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers stale data at once and refreshes it in the background', async () => {
+    const { fetcher, requests } = manualFetcher<string>();
+    const loading = cachedQuery('tracks', fetcher, { ttl: TTL });
+    requests[0].resolve('old');
+    await loading;
+
+    const listener = vi.fn();
+    const unsubscribe = subscribeQueries(listener);
+    vi.advanceTimersByTime(TTL);
+
+    expect(await cachedQuery('tracks', fetcher, { ttl: TTL })).toBe('old');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    requests[1].resolve('new');
+    await vi.waitFor(() => expect(getCachedData('tracks')).toBe('new'));
+    expect(listener).toHaveBeenCalledWith('tracks');
+    unsubscribe();
+  });
+
+  it('makes a new request after an invalidation, even with one in flight', async () => {
+    const { fetcher, requests } = manualFetcher<string>();
+    const before = cachedQuery('library/tracks', fetcher, { ttl: TTL });
+    invalidateQueries('library/');
+    const after = cachedQuery('library/tracks', fetcher, { ttl: TTL });
+
+    requests[1].resolve('new');
+    requests[0].resolve('old');
+
+    expect(await after).toBe('new');
+    // The older request still answers its caller, but doesn't overwrite the cache
+    expect(await before).toBe('old');
+    expect(getCachedData('library/tracks')).toBe('new');
+  });
+
+  it('lets one caller give up without cancelling the request for the others', async () => {
+    const { fetcher, requests } = manualFetcher<string>();
+    const controller = new AbortController();
+    const leaving = cachedQuery('search', fetcher, { ttl: TTL, signal: controller.signal });
+    const staying = cachedQuery('search', fetcher, { ttl: TTL, signal: new AbortController().signal });
+
+    controller.abort();
+    await expect(leaving).rejects.toSatisfy(isAbort);
+    expect(requests[0].signal.aborted).toBe(false);
+
+    requests[0].resolve('results');
+    expect(await staying).toBe('results');
+  });
+
+  it('cancels the request once the last caller gives up', async () => {
+    const { fetcher, requests } = manualFetcher<string>();
+    const controller = new AbortController();
+    const query = cachedQuery('search', fetcher, { ttl: TTL, signal: controller.signal });
+
+    controller.abort();
+    await expect(query).rejects.toSatisfy(isAbort);
+    expect(requests[0].signal.aborted).toBe(true);
+
+    // The next caller starts over instead of joining the cancelled request
+    cachedQuery('search', fetcher, { ttl: TTL });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the request going while a caller without a signal waits', async () => {
+    const { fetcher, requests } = manualFetcher<string>();
+    const controller = new AbortController();
+    const leaving = cachedQuery('search', fetcher, { ttl: TTL, signal: controller.signal });
+    const staying = cachedQuery('search', fetcher, { ttl: TTL });
+
+    controller.abort();
+    await expect(leaving).rejects.toSatisfy(isAbort);
+    expect(requests[0].signal.aborted).toBe(false);
+
+    requests[0].resolve('results');
+    expect(await staying).toBe('results');
+  });
+
+  it('rejects at once for a signal that was already aborted', async () => {
+    const fetcher = vi.fn(async () => 'data');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(cachedQuery('search', fetcher, { ttl: TTL, signal: controller.signal })).rejects.toSatisfy(isAbort);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+});
+
+describe('eviction', () => {
+  it('drops data past its TTL that nothing retains', async () => {
+    // Well after any eviction an earlier test ran
+    vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000);
+    await cachedQuery('library/tracks?q=a', async () => 'a', { ttl: TTL });
+    await cachedQuery('library/tracks?q=b', async () => 'b', { ttl: TTL });
+    const release = retainQuery('library/tracks?q=b');
+
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    await cachedQuery('library/artists', async () => [], { ttl: TTL });
+
+    expect(getCachedData('library/tracks?q=a')).toBeUndefined();
+    expect(getCachedData('library/tracks?q=b')).toBe('b');
+    release();
+  });
+
+  it('spares the key being queried, its stale data is still shown', async () => {
+    vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000);
+    await cachedQuery('library/albums', async () => 'old', { ttl: TTL });
+
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    expect(await cachedQuery('library/albums', async () => 'new', { ttl: TTL })).toBe('old');
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Query cache
+ *
+ * Responses kept by key so screens that ask for the same data share it:
+ * - Requests for a key already in flight share that request
+ * - Data younger than the query's TTL is returned without a request
+ * - Older data is returned at once and refreshed in the background
+ *   (stale-while-revalidate)
+ * - Mutations invalidate the keys they affect, by prefix
+ * - A caller can give up through its AbortSignal; the request itself is only
+ *   cancelled once nobody else is waiting for it
+ * - Data past its TTL that nothing retains is dropped, so filters and pages
+ *   visited once don't stay in memory for the whole session
+ *
+ * Stores subscribe to hear about new data and invalidations; screens read
+ * through useCachedQuery, which retains the keys they show.
+ */
+
+interface CacheEntry {
+  data?: unknown;
+  updatedAt: number; // 0 when invalidated
+  ttl: number; // Of the last query, how long the data is worth keeping (ms)
+  request?: Promise<unknown>;
+  controller?: AbortController; // Cancels the request in flight
+  waiting: number; // Callers of the request that can still abort
+  cancellable: boolean; // False once a caller (or the cache) can't abort
+}
+
+// Called with the key whose data changed or was invalidated
+type CacheListener = (key: string) => void;
+
+export interface QueryOptions {
+  ttl: number; // How long data stays fresh (ms)
+  signal?: AbortSignal; // Stop waiting, e.g. for a search that was replaced
+}
+
+// Unused entries are looked for this often at most (ms)
+const EVICT_INTERVAL = 60 * 1000;
+
+const entries = new Map<string, CacheEntry>();
+const listeners = new Set<CacheListener>();
+// How many holders keep each key, see retainQuery
+const retained = new Map<string, number>();
+let lastEviction = 0;
+
+function notify(key: string): void {
+  listeners.forEach(listener => listener(key));
+}
+
+function fetchEntry<T>(key: string, entry: CacheEntry, fetcher: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const request = fetcher(controller.signal).then(
+    data => {
+      // Invalidated or cleared while in flight: a newer request owns the key
+      if (entries.get(key) !== entry || entry.request !== request) return data;
+      entry.data = data;
+      entry.updatedAt = Date.now();
+      entry.request = undefined;
+      notify(key);
+      return data;
+    },
+    error => {
+      if (entry.request === request) entry.request = undefined;
+      throw error;
+    }
+  );
+  entry.request = request;
+  entry.controller = controller;
+  entry.waiting = 0;
+  entry.cancellable = true;
+  return request;
+}
+
+/**
+ * Drop entries past their TTL that nothing retains or waits for. The key being
+ * queried is spared, its stale data is still worth showing while it refreshes.
+ */
+function evictUnused(queriedKey: string): void {
+  const now = Date.now();
+  if (now - lastEviction < EVICT_INTERVAL) return;
+  lastEviction = now;
+  
+  for (const [key, entry] of entries) {
+    if (key === queriedKey || retained.has(key) || entry.request) continue;
+    if (entry.updatedAt === 0 || now - entry.updatedAt >= entry.ttl) entries.delete(key);
+  }
+}
+
+function abortedError(): DOMException {
+  return new DOMException('The request was aborted', 'AbortError');
+}
+
+/**
+ * Wait for a request on behalf of one caller. Aborting the signal rejects
+ * for this caller only, unless it was the last one waiting.
+ */
+function waitFor<T>(entry: CacheEntry, request: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    entry.cancellable = false;
+    return request;
+  }
+  
+  entry.waiting++;
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      // A request replaced by a newer one doesn't count toward the newer's callers
+      if (entry.request === request && --entry.waiting === 0 && entry.cancellable) {
+        entry.controller?.abort();
+        entry.request = undefined;
+      }
+      reject(abortedError());
+    };
+    
+    signal.addEventListener('abort', abort, { once: true });
+    request.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+/**
+ * Load a query through the cache
+ */
+export function cachedQuery<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  options: QueryOptions
+): Promise<T> {
+  if (options.signal?.aborted) return Promise.reject(abortedError());
+  evictUnused(key);
+  
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { updatedAt: 0, ttl: options.ttl, waiting: 0, cancellable: true };
+    entries.set(key, entry);
+  }
+  entry.ttl = options.ttl;
+
+  if (entry.updatedAt > 0 && Date.now() - entry.updatedAt < options.ttl) {
+    return Promise.resolve(entry.data as T);
+  }
+
+  const request = (entry.request as Promise<T> | undefined) ?? fetchEntry(key, entry, fetcher);
+
+  if (entry.data !== undefined) {
+    // Stale: answer now, listeners hear about the refreshed data. The refresh
+    // is the cache's own, callers giving up doesn't cancel it.
+    entry.cancellable = false;
+    request.catch(error => console.warn(`Refreshing ${key} failed, keeping cached data:`, error));
+    return Promise.resolve(entry.data as T);
+  }
+  return waitFor(entry, request, options.signal);
+}
+
+/**
+ * Cached data for a key, fresh or not
+ */
+export function getCachedData<T>(key: string): T | undefined {
+  return entries.get(key)?.data as T | undefined;
+}
+
+/**
+ * Replace cached data after a local change, e.g. a playlist just created
+ */
+export function setCachedData<T>(key: string, update: (data: T | undefined) => T): void {
+  const entry = entries.get(key) ?? { updatedAt: 0, ttl: 0, waiting: 0, cancellable: true };
+  entry.data = update(entry.data as T | undefined);
+  entries.set(key, entry);
+  notify(key);
+}
+
+/**
+ * Mark every key starting with one of the prefixes as stale. Their next query
+ * makes a new request, even if one was already in flight.
+ */
+export function invalidateQueries(...prefixes: string[]): void {
+  for (const [key, entry] of entries) {
+    if (!prefixes.some(prefix => key.startsWith(prefix))) continue;
+    entry.updatedAt = 0;
+    entry.request = undefined;
+    notify(key);
+  }
+}
+
+/**
+ * Forget everything, e.g. when the user logs out
+ */
+export function clearQueryCache(): void {
+  entries.clear();
+}
+
+/**
+ * Keep a key's data in memory, even once it is past its TTL, until the
+ * returned release is called
+ */
+export function retainQuery(key: string): () => void {
+  retained.set(key, (retained.get(key) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const count = (retained.get(key) ?? 1) - 1;
+    if (count > 0) {
+      retained.set(key, count);
+    } else {
+      retained.delete(key);
+    }
+  };
+}
+
+export function subscribeQueries(listener: CacheListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
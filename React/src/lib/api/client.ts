@@ -1,3 +1,5 @@
+import { parseResponse, s, type Schema } from './schema';
+
 // Detect if running in Capacitor
 const isCapacitor = typeof window !== 'undefined' && 
   (window.location.protocol === 'file:' || 
@@ -25,20 +27,139 @@ export interface ApiError {
   status: number;
 }
 
+/**
+ * Whether a request failed because its AbortSignal was aborted, i.e. the
+ * caller no longer wants the answer. Not worth logging or showing.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+const TOKEN_KEY = 'musicstream_token';
+const REFRESH_TOKEN_KEY = 'musicstream_refresh_token';
+
+// Refresh the access token this long before it expires (ms)
+const REFRESH_AHEAD = 60 * 1000;
+
+// Longest delay setTimeout accepts (about 24 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const refreshResponseSchema = s.object({
+  token: s.string(),
+  refreshToken: s.string(),
+});
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let pendingRefresh: Promise<boolean> | null = null;
+let sessionExpiredHandler: (() => void) | undefined;
+
 /**
  * Get the auth token from localStorage
  */
-function getAuthToken(): string | null {
-  return localStorage.getItem('musicstream_token');
+export function getAuthToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
 }
 
 /**
- * API client wrapper with authentication
+ * Expiry of a JWT in ms, null when the token can't be read
  */
-export async function api<T = unknown>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Plan a silent refresh shortly before the access token expires
+ */
+function scheduleRefresh(): void {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  
+  const token = getAuthToken();
+  const expiresAt = token && getRefreshToken() ? getTokenExpiry(token) : null;
+  if (!expiresAt) return;
+  
+  const delay = Math.min(Math.max(expiresAt - Date.now() - REFRESH_AHEAD, 0), MAX_TIMER_DELAY);
+  refreshTimer = setTimeout(() => {
+    refreshSession()
+      .then(refreshed => {
+        if (!refreshed) sessionExpiredHandler?.();
+      })
+      // Offline or server down: the next request retries through the 401 path
+      .catch(error => console.warn('Silent token refresh failed:', error));
+  }, delay);
+}
+
+/**
+ * Called when the session is over: the access token was refused and the
+ * refresh token couldn't replace it
+ */
+export function setSessionExpiredHandler(handler: (() => void) | undefined): void {
+  sessionExpiredHandler = handler;
+}
+
+/**
+ * Store a token pair. Without a refresh token the current one is kept.
+ */
+export function setSessionTokens(token: string, refreshToken?: string): void {
+  localStorage.setItem(TOKEN_KEY, token);
+  if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  scheduleRefresh();
+}
+
+export function clearSessionTokens(): void {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  scheduleRefresh();
+}
+
+/**
+ * Trade the refresh token for a new token pair. Concurrent callers share one
+ * request. Resolves to false when the server refuses the refresh token;
+ * rejects when it couldn't be reached, so a dropped connection doesn't end
+ * the session.
+ */
+export function refreshSession(): Promise<boolean> {
+  if (pendingRefresh) return pendingRefresh;
+  
+  pendingRefresh = (async () => {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) return false;
+    
+    const response = await fetch(`${API_BASE}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+    if (response.status >= 400 && response.status < 500) return false;
+    if (!response.ok) {
+      throw { message: `Token refresh failed: ${response.status}`, status: response.status } as ApiError;
+    }
+    
+    const data = parseResponse('POST /api/auth/refresh', refreshResponseSchema, await response.json());
+    // Logged out while the request was in flight
+    if (getRefreshToken() !== refreshToken) return false;
+    setSessionTokens(data.token, data.refreshToken);
+    return true;
+  })().finally(() => {
+    pendingRefresh = null;
+  });
+  
+  return pendingRefresh;
+}
+
+/**
+ * Send a request with the current auth token
+ */
+async function send(url: string, options: RequestInit): Promise<Response> {
   const token = getAuthToken();
   
   const headers: HeadersInit = {
@@ -47,13 +168,38 @@ export async function api<T = unknown>(
     ...options.headers,
   };
   
-  const url = `${API_BASE}${endpoint}`;
   console.log(`📡 API ${options.method || 'GET'}: ${url}`);
   
-  const response = await fetch(url, {
+  return fetch(url, {
     ...options,
     headers,
   });
+}
+
+/**
+ * API client wrapper with authentication. With a schema, the response is
+ * checked against it and an ApiContractError is thrown when it doesn't match.
+ * Aborting options.signal rejects with an AbortError (see isAbortError).
+ */
+export async function api<T = unknown>(
+  endpoint: string,
+  options: RequestInit = {},
+  schema?: Schema<T>
+): Promise<T> {
+  const url = `${API_BASE}${endpoint}`;
+  let response = await send(url, options);
+  
+  // Expired access token: refresh it and try the request once more
+  if (response.status === 401 && getAuthToken()) {
+    const refreshed = await refreshSession().catch(() => null);
+    // The refresh is shared, only the retry belongs to this caller
+    if (options.signal?.aborted) throw new DOMException('The request was aborted', 'AbortError');
+    if (refreshed) {
+      response = await send(url, options);
+    } else if (refreshed === false) {
+      sessionExpiredHandler?.();
+    }
+  }
   
   // Check if response is JSON
   const contentType = response.headers.get('content-type');
@@ -82,7 +228,10 @@ export async function api<T = unknown>(
   }
   
   if (isJson) {
-    return response.json();
+    const data = await response.json();
+    if (!schema) return data;
+    // Name the endpoint without its query, e.g. "GET /api/library/search"
+    return parseResponse(`${options.method || 'GET'} ${endpoint.split('?')[0]}`, schema, data);
   }
   
   // If not JSON but status is OK, it might be HTML error
@@ -98,8 +247,8 @@ export async function api<T = unknown>(
 /**
  * GET request helper
  */
-export async function get<T = unknown>(endpoint: string): Promise<T> {
-  return api<T>(endpoint, { method: 'GET' });
+export async function get<T = unknown>(endpoint: string, schema?: Schema<T>, signal?: AbortSignal): Promise<T> {
+  return api<T>(endpoint, { method: 'GET', signal }, schema);
 }
 
 /**
@@ -107,12 +256,15 @@ export async function get<T = unknown>(endpoint: string): Promise<T> {
  */
 export async function post<T = unknown>(
   endpoint: string,
-  body?: unknown
+  body?: unknown,
+  schema?: Schema<T>,
+  signal?: AbortSignal
 ): Promise<T> {
   return api<T>(endpoint, {
     method: 'POST',
     body: body ? JSON.stringify(body) : undefined,
-  });
+    signal,
+  }, schema);
 }
 
 /**
@@ -120,19 +272,22 @@ export async function post<T = unknown>(
  */
 export async function put<T = unknown>(
   endpoint: string,
-  body?: unknown
+  body?: unknown,
+  schema?: Schema<T>,
+  signal?: AbortSignal
 ): Promise<T> {
   return api<T>(endpoint, {
     method: 'PUT',
     body: body ? JSON.stringify(body) : undefined,
-  });
+    signal,
+  }, schema);
 }
 
 /**
  * DELETE request helper
  */
-export async function del<T = unknown>(endpoint: string): Promise<T> {
-  return api<T>(endpoint, { method: 'DELETE' });
+export async function del<T = unknown>(endpoint: string, schema?: Schema<T>, signal?: AbortSignal): Promise<T> {
+  return api<T>(endpoint, { method: 'DELETE', signal }, schema);
 }
 
 /**
@@ -150,3 +305,8 @@ export function getApiBase(): string {
   return API_BASE;
 }
 
+// Pick up the refresh schedule of a session stored by an earlier visit
+if (typeof window !== 'undefined') {
+  scheduleRefresh();
+}
+
@@ -0,0 +1,227 @@
+import { getApiBase, getAuthToken } from './client';
+import type { Track } from './library';
+import type { RepeatMode } from './user';
+
+/**
+ * Client for the multi-device WebSocket protocol served at /ws
+ */
+
+export type DeviceType = 'web' | 'desktop' | 'mobile' | 'tablet';
+
+export interface RemoteDevice {
+  deviceId: string;
+  deviceName: string;
+  deviceType: DeviceType;
+  isPlaying: boolean;
+  currentTrack: Track | null;
+  currentTime: number;
+  duration: number;
+  volume: number | null;
+  controlledBy: string | null;
+  controlling: string | null;
+}
+
+/**
+ * Playback state shared between devices (PLAYBACK_STATE / PLAYBACK_UPDATE / TRANSFER_PLAYBACK)
+ */
+export interface RemotePlaybackState {
+  isPlaying: boolean;
+  currentTrack: Track | null;
+  currentTime: number;
+  duration: number;
+  volume: number;
+  queue: Track[];
+  originalQueue?: Track[];
+  userQueue?: Track[];
+  currentIndex: number;
+  isShuffled: boolean;
+  repeatMode: RepeatMode;
+}
+
+// The queues are large and rarely change, so updates leave them out unless they did
+type QueueFields = 'queue' | 'originalQueue' | 'userQueue';
+
+/**
+ * Playback state as sent in PLAYBACK_STATE / PLAYBACK_UPDATE
+ */
+export type PlaybackUpdate = Omit<RemotePlaybackState, QueueFields> & Partial<Pick<RemotePlaybackState, QueueFields>>;
+
+// Commands sent with CONTROL_DEVICE. TRANSFER_TO asks the target to hand its
+// playback over to data.deviceId.
+export type RemoteAction =
+  | 'START_CONTROL'
+  | 'STOP_CONTROL'
+  | 'PLAY'
+  | 'PAUSE'
+  | 'NEXT'
+  | 'PREVIOUS'
+  | 'SEEK'
+  | 'SET_VOLUME'
+  | 'TRANSFER_TO';
+
+export interface RemoteCommandData {
+  time?: number;
+  volume?: number;
+  deviceId?: string;
+}
+
+export interface ServerMessages {
+  REGISTERED: { deviceId: string };
+  DEVICE_LIST: { devices: RemoteDevice[] };
+  PLAYBACK_UPDATE: PlaybackUpdate & { sourceDeviceId: string };
+  CONTROL_STARTED: {
+    targetDeviceId: string;
+    targetDeviceName: string;
+    currentTrack: Track | null;
+    isPlaying: boolean;
+  };
+  CONTROL_COMMAND: { controllerDeviceId: string; action: RemoteAction; data?: RemoteCommandData };
+  PLAYBACK_TRANSFER: RemotePlaybackState & { fromDeviceId: string };
+  PLAYBACK_TRANSFERRED: { toDeviceId: string };
+  ERROR: { message: string };
+}
+
+export interface RegisterPayload {
+  deviceId: string;
+  deviceName: string;
+  deviceType: DeviceType;
+  token: string;
+}
+
+// This device as registered; the token is added on every (re)connect, so a
+// refreshed session is picked up
+export type DeviceRegistration = Omit<RegisterPayload, 'token'>;
+
+type MessageType = keyof ServerMessages;
+type Handler<K extends MessageType> = (payload: ServerMessages[K]) => void;
+
+// Reconnect backoff bounds (ms)
+const RECONNECT_MIN_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// Close codes after which reconnecting won't help: the device ID belongs to
+// another user, or another connection (e.g. a duplicated tab) took it over
+const FINAL_CLOSE_CODES = [4000, 4003];
+
+/**
+ * WebSocket URL for the device protocol, next to the API
+ */
+export function getDeviceSocketUrl(): string {
+  const url = new URL('/ws', getApiBase() || window.location.origin);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+export class DeviceSocket {
+  private ws: WebSocket | null = null;
+  private registration: DeviceRegistration | null = null;
+  private handlers = new Map<MessageType, Set<(payload: unknown) => void>>();
+  private connectionListeners = new Set<(connected: boolean) => void>();
+  private reconnectTimer: number | null = null;
+  private reconnectDelay = RECONNECT_MIN_DELAY;
+
+  /**
+   * Open the socket and register this device. Reconnects with backoff until disconnect().
+   */
+  connect(registration: DeviceRegistration) {
+    this.registration = registration;
+    if (this.ws) return;
+    this.open();
+  }
+
+  disconnect() {
+    this.registration = null;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  get isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  send(type: string, payload: object) {
+    if (!this.isConnected) return;
+    this.ws!.send(JSON.stringify({ type, payload }));
+  }
+
+  on<K extends MessageType>(type: K, handler: Handler<K>): () => void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    const wrapped = handler as (payload: unknown) => void;
+    this.handlers.get(type)!.add(wrapped);
+    return () => {
+      this.handlers.get(type)?.delete(wrapped);
+    };
+  }
+
+  onConnectionChange(listener: (connected: boolean) => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  private open() {
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(getDeviceSocketUrl());
+    } catch (err) {
+      console.error('❌ Device socket error:', err);
+      this.scheduleReconnect();
+      return;
+    }
+    this.ws = ws;
+
+    ws.onopen = () => {
+      this.reconnectDelay = RECONNECT_MIN_DELAY;
+      const token = getAuthToken();
+      if (this.registration && token) {
+        const payload: RegisterPayload = { ...this.registration, token };
+        this.send('REGISTER_DEVICE', payload);
+      }
+      this.connectionListeners.forEach((listener) => listener(true));
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        const { type, payload } = JSON.parse(event.data);
+        this.handlers.get(type)?.forEach((handler) => handler(payload));
+      } catch (err) {
+        console.error('❌ Invalid device socket message:', err);
+      }
+    };
+
+    ws.onclose = (event) => {
+      if (this.ws === ws) {
+        this.ws = null;
+      }
+      if (FINAL_CLOSE_CODES.includes(event.code)) {
+        console.warn('📴 Device socket closed for good:', event.reason);
+        this.registration = null;
+      }
+      this.connectionListeners.forEach((listener) => listener(false));
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (!this.registration || this.reconnectTimer !== null) return;
+
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.registration && !this.ws) {
+        this.open();
+      }
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_DELAY);
+  }
+}
+
+export const deviceSocket = new DeviceSocket();
@@ -1,22 +1,74 @@
 import { post, get, del } from './client';
+import { s } from './schema';
+
+export type ImportState = 'pending' | 'queued' | 'searching' | 'downloading' | 'completed' | 'failed' | 'cancelled';
 
 export interface ImportStatus {
   id: string;
-  status: 'pending' | 'searching' | 'downloading' | 'completed' | 'failed';
+  status: ImportState;
   progress?: number;
   message?: string;
   title?: string;
   artist?: string;
-  album?: string;
+  album?: string | null;
+}
+
+export interface ImportResult {
+  success: boolean;
+  message: string;
 }
 
+const IMPORT_STATES: ImportState[] = ['pending', 'queued', 'searching', 'downloading', 'completed', 'failed', 'cancelled'];
+
+// The import endpoints answer at once and keep working in the background
+const importResultSchema = s.object({
+  success: s.flag(),
+  message: s.string().or(''),
+});
+
+const spotifyUrlResultSchema = s.object({
+  success: s.flag(),
+  message: s.string().or(''),
+  type: s.string().optional(),
+  track: s.string().optional(),
+  artist: s.string().optional(),
+  album: s.string().optional(),
+  trackCount: s.number().optional(),
+});
+
+// A downloads row
+const downloadSchema = s.object({
+  id: s.id(),
+  status: s.string().map((status) =>
+    IMPORT_STATES.includes(status as ImportState) ? (status as ImportState) : 'pending'
+  ),
+  progress: s.number().or(0),
+  message: s.string().optional(),
+  title: s.string().optional(),
+  artist: s.string().optional(),
+  album: s.string().nullable(),
+});
+
+const downloadListSchema = s.object({
+  downloads: s.array(downloadSchema).or([]),
+});
+
+const queuedDownloadSchema = s.object({
+  downloadId: s.id(),
+}).map(({ downloadId }) => ({ id: downloadId }));
+
+const cleanupSchema = s.object({
+  success: s.flag(),
+  cleanedCount: s.number().or(0),
+}).map(({ success, cleanedCount }) => ({ success, removed: cleanedCount }));
+
 /**
  * Import a Spotify playlist
  */
 export async function importSpotifyPlaylist(
   playlistUrl: string
-): Promise<{ success: boolean; message: string }> {
-  return post('/api/spotify-playlist/import', { playlistUrl });
+): Promise<ImportResult> {
+  return post('/api/spotify-playlist/import', { playlistUrl }, importResultSchema);
 }
 
 /**
@@ -26,7 +78,7 @@ export async function importSpotifyPlaylist(
 export async function downloadFromSpotifyUrl(
   url: string
 ): Promise<{ success: boolean; message: string; type?: string; track?: string; artist?: string; album?: string; trackCount?: number }> {
-  return post('/api/download/spotify-url', { url });
+  return post('/api/download/spotify-url', { url }, spotifyUrlResultSchema);
 }
 
 /**
@@ -50,8 +102,8 @@ export function getSpotifyUrlType(url: string): 'track' | 'album' | 'playlist' |
  */
 export async function importYouTubeMusicPlaylist(
   playlistUrl: string
-): Promise<{ success: boolean; message: string }> {
-  return post('/api/youtube-music-playlist/import', { playlistUrl });
+): Promise<ImportResult> {
+  return post('/api/youtube-music-playlist/import', { playlistUrl }, importResultSchema);
 }
 
 /**
@@ -59,16 +111,16 @@ export async function importYouTubeMusicPlaylist(
  */
 export async function downloadFromUrl(
   url: string
-): Promise<{ success: boolean; message: string }> {
-  return post('/api/url-download/song', { url });
+): Promise<ImportResult> {
+  return post('/api/url-download/song', { url }, importResultSchema);
 }
 
 /**
  * Get download queue
  */
 export async function getDownloadQueue(): Promise<ImportStatus[]> {
-  const response = await get<{ downloads: ImportStatus[] }>('/api/download/list');
-  return response.downloads || [];
+  const response = await get('/api/download/list', downloadListSchema);
+  return response.downloads;
 }
 
 /**
@@ -77,14 +129,14 @@ export async function getDownloadQueue(): Promise<ImportStatus[]> {
 export async function addToDownloadQueue(
   url: string
 ): Promise<{ id: string }> {
-  return post('/api/download/add', { url });
+  return post('/api/download/add', { url }, queuedDownloadSchema);
 }
 
 /**
  * Get download status
  */
 export async function getDownloadStatus(id: string): Promise<ImportStatus> {
-  return get(`/api/download/status/${id}`);
+  return get(`/api/download/status/${id}`, downloadSchema);
 }
 
 /**
@@ -98,6 +150,6 @@ export async function cancelDownload(id: string): Promise<void> {
  * Cleanup downloads - remove completed and failed downloads from the queue
  */
 export async function cleanupDownloads(): Promise<{ success: boolean; removed: number }> {
-  return post('/api/download/cleanup');
+  return post('/api/download/cleanup', undefined, cleanupSchema);
 }
 
@@ -1,5 +1,7 @@
 // Re-export all API modules
 export * from './client';
+export { ApiContractError } from './schema';
+export * from './cache';
 export * from './auth';
 export * from './library';
 export * from './playlists';
@@ -8,3 +10,5 @@ export * from './analytics';
 export * from './import';
 export * from './music';
 
+export * from './user';
+export * from './devices';
@@ -1,4 +1,6 @@
-import { get, post } from './client';
+import { get, post, isAbortError } from './client';
+import { cachedQuery, invalidateQueries } from './cache';
+import { s, ApiContractError } from './schema';
 
 export interface Track {
   id: number;
@@ -12,6 +14,13 @@ export interface Track {
   genre: string | null;
   year: number | null;
   track_number: number | null;
+  // Loudness data from the library scanner (gain in dB, peak as linear amplitude)
+  replaygain_track_gain?: number | null;
+  replaygain_track_peak?: number | null;
+  replaygain_album_gain?: number | null;
+  replaygain_album_peak?: number | null;
+  // Queued by autoplay radio rather than the album/playlist (client only)
+  autoplay?: boolean;
 }
 
 export interface Artist {
@@ -48,12 +57,128 @@ export interface AlbumDetail {
 
 export type AlbumDetailResult = AlbumDetail | null;
 
+export type LibrarySort = 'title' | 'artist' | 'album' | 'added_at' | 'duration';
+
+// Sorting and filtering of the track list, applied by the server
+export interface LibraryQuery {
+  sort: LibrarySort;
+  order: 'asc' | 'desc';
+  q?: string;
+  artist?: string;
+  album?: string;
+}
+
+export interface LibraryPage {
+  tracks: Track[];
+  nextCursor: string | null; // null on the last page
+  total?: number; // Tracks matching the query, over all pages; first page only
+}
+
+// Query cache keys, invalidated together under 'library/'
+export const libraryKeys = {
+  all: 'library/',
+  tracks: (params: string) => `library/tracks?${params}`,
+  artists: 'library/artists',
+  albums: 'library/albums',
+  artist: (name: string) => `library/artist/${name}`,
+  album: (name: string) => `library/album/${name}`,
+};
+
+// The library only changes on scans and downloads, detail views a bit more often
+const LIBRARY_TTL = 5 * 60 * 1000;
+const DETAIL_TTL = 2 * 60 * 1000;
+
+const LIBRARY_PAGE_SIZE = 100;
+
+// A music_library row. Tags the scanner couldn't read come back as null.
+export const trackFields = {
+  id: s.number(),
+  title: s.string().or(''),
+  artist: s.string().or(''),
+  album: s.string().or(''),
+  album_cover: s.string().nullable(),
+  artist_image: s.string().nullable(),
+  duration: s.number().or(0),
+  file_path: s.string(),
+  genre: s.string().nullable(),
+  year: s.number().nullable(),
+  track_number: s.number().nullable(),
+  replaygain_track_gain: s.number().nullable(),
+  replaygain_track_peak: s.number().nullable(),
+  replaygain_album_gain: s.number().nullable(),
+  replaygain_album_peak: s.number().nullable(),
+};
+
+export const trackSchema = s.object(trackFields);
+
+const tracksSchema = s.array(trackSchema);
+
+const libraryPageSchema = s.object({
+  tracks: tracksSchema,
+  nextCursor: s.string().nullable(),
+  total: s.number().optional(),
+});
+
+const searchSchema = s.object({
+  songs: tracksSchema,
+  artists: s.array(s.object({
+    artist: s.string(),
+    artist_image: s.string().nullable(),
+    track_count: s.number(),
+  })),
+  albums: s.array(s.object({
+    album: s.string(),
+    artist: s.string().or(''),
+    album_cover: s.string().nullable(),
+    track_count: s.number(),
+  })),
+});
+
+const artistsSchema = s.array(s.object({
+  name: s.string(),
+  artistImage: s.string().nullable(),
+  trackCount: s.number(),
+}).map((raw): Artist => ({
+  name: raw.name,
+  image: raw.artistImage,
+  track_count: raw.trackCount,
+})));
+
+const albumsSchema = s.array(s.object({
+  album: s.string(),
+  artist: s.string().or(''),
+  albumCover: s.string().nullable(),
+  trackCount: s.number(),
+}).map((raw): Album => ({
+  name: raw.album,
+  artist: raw.artist,
+  cover: normalizeArtworkPath(raw.albumCover),
+  track_count: raw.trackCount,
+  year: null,
+})));
+
+/**
+ * Query string for a page of the library, also its cache key
+ */
+export function libraryPageParams(query: LibraryQuery, cursor?: string | null): string {
+  const params = new URLSearchParams({ sort: query.sort, order: query.order, limit: String(LIBRARY_PAGE_SIZE) });
+  if (query.q) params.set('q', query.q);
+  if (query.artist) params.set('artist', query.artist);
+  if (query.album) params.set('album', query.album);
+  if (cursor) params.set('cursor', cursor);
+  return params.toString();
+}
+
 /**
- * Get all tracks in library
+ * Get one page of the library; pass the previous page's nextCursor for the next
  */
-export async function getLibrary(): Promise<Track[]> {
-  const response = await get<{ tracks: Track[] } | Track[]>('/api/library/library');
-  return Array.isArray(response) ? response : response.tracks || [];
+export async function getLibraryPage(query: LibraryQuery, cursor?: string | null): Promise<LibraryPage> {
+  const params = libraryPageParams(query, cursor);
+  return cachedQuery(
+    libraryKeys.tracks(params),
+    () => get(`/api/library/tracks?${params}`, libraryPageSchema),
+    { ttl: LIBRARY_TTL }
+  );
 }
 
 /**
@@ -68,27 +193,21 @@ export interface FullSearchResult {
 /**
  * Search the library
  */
-export async function searchLibrary(query: string, type: string = 'all'): Promise<SearchResult & { fullResults?: FullSearchResult }> {
-  const response = await get<{ 
-    songs?: Track[]; 
-    artists?: { artist: string; artist_image: string | null; track_count: number }[];
-    albums?: { album: string; artist: string; album_cover: string | null; track_count: number }[];
-    results?: Track[]; 
-    total?: number 
-  }>(
-    `/api/library/search?q=${encodeURIComponent(query)}&type=${type}`
+export async function searchLibrary(
+  query: string,
+  type: string = 'all',
+  signal?: AbortSignal
+): Promise<SearchResult & { fullResults?: FullSearchResult }> {
+  const response = await get(
+    `/api/library/search?q=${encodeURIComponent(query)}&type=${type}`,
+    searchSchema,
+    signal
   );
   
-  // Backend returns 'songs', normalize to 'results'
-  const results = response.songs || response.results || [];
   return {
-    results,
-    total: response.total || results.length,
-    fullResults: {
-      songs: response.songs || [],
-      artists: response.artists || [],
-      albums: response.albums || [],
-    }
+    results: response.songs,
+    total: response.songs.length,
+    fullResults: response,
   };
 }
 
@@ -96,36 +215,14 @@ export async function searchLibrary(query: string, type: string = 'all'): Promis
  * Get all unique artists
  */
 export async function getArtists(): Promise<Artist[]> {
-  const response = await get<{ artists: Artist[] } | Artist[]>('/api/library/artists');
-  return Array.isArray(response) ? response : response.artists || [];
-}
-
-// Raw album response from API
-interface RawAlbum {
-  album: string;
-  artist: string;
-  albumCover?: string;  // API uses albumCover
-  cover?: string;       // Some endpoints use cover
-  trackCount?: number;
-  track_count?: number;
-  year?: number | null;
+  return cachedQuery(libraryKeys.artists, () => get('/api/library/artists', artistsSchema), { ttl: LIBRARY_TTL });
 }
 
 /**
  * Get all unique albums
  */
 export async function getAlbums(): Promise<Album[]> {
-  const response = await get<{ albums: RawAlbum[] } | RawAlbum[]>('/api/library/albums');
-  const rawAlbums = Array.isArray(response) ? response : response.albums || [];
-  
-  // Normalize the response
-  return rawAlbums.map((raw) => ({
-    name: raw.album,
-    artist: raw.artist,
-    cover: normalizeArtworkPath(raw.albumCover || raw.cover || null),
-    track_count: raw.trackCount || raw.track_count || 0,
-    year: raw.year || null,
-  }));
+  return cachedQuery(libraryKeys.albums, () => get('/api/library/albums', albumsSchema), { ttl: LIBRARY_TTL });
 }
 
 /**
@@ -143,23 +240,14 @@ function normalizeArtworkPath(path: string | null): string | null {
 /**
  * Get artist details
  */
-export async function getArtistDetail(artistName: string): Promise<ArtistDetail | null> {
+export async function getArtistDetail(artistName: string, signal?: AbortSignal): Promise<ArtistDetail | null> {
   try {
-    // Backend returns array of tracks for this artist
-    const response = await get<Track[] | { tracks?: Track[]; songs?: Track[] }>(
-      `/api/library/artist/${encodeURIComponent(artistName)}`
+    const tracks = await cachedQuery(
+      libraryKeys.artist(artistName),
+      (requestSignal) => get(`/api/library/artist/${encodeURIComponent(artistName)}`, tracksSchema, requestSignal),
+      { ttl: DETAIL_TTL, signal }
     );
     
-    let tracks: Track[] = [];
-    
-    if (Array.isArray(response)) {
-      tracks = response;
-    } else if (response.tracks) {
-      tracks = response.tracks;
-    } else if (response.songs) {
-      tracks = response.songs;
-    }
-    
     if (tracks.length === 0) {
       return null;
     }
@@ -192,6 +280,8 @@ export async function getArtistDetail(artistName: string): Promise<ArtistDetail
       albums: Array.from(albumMap.values()),
     };
   } catch (error) {
+    // A malformed response is a bug worth surfacing, not a missing artist
+    if (error instanceof ApiContractError || isAbortError(error)) throw error;
     console.error('Failed to get artist detail:', error);
     return null;
   }
@@ -200,23 +290,14 @@ export async function getArtistDetail(artistName: string): Promise<ArtistDetail
 /**
  * Get album details
  */
-export async function getAlbumDetail(albumName: string): Promise<AlbumDetail | null> {
+export async function getAlbumDetail(albumName: string, signal?: AbortSignal): Promise<AlbumDetail | null> {
   try {
-    // Backend returns array of tracks for this album
-    const response = await get<Track[] | { tracks?: Track[]; songs?: Track[] }>(
-      `/api/library/album/${encodeURIComponent(albumName)}`
+    const tracks = await cachedQuery(
+      libraryKeys.album(albumName),
+      (requestSignal) => get(`/api/library/album/${encodeURIComponent(albumName)}`, tracksSchema, requestSignal),
+      { ttl: DETAIL_TTL, signal }
     );
     
-    let tracks: Track[] = [];
-    
-    if (Array.isArray(response)) {
-      tracks = response;
-    } else if (response.tracks) {
-      tracks = response.tracks;
-    } else if (response.songs) {
-      tracks = response.songs;
-    }
-    
     if (tracks.length === 0) {
       return null;
     }
@@ -234,39 +315,72 @@ export async function getAlbumDetail(albumName: string): Promise<AlbumDetail | n
       album_cover: albumCover,
     };
   } catch (error) {
+    if (error instanceof ApiContractError || isAbortError(error)) throw error;
     console.error('Failed to get album detail:', error);
     return null;
   }
 }
 
+/**
+ * Get tracks to keep playing after the queue ends (autoplay radio),
+ * based on the last tracks played
+ */
+export async function getAutoplayTracks(
+  seedIds: number[],
+  excludeIds: number[] = [],
+  limit = 10
+): Promise<Track[]> {
+  return post('/api/library/autoplay', { seedIds, excludeIds, limit }, tracksSchema);
+}
+
 // ============ Library Management ============
 
 export interface ScanResult {
   success: boolean;
+  scanned: number;
   added: number;
-  updated: number;
-  removed: number;
   message?: string;
 }
 
 export interface CleanupResult {
   success: boolean;
   duplicatesRemoved: number;
-  missingRemoved: number;
+  unknownArtistsRemoved: number;
+  missingFilesRemoved: number;
+  totalRemoved: number;
   message?: string;
 }
 
+const scanSchema = s.object({
+  success: s.flag(),
+  scanned: s.number(),
+  added: s.number(),
+  message: s.string().optional(),
+});
+
+const cleanupSchema = s.object({
+  success: s.flag(),
+  duplicatesRemoved: s.number(),
+  unknownArtistsRemoved: s.number(),
+  missingFilesRemoved: s.number(),
+  totalRemoved: s.number(),
+  message: s.string().optional(),
+});
+
 /**
  * Scan music directory for new songs
  */
 export async function scanLibrary(): Promise<ScanResult> {
-  return post<ScanResult>('/api/library/scan');
+  const result = await post('/api/library/scan', undefined, scanSchema);
+  invalidateQueries(libraryKeys.all);
+  return result;
 }
 
 /**
  * Cleanup library - remove duplicates and missing files
  */
 export async function cleanupLibrary(): Promise<CleanupResult> {
-  return post<CleanupResult>('/api/library/cleanup');
+  const result = await post('/api/library/cleanup', undefined, cleanupSchema);
+  invalidateQueries(libraryKeys.all);
+  return result;
 }
-
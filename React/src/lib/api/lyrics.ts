@@ -1,4 +1,5 @@
 import { get } from './client';
+import { s } from './schema';
 
 export interface LyricsResponse {
   success: boolean;
@@ -8,6 +9,15 @@ export interface LyricsResponse {
   error?: string;
 }
 
+// Misses come back as { success: false, error } without the lyric fields
+const lyricsSchema = s.object({
+  success: s.flag(),
+  syncedLyrics: s.string().nullable(),
+  plainLyrics: s.string().nullable(),
+  instrumental: s.flag().or(false),
+  error: s.string().optional(),
+});
+
 /**
  * Fetch lyrics for a track
  */
@@ -25,7 +35,7 @@ export async function fetchLyrics(
   });
   
   try {
-    return await get<LyricsResponse>(`/api/lyrics?${params}`);
+    return await get(`/api/lyrics?${params}`, lyricsSchema);
   } catch {
     return {
       success: false,
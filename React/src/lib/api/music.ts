@@ -1,4 +1,5 @@
 import { get, post } from './client';
+import { s } from './schema';
 
 export interface OnlineTrack {
   id: string;
@@ -44,18 +45,6 @@ export interface OnlineAlbumDetail extends OnlineAlbum {
   duration?: number;
 }
 
-// Raw response from Deezer API
-interface RawOnlineTrack {
-  id: number;
-  title: string;
-  artist: string;
-  album: string;
-  duration: number;
-  preview: string;
-  image: string;
-  source: 'deezer' | 'youtube';
-}
-
 export interface OnlineSearchResult {
   results: OnlineTrack[];
   total: number;
@@ -67,100 +56,128 @@ export interface SmartSearchResult {
   albums: OnlineAlbum[];
 }
 
+// Deezer leaves fields out (no preview, no cover), those come back empty
+const onlineTrackSchema = s.object({
+  id: s.id(),
+  title: s.string(),
+  artist: s.string(),
+  artistId: s.id().optional(),
+  album: s.string().or(''),
+  albumId: s.id().optional(),
+  image: s.string().or(''),
+  duration: s.number().or(0),
+  preview: s.string().or(''),
+}).map((raw): OnlineTrack => ({
+  id: raw.id,
+  title: raw.title,
+  artist: raw.artist,
+  artistId: raw.artistId,
+  album: raw.album,
+  albumId: raw.albumId,
+  artwork: raw.image,
+  duration: raw.duration,
+  preview: raw.preview,
+  source: 'deezer',
+}));
+
+const onlineArtistSchema = s.object({
+  id: s.id(),
+  name: s.string(),
+  image: s.string().or(''),
+  fans: s.number().optional(),
+}).map((raw): OnlineArtist => ({ ...raw, source: 'deezer' }));
+
+const onlineAlbumSchema = s.object({
+  id: s.id(),
+  title: s.string(),
+  artist: s.string(),
+  artistId: s.id().optional(),
+  image: s.string().or(''),
+  trackCount: s.number().optional(),
+}).map((raw): OnlineAlbum => ({ ...raw, source: 'deezer' }));
+
+const smartSearchSchema = s.object({
+  tracks: s.array(onlineTrackSchema),
+  artists: s.array(onlineArtistSchema),
+  albums: s.array(onlineAlbumSchema),
+});
+
+const onlineArtistDetailSchema = s.object({
+  id: s.id(),
+  name: s.string(),
+  image: s.string().or(''),
+  fans: s.number().optional(),
+  albums: s.array(s.object({
+    id: s.id(),
+    title: s.string(),
+    image: s.string().or(''),
+    releaseDate: s.string().optional(),
+    trackCount: s.number().optional(),
+    type: s.string().optional(),
+  })),
+});
+
+const onlineAlbumDetailSchema = s.object({
+  id: s.id(),
+  title: s.string(),
+  artist: s.string(),
+  artistId: s.id().optional(),
+  image: s.string().or(''),
+  releaseDate: s.string().optional(),
+  trackCount: s.number().optional(),
+  duration: s.number().optional(),
+  tracks: s.array(s.object({
+    id: s.id(),
+    title: s.string(),
+    artist: s.string().optional(),
+    duration: s.number().or(0),
+    trackNumber: s.number().optional(),
+    preview: s.string().or(''),
+  })),
+});
+
+const queuedDownloadSchema = s.object({
+  success: s.flag(),
+  message: s.string().or(''),
+  downloadId: s.string().optional(),
+});
+
+const existsSchema = s.object({
+  tracks: s.record(s.flag()),
+  albums: s.record(s.flag()),
+});
+
 /**
  * Search for music online (Deezer API)
  */
-export async function searchOnline(query: string): Promise<OnlineSearchResult> {
-  const response = await get<RawOnlineTrack[] | { results?: OnlineTrack[] }>(
-    `/api/music/search?q=${encodeURIComponent(query)}`
+export async function searchOnline(query: string, signal?: AbortSignal): Promise<OnlineSearchResult> {
+  const results = await get(
+    `/api/music/search?q=${encodeURIComponent(query)}`,
+    s.array(onlineTrackSchema),
+    signal
   );
-  
-  // API returns array directly, normalize to our format
-  if (Array.isArray(response)) {
-    const results: OnlineTrack[] = response.map((track) => ({
-      id: String(track.id),
-      title: track.title,
-      artist: track.artist,
-      album: track.album,
-      duration: track.duration,
-      preview: track.preview,
-      artwork: track.image, // Map 'image' to 'artwork'
-      source: track.source,
-    }));
-    return { results, total: results.length };
-  }
-  
-  return { results: response.results || [], total: response.results?.length || 0 };
+  return { results, total: results.length };
 }
 
 /**
  * Smart search - returns tracks, artists, albums at once
  */
-export async function smartSearchOnline(query: string): Promise<SmartSearchResult> {
-  const response = await get<{
-    tracks: Array<{ id: number; title: string; artist: string; artistId?: number; album?: string; albumId?: number; image?: string; duration?: number; preview?: string; source: string }>;
-    artists: Array<{ id: number; name: string; image?: string; fans?: number; source: string }>;
-    albums: Array<{ id: number; title: string; artist: string; artistId?: number; image?: string; trackCount?: number; source: string }>;
-  }>(`/api/music/smart-search?q=${encodeURIComponent(query)}`);
-  
-  return {
-    tracks: (response.tracks || []).map(t => ({
-      id: String(t.id),
-      title: t.title,
-      artist: t.artist,
-      artistId: t.artistId ? String(t.artistId) : undefined,
-      album: t.album || '',
-      albumId: t.albumId ? String(t.albumId) : undefined,
-      artwork: t.image || '',
-      duration: t.duration || 0,
-      preview: t.preview || '',
-      source: 'deezer' as const,
-    })),
-    artists: (response.artists || []).map(a => ({
-      id: String(a.id),
-      name: a.name,
-      image: a.image || '',
-      fans: a.fans,
-      source: 'deezer' as const,
-    })),
-    albums: (response.albums || []).map(a => ({
-      id: String(a.id),
-      title: a.title,
-      artist: a.artist,
-      artistId: a.artistId ? String(a.artistId) : undefined,
-      image: a.image || '',
-      trackCount: a.trackCount,
-      source: 'deezer' as const,
-    })),
-  };
+export async function smartSearchOnline(query: string, signal?: AbortSignal): Promise<SmartSearchResult> {
+  return get(`/api/music/smart-search?q=${encodeURIComponent(query)}`, smartSearchSchema, signal);
 }
 
 /**
  * Get online artist details with albums
  */
-export async function getOnlineArtist(artistId: string): Promise<OnlineArtistDetail> {
-  const response = await get<{
-    id: number;
-    name: string;
-    image?: string;
-    fans?: number;
-    albums: Array<{ id: number; title: string; image?: string; releaseDate?: string; trackCount?: number; type?: string }>;
-  }>(`/api/music/artist/${artistId}`);
+export async function getOnlineArtist(artistId: string, signal?: AbortSignal): Promise<OnlineArtistDetail> {
+  const response = await get(`/api/music/artist/${artistId}`, onlineArtistDetailSchema, signal);
   
   return {
-    id: String(response.id),
-    name: response.name,
-    image: response.image || '',
-    fans: response.fans,
+    ...response,
     source: 'deezer',
-    albums: (response.albums || []).map(a => ({
-      id: String(a.id),
-      title: a.title,
+    albums: response.albums.map(a => ({
+      ...a,
       artist: response.name,
-      image: a.image || '',
-      releaseDate: a.releaseDate,
-      trackCount: a.trackCount,
-      type: a.type,
       source: 'deezer' as const,
     })),
   };
@@ -169,39 +186,18 @@ export async function getOnlineArtist(artistId: string): Promise<OnlineArtistDet
 /**
  * Get online album details with tracks
  */
-export async function getOnlineAlbum(albumId: string): Promise<OnlineAlbumDetail> {
-  const response = await get<{
-    id: number;
-    title: string;
-    artist: string;
-    artistId?: number;
-    image?: string;
-    releaseDate?: string;
-    trackCount?: number;
-    duration?: number;
-    tracks: Array<{ id: number; title: string; artist?: string; duration?: number; trackNumber?: number; preview?: string }>;
-  }>(`/api/music/album/${albumId}`);
+export async function getOnlineAlbum(albumId: string, signal?: AbortSignal): Promise<OnlineAlbumDetail> {
+  const response = await get(`/api/music/album/${albumId}`, onlineAlbumDetailSchema, signal);
   
   return {
-    id: String(response.id),
-    title: response.title,
-    artist: response.artist,
-    artistId: response.artistId ? String(response.artistId) : undefined,
-    image: response.image || '',
-    releaseDate: response.releaseDate,
-    trackCount: response.trackCount,
-    duration: response.duration,
+    ...response,
     source: 'deezer',
-    tracks: (response.tracks || []).map(t => ({
-      id: String(t.id),
-      title: t.title,
+    tracks: response.tracks.map(t => ({
+      ...t,
       artist: t.artist || response.artist,
       album: response.title,
-      albumId: String(response.id),
-      artwork: response.image || '',
-      duration: t.duration || 0,
-      trackNumber: t.trackNumber,
-      preview: t.preview || '',
+      albumId: response.id,
+      artwork: response.image,
       source: 'deezer' as const,
     })),
   };
@@ -216,7 +212,7 @@ export async function downloadOnlineTrack(track: OnlineTrack): Promise<{ success
     artist: track.artist,
     title: track.title,
     album: track.album
-  });
+  }, queuedDownloadSchema);
 }
 
 /**
@@ -227,11 +223,11 @@ export async function downloadOnlineAlbum(album: OnlineAlbumDetail): Promise<{ s
   
   for (const track of album.tracks) {
     try {
-      const result = await post<{ success: boolean; downloadId?: string }>('/api/url-download/search', {
+      const result = await post('/api/url-download/search', {
         artist: track.artist,
         title: track.title,
         album: album.title
-      });
+      }, queuedDownloadSchema);
       if (result.downloadId) {
         downloadIds.push(result.downloadId);
       }
@@ -252,8 +248,9 @@ export async function downloadOnlineAlbum(album: OnlineAlbumDetail): Promise<{ s
  */
 export async function checkExistsInLibrary(
   tracks: Array<{ id: string; title: string; artist: string }>,
-  albums: Array<{ id: string; title: string; artist: string }>
+  albums: Array<{ id: string; title: string; artist: string }>,
+  signal?: AbortSignal
 ): Promise<{ tracks: Record<string, boolean>; albums: Record<string, boolean> }> {
-  return post('/api/library/check-exists', { tracks, albums });
+  return post('/api/library/check-exists', { tracks, albums }, existsSchema, signal);
 }
 
@@ -1,5 +1,7 @@
-import { get, post, put, del } from './client';
-import type { Track } from './library';
+import { get, post, put, del, isAbortError } from './client';
+import { cachedQuery, invalidateQueries } from './cache';
+import { trackSchema, type Track } from './library';
+import { s } from './schema';
 
 export interface Playlist {
   id: number;
@@ -26,12 +28,68 @@ export interface GeneratedPlaylistsResponse {
   playlists: GeneratedPlaylist[];
 }
 
+// A playlists row with its track count. Older rows predate updated_at and
+// only generated playlists carry an is_generated flag.
+const playlistFields = {
+  id: s.number(),
+  name: s.string(),
+  description: s.string().nullable(),
+  artwork: s.string().nullable(),
+  user_id: s.number(),
+  is_generated: s.flag().or(false),
+  track_count: s.number().or(0),
+  total_duration: s.number().or(0),
+  created_at: s.string().or(''),
+  updated_at: s.string().or(''),
+};
+
+const playlistSchema = s.object(playlistFields);
+
+const playlistsSchema = s.object({
+  playlists: s.array(playlistSchema),
+});
+
+// Details, creation and updates all answer { success, playlist }
+const playlistResponseSchema = s.object({
+  playlist: playlistSchema,
+}).map((response) => response.playlist);
+
+const playlistTracksSchema = s.object({
+  tracks: s.array(trackSchema),
+});
+
+// Generated playlists name their cover 'image', mapped to 'artwork'
+const generatedPlaylistsSchema = s.object({
+  playlists: s.array(s.object({
+    ...playlistFields,
+    image: s.string().nullable(),
+  }).map(({ image, ...playlist }) => ({
+    ...playlist,
+    artwork: playlist.artwork || image,
+  }))),
+});
+
+// Query cache keys
+export const playlistKeys = {
+  all: 'playlists/',
+  list: 'playlists/list',
+  generated: 'playlists/generated',
+  detail: (id: number | string) => `playlists/${id}/detail`,
+  tracks: (id: number | string) => `playlists/${id}/tracks`,
+};
+
+const PLAYLISTS_TTL = 60 * 1000;
+// Generated playlists are rebuilt once a day
+const GENERATED_TTL = 10 * 60 * 1000;
+
 /**
  * Get all user playlists
  */
 export async function getPlaylists(): Promise<Playlist[]> {
-  const response = await get<PlaylistsResponse | Playlist[]>('/api/playlists');
-  return Array.isArray(response) ? response : response.playlists || [];
+  return cachedQuery(playlistKeys.list, async () => {
+    const response = await get('/api/playlists', playlistsSchema);
+    return response.playlists;
+  }, { ttl: PLAYLISTS_TTL });
 }
 
 /**
@@ -39,38 +97,43 @@ export async function getPlaylists(): Promise<Playlist[]> {
  */
 export async function getGeneratedPlaylists(): Promise<GeneratedPlaylist[]> {
   try {
-    const response = await get<GeneratedPlaylistsResponse | GeneratedPlaylist[]>(
-      '/api/playlists/generated'
-    );
-    const playlists = Array.isArray(response) ? response : response.playlists || [];
-    
-    // Map 'image' field from backend to 'artwork' for frontend consistency
-    return playlists.map(playlist => ({
-      ...playlist,
-      artwork: playlist.artwork || (playlist as any).image || null,
-    }));
+    return await cachedQuery(playlistKeys.generated, async () => {
+      const response = await get('/api/playlists/generated', generatedPlaylistsSchema);
+      return response.playlists;
+    }, { ttl: GENERATED_TTL });
   } catch {
     return [];
   }
 }
 
 /**
- * Get a specific playlist
+ * Mark a playlist, its tracks and the playlist list stale after it changed
+ */
+export function invalidatePlaylist(id: number | string): void {
+  invalidateQueries(playlistKeys.list, playlistKeys.detail(id), playlistKeys.tracks(id));
+}
+
+/**
+ * Get a specific playlist from the server, bypassing the cache. Throws for a
+ * playlist that no longer exists.
  */
-export async function getPlaylist(id: number | string): Promise<Playlist> {
+export async function fetchPlaylist(id: number | string, signal?: AbortSignal): Promise<Playlist> {
   // Handle generated playlist IDs (like 'daily-mix-1')
   const endpoint = typeof id === 'string' && id.includes('-') 
     ? `/api/playlists/generated/${id}`
     : `/api/playlists/${id}`;
   
-  const response = await get<{ success?: boolean; playlist?: Playlist } | Playlist>(endpoint);
-  
-  // Backend returns { success, playlist } wrapper
-  if ('playlist' in response && response.playlist) {
-    return response.playlist;
-  }
-  
-  return response as Playlist;
+  return get(endpoint, playlistResponseSchema, signal);
+}
+
+/**
+ * Get a specific playlist
+ */
+export async function getPlaylist(id: number | string, signal?: AbortSignal): Promise<Playlist> {
+  return cachedQuery(playlistKeys.detail(id), (cacheSignal) => fetchPlaylist(id, cacheSignal), {
+    ttl: PLAYLISTS_TTL,
+    signal,
+  });
 }
 
 /**
@@ -96,30 +159,34 @@ function filterValidTracks(tracks: Track[]): Track[] {
 }
 
 /**
- * Get tracks in a playlist
+ * Get tracks in a playlist from the server, bypassing the cache and throwing
+ * when the request fails. For callers that must not mistake a failed request
+ * for an empty playlist, or act on a copy cached before an edit elsewhere.
  */
-export async function getPlaylistTracks(id: number | string): Promise<Track[]> {
+export async function fetchPlaylistTracks(id: number | string, signal?: AbortSignal): Promise<Track[]> {
   // Handle generated playlist IDs
   const endpoint = typeof id === 'string' && id.includes('-')
     ? `/api/playlists/generated/${id}/tracks`
     : `/api/playlists/${id}/tracks`;
   
+  const response = await get(endpoint, playlistTracksSchema, signal);
+  
+  // Filter out orphaned/invalid tracks
+  return filterValidTracks(response.tracks);
+}
+
+/**
+ * Get tracks in a playlist, empty when the request fails
+ */
+export async function getPlaylistTracks(id: number | string, signal?: AbortSignal): Promise<Track[]> {
   try {
-    const response = await get<{ success?: boolean; tracks?: Track[] } | { songs?: Track[] } | Track[]>(endpoint);
-    
-    let tracks: Track[] = [];
-    
-    if (Array.isArray(response)) {
-      tracks = response;
-    } else if ('tracks' in response && response.tracks) {
-      tracks = response.tracks;
-    } else if ('songs' in response && response.songs) {
-      tracks = response.songs;
-    }
-    
-    // Filter out orphaned/invalid tracks
-    return filterValidTracks(tracks);
-  } catch {
+    return await cachedQuery(playlistKeys.tracks(id), (cacheSignal) => fetchPlaylistTracks(id, cacheSignal), {
+      ttl: PLAYLISTS_TTL,
+      signal,
+    });
+  } catch (error) {
+    // Given up on, not empty
+    if (isAbortError(error)) throw error;
     return [];
   }
 }
@@ -131,7 +198,9 @@ export async function createPlaylist(
   name: string,
   description?: string
 ): Promise<Playlist> {
-  return post<Playlist>('/api/playlists', { name, description });
+  const playlist = await post('/api/playlists', { name, description }, playlistResponseSchema);
+  invalidateQueries(playlistKeys.list);
+  return playlist;
 }
 
 /**
@@ -141,7 +210,9 @@ export async function updatePlaylist(
   id: number | string,
   updates: { name?: string; description?: string }
 ): Promise<Playlist> {
-  return put<Playlist>(`/api/playlists/${id}`, updates);
+  const playlist = await put(`/api/playlists/${id}`, updates, playlistResponseSchema);
+  invalidatePlaylist(id);
+  return playlist;
 }
 
 /**
@@ -149,6 +220,7 @@ export async function updatePlaylist(
  */
 export async function deletePlaylist(id: number | string): Promise<void> {
   await del(`/api/playlists/${id}`);
+  invalidatePlaylist(id);
 }
 
 /**
@@ -159,6 +231,8 @@ export async function addTrackToPlaylist(
   musicId: number
 ): Promise<void> {
   await post(`/api/playlists/${playlistId}/tracks`, { musicId });
+  // Track count and artwork change
+  invalidatePlaylist(playlistId);
 }
 
 /**
@@ -169,6 +243,7 @@ export async function removeTrackFromPlaylist(
   musicId: number
 ): Promise<void> {
   await del(`/api/playlists/${playlistId}/tracks/${musicId}`);
+  invalidatePlaylist(playlistId);
 }
 
 /**
@@ -184,5 +259,7 @@ export async function reorderPlaylistTracks(
     position: index,
   }));
   await put(`/api/playlists/${playlistId}/reorder`, { trackOrders });
+  // Artwork comes from the first tracks
+  invalidatePlaylist(playlistId);
 }
 
@@ -0,0 +1,161 @@
+/**
+ * Response schemas
+ *
+ * Each endpoint declares the shape it expects back and the client checks the
+ * response against it. A response that doesn't match raises an
+ * ApiContractError naming the endpoint and the field, rather than turning
+ * into an empty list or an undefined title somewhere down the line.
+ */
+
+/**
+ * The server answered, but not with what the endpoint promises
+ */
+export class ApiContractError extends Error {
+  readonly endpoint: string;
+  readonly field: string; // Path into the response, e.g. "[3].title"
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(endpoint: string, field: string, expected: string, received: string) {
+    super(`Unexpected response from ${endpoint}: ${field || 'response'} should be ${expected}, got ${received}`);
+    this.name = 'ApiContractError';
+    this.endpoint = endpoint;
+    this.field = field;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// Thrown while walking a response, turned into an ApiContractError at the top
+class Mismatch {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: string
+  ) {}
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new Mismatch(path, expected, describe(value));
+}
+
+export class Schema<T> {
+  constructor(
+    readonly expected: string,
+    private readonly check: (value: unknown, path: string) => T
+  ) {}
+
+  parse(value: unknown, path = ''): T {
+    return this.check(value, path);
+  }
+
+  // Missing or null, passed on as null (the way SQLite columns come back)
+  nullable(): Schema<T | null> {
+    return new Schema(`${this.expected} or null`, (value, path) =>
+      value == null ? null : this.check(value, path)
+    );
+  }
+
+  optional(): Schema<T | undefined> {
+    return new Schema(`${this.expected} or nothing`, (value, path) =>
+      value === undefined ? undefined : this.check(value, path)
+    );
+  }
+
+  // Missing or null replaced by a fallback
+  or(fallback: T): Schema<T> {
+    return new Schema(this.expected, (value, path) =>
+      value == null ? fallback : this.check(value, path)
+    );
+  }
+
+  map<U>(transform: (value: T) => U): Schema<U> {
+    return new Schema(this.expected, (value, path) => transform(this.check(value, path)));
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+const string = () =>
+  new Schema<string>('a string', (value, path) =>
+    typeof value === 'string' ? value : fail(path, 'a string', value)
+  );
+
+const number = () =>
+  new Schema<number>('a number', (value, path) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'a number', value)
+  );
+
+// SQLite has no booleans, flags come back as 0 or 1
+const flag = () =>
+  new Schema<boolean>('a boolean', (value, path) =>
+    typeof value === 'boolean' ? value
+      : value === 0 || value === 1 ? value === 1
+      : fail(path, 'a boolean', value)
+  );
+
+// Deezer ids are numbers, the app keys online items by string
+const id = () =>
+  new Schema<string>('an id', (value, path) =>
+    typeof value === 'number' || (typeof value === 'string' && value !== '')
+      ? String(value)
+      : fail(path, 'an id', value)
+  );
+
+const array = <T>(item: Schema<T>) =>
+  new Schema<T[]>(`an array of ${item.expected}`, (value, path) =>
+    Array.isArray(value)
+      ? value.map((entry, i) => item.parse(entry, `${path}[${i}]`))
+      : fail(path, 'an array', value)
+  );
+
+// Only the declared fields are kept, anything else the server sends is dropped
+const object = <S extends Shape>(shape: S) =>
+  new Schema<{ [K in keyof S]: Infer<S[K]> }>('an object', (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(path, 'an object', value);
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      result[key] = shape[key].parse(source[key], path ? `${path}.${key}` : key);
+    }
+    return result as { [K in keyof S]: Infer<S[K]> };
+  });
+
+// Objects used as maps, e.g. { [trackId]: exists }
+const record = <T>(item: Schema<T>) =>
+  new Schema<Record<string, T>>(`an object of ${item.expected}`, (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(path, 'an object', value);
+    }
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = item.parse(entry, path ? `${path}.${key}` : key);
+    }
+    return result;
+  });
+
+export const s = { string, number, flag, id, array, object, record };
+
+/**
+ * Check a response against its schema, naming the endpoint when it doesn't fit
+ */
+export function parseResponse<T>(endpoint: string, schema: Schema<T>, value: unknown): T {
+  try {
+    return schema.parse(value);
+  } catch (error) {
+    if (error instanceof Mismatch) {
+      throw new ApiContractError(endpoint, error.path, error.expected, error.received);
+    }
+    throw error;
+  }
+}
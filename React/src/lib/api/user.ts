@@ -0,0 +1,104 @@
+import { get, post } from './client';
+import { trackFields, type Track } from './library';
+import { s } from './schema';
+import type { StoredEqualizer } from '../audio/equalizer';
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+/**
+ * Snapshot of the player that survives reloads and follows the account
+ */
+export interface PlaybackSession {
+  queue: Track[];
+  queueIndex: number;
+  originalQueue: Track[];
+  userQueue?: Track[]; // Manually queued tracks ("Play next" / "Add to queue")
+  currentTime: number;
+  isShuffled: boolean;
+  repeatMode: RepeatMode;
+  updatedAt: number; // ms timestamp, newest session wins
+}
+
+export interface UserPreferences {
+  theme: string;
+  username: string;
+  playbackSession: PlaybackSession | null;
+  equalizer: StoredEqualizer | null; // null until a device first saves its EQ
+}
+
+const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+// Queued tracks keep the client-only autoplay marker through the round trip
+const sessionTrackSchema = s.object({
+  ...trackFields,
+  autoplay: s.flag().optional(),
+});
+
+// Stored as the client sent it, see savePlaybackSession
+const playbackSessionSchema = s.object({
+  queue: s.array(sessionTrackSchema),
+  queueIndex: s.number(),
+  originalQueue: s.array(sessionTrackSchema),
+  userQueue: s.array(sessionTrackSchema).optional(),
+  currentTime: s.number().or(0),
+  isShuffled: s.flag().or(false),
+  repeatMode: s.string().map((mode) =>
+    REPEAT_MODES.includes(mode as RepeatMode) ? (mode as RepeatMode) : 'off'
+  ),
+  updatedAt: s.number().or(0),
+});
+
+// Gains are clamped to the band layout when the settings are adopted
+const equalizerSchema = s.object({
+  userPresets: s.array(s.object({
+    id: s.string(),
+    name: s.string(),
+    gains: s.array(s.number()),
+  })).or([]),
+  outputs: s.record(s.object({
+    enabled: s.flag().or(false),
+    presetId: s.string().nullable(),
+    gains: s.array(s.number()),
+  })).or({}),
+  updatedAt: s.number().or(0),
+});
+
+const preferencesSchema = s.object({
+  theme: s.string(),
+  username: s.string(),
+  playbackSession: playbackSessionSchema.nullable(),
+  equalizer: equalizerSchema.nullable(),
+});
+
+const listenHistorySchema = s.object({
+  trackIds: s.array(s.number()).or([]),
+});
+
+/**
+ * Get the current user's preferences
+ */
+export async function getPreferences(): Promise<UserPreferences> {
+  return get('/api/user/preferences', preferencesSchema);
+}
+
+/**
+ * Store the playback session on the server (null clears it)
+ */
+export async function savePlaybackSession(session: PlaybackSession | null): Promise<void> {
+  await post('/api/user/playback-session', { session });
+}
+
+/**
+ * Store the EQ presets and per-output profiles on the server
+ */
+export async function saveEqualizerSettings(equalizer: StoredEqualizer): Promise<void> {
+  await post('/api/user/equalizer', { equalizer });
+}
+
+/**
+ * Get the IDs of the tracks the current user listened to most recently, newest first
+ */
+export async function getListenHistory(limit = 200): Promise<number[]> {
+  const response = await get(`/api/user/listen-history?limit=${limit}`, listenHistorySchema);
+  return response.trackIds;
+}
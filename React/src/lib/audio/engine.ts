@@ -0,0 +1,449 @@
+/**
+ * Two-deck audio engine
+ *
+ * Owns two HTMLAudioElements ("decks"). One deck plays the current track while
+ * the other preloads the next queue entry, so switching tracks is a deck swap
+ * instead of a new network request. Optionally crossfades between the decks.
+ *
+ * Each deck is routed through its own Web Audio gain node so loudness
+ * normalization can boost as well as cut, independent of the volume fader.
+ * Both decks then share the equalizer's filter chain on the way out.
+ */
+
+import { dbToGain } from './loudness';
+import { EQ_BANDS } from './equalizer';
+
+export type EngineEvent = 'timeupdate' | 'loadedmetadata' | 'ended' | 'error' | 'fadepoint';
+
+type EngineListener = (deck: HTMLAudioElement) => void;
+
+// Step interval for volume ramps (ms)
+const FADE_STEP_MS = 50;
+
+// Maximum crossfade length in seconds
+export const MAX_CROSSFADE_SECONDS = 12;
+
+// Playback speed range and the steps offered in the UI
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+export const PLAYBACK_RATE_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+function createDeck(): HTMLAudioElement {
+  const deck = new Audio();
+  deck.crossOrigin = 'use-credentials';
+  deck.preload = 'auto';
+  return deck;
+}
+
+export class AudioEngine {
+  private decks: [HTMLAudioElement, HTMLAudioElement] | null = null;
+  private context: AudioContext | null = null;
+  private gainNodes: [GainNode, GainNode] | null = null;
+  private filters: BiquadFilterNode[] = [];
+  private eqGains: number[] | null = null;
+  private activeIndex = 0;
+  private preloadedUrl: string | null = null;
+  private listeners = new Map<EngineEvent, Set<EngineListener>>();
+  private fadeTimer: number | null = null;
+  private fadeDeck: HTMLAudioElement | null = null;
+  private pendingPreload: string | null = null;
+  private pendingPreloadGain = 0;
+  private fadePointFired = false;
+  private volume = 1;
+  private muted = false;
+  private fadeOutLevel = 1;
+  private loop = false;
+  private crossfadeSeconds = 0;
+  private playbackRate = 1;
+  private preservesPitch = true;
+
+  /**
+   * Create decks lazily so importing the engine has no side effects outside the browser.
+   * Settings made before then are only stored, and applied here.
+   */
+  private getDecks(): [HTMLAudioElement, HTMLAudioElement] {
+    if (!this.decks) {
+      this.decks = [createDeck(), createDeck()];
+      this.decks.forEach((deck) => {
+        this.attachDeck(deck);
+        this.applyRate(deck);
+      });
+      this.decks[this.activeIndex].volume = this.outputVolume;
+      this.decks[this.activeIndex].loop = this.loop;
+      this.connectGraph(this.decks);
+    }
+    return this.decks;
+  }
+
+  /**
+   * Route both decks through gain nodes and the EQ filters. Without Web Audio
+   * the decks play directly and normalization and EQ are skipped.
+   */
+  private connectGraph(decks: [HTMLAudioElement, HTMLAudioElement]) {
+    const AudioContextClass = window.AudioContext
+      || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    try {
+      const context = new AudioContextClass();
+      const filters = EQ_BANDS.map((band, i) => {
+        const filter = context.createBiquadFilter();
+        filter.type = band.type;
+        filter.frequency.value = band.frequency;
+        filter.Q.value = band.q;
+        filter.gain.value = this.eqGains?.[i] ?? 0;
+        return filter;
+      });
+      filters.slice(1).forEach((filter, i) => filters[i].connect(filter));
+      filters[filters.length - 1].connect(context.destination);
+
+      const nodes = decks.map((deck) => {
+        const gain = context.createGain();
+        context.createMediaElementSource(deck).connect(gain);
+        gain.connect(filters[0]);
+        return gain;
+      });
+      this.context = context;
+      this.filters = filters;
+      this.gainNodes = [nodes[0], nodes[1]];
+    } catch (err) {
+      console.warn('⚠️ Web Audio unavailable, normalization and EQ disabled:', err);
+    }
+  }
+
+  /**
+   * Contexts created outside a user gesture start suspended
+   */
+  private resumeContext() {
+    if (this.context?.state === 'suspended') {
+      this.context.resume().catch(console.error);
+    }
+  }
+
+  private setDeckGain(deck: HTMLAudioElement, gainDb: number, smooth = false) {
+    if (!this.gainNodes || !this.context || !this.decks) return;
+
+    const node = this.gainNodes[this.decks.indexOf(deck)];
+    const value = dbToGain(gainDb);
+    if (smooth) {
+      node.gain.setTargetAtTime(value, this.context.currentTime, 0.1);
+    } else {
+      node.gain.cancelScheduledValues(this.context.currentTime);
+      node.gain.value = value;
+    }
+  }
+
+  private attachDeck(deck: HTMLAudioElement) {
+    deck.addEventListener('timeupdate', () => {
+      if (deck !== this.active) return;
+      this.checkFadePoint(deck);
+      this.emit('timeupdate', deck);
+    });
+    deck.addEventListener('loadedmetadata', () => {
+      if (deck === this.active) this.emit('loadedmetadata', deck);
+    });
+    deck.addEventListener('ended', () => {
+      if (deck === this.active) this.emit('ended', deck);
+    });
+    deck.addEventListener('error', () => {
+      // A failed preload shouldn't surface as a playback error
+      if (deck === this.active) {
+        this.emit('error', deck);
+      } else if (this.preloadedUrl) {
+        this.preloadedUrl = null;
+      }
+    });
+  }
+
+  /**
+   * The deck that is currently audible
+   */
+  get active(): HTMLAudioElement {
+    return this.getDecks()[this.activeIndex];
+  }
+
+  private get standby(): HTMLAudioElement {
+    return this.getDecks()[1 - this.activeIndex];
+  }
+
+  on(event: EngineEvent, listener: EngineListener): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return () => {
+      this.listeners.get(event)?.delete(listener);
+    };
+  }
+
+  private emit(event: EngineEvent, deck: HTMLAudioElement) {
+    this.listeners.get(event)?.forEach((listener) => listener(deck));
+  }
+
+  /**
+   * Fire 'fadepoint' once per track when the remaining time drops below the crossfade length
+   */
+  private checkFadePoint(deck: HTMLAudioElement) {
+    if (this.fadePointFired || this.loop || this.crossfadeSeconds <= 0) return;
+    if (!deck.duration || !isFinite(deck.duration)) return;
+
+    // Remaining wall-clock time, so the fade starts on time at any speed
+    const remaining = (deck.duration - deck.currentTime) / this.playbackRate;
+    if (remaining <= this.crossfadeSeconds) {
+      this.fadePointFired = true;
+      this.emit('fadepoint', deck);
+    }
+  }
+
+  /**
+   * Play a URL on the active deck. If the URL is already buffered on the
+   * standby deck, swap decks instead so playback starts without a gap.
+   * gainDb is the loudness normalization gain for the track, startAt the
+   * position to start from.
+   */
+  load(url: string, fadeSeconds = 0, gainDb = 0, startAt = 0): Promise<void> {
+    this.resumeContext();
+    if (this.preloadedUrl === url) {
+      this.setDeckGain(this.standby, gainDb);
+      return this.swap(fadeSeconds);
+    }
+
+    this.cancelFade();
+    const deck = this.active;
+    this.resetDeck(this.standby);
+    this.preloadedUrl = null;
+    this.fadePointFired = false;
+
+    deck.src = url;
+    deck.loop = this.loop;
+    deck.volume = this.outputVolume;
+    if (startAt > 0) {
+      // Applied as the start position once metadata has loaded
+      deck.currentTime = startAt;
+    }
+    this.setDeckGain(deck, gainDb);
+    return deck.play();
+  }
+
+  /**
+   * Buffer a URL on the standby deck so the next load() can start instantly
+   */
+  preload(url: string | null, gainDb = 0) {
+    const deck = this.standby;
+    if (url === this.preloadedUrl) {
+      if (url && deck !== this.fadeDeck) this.setDeckGain(deck, gainDb);
+      return;
+    }
+
+    // Don't interrupt a deck that is still fading out - preload once the fade completes
+    if (deck === this.fadeDeck) {
+      this.pendingPreload = url;
+      this.pendingPreloadGain = gainDb;
+      return;
+    }
+
+    if (!url) {
+      this.resetDeck(deck);
+      this.preloadedUrl = null;
+      return;
+    }
+
+    deck.src = url;
+    deck.load();
+    this.setDeckGain(deck, gainDb);
+    this.preloadedUrl = url;
+  }
+
+  private swap(fadeSeconds: number): Promise<void> {
+    this.cancelFade();
+    const outgoing = this.active;
+    this.activeIndex = 1 - this.activeIndex;
+    const incoming = this.active;
+    this.preloadedUrl = null;
+    this.fadePointFired = false;
+
+    incoming.currentTime = 0;
+    incoming.loop = this.loop;
+    outgoing.loop = false;
+
+    if (fadeSeconds > 0 && !outgoing.paused) {
+      incoming.volume = 0;
+      this.crossfade(outgoing, incoming, fadeSeconds);
+    } else {
+      this.resetDeck(outgoing);
+      incoming.volume = this.outputVolume;
+    }
+
+    return incoming.play();
+  }
+
+  private crossfade(outgoing: HTMLAudioElement, incoming: HTMLAudioElement, seconds: number) {
+    const steps = Math.max(1, Math.round((seconds * 1000) / FADE_STEP_MS));
+    let step = 0;
+    this.fadeDeck = outgoing;
+
+    this.fadeTimer = window.setInterval(() => {
+      step++;
+      const progress = Math.min(1, step / steps);
+      const target = this.outputVolume;
+      // Equal-power curve keeps perceived loudness steady through the fade
+      incoming.volume = target * Math.sin((progress * Math.PI) / 2);
+      outgoing.volume = target * Math.cos((progress * Math.PI) / 2);
+
+      if (progress >= 1) {
+        this.cancelFade();
+      }
+    }, FADE_STEP_MS);
+  }
+
+  private cancelFade() {
+    if (this.fadeTimer !== null) {
+      clearInterval(this.fadeTimer);
+      this.fadeTimer = null;
+    }
+    if (this.fadeDeck) {
+      this.resetDeck(this.fadeDeck);
+      this.fadeDeck = null;
+    }
+    if (this.decks) {
+      this.active.volume = this.outputVolume;
+    }
+    if (this.pendingPreload) {
+      const url = this.pendingPreload;
+      this.pendingPreload = null;
+      this.preload(url, this.pendingPreloadGain);
+    }
+  }
+
+  private resetDeck(deck: HTMLAudioElement) {
+    deck.pause();
+    deck.loop = false;
+    if (deck.src) {
+      deck.removeAttribute('src');
+      deck.load();
+    }
+  }
+
+  play(): Promise<void> {
+    this.resumeContext();
+    const promises: Promise<void>[] = [this.active.play()];
+    if (this.fadeDeck) {
+      promises.push(this.fadeDeck.play());
+    }
+    return Promise.all(promises).then(() => undefined);
+  }
+
+  pause() {
+    this.active.pause();
+    this.fadeDeck?.pause();
+  }
+
+  seek(time: number) {
+    // Seeking mid-crossfade snaps to the incoming track
+    this.cancelFade();
+    this.active.currentTime = time;
+    if (this.crossfadeSeconds > 0 && this.active.duration - time > this.crossfadeSeconds) {
+      this.fadePointFired = false;
+    }
+  }
+
+  stop() {
+    this.pendingPreload = null;
+    this.cancelFade();
+    this.getDecks().forEach((deck) => this.resetDeck(deck));
+    this.preloadedUrl = null;
+  }
+
+  get hasSource(): boolean {
+    return !!this.active.src;
+  }
+
+  get paused(): boolean {
+    return this.active.paused;
+  }
+
+  get currentTime(): number {
+    return this.active.currentTime;
+  }
+
+  get duration(): number {
+    return this.active.duration;
+  }
+
+  private get outputVolume(): number {
+    return this.muted ? 0 : this.volume * this.fadeOutLevel;
+  }
+
+  setVolume(volume: number) {
+    this.volume = volume;
+    this.applyVolume();
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    this.applyVolume();
+  }
+
+  /**
+   * Extra 0-1 multiplier on the output volume, used by the sleep timer's fade-out
+   */
+  setFadeOutLevel(level: number) {
+    this.fadeOutLevel = Math.max(0, Math.min(1, level));
+    this.applyVolume();
+  }
+
+  private applyVolume() {
+    // During a crossfade the ramp picks up the new level on its next step
+    if (this.decks && this.fadeTimer === null) {
+      this.active.volume = this.outputVolume;
+    }
+  }
+
+  /**
+   * Update the normalization gain of the playing track (e.g. after a settings change)
+   */
+  setGain(gainDb: number) {
+    if (this.decks) this.setDeckGain(this.active, gainDb, true);
+  }
+
+  /**
+   * Set the EQ band gains in dB, or null to bypass the equalizer
+   */
+  setEqualizer(gains: number[] | null) {
+    this.eqGains = gains;
+    if (!this.context) return;
+
+    const now = this.context.currentTime;
+    this.filters.forEach((filter, i) => {
+      filter.gain.setTargetAtTime(gains?.[i] ?? 0, now, 0.05);
+    });
+  }
+
+  setLoop(loop: boolean) {
+    this.loop = loop;
+    if (this.decks) this.active.loop = loop;
+  }
+
+  setCrossfade(seconds: number) {
+    this.crossfadeSeconds = Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds));
+  }
+
+  /**
+   * Change playback speed on both decks. With preservesPitch off, speeding up
+   * also raises the pitch (like a turntable).
+   */
+  setPlaybackRate(rate: number, preservesPitch = this.preservesPitch) {
+    this.playbackRate = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+    this.preservesPitch = preservesPitch;
+    this.decks?.forEach((deck) => this.applyRate(deck));
+  }
+
+  private applyRate(deck: HTMLAudioElement) {
+    // defaultPlaybackRate survives load(), so new sources keep the speed
+    deck.defaultPlaybackRate = this.playbackRate;
+    deck.playbackRate = this.playbackRate;
+    deck.preservesPitch = this.preservesPitch;
+  }
+}
+
+export const audioEngine = new AudioEngine();
@@ -0,0 +1,191 @@
+/**
+ * Equalizer
+ *
+ * Band layout, built-in presets and persistence for the 10-band EQ in the
+ * audio engine. Settings are stored per user, with a separate profile for
+ * each audio output device (e.g. headphones vs. speakers). localStorage holds
+ * this device's copy; useEqualizerProfile keeps it in step with the account.
+ */
+
+export interface EqBand {
+  frequency: number; // Hz
+  type: BiquadFilterType;
+  q: number;
+}
+
+export interface EqPreset {
+  id: string;
+  name: string;
+  gains: number[]; // dB per band
+  builtIn?: boolean;
+}
+
+// EQ state for one output device
+export interface EqualizerProfile {
+  enabled: boolean;
+  presetId: string | null; // null once the bands are edited by hand
+  gains: number[];
+}
+
+// Everything stored for one user
+export interface StoredEqualizer {
+  userPresets: EqPreset[];
+  outputs: Record<string, EqualizerProfile>;
+  updatedAt: number; // ms timestamp, newest settings win
+}
+
+export const MIN_EQ_GAIN_DB = -12;
+export const MAX_EQ_GAIN_DB = 12;
+
+// Octave-spaced bands; shelves at the edges, peaking filters in between
+export const EQ_BANDS: EqBand[] = [
+  { frequency: 32, type: 'lowshelf', q: 0.7 },
+  { frequency: 64, type: 'peaking', q: 1.4 },
+  { frequency: 125, type: 'peaking', q: 1.4 },
+  { frequency: 250, type: 'peaking', q: 1.4 },
+  { frequency: 500, type: 'peaking', q: 1.4 },
+  { frequency: 1000, type: 'peaking', q: 1.4 },
+  { frequency: 2000, type: 'peaking', q: 1.4 },
+  { frequency: 4000, type: 'peaking', q: 1.4 },
+  { frequency: 8000, type: 'peaking', q: 1.4 },
+  { frequency: 16000, type: 'highshelf', q: 0.7 },
+];
+
+const FLAT_GAINS = EQ_BANDS.map(() => 0);
+
+export const BUILT_IN_PRESETS: EqPreset[] = [
+  { id: 'flat', name: 'Flat', gains: FLAT_GAINS, builtIn: true },
+  { id: 'bass-boost', name: 'Bass Boost', gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0], builtIn: true },
+  { id: 'bass-reducer', name: 'Bass Reducer', gains: [-6, -5, -4, -2, 0, 0, 0, 0, 0, 0], builtIn: true },
+  { id: 'treble-boost', name: 'Treble Boost', gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6], builtIn: true },
+  { id: 'vocal', name: 'Vocal', gains: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1], builtIn: true },
+  { id: 'loudness', name: 'Loudness', gains: [5, 4, 2, 0, -1, -1, 0, 2, 4, 5], builtIn: true },
+  { id: 'acoustic', name: 'Acoustic', gains: [3, 3, 2, 1, 1, 1, 2, 2, 2, 1], builtIn: true },
+  { id: 'electronic', name: 'Electronic', gains: [4, 4, 1, 0, -2, 1, 0, 1, 3, 4], builtIn: true },
+  { id: 'rock', name: 'Rock', gains: [4, 3, 2, 0, -1, -1, 1, 2, 3, 4], builtIn: true },
+  { id: 'classical', name: 'Classical', gains: [3, 2, 1, 0, 0, 0, -1, -1, 1, 2], builtIn: true },
+  { id: 'late-night', name: 'Late Night', gains: [-3, -2, 0, 1, 2, 2, 1, 0, -2, -3], builtIn: true },
+];
+
+export const DEFAULT_EQUALIZER: EqualizerProfile = {
+  enabled: false,
+  presetId: 'flat',
+  gains: FLAT_GAINS,
+};
+
+// Profile key used when the browser doesn't identify the output device
+export const DEFAULT_OUTPUT_KEY = 'default';
+
+const STORAGE_PREFIX = 'player_equalizer_';
+
+/**
+ * Clamp a gain list to the band count and gain range
+ */
+export function normalizeGains(gains: unknown): number[] {
+  const list = Array.isArray(gains) ? gains : [];
+  return EQ_BANDS.map((_, i) => {
+    const value = typeof list[i] === 'number' && isFinite(list[i]) ? list[i] : 0;
+    return Math.max(MIN_EQ_GAIN_DB, Math.min(MAX_EQ_GAIN_DB, value));
+  });
+}
+
+/**
+ * Band label for the UI (e.g. 125, 1K, 16K)
+ */
+export function formatBandFrequency(frequency: number): string {
+  return frequency >= 1000 ? `${frequency / 1000}K` : `${frequency}`;
+}
+
+/**
+ * Identify the current audio output so each device keeps its own EQ.
+ * Browsers only expose labels after a media permission grant, so prefer the
+ * groupId, which is stable for a physical device.
+ */
+export async function getOutputDeviceKey(): Promise<string> {
+  try {
+    const devices = await navigator.mediaDevices?.enumerateDevices?.();
+    const outputs = (devices ?? []).filter((device) => device.kind === 'audiooutput');
+    const current = outputs.find((device) => device.deviceId === 'default') ?? outputs[0];
+    return current?.groupId || current?.label || DEFAULT_OUTPUT_KEY;
+  } catch {
+    return DEFAULT_OUTPUT_KEY;
+  }
+}
+
+function storageKey(userId: number | null): string {
+  return `${STORAGE_PREFIX}${userId ?? 'guest'}`;
+}
+
+const emptyStored = (): StoredEqualizer => ({ userPresets: [], outputs: {}, updatedAt: 0 });
+
+/**
+ * Clean up stored settings, dropping anything malformed
+ */
+function normalizeStored(parsed: Partial<StoredEqualizer>): StoredEqualizer {
+  const userPresets: EqPreset[] = Array.isArray(parsed.userPresets)
+    ? parsed.userPresets
+        .filter((preset: EqPreset) => preset && typeof preset.id === 'string' && typeof preset.name === 'string')
+        .map((preset: EqPreset) => ({ id: preset.id, name: preset.name, gains: normalizeGains(preset.gains) }))
+    : [];
+  const outputs: Record<string, EqualizerProfile> = {};
+  Object.entries(parsed.outputs ?? {}).forEach(([key, value]) => {
+    const profile = value as Partial<EqualizerProfile>;
+    outputs[key] = {
+      enabled: !!profile.enabled,
+      presetId: typeof profile.presetId === 'string' ? profile.presetId : null,
+      gains: normalizeGains(profile.gains),
+    };
+  });
+  // Settings saved before they were synced have no timestamp
+  const updatedAt = typeof parsed.updatedAt === 'number' ? parsed.updatedAt : 0;
+  return { userPresets, outputs, updatedAt };
+}
+
+// Load everything stored for a user from localStorage
+export function loadStoredEqualizer(userId: number | null): StoredEqualizer {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? normalizeStored(JSON.parse(stored)) : emptyStored();
+  } catch {
+    return emptyStored();
+  }
+}
+
+// Replace everything stored for a user, e.g. with newer settings from the account
+export function storeEqualizer(userId: number | null, stored: StoredEqualizer) {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(normalizeStored(stored)));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// Load a user's presets and the EQ profile for an output device from localStorage
+export function loadEqualizer(userId: number | null, outputKey: string): {
+  userPresets: EqPreset[];
+  profile: EqualizerProfile;
+} {
+  const stored = loadStoredEqualizer(userId);
+  return {
+    userPresets: stored.userPresets,
+    profile: stored.outputs[outputKey] ?? stored.outputs[DEFAULT_OUTPUT_KEY] ?? DEFAULT_EQUALIZER,
+  };
+}
+
+// Save a user's presets and the EQ profile for an output device to localStorage
+export function saveEqualizer(
+  userId: number | null,
+  outputKey: string,
+  profile: EqualizerProfile,
+  userPresets: EqPreset[]
+) {
+  try {
+    const stored = loadStoredEqualizer(userId);
+    stored.outputs[outputKey] = profile;
+    stored.userPresets = userPresets;
+    stored.updatedAt = Date.now();
+    localStorage.setItem(storageKey(userId), JSON.stringify(stored));
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { Track } from '../api/library';
+import { FALLBACK_GAIN_DB, dbToGain, getTrackGain, type NormalizationSettings } from './loudness';
+
+function makeTrack(replayGain: Partial<Track> = {}): Track {
+  return {
+    id: 1,
+    title: 'Track',
+    artist: 'Artist',
+    album: 'Album',
+    album_cover: null,
+    artist_image: null,
+    duration: 180,
+    file_path: '/music/1.mp3',
+    genre: null,
+    year: null,
+    track_number: null,
+    ...replayGain,
+  };
+}
+
+// Peak of a sample 6 dB below full scale, leaving 6 dB to boost
+const HALF_SCALE = 0.5;
+const HALF_SCALE_HEADROOM = -20 * Math.log10(HALF_SCALE);
+
+const tagged = makeTrack({
+  replaygain_track_gain: -8,
+  replaygain_track_peak: 1,
+  replaygain_album_gain: -6,
+  replaygain_album_peak: 1,
+});
+
+const trackMode: NormalizationSettings = { mode: 'track', preAmp: 0 };
+const albumMode: NormalizationSettings = { mode: 'album', preAmp: 0 };
+
+describe('getTrackGain', () => {
+  it('leaves playback unchanged when off or without a track', () => {
+    expect(getTrackGain(tagged, { mode: 'off', preAmp: 3 })).toBe(0);
+    expect(getTrackGain(null, trackMode)).toBe(0);
+  });
+
+  it('uses the gain of the chosen mode', () => {
+    expect(getTrackGain(tagged, trackMode)).toBe(-8);
+    expect(getTrackGain(tagged, albumMode)).toBe(-6);
+  });
+
+  it('falls back to the other gain when only one is tagged', () => {
+    const trackOnly = makeTrack({ replaygain_track_gain: -8, replaygain_track_peak: 1 });
+    const albumOnly = makeTrack({ replaygain_album_gain: -6, replaygain_album_peak: 1 });
+
+    expect(getTrackGain(trackOnly, albumMode)).toBe(-8);
+    expect(getTrackGain(albumOnly, trackMode)).toBe(-6);
+  });
+
+  it('plays untagged tracks at the fallback gain', () => {
+    expect(getTrackGain(makeTrack(), trackMode)).toBe(FALLBACK_GAIN_DB);
+    expect(getTrackGain(makeTrack({ replaygain_track_gain: null }), albumMode)).toBe(FALLBACK_GAIN_DB);
+  });
+
+  it('adds the pre-amp', () => {
+    expect(getTrackGain(tagged, { mode: 'track', preAmp: 3 })).toBe(-5);
+    expect(getTrackGain(tagged, { mode: 'album', preAmp: -2 })).toBe(-8);
+  });
+
+  it('never boosts the peak past full scale', () => {
+    const quiet = makeTrack({ replaygain_track_gain: 10, replaygain_track_peak: HALF_SCALE });
+
+    expect(getTrackGain(quiet, trackMode)).toBeCloseTo(HALF_SCALE_HEADROOM);
+    // Within the headroom the gain is kept
+    expect(getTrackGain(quiet, { mode: 'track', preAmp: -6 })).toBe(4);
+  });
+
+  it('takes the peak that goes with the gain used', () => {
+    const track = makeTrack({
+      replaygain_track_gain: 10,
+      replaygain_track_peak: 1,
+      replaygain_album_gain: 10,
+      replaygain_album_peak: HALF_SCALE,
+    });
+
+    expect(getTrackGain(track, trackMode)).toBeCloseTo(0);
+    expect(getTrackGain(track, albumMode)).toBeCloseTo(HALF_SCALE_HEADROOM);
+  });
+
+  it('assumes full scale without a known peak, so nothing is boosted', () => {
+    const noPeak = makeTrack({ replaygain_track_gain: 4 });
+
+    expect(getTrackGain(noPeak, trackMode)).toBe(0);
+    expect(getTrackGain(makeTrack(), { mode: 'track', preAmp: 6 })).toBe(0);
+    // Cuts still apply
+    expect(getTrackGain(makeTrack({ replaygain_track_gain: -4 }), trackMode)).toBe(-4);
+  });
+});
+
+describe('dbToGain', () => {
+  it('turns dB into a linear multiplier', () => {
+    expect(dbToGain(0)).toBe(1);
+    expect(dbToGain(20)).toBeCloseTo(10);
+    expect(dbToGain(-HALF_SCALE_HEADROOM)).toBeCloseTo(HALF_SCALE);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Loudness normalization
+ *
+ * Turns the ReplayGain values stored by the library scanner into a playback
+ * gain, so tracks from different masters play back at a similar loudness.
+ */
+
+import type { Track } from '../api/library';
+
+export type NormalizationMode = 'off' | 'track' | 'album';
+
+export interface NormalizationSettings {
+  mode: NormalizationMode;
+  preAmp: number; // dB, added on top of the ReplayGain value
+}
+
+export const MIN_PREAMP_DB = -6;
+export const MAX_PREAMP_DB = 6;
+
+// Gain for tracks without loudness data: played as they are, since guessing
+// would make quiet untagged tracks quieter still
+export const FALLBACK_GAIN_DB = 0;
+
+export const DEFAULT_NORMALIZATION: NormalizationSettings = {
+  mode: 'track',
+  preAmp: 0,
+};
+
+const STORAGE_KEY = 'player_normalization';
+
+/**
+ * Playback gain for a track in dB (0 = unchanged)
+ */
+export function getTrackGain(track: Track | null, settings: NormalizationSettings): number {
+  if (!track || settings.mode === 'off') return 0;
+
+  const trackGain = track.replaygain_track_gain ?? null;
+  const albumGain = track.replaygain_album_gain ?? null;
+
+  // Album mode keeps the dynamics between tracks of an album; fall back to
+  // the track value (and vice versa) when only one is tagged
+  let gain: number | null;
+  let peak: number | null;
+  if (settings.mode === 'album' && albumGain !== null) {
+    gain = albumGain;
+    peak = track.replaygain_album_peak ?? null;
+  } else if (trackGain !== null) {
+    gain = trackGain;
+    peak = track.replaygain_track_peak ?? null;
+  } else {
+    gain = albumGain;
+    peak = track.replaygain_album_peak ?? null;
+  }
+
+  const total = (gain ?? FALLBACK_GAIN_DB) + settings.preAmp;
+
+  // Clipping guard: never boost the loudest sample past full scale.
+  // Without a known peak assume the track already reaches it.
+  const headroom = peak && peak > 0 ? -20 * Math.log10(peak) : 0;
+  return Math.min(total, headroom);
+}
+
+/**
+ * Convert a dB gain to a linear multiplier
+ */
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+// Load normalization settings from localStorage
+export function loadNormalization(): NormalizationSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_NORMALIZATION;
+
+    const parsed = JSON.parse(stored);
+    const mode: NormalizationMode = ['off', 'track', 'album'].includes(parsed.mode)
+      ? parsed.mode
+      : DEFAULT_NORMALIZATION.mode;
+    const preAmp = typeof parsed.preAmp === 'number'
+      ? Math.max(MIN_PREAMP_DB, Math.min(MAX_PREAMP_DB, parsed.preAmp))
+      : DEFAULT_NORMALIZATION.preAmp;
+    return { mode, preAmp };
+  } catch {
+    return DEFAULT_NORMALIZATION;
+  }
+}
+
+// Save normalization settings to localStorage
+export function saveNormalization(settings: NormalizationSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Sleep timer
+ *
+ * Stops playback after a number of minutes, at the end of the current track or
+ * at the end of the current album/playlist (the end of the queue). The volume
+ * is faded out over the last seconds before the stop.
+ */
+
+import type { Track } from '../api/library';
+
+export type SleepTimerMode = 'minutes' | 'track' | 'collection';
+
+export interface SleepTimer {
+  mode: SleepTimerMode;
+  // Wall-clock deadline (ms) for 'minutes'; null when the timer follows playback
+  endsAt: number | null;
+}
+
+interface PlaybackPosition {
+  currentTime: number;
+  duration: number;
+  queue: Track[];
+  queueIndex: number;
+  playbackRate?: number;
+}
+
+// Preset lengths offered in the timer menu (minutes)
+export const SLEEP_TIMER_PRESETS = [5, 15, 30, 45, 60, 90];
+
+// Fade-out length before a timed stop (seconds)
+export const SLEEP_FADE_SECONDS = 30;
+
+// Shorter fade when stopping at the end of a track, so the song isn't cut short noticeably
+export const SLEEP_TRACK_FADE_SECONDS = 10;
+
+/**
+ * Create a timer; minutes is only used by the 'minutes' mode
+ */
+export function createSleepTimer(mode: SleepTimerMode, minutes = 0, now = Date.now()): SleepTimer {
+  return {
+    mode,
+    endsAt: mode === 'minutes' ? now + minutes * 60 * 1000 : null,
+  };
+}
+
+/**
+ * Tracks still to play in the album/playlist after the current one.
+ * Autoplay radio tracks aren't part of it.
+ */
+function collectionUpcoming(queue: Track[], queueIndex: number): Track[] {
+  const upcoming = queue.slice(queueIndex + 1);
+  const autoplayStart = upcoming.findIndex((track) => track.autoplay);
+  return autoplayStart >= 0 ? upcoming.slice(0, autoplayStart) : upcoming;
+}
+
+/**
+ * Seconds until the timer stops playback, or null while the track length is still unknown
+ */
+export function getSleepRemaining(timer: SleepTimer, position: PlaybackPosition, now = Date.now()): number | null {
+  if (timer.mode === 'minutes') {
+    return Math.max(0, ((timer.endsAt ?? now) - now) / 1000);
+  }
+
+  if (!position.duration || !isFinite(position.duration)) return null;
+
+  const trackRemaining = Math.max(0, position.duration - position.currentTime);
+  // Track times are media time; the timer runs on the clock
+  const rate = position.playbackRate || 1;
+  if (timer.mode === 'track') {
+    return trackRemaining / rate;
+  }
+
+  // Rest of the current track plus everything still queued after it
+  const queued = collectionUpcoming(position.queue, position.queueIndex)
+    .reduce((total, track) => total + (track.duration || 0), trackRemaining);
+  return queued / rate;
+}
+
+/**
+ * Whether the timer should stop playback once the current track finishes
+ */
+export function sleepEndsWithTrack(timer: SleepTimer | null, queue: Track[], queueIndex: number): boolean {
+  if (!timer) return false;
+  if (timer.mode === 'track') return true;
+  return timer.mode === 'collection' && collectionUpcoming(queue, queueIndex).length === 0;
+}
+
+/**
+ * Volume multiplier (0-1) for the fade-out at the given remaining time
+ */
+export function getSleepFadeLevel(timer: SleepTimer, remaining: number): number {
+  const fadeSeconds = timer.mode === 'minutes' ? SLEEP_FADE_SECONDS : SLEEP_TRACK_FADE_SECONDS;
+  return Math.max(0, Math.min(1, remaining / fadeSeconds));
+}
@@ -4,6 +4,7 @@ import { getAlbumCoverUrl, handleImageError } from '../../utils/artwork';
 import { getAlbumDetail } from '../../api/library';
 import { useUIStore } from '../../stores/ui';
 import { usePlayerStore } from '../../stores/player';
+import { useOfflineStore, getOfflineAlbumDetail } from '../../stores/offline';
 import './AlbumCard.css';
 
 interface AlbumCardProps {
@@ -27,7 +28,9 @@ export const AlbumCard: React.FC<AlbumCardProps> = ({ album, onClick, hideArtist
   const handlePlayClick = async (e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      const albumDetail = await getAlbumDetail(album.name);
+      const albumDetail = useOfflineStore.getState().isOnline
+        ? await getAlbumDetail(album.name)
+        : await getOfflineAlbumDetail(album.name);
       if (albumDetail?.tracks && albumDetail.tracks.length > 0) {
         playQueue(albumDetail.tracks);
       }
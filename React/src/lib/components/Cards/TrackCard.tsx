@@ -19,6 +19,9 @@ interface TrackCardProps {
   compact?: boolean;
 }
 
+// A track card (48px artwork + padding) and the gap below it, for virtual lists
+export const TRACK_ROW_HEIGHT = 68;
+
 export const TrackCard: React.FC<TrackCardProps> = ({
   track,
   index,
@@ -31,8 +34,8 @@ export const TrackCard: React.FC<TrackCardProps> = ({
   onRemove,
   compact = false,
 }) => {
-  const { currentTrack, isPlaying, playTrack, togglePlay } = usePlayerStore();
-  const { openAddToPlaylist, openArtistDetail, isNowPlayingOpen, toggleNowPlaying } = useUIStore();
+  const { currentTrack, isPlaying, playTrack, togglePlay, playNext, addToQueue } = usePlayerStore();
+  const { openAddToPlaylist, openArtistDetail, isNowPlayingOpen, toggleNowPlaying, showToast } = useUIStore();
 
   const isCurrentTrack = currentTrack?.id === track.id;
   const isActive = isActiveProp ?? isCurrentTrack;
@@ -57,6 +60,18 @@ export const TrackCard: React.FC<TrackCardProps> = ({
     }
   };
 
+  const handlePlayNext = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    playNext(track);
+    showToast(`"${track.title}" will play next`, 'success');
+  };
+
+  const handleAddToQueue = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    addToQueue(track);
+    showToast(`Added "${track.title}" to queue`, 'success');
+  };
+
   const handleRemove = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (onRemove) {
@@ -122,6 +137,20 @@ export const TrackCard: React.FC<TrackCardProps> = ({
       {!compact && <span className="track-album truncate">{track.album}</span>}
 
       <div className="track-actions">
+        <button
+          className="action-btn"
+          onClick={handlePlayNext}
+          title="Play next"
+        >
+          <i className="fas fa-arrow-turn-down"></i>
+        </button>
+        <button
+          className="action-btn"
+          onClick={handleAddToQueue}
+          title="Add to queue"
+        >
+          <i className="fas fa-list"></i>
+        </button>
         <button
           className="action-btn"
           onClick={handleAddToPlaylist}
@@ -2,12 +2,42 @@ import React, { useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../stores/auth';
 import { useUIStore } from '../../stores/ui';
+import { usePlayerStore, type ShuffleMode } from '../../stores/player';
+import {
+  useOfflineStore,
+  STORAGE_LIMIT_OPTIONS,
+  OFFLINE_QUALITY_OPTIONS,
+  type OfflineCollectionType,
+} from '../../stores/offline';
+import { MAX_CROSSFADE_SECONDS } from '../../audio/engine';
+import { MIN_PREAMP_DB, MAX_PREAMP_DB, type NormalizationMode } from '../../audio/loudness';
+import { Slider } from '../UI/Slider';
+import { formatBytes } from '../../utils/formatBytes';
 import './SettingsDropdown.css';
 
 export const SettingsDropdown: React.FC = () => {
   const navigate = useNavigate();
   const { user, logout } = useAuthStore();
   const { isSettingsOpen, toggleSettings, openImportModal } = useUIStore();
+  const {
+    crossfadeSeconds,
+    setCrossfade,
+    normalization,
+    setNormalization,
+    shuffleMode,
+    setShuffleMode,
+    autoplay,
+    setAutoplay,
+  } = usePlayerStore();
+  const {
+    offlineQuality,
+    setOfflineQuality,
+    storageLimit,
+    setStorageLimit,
+    setCollectionPinned,
+    getStorageUsage,
+    getStorageBreakdown,
+  } = useOfflineStore();
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Close dropdown when clicking outside
@@ -60,6 +90,26 @@ export const SettingsDropdown: React.FC = () => {
 
   if (!isSettingsOpen) return null;
 
+  const normalizationModes: { mode: NormalizationMode; label: string }[] = [
+    { mode: 'off', label: 'Off' },
+    { mode: 'track', label: 'Track' },
+    { mode: 'album', label: 'Album' },
+  ];
+
+  const shuffleModes: { mode: ShuffleMode; label: string }[] = [
+    { mode: 'standard', label: 'Standard' },
+    { mode: 'smart', label: 'Smart' },
+  ];
+
+  const collectionIcons: Record<OfflineCollectionType, string> = {
+    playlist: 'fas fa-list',
+    album: 'fas fa-compact-disc',
+    tracks: 'fas fa-music',
+  };
+
+  const storageUsage = getStorageUsage();
+  const storageBreakdown = getStorageBreakdown().filter(({ trackCount }) => trackCount > 0);
+
   return (
     <div className="settings-dropdown glass-elevated" ref={dropdownRef}>
       <div className="dropdown-header">
@@ -94,6 +144,176 @@ export const SettingsDropdown: React.FC = () => {
 
       <div className="dropdown-divider"></div>
 
+      <div className="dropdown-section">
+        <span className="section-label">Playback</span>
+        <div className="dropdown-setting">
+          <div className="setting-row">
+            <i className="fas fa-shuffle"></i>
+            <span>Crossfade</span>
+            <span className="setting-value">
+              {crossfadeSeconds > 0 ? `${crossfadeSeconds}s` : 'Off'}
+            </span>
+          </div>
+          <Slider
+            value={crossfadeSeconds}
+            min={0}
+            max={MAX_CROSSFADE_SECONDS}
+            step={1}
+            onChange={setCrossfade}
+            className="slider-setting"
+          />
+        </div>
+        <div className="dropdown-setting">
+          <div className="setting-row">
+            <i className="fas fa-wand-magic-sparkles"></i>
+            <span>Shuffle</span>
+          </div>
+          <div className="setting-options">
+            {shuffleModes.map(({ mode, label }) => (
+              <button
+                key={mode}
+                className={`setting-option ${shuffleMode === mode ? 'active' : ''}`}
+                onClick={() => setShuffleMode(mode)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="dropdown-setting">
+          <div className="setting-row">
+            <i className="fas fa-tower-broadcast"></i>
+            <span>Autoplay similar songs</span>
+          </div>
+          <div className="setting-options">
+            <button
+              className={`setting-option ${!autoplay ? 'active' : ''}`}
+              onClick={() => setAutoplay(false)}
+            >
+              Off
+            </button>
+            <button
+              className={`setting-option ${autoplay ? 'active' : ''}`}
+              onClick={() => setAutoplay(true)}
+            >
+              On
+            </button>
+          </div>
+        </div>
+        <div className="dropdown-setting">
+          <div className="setting-row">
+            <i className="fas fa-wave-square"></i>
+            <span>Normalize volume</span>
+          </div>
+          <div className="setting-options">
+            {normalizationModes.map(({ mode, label }) => (
+              <button
+                key={mode}
+                className={`setting-option ${normalization.mode === mode ? 'active' : ''}`}
+                onClick={() => setNormalization({ mode })}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {normalization.mode !== 'off' && (
+          <div className="dropdown-setting">
+            <div className="setting-row">
+              <i className="fas fa-sliders"></i>
+              <span>Pre-amp</span>
+              <span className="setting-value">
+                {normalization.preAmp > 0 ? '+' : ''}{normalization.preAmp} dB
+              </span>
+            </div>
+            <Slider
+              value={normalization.preAmp}
+              min={MIN_PREAMP_DB}
+              max={MAX_PREAMP_DB}
+              step={1}
+              onChange={(preAmp) => setNormalization({ preAmp })}
+              className="slider-setting"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="dropdown-divider"></div>
+
+      <div className="dropdown-section">
+        <span className="section-label">Offline Storage</span>
+        <div className="dropdown-setting">
+          <div className="setting-row">
+            <i className="fas fa-file-audio"></i>
+            <span>Download quality</span>
+          </div>
+          <div className="setting-options">
+            {OFFLINE_QUALITY_OPTIONS.map((quality) => (
+              <button
+                key={quality}
+                className={`setting-option ${offlineQuality === quality ? 'active' : ''}`}
+                onClick={() => setOfflineQuality(quality)}
+                title={quality === 'original' ? 'Original file' : `${quality}bps MP3, saves space`}
+              >
+                {quality === 'original' ? 'Original' : quality}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="dropdown-setting">
+          <div className="setting-row">
+            <i className="fas fa-hard-drive"></i>
+            <span>Storage limit</span>
+            <span className="setting-value">
+              {formatBytes(storageUsage)}{storageLimit !== null ? ` of ${formatBytes(storageLimit)}` : ''}
+            </span>
+          </div>
+          {storageLimit !== null && (
+            <div className="storage-usage-bar">
+              <div
+                className="storage-usage-fill"
+                style={{ width: `${Math.min(100, (storageUsage / storageLimit) * 100)}%` }}
+              />
+            </div>
+          )}
+          <div className="setting-options">
+            {STORAGE_LIMIT_OPTIONS.map((limit) => (
+              <button
+                key={limit ?? 'off'}
+                className={`setting-option ${storageLimit === limit ? 'active' : ''}`}
+                onClick={() => setStorageLimit(limit)}
+              >
+                {limit !== null ? formatBytes(limit).replace('.0', '') : 'Off'}
+              </button>
+            ))}
+          </div>
+        </div>
+        {storageBreakdown.length > 0 && (
+          <div className="storage-breakdown">
+            {storageBreakdown.map(({ key, type, name, artist, pinned, size, trackCount }) => (
+              <div key={key} className="storage-breakdown-item">
+                <i className={collectionIcons[type]}></i>
+                <div className="storage-breakdown-info">
+                  <span className="storage-breakdown-name">{type === 'tracks' ? 'Saved songs' : name}</span>
+                  <span className="storage-breakdown-meta">
+                    {artist ? `${artist} • ` : ''}{trackCount} tracks • {formatBytes(size)}
+                  </span>
+                </div>
+                <button
+                  className={`storage-pin-btn ${pinned ? 'active' : ''}`}
+                  onClick={() => setCollectionPinned(key, !pinned)}
+                  title={pinned ? 'Unpin (may be removed when storage is full)' : 'Pin (never removed automatically)'}
+                >
+                  <i className="fas fa-thumbtack"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="dropdown-divider"></div>
+
       <div className="dropdown-section">
         <span className="section-label">Community</span>
         <a
@@ -1,12 +1,12 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
-import { usePlaylistsStore } from '../../stores/playlists';
+import { usePlaylists } from '../../stores/playlists';
 import { useUIStore } from '../../stores/ui';
 import { getArtworkUrl, handleImageError } from '../../utils/artwork';
 import './Sidebar.css';
 
 export const Sidebar: React.FC = () => {
-  const { playlists } = usePlaylistsStore();
+  const playlists = usePlaylists();
   const { openCreatePlaylist, isMobile } = useUIStore();
 
   // Don't render on mobile
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../stores/auth';
 import { useUIStore } from '../../stores/ui';
 import { SettingsDropdown } from './SettingsDropdown';
+import { PendingSyncIndicator } from '../UI/PendingSyncIndicator';
 import './TopBar.css';
 
 export const TopBar: React.FC = () => {
@@ -33,6 +34,7 @@ export const TopBar: React.FC = () => {
       )}
 
       <div className="topbar-right">
+        <PendingSyncIndicator />
         <div className="user-menu">
           <button className="user-btn" onClick={toggleSettings}>
             <div className="user-avatar">
@@ -1,13 +1,14 @@
 import React, { useState } from 'react';
 import { useUIStore } from '../../stores/ui';
-import { usePlaylistsStore } from '../../stores/playlists';
+import { usePlaylistsStore, usePlaylists } from '../../stores/playlists';
 import { getArtworkUrl, handleImageError } from '../../utils/artwork';
 import { Button } from '../UI/Button';
 import './AddToPlaylist.css';
 
 export const AddToPlaylist: React.FC = () => {
   const { addToPlaylistModal, closeAddToPlaylist, openCreatePlaylist, showToast } = useUIStore();
-  const { playlists, addTrackToPlaylist } = usePlaylistsStore();
+  const { addTrackToPlaylist } = usePlaylistsStore();
+  const playlists = usePlaylists();
   const [isLoading, setIsLoading] = useState<number | null>(null);
   const [success, setSuccess] = useState<number | null>(null);
 
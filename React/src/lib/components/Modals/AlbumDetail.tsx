@@ -1,16 +1,21 @@
 import React, { useEffect, useState } from 'react';
 import { useUIStore } from '../../stores/ui';
 import { usePlayerStore } from '../../stores/player';
-import { getAlbumDetail, type AlbumDetail as AlbumDetailType, type Track } from '../../api/library';
+import { useOfflineStore, albumCollectionKey, getOfflineAlbumDetail } from '../../stores/offline';
+import { getAlbumDetail, type AlbumDetail as AlbumDetailType } from '../../api/library';
+import { isAbortError } from '../../api/client';
 import { getArtworkUrl, handleImageError } from '../../utils/artwork';
 import { formatDuration } from '../../utils/formatTime';
-import { TrackCard } from '../Cards/TrackCard';
+import { TrackCard, TRACK_ROW_HEIGHT } from '../Cards/TrackCard';
 import { Button } from '../UI/Button';
+import { DownloadCollectionButton } from '../UI/DownloadCollectionButton';
+import { VirtualList } from '../UI/VirtualList';
 import './AlbumDetail.css';
 
 export const AlbumDetail: React.FC = () => {
   const { albumDetailModal, closeAlbumDetail, openArtistDetail, goBackFromAlbum } = useUIStore();
   const { playQueue } = usePlayerStore();
+  const { isOnline } = useOfflineStore();
   const [data, setData] = useState<AlbumDetailType | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -28,19 +33,28 @@ export const AlbumDetail: React.FC = () => {
   useEffect(() => {
     if (!albumDetailModal.isOpen || !albumName) return;
     
-    let cancelled = false;
+    // Aborted when another album is opened or the modal closes
+    const controller = new AbortController();
+    const { signal } = controller;
     
     const loadAlbum = async () => {
       setIsLoading(true);
       try {
-        const result = await getAlbumDetail(albumName);
-        if (!cancelled) {
+        // Offline, only the downloaded tracks of the album
+        const result = isOnline
+          ? await getAlbumDetail(albumName, signal)
+          : await getOfflineAlbumDetail(albumName);
+        if (!signal.aborted) {
           setData(result);
         }
+        // Pick up tracks added to or removed from a downloaded album
+        if (isOnline && result && result.tracks.length > 0) {
+          useOfflineStore.getState().syncCollection(albumCollectionKey(albumName), result.tracks);
+        }
       } catch (error) {
-        console.error(error);
+        if (!isAbortError(error)) console.error(error);
       } finally {
-        if (!cancelled) {
+        if (!signal.aborted) {
           setIsLoading(false);
         }
       }
@@ -49,9 +63,9 @@ export const AlbumDetail: React.FC = () => {
     loadAlbum();
     
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [albumDetailModal.isOpen, albumName]);
+  }, [albumDetailModal.isOpen, albumName, isOnline]);
 
   // Reset data when modal closes
   useEffect(() => {
@@ -169,21 +183,37 @@ export const AlbumDetail: React.FC = () => {
               >
                 Shuffle
               </Button>
+              {/* Offline the track list is only the downloaded part of the album */}
+              {isOnline && (
+                <DownloadCollectionButton
+                  collection={{
+                    key: albumCollectionKey(albumName!),
+                    type: 'album',
+                    name: albumName!,
+                    artist: data.artist,
+                    artwork: data.album_cover,
+                  }}
+                  tracks={data.tracks}
+                />
+              )}
             </div>
 
             <div className="album-tracks">
               {data.tracks.length > 0 ? (
-                <div className="track-list">
-                  {data.tracks.map((track: Track, index: number) => (
+                <VirtualList
+                  className="track-list"
+                  items={data.tracks}
+                  rowHeight={TRACK_ROW_HEIGHT}
+                  getKey={(track) => track.id}
+                  renderRow={(track, index) => (
                     <TrackCard
-                      key={track.id}
                       track={track}
                       index={index}
                       showIndex
                       queue={data.tracks}
                     />
-                  ))}
-                </div>
+                  )}
+                />
               ) : (
                 <div className="empty-state compact">
                   <i className="fas fa-music"></i>
@@ -196,7 +226,11 @@ export const AlbumDetail: React.FC = () => {
           <div className="modal-empty">
             <i className="fas fa-compact-disc"></i>
             <h3>Album not found</h3>
-            <p>This album may have been removed from the library</p>
+            <p>
+              {isOnline
+                ? 'This album may have been removed from the library'
+                : 'No track of this album is downloaded'}
+            </p>
           </div>
         )}
       </div>
@@ -1,15 +1,20 @@
 import React, { useEffect, useState } from 'react';
 import { useUIStore } from '../../stores/ui';
 import { usePlayerStore } from '../../stores/player';
+import { useOfflineStore, getOfflineArtistDetail } from '../../stores/offline';
 import { getArtistDetail, type ArtistDetail as ArtistDetailType } from '../../api/library';
+import { isAbortError } from '../../api/client';
 import { getArtistImageUrl, handleImageError } from '../../utils/artwork';
 import { AlbumCard } from '../Cards/AlbumCard';
+import { TrackCard, TRACK_ROW_HEIGHT } from '../Cards/TrackCard';
 import { Button } from '../UI/Button';
+import { VirtualList } from '../UI/VirtualList';
 import './ArtistDetail.css';
 
 export const ArtistDetail: React.FC = () => {
   const { artistDetailModal, closeArtistDetail, openAlbumDetail } = useUIStore();
   const { playQueue } = usePlayerStore();
+  const { isOnline } = useOfflineStore();
   const [data, setData] = useState<ArtistDetailType | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -18,19 +23,24 @@ export const ArtistDetail: React.FC = () => {
   useEffect(() => {
     if (!artistDetailModal.isOpen || !artistName) return;
     
-    let cancelled = false;
+    // Aborted when another artist is opened or the modal closes
+    const controller = new AbortController();
+    const { signal } = controller;
     
     const loadArtist = async () => {
       setIsLoading(true);
       try {
-        const result = await getArtistDetail(artistName);
-        if (!cancelled) {
+        // Offline, only what is downloaded by the artist
+        const result = isOnline
+          ? await getArtistDetail(artistName, signal)
+          : await getOfflineArtistDetail(artistName);
+        if (!signal.aborted) {
           setData(result);
         }
       } catch (error) {
-        console.error(error);
+        if (!isAbortError(error)) console.error(error);
       } finally {
-        if (!cancelled) {
+        if (!signal.aborted) {
           setIsLoading(false);
         }
       }
@@ -39,9 +49,9 @@ export const ArtistDetail: React.FC = () => {
     loadArtist();
     
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [artistDetailModal.isOpen, artistName]);
+  }, [artistDetailModal.isOpen, artistName, isOnline]);
 
   // Reset data when modal closes
   useEffect(() => {
@@ -164,12 +174,36 @@ export const ArtistDetail: React.FC = () => {
                 </div>
               </section>
             )}
+
+            {data.tracks.length > 0 && (
+              <section className="artist-section">
+                <h2>Songs ({data.tracks.length})</h2>
+                <VirtualList
+                  className="track-list"
+                  items={data.tracks}
+                  rowHeight={TRACK_ROW_HEIGHT}
+                  getKey={(track) => track.id}
+                  renderRow={(track, index) => (
+                    <TrackCard
+                      track={track}
+                      index={index}
+                      showIndex
+                      queue={data.tracks}
+                    />
+                  )}
+                />
+              </section>
+            )}
           </>
         ) : (
           <div className="modal-empty">
             <i className="fas fa-user-music"></i>
             <h3>Artist not found</h3>
-            <p>This artist may have been removed from the library</p>
+            <p>
+              {isOnline
+                ? 'This artist may have been removed from the library'
+                : 'Nothing by this artist is downloaded'}
+            </p>
           </div>
         )}
       </div>
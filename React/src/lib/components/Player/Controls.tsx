@@ -16,6 +16,7 @@ export const Controls: React.FC<ControlsProps> = ({
   const {
     isPlaying,
     isShuffled,
+    shuffleMode,
     repeatMode,
     togglePlay,
     next,
@@ -36,7 +37,7 @@ export const Controls: React.FC<ControlsProps> = ({
         <button
           className={`control-btn ${isShuffled ? 'active' : ''}`}
           onClick={toggleShuffle}
-          title="Shuffle"
+          title={shuffleMode === 'smart' ? 'Smart shuffle' : 'Shuffle'}
           disabled={!currentTrack}
         >
           <i className="fas fa-shuffle"></i>
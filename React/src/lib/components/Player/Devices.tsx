@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { usePlayerStore } from '../../stores/player';
+import { useDevicesStore } from '../../stores/devices';
+import { useUIStore } from '../../stores/ui';
+import type { DeviceType, RemoteDevice } from '../../api/devices';
+import { getArtworkUrl, handleImageError } from '../../utils/artwork';
+import { formatTime } from '../../utils/formatTime';
+import { Slider } from '../UI/Slider';
+import './Devices.css';
+
+const DEVICE_ICONS: Record<DeviceType, string> = {
+  web: 'fa-desktop',
+  desktop: 'fa-desktop',
+  mobile: 'fa-mobile-screen',
+  tablet: 'fa-tablet-screen-button',
+};
+
+/**
+ * Position of a remote device, extrapolated from its last update while playing
+ */
+function useRemotePosition(device: RemoteDevice): number {
+  const remoteState = useDevicesStore((state) => state.remoteStates[device.deviceId]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!device.isPlaying) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [device.isPlaying]);
+
+  if (!remoteState) return device.currentTime;
+  if (!remoteState.isPlaying) return remoteState.currentTime;
+
+  const elapsed = (now - remoteState.receivedAt) / 1000;
+  return Math.min(remoteState.currentTime + Math.max(0, elapsed), remoteState.duration || Infinity);
+}
+
+const RemoteControls: React.FC<{ device: RemoteDevice }> = ({ device }) => {
+  const { sendCommand, pullPlayback } = useDevicesStore();
+  const position = useRemotePosition(device);
+  const track = device.currentTrack;
+  // Local values while dragging, so the sliders don't jump back before the remote catches up
+  const [seekValue, setSeekValue] = useState<number | null>(null);
+  const [volumeValue, setVolumeValue] = useState<number | null>(null);
+
+  return (
+    <div className="remote-controls">
+      {track ? (
+        <div className="remote-track">
+          <img
+            src={getArtworkUrl(track.album_cover)}
+            alt={track.album}
+            onError={(e) => handleImageError(e)}
+          />
+          <div className="track-info">
+            <span className="title">{track.title}</span>
+            <span className="artist">{track.artist}</span>
+          </div>
+        </div>
+      ) : (
+        <p className="remote-idle">Nothing playing</p>
+      )}
+
+      {track && device.duration > 0 && (
+        <div className="remote-progress">
+          <span>{formatTime(position)}</span>
+          <Slider
+            value={seekValue ?? position}
+            min={0}
+            max={device.duration}
+            step={1}
+            onChange={setSeekValue}
+            onChangeEnd={(time) => {
+              sendCommand('SEEK', { time });
+              setSeekValue(null);
+            }}
+          />
+          <span>{formatTime(device.duration)}</span>
+        </div>
+      )}
+
+      <div className="remote-buttons">
+        <button onClick={() => sendCommand('PREVIOUS')} title="Previous" disabled={!track}>
+          <i className="fas fa-step-backward"></i>
+        </button>
+        <button
+          className="remote-play"
+          onClick={() => sendCommand(device.isPlaying ? 'PAUSE' : 'PLAY')}
+          title={device.isPlaying ? 'Pause' : 'Play'}
+          disabled={!track}
+        >
+          <i className={`fas ${device.isPlaying ? 'fa-pause' : 'fa-play'}`}></i>
+        </button>
+        <button onClick={() => sendCommand('NEXT')} title="Next" disabled={!track}>
+          <i className="fas fa-step-forward"></i>
+        </button>
+      </div>
+
+      {device.volume !== null && (
+        <div className="remote-volume">
+          <i className="fas fa-volume-down"></i>
+          <Slider
+            value={volumeValue ?? device.volume}
+            min={0}
+            max={1}
+            step={0.01}
+            onChange={setVolumeValue}
+            onChangeEnd={(volume) => {
+              sendCommand('SET_VOLUME', { volume });
+              setVolumeValue(null);
+            }}
+          />
+        </div>
+      )}
+
+      {track && (
+        <button className="remote-pull" onClick={() => pullPlayback(device.deviceId)}>
+          <i className="fas fa-arrow-down"></i>
+          Play on this device
+        </button>
+      )}
+    </div>
+  );
+};
+
+export const Devices: React.FC = () => {
+  const { isDevicesOpen, toggleDevices } = useUIStore();
+  const currentTrack = usePlayerStore((state) => state.currentTrack);
+  const { devices, isConnected, controllingDeviceId, startControl, stopControl, transferTo } = useDevicesStore();
+
+  // Release the controlled device when the panel closes
+  useEffect(() => {
+    if (!isDevicesOpen) {
+      useDevicesStore.getState().stopControl();
+    }
+  }, [isDevicesOpen]);
+
+  if (!isDevicesOpen) return null;
+
+  return (
+    <div className="devices-panel glass-elevated">
+      <div className="devices-header">
+        <h3>Devices</h3>
+        <button className="close-btn" onClick={toggleDevices}>
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <div className="devices-content">
+        <div className="device-item current">
+          <i className={`fas ${DEVICE_ICONS.web} device-icon`}></i>
+          <div className="device-info">
+            <span className="name">This device</span>
+            <span className="status">
+              {currentTrack ? `${currentTrack.title} · ${currentTrack.artist}` : 'Not playing'}
+            </span>
+          </div>
+        </div>
+
+        {!isConnected && (
+          <p className="devices-empty">Connecting…</p>
+        )}
+
+        {isConnected && devices.length === 0 && (
+          <div className="devices-empty">
+            <i className="fas fa-tower-broadcast"></i>
+            <p>No other devices</p>
+            <span>Open Noxa on another device with this account to control it from here.</span>
+          </div>
+        )}
+
+        {devices.map((device) => {
+          const isSelected = device.deviceId === controllingDeviceId;
+          return (
+            <div key={device.deviceId} className={`device-entry ${isSelected ? 'selected' : ''}`}>
+              <div
+                className="device-item"
+                onClick={() => (isSelected ? stopControl() : startControl(device.deviceId))}
+              >
+                <i className={`fas ${DEVICE_ICONS[device.deviceType] ?? 'fa-desktop'} device-icon`}></i>
+                <div className="device-info">
+                  <span className="name">{device.deviceName}</span>
+                  <span className={`status ${device.isPlaying ? 'playing' : ''}`}>
+                    {device.isPlaying && <i className="fas fa-volume-up"></i>}
+                    {device.currentTrack
+                      ? `${device.currentTrack.title} · ${device.currentTrack.artist}`
+                      : 'Not playing'}
+                  </span>
+                </div>
+                {currentTrack && (
+                  <button
+                    className="transfer-btn"
+                    title={`Play on ${device.deviceName}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      transferTo(device.deviceId);
+                    }}
+                  >
+                    <i className="fas fa-right-to-bracket"></i>
+                  </button>
+                )}
+              </div>
+              {isSelected && <RemoteControls device={device} />}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Devices;
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useEqualizerStore } from '../../stores/equalizer';
+import {
+  BUILT_IN_PRESETS,
+  EQ_BANDS,
+  MIN_EQ_GAIN_DB,
+  MAX_EQ_GAIN_DB,
+  formatBandFrequency,
+} from '../../audio/equalizer';
+import { Slider } from '../UI/Slider';
+import './Equalizer.css';
+
+const formatGain = (gain: number) => `${gain > 0 ? '+' : ''}${gain.toFixed(1)} dB`;
+
+export const Equalizer: React.FC = () => {
+  const {
+    enabled,
+    presetId,
+    gains,
+    userPresets,
+    setEnabled,
+    setBandGain,
+    applyPreset,
+    savePreset,
+    deletePreset,
+    reset,
+  } = useEqualizerStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent | TouchEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('touchstart', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('touchstart', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const activeUserPreset = userPresets.find((preset) => preset.id === presetId);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (savePreset(presetName)) {
+      setPresetName('');
+    }
+  };
+
+  return (
+    <div className="equalizer" ref={containerRef}>
+      <button
+        className={`player-btn ${enabled ? 'active' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        title="Equalizer"
+      >
+        <i className="fas fa-sliders"></i>
+      </button>
+
+      {isOpen && (
+        <div className="equalizer-panel glass-elevated">
+          <div className="equalizer-header">
+            <h3>Equalizer</h3>
+            <button
+              className={`equalizer-toggle ${enabled ? 'on' : ''}`}
+              onClick={() => setEnabled(!enabled)}
+              title={enabled ? 'Turn off' : 'Turn on'}
+            >
+              <span></span>
+            </button>
+          </div>
+
+          <div className="equalizer-presets">
+            <select
+              value={presetId ?? ''}
+              onChange={(e) => e.target.value && applyPreset(e.target.value)}
+            >
+              {presetId === null && <option value="">Custom</option>}
+              <optgroup label="Presets">
+                {BUILT_IN_PRESETS.map((preset) => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </optgroup>
+              {userPresets.length > 0 && (
+                <optgroup label="My presets">
+                  {userPresets.map((preset) => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            {activeUserPreset && (
+              <button
+                className="equalizer-icon-btn"
+                onClick={() => deletePreset(activeUserPreset.id)}
+                title={`Delete "${activeUserPreset.name}"`}
+              >
+                <i className="fas fa-trash"></i>
+              </button>
+            )}
+            <button className="equalizer-icon-btn" onClick={reset} title="Reset to flat">
+              <i className="fas fa-rotate-left"></i>
+            </button>
+          </div>
+
+          <div className={`equalizer-bands ${enabled ? '' : 'disabled'}`}>
+            {EQ_BANDS.map((band, i) => (
+              <div key={band.frequency} className="equalizer-band">
+                <span className="band-frequency">{formatBandFrequency(band.frequency)}</span>
+                <Slider
+                  value={gains[i]}
+                  min={MIN_EQ_GAIN_DB}
+                  max={MAX_EQ_GAIN_DB}
+                  step={0.5}
+                  onChange={(gain) => setBandGain(i, gain)}
+                />
+                <span className="band-gain">{formatGain(gains[i])}</span>
+              </div>
+            ))}
+          </div>
+
+          <form className="equalizer-save" onSubmit={handleSave}>
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Save as preset…"
+              maxLength={40}
+            />
+            <button type="submit" disabled={!presetName.trim()}>Save</button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Equalizer;
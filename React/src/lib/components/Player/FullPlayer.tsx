@@ -1,68 +1,75 @@
 import React, { useEffect, useRef } from 'react';
 import { usePlayerStore } from '../../stores/player';
+import { audioEngine } from '../../audio/engine';
 import { useUIStore } from '../../stores/ui';
 import { useLyricsStore } from '../../stores/lyrics';
+import { useDevicesStore } from '../../stores/devices';
 import { getArtworkUrl, handleImageError } from '../../utils/artwork';
 import { Controls } from './Controls';
 import { ProgressBar } from './ProgressBar';
 import { VolumeControl } from './VolumeControl';
+import { SleepTimer } from './SleepTimer';
+import { PlaybackRate } from './PlaybackRate';
+import { Equalizer } from './Equalizer';
 import './FullPlayer.css';
 
 export const FullPlayer: React.FC = () => {
-  const audioRef = useRef<HTMLAudioElement>(null);
   const {
     currentTrack,
-    setAudioRef,
     setCurrentTime,
     setDuration,
-    next,
+    handleTrackEnding,
     repeatMode,
   } = usePlayerStore();
-  const { isMobile, toggleQueue, toggleLyrics, isQueueOpen, isLyricsOpen, openAddToPlaylist, openArtistDetail } = useUIStore();
+  const {
+    isMobile,
+    toggleQueue,
+    toggleLyrics,
+    toggleDevices,
+    isQueueOpen,
+    isLyricsOpen,
+    isDevicesOpen,
+    openAddToPlaylist,
+    openArtistDetail,
+  } = useUIStore();
+  const hasOtherDevices = useDevicesStore((state) => state.devices.length > 0);
   const updateCurrentLine = useLyricsStore((state) => state.updateCurrentLine);
   
   // Keep stable refs for callbacks
   const updateCurrentLineRef = useRef(updateCurrentLine);
-  const nextRef = useRef(next);
+  const handleTrackEndingRef = useRef(handleTrackEnding);
   const repeatModeRef = useRef(repeatMode);
   
   useEffect(() => {
     updateCurrentLineRef.current = updateCurrentLine;
-    nextRef.current = next;
+    handleTrackEndingRef.current = handleTrackEnding;
     repeatModeRef.current = repeatMode;
-  }, [updateCurrentLine, next, repeatMode]);
-
-  // Set audio ref on mount
-  useEffect(() => {
-    if (audioRef.current) {
-      setAudioRef(audioRef.current);
-    }
-    return () => setAudioRef(null);
-  }, [setAudioRef]);
+  }, [updateCurrentLine, handleTrackEnding, repeatMode]);
 
-  // Handle audio events
+  // Handle audio events from the active deck
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const handleTimeUpdate = () => {
+    const handleTimeUpdate = (audio: HTMLAudioElement) => {
       const time = audio.currentTime;
       setCurrentTime(time);
       updateCurrentLineRef.current(time);
     };
 
-    const handleLoadedMetadata = () => {
+    const handleLoadedMetadata = (audio: HTMLAudioElement) => {
       setDuration(audio.duration);
     };
 
     const handleEnded = () => {
       if (repeatModeRef.current !== 'one') {
-        nextRef.current();
+        handleTrackEndingRef.current();
       }
     };
 
-    const handleError = (e: Event) => {
-      const audioEl = e.target as HTMLAudioElement;
+    // Crossfade window reached - start the next track on the other deck
+    const handleFadePoint = () => {
+      handleTrackEndingRef.current();
+    };
+
+    const handleError = (audioEl: HTMLAudioElement) => {
       console.error('❌ Audio error event:', {
         error: audioEl.error,
         errorCode: audioEl.error?.code,
@@ -73,28 +80,26 @@ export const FullPlayer: React.FC = () => {
       });
     };
 
-    audio.addEventListener('timeupdate', handleTimeUpdate);
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('error', handleError);
+    const unsubscribers = [
+      audioEngine.on('timeupdate', handleTimeUpdate),
+      audioEngine.on('loadedmetadata', handleLoadedMetadata),
+      audioEngine.on('ended', handleEnded),
+      audioEngine.on('fadepoint', handleFadePoint),
+      audioEngine.on('error', handleError),
+    ];
 
     return () => {
-      audio.removeEventListener('timeupdate', handleTimeUpdate);
-      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
-      audio.removeEventListener('ended', handleEnded);
-      audio.removeEventListener('error', handleError);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
   }, [setCurrentTime, setDuration]);
 
   // Don't render on mobile (use NowPlaying instead)
   if (isMobile) {
-    return <audio ref={audioRef} crossOrigin="use-credentials" />;
+    return null;
   }
 
   return (
     <>
-      <audio ref={audioRef} crossOrigin="use-credentials" />
-      
       <div className="full-player">
         {/* Track Info */}
         <div className="player-track">
@@ -158,6 +163,20 @@ export const FullPlayer: React.FC = () => {
             <i className="fas fa-list"></i>
           </button>
           
+          <button
+            className={`player-btn ${isDevicesOpen || hasOtherDevices ? 'active' : ''}`}
+            onClick={toggleDevices}
+            title="Devices"
+          >
+            <i className="fas fa-tower-broadcast"></i>
+          </button>
+          
+          <PlaybackRate />
+          
+          <SleepTimer />
+          
+          <Equalizer />
+          
           <VolumeControl />
         </div>
       </div>
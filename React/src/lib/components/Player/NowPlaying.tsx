@@ -1,27 +1,22 @@
-import React, { useEffect, useRef } from 'react';
+import React from 'react';
 import { usePlayerStore } from '../../stores/player';
 import { useUIStore } from '../../stores/ui';
-import { useLyricsStore } from '../../stores/lyrics';
 import { useSwipeGesture } from '../../hooks/useSwipeGesture';
 import { getArtworkUrl, handleImageError } from '../../utils/artwork';
 import { Controls } from './Controls';
 import { ProgressBar } from './ProgressBar';
+import { SleepTimer } from './SleepTimer';
+import { PlaybackRate } from './PlaybackRate';
 import './NowPlaying.css';
 
 export const NowPlaying: React.FC = () => {
-  const audioRef = useRef<HTMLAudioElement>(null);
   const {
     currentTrack,
     isPlaying,
-    setAudioRef,
-    setCurrentTime,
-    setDuration,
     next,
     previous,
-    repeatMode,
   } = usePlayerStore();
-  const { isNowPlayingOpen, toggleNowPlaying, toggleLyrics, toggleQueue, openAddToPlaylist, openArtistDetail, isMobile } = useUIStore();
-  const updateCurrentLine = useLyricsStore((state) => state.updateCurrentLine);
+  const { isNowPlayingOpen, toggleNowPlaying, toggleLyrics, toggleQueue, toggleDevices, openAddToPlaylist, openArtistDetail, isMobile } = useUIStore();
 
   // Swipe gestures: down to close, left/right to skip tracks
   const swipeHandlers = useSwipeGesture({
@@ -31,76 +26,10 @@ export const NowPlaying: React.FC = () => {
     threshold: 50,
   });
 
-  // Keep stable refs for callbacks
-  const updateCurrentLineRef = useRef(updateCurrentLine);
-  const nextRef = useRef(next);
-  const repeatModeRef = useRef(repeatMode);
-  
-  useEffect(() => {
-    updateCurrentLineRef.current = updateCurrentLine;
-    nextRef.current = next;
-    repeatModeRef.current = repeatMode;
-  }, [updateCurrentLine, next, repeatMode]);
-
-  // Set audio ref on mount (mobile only)
-  useEffect(() => {
-    if (isMobile && audioRef.current) {
-      setAudioRef(audioRef.current);
-    }
-  }, [isMobile, setAudioRef]);
-
-  // Handle audio events
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio || !isMobile) return;
-
-    const handleTimeUpdate = () => {
-      const time = audio.currentTime;
-      setCurrentTime(time);
-      updateCurrentLineRef.current(time);
-    };
-
-    const handleLoadedMetadata = () => {
-      setDuration(audio.duration);
-    };
-
-    const handleEnded = () => {
-      if (repeatModeRef.current !== 'one') {
-        nextRef.current();
-      }
-    };
-
-    const handleError = (e: Event) => {
-      const audioEl = e.target as HTMLAudioElement;
-      console.error('❌ Mobile Audio error event:', {
-        error: audioEl.error,
-        errorCode: audioEl.error?.code,
-        errorMessage: audioEl.error?.message,
-        src: audioEl.src,
-        networkState: audioEl.networkState,
-        readyState: audioEl.readyState,
-      });
-    };
-
-    audio.addEventListener('timeupdate', handleTimeUpdate);
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('error', handleError);
-
-    return () => {
-      audio.removeEventListener('timeupdate', handleTimeUpdate);
-      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
-      audio.removeEventListener('ended', handleEnded);
-      audio.removeEventListener('error', handleError);
-    };
-  }, [isMobile, setCurrentTime, setDuration]);
-
   if (!isMobile) return null;
 
   return (
     <>
-      <audio ref={audioRef} crossOrigin="use-credentials" />
-      
       <div 
         className={`now-playing ${isNowPlayingOpen ? 'open' : ''}`}
         {...swipeHandlers}
@@ -164,6 +93,12 @@ export const NowPlaying: React.FC = () => {
                 <i className="fas fa-list"></i>
                 <span>Queue</span>
               </button>
+              <button className="action-btn" onClick={toggleDevices}>
+                <i className="fas fa-tower-broadcast"></i>
+                <span>Devices</span>
+              </button>
+              <PlaybackRate variant="action" />
+              <SleepTimer variant="action" />
             </div>
           </div>
         )}
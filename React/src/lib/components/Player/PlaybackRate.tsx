@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { usePlayerStore } from '../../stores/player';
+import { MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE, PLAYBACK_RATE_STEPS } from '../../audio/engine';
+import { Slider } from '../UI/Slider';
+import './PlaybackRate.css';
+
+interface PlaybackRateProps {
+  // 'player' for the desktop player bar, 'action' for the mobile now playing actions
+  variant?: 'player' | 'action';
+}
+
+const formatRate = (rate: number) => `${Number(rate.toFixed(2))}x`;
+
+export const PlaybackRate: React.FC<PlaybackRateProps> = ({ variant = 'player' }) => {
+  const { playbackRate, preservesPitch, setPlaybackRate, setPreservesPitch } = usePlayerStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent | TouchEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('touchstart', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('touchstart', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const isChanged = playbackRate !== 1;
+
+  return (
+    <div className={`playback-rate ${variant}`} ref={containerRef}>
+      {variant === 'player' ? (
+        <button
+          className={`player-btn playback-rate-btn ${isChanged ? 'active' : ''}`}
+          onClick={() => setIsOpen(!isOpen)}
+          title="Playback speed"
+        >
+          {formatRate(playbackRate)}
+        </button>
+      ) : (
+        <button
+          className={`action-btn ${isChanged ? 'active' : ''}`}
+          onClick={() => setIsOpen(!isOpen)}
+          title="Playback speed"
+        >
+          <i className="fas fa-gauge-high"></i>
+          <span>{formatRate(playbackRate)}</span>
+        </button>
+      )}
+
+      {isOpen && (
+        <div className="playback-rate-menu glass-elevated">
+          <div className="playback-rate-header">
+            <span>Speed</span>
+            <span className="playback-rate-value">{formatRate(playbackRate)}</span>
+          </div>
+          <Slider
+            value={playbackRate}
+            min={MIN_PLAYBACK_RATE}
+            max={MAX_PLAYBACK_RATE}
+            step={0.05}
+            onChange={setPlaybackRate}
+          />
+          <div className="playback-rate-steps">
+            {PLAYBACK_RATE_STEPS.map((rate) => (
+              <button
+                key={rate}
+                className={`playback-rate-step ${playbackRate === rate ? 'active' : ''}`}
+                onClick={() => setPlaybackRate(rate)}
+              >
+                {formatRate(rate)}
+              </button>
+            ))}
+          </div>
+          <label className="playback-rate-pitch">
+            <input
+              type="checkbox"
+              checked={preservesPitch}
+              onChange={(e) => setPreservesPitch(e.target.checked)}
+            />
+            <span>Preserve pitch</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackRate;
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import type { Track } from '../../api/library';
 import { usePlayerStore } from '../../stores/player';
 import { useUIStore } from '../../stores/ui';
 import { getArtworkUrl, handleImageError } from '../../utils/artwork';
@@ -7,14 +8,67 @@ import './Queue.css';
 
 type QueueTab = 'queue' | 'recently-played';
 
+// 'user' is the manually queued list, 'context' the rest of the album/playlist
+type QueueList = 'user' | 'context';
+
+interface DragState {
+  list: QueueList;
+  from: number;
+  over: number;
+}
+
+/**
+ * Drag-to-reorder with pointer events, so it works with touch as well as a mouse.
+ * Rows mark themselves with data-queue-list / data-queue-index.
+ */
+function useDragReorder(onMove: (list: QueueList, from: number, to: number) => void) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const handleProps = (list: QueueList, index: number) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({ list, from: index, over: index });
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (!drag) return;
+      const row = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-queue-index]');
+      if (row?.dataset.queueList !== drag.list) return;
+      const over = Number(row.dataset.queueIndex);
+      if (over !== drag.over) setDrag({ ...drag, over });
+    },
+    onPointerUp: () => {
+      if (drag && drag.over !== drag.from) onMove(drag.list, drag.from, drag.over);
+      setDrag(null);
+    },
+    onPointerCancel: () => setDrag(null),
+    onClick: (e: React.MouseEvent) => e.stopPropagation(),
+  });
+
+  const rowClass = (list: QueueList, index: number) => {
+    if (drag?.list !== list) return '';
+    if (index === drag.from) return 'dragging';
+    if (index === drag.over) return drag.over < drag.from ? 'drop-before' : 'drop-after';
+    return '';
+  };
+
+  return { handleProps, rowClass };
+}
+
 export const Queue: React.FC = () => {
   const [activeTab, setActiveTab] = useState<QueueTab>('queue');
   const { 
     queue, 
     queueIndex, 
+    userQueue,
     currentTrack, 
     recentlyPlayed,
     playTrack, 
+    playFromUserQueue,
+    moveInUserQueue,
+    removeFromUserQueue,
+    clearUserQueue,
+    moveInQueue,
     removeFromQueue, 
     clearQueue,
     clearRecentlyPlayed 
@@ -22,9 +76,53 @@ export const Queue: React.FC = () => {
   const { isQueueOpen, toggleQueue } = useUIStore();
 
   const upcomingTracks = queue.slice(queueIndex + 1);
+  const autoplayStart = upcomingTracks.findIndex((track) => track.autoplay);
+
+  const { handleProps, rowClass } = useDragReorder((list, from, to) => {
+    if (list === 'user') {
+      moveInUserQueue(from, to);
+    } else {
+      moveInQueue(queueIndex + 1 + from, queueIndex + 1 + to);
+    }
+  });
 
   if (!isQueueOpen) return null;
 
+  const renderTrack = (track: Track, list: QueueList, index: number, onPlay: () => void, onRemove: () => void) => (
+    <div
+      key={`${list}-${track.id}-${index}`}
+      className={`queue-track ${rowClass(list, index)}`}
+      data-queue-list={list}
+      data-queue-index={index}
+      onClick={onPlay}
+    >
+      <span className="drag-handle" title="Drag to reorder" {...handleProps(list, index)}>
+        <i className="fas fa-grip-lines"></i>
+      </span>
+      <img
+        src={getArtworkUrl(track.album_cover)}
+        alt={track.album}
+        onError={(e) => handleImageError(e)}
+      />
+      <div className="track-info">
+        <span className="title">{track.title}</span>
+        <span className="artist">
+          {track.autoplay && <i className="fas fa-tower-broadcast autoplay-badge" title="Added by autoplay"></i>}
+          {track.artist}
+        </span>
+      </div>
+      <button
+        className="remove-btn"
+        onClick={(e) => {
+          e.stopPropagation();
+          onRemove();
+        }}
+      >
+        <i className="fas fa-times"></i>
+      </button>
+    </div>
+  );
+
   return (
     <div className="queue-panel glass-elevated">
       <div className="queue-header">
@@ -43,11 +141,6 @@ export const Queue: React.FC = () => {
           </button>
         </div>
         <div className="queue-actions">
-          {activeTab === 'queue' && upcomingTracks.length > 0 && (
-            <button className="clear-btn" onClick={clearQueue}>
-              Clear
-            </button>
-          )}
           {activeTab === 'recently-played' && recentlyPlayed.length > 0 && (
             <button className="clear-btn" onClick={clearRecentlyPlayed}>
               Clear
@@ -81,41 +174,59 @@ export const Queue: React.FC = () => {
               </div>
             )}
 
+            {userQueue.length > 0 && (
+              <div className="queue-section">
+                <div className="queue-section-header">
+                  <h4>Next in Queue</h4>
+                  <button className="clear-btn" onClick={clearUserQueue}>
+                    Clear queue
+                  </button>
+                </div>
+                <div className="queue-list">
+                  {userQueue.map((track, index) =>
+                    renderTrack(
+                      track,
+                      'user',
+                      index,
+                      () => playFromUserQueue(index),
+                      () => removeFromUserQueue(index)
+                    )
+                  )}
+                </div>
+              </div>
+            )}
+
             {upcomingTracks.length > 0 && (
               <div className="queue-section">
-                <h4>Next Up</h4>
+                <div className="queue-section-header">
+                  <h4>Next Up</h4>
+                  <button className="clear-btn" onClick={clearQueue}>
+                    Clear
+                  </button>
+                </div>
                 <div className="queue-list">
                   {upcomingTracks.map((track, index) => (
-                    <div
-                      key={`${track.id}-${index}`}
-                      className="queue-track"
-                      onClick={() => playTrack(track, queue, queueIndex + 1 + index)}
-                    >
-                      <img
-                        src={getArtworkUrl(track.album_cover)}
-                        alt={track.album}
-                        onError={(e) => handleImageError(e)}
-                      />
-                      <div className="track-info">
-                        <span className="title">{track.title}</span>
-                        <span className="artist">{track.artist}</span>
-                      </div>
-                      <button
-                        className="remove-btn"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          removeFromQueue(queueIndex + 1 + index);
-                        }}
-                      >
-                        <i className="fas fa-times"></i>
-                      </button>
-                    </div>
+                    <React.Fragment key={`${track.id}-${index}`}>
+                      {index === autoplayStart && (
+                        <span className="queue-autoplay-label">
+                          <i className="fas fa-tower-broadcast"></i>
+                          Autoplay · similar to what you've been playing
+                        </span>
+                      )}
+                      {renderTrack(
+                        track,
+                        'context',
+                        index,
+                        () => playTrack(track, queue, queueIndex + 1 + index),
+                        () => removeFromQueue(queueIndex + 1 + index)
+                      )}
+                    </React.Fragment>
                   ))}
                 </div>
               </div>
             )}
 
-            {!currentTrack && upcomingTracks.length === 0 && (
+            {!currentTrack && userQueue.length === 0 && upcomingTracks.length === 0 && (
               <div className="queue-empty">
                 <i className="fas fa-list"></i>
                 <p>Queue is empty</p>
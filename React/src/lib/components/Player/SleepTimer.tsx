@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { usePlayerStore, getPlaybackOrder } from '../../stores/player';
+import { getSleepRemaining, SLEEP_TIMER_PRESETS, type SleepTimerMode } from '../../audio/sleepTimer';
+import { formatTime } from '../../utils/formatTime';
+import './SleepTimer.css';
+
+interface SleepTimerProps {
+  // 'player' for the desktop player bar, 'action' for the mobile now playing actions
+  variant?: 'player' | 'action';
+}
+
+/**
+ * Seconds left on the sleep timer, refreshed every second
+ */
+function useSleepRemaining(): number | null {
+  const { sleepTimer, currentTime, duration, queue, queueIndex, userQueue, playbackRate } = usePlayerStore();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!sleepTimer) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sleepTimer]);
+
+  if (!sleepTimer) return null;
+  return getSleepRemaining(
+    sleepTimer,
+    { currentTime, duration, queue: getPlaybackOrder({ queue, queueIndex, userQueue }), queueIndex, playbackRate },
+    now
+  );
+}
+
+export const SleepTimer: React.FC<SleepTimerProps> = ({ variant = 'player' }) => {
+  const { sleepTimer, setSleepTimer, cancelSleepTimer } = usePlayerStore();
+  const remaining = useSleepRemaining();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent | TouchEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('touchstart', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('touchstart', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const choose = (mode: SleepTimerMode, minutes?: number) => {
+    setSleepTimer(mode, minutes);
+    setIsOpen(false);
+  };
+
+  const remainingLabel = remaining !== null ? formatTime(remaining) : null;
+  const title = sleepTimer ? `Sleep timer${remainingLabel ? ` · ${remainingLabel} left` : ''}` : 'Sleep timer';
+
+  return (
+    <div className={`sleep-timer ${variant}`} ref={containerRef}>
+      {variant === 'player' ? (
+        <button
+          className={`player-btn sleep-timer-btn ${sleepTimer ? 'active' : ''}`}
+          onClick={() => setIsOpen(!isOpen)}
+          title={title}
+        >
+          <i className="fas fa-moon"></i>
+          {remainingLabel && <span className="sleep-timer-remaining">{remainingLabel}</span>}
+        </button>
+      ) : (
+        <button
+          className={`action-btn ${sleepTimer ? 'active' : ''}`}
+          onClick={() => setIsOpen(!isOpen)}
+          title={title}
+        >
+          <i className="fas fa-moon"></i>
+          <span>{sleepTimer ? remainingLabel ?? 'On' : 'Sleep'}</span>
+        </button>
+      )}
+
+      {isOpen && (
+        <div className="sleep-timer-menu glass-elevated">
+          <div className="sleep-timer-header">Stop playback</div>
+          {SLEEP_TIMER_PRESETS.map((minutes) => (
+            <button key={minutes} className="sleep-timer-option" onClick={() => choose('minutes', minutes)}>
+              In {minutes} minutes
+            </button>
+          ))}
+          <button
+            className={`sleep-timer-option ${sleepTimer?.mode === 'track' ? 'active' : ''}`}
+            onClick={() => choose('track')}
+          >
+            End of track
+          </button>
+          <button
+            className={`sleep-timer-option ${sleepTimer?.mode === 'collection' ? 'active' : ''}`}
+            onClick={() => choose('collection')}
+          >
+            End of album or playlist
+          </button>
+          {sleepTimer && (
+            <button
+              className="sleep-timer-option danger"
+              onClick={() => {
+                cancelSleepTimer();
+                setIsOpen(false);
+              }}
+            >
+              Turn off timer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SleepTimer;
@@ -1,7 +1,11 @@
 export { Controls } from './Controls';
 export { ProgressBar } from './ProgressBar';
 export { VolumeControl } from './VolumeControl';
+export { Equalizer } from './Equalizer';
 export { Queue } from './Queue';
+export { Devices } from './Devices';
+export { SleepTimer } from './SleepTimer';
+export { PlaybackRate } from './PlaybackRate';
 export { MiniPlayer } from './MiniPlayer';
 export { FullPlayer } from './FullPlayer';
 export { NowPlaying } from './NowPlaying';
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import type { Track } from '../../api/library';
+import { useOfflineStore, type OfflineCollectionInfo } from '../../stores/offline';
+import { useUIStore } from '../../stores/ui';
+import { Button } from './Button';
+import './DownloadCollectionButton.css';
+
+interface DownloadCollectionButtonProps {
+  collection: OfflineCollectionInfo;
+  tracks: Track[];
+}
+
+/**
+ * Toggle to keep a whole playlist or album offline, with its download state
+ */
+export const DownloadCollectionButton: React.FC<DownloadCollectionButtonProps> = ({ collection, tracks }) => {
+  const { getCollectionStatus, saveCollectionForOffline, removeCollectionFromOffline } = useOfflineStore();
+  const { showToast } = useUIStore();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const status = getCollectionStatus(collection.key);
+  const isComplete = status.saved && status.downloaded === status.total;
+
+  const handleToggle = async () => {
+    setIsBusy(true);
+    try {
+      if (status.saved) {
+        await removeCollectionFromOffline(collection.key);
+        showToast(`Removed "${collection.name}" from downloads`, 'info');
+      } else {
+        await saveCollectionForOffline(collection, tracks);
+        showToast(`Downloading "${collection.name}"`, 'success');
+      }
+    } catch (error) {
+      console.error('Failed to update offline collection:', error);
+      showToast('Failed to update downloads', 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  let label: string | null = null;
+  if (isComplete) {
+    label = 'Downloaded';
+  } else if (status.downloading > 0) {
+    label = `Downloading ${status.downloaded}/${status.total}`;
+  } else if (status.failed > 0) {
+    label = `${status.failed} failed`;
+  } else if (status.saved) {
+    label = `${status.downloaded}/${status.total} downloaded`;
+  }
+
+  return (
+    <div className="download-collection">
+      <Button
+        variant="ghost"
+        size="lg"
+        className={`download-collection-btn ${status.saved ? 'saved' : ''}`}
+        onClick={handleToggle}
+        isLoading={isBusy}
+        disabled={!status.saved && tracks.length === 0}
+        icon={<i className={isComplete ? 'fas fa-circle-check' : 'fas fa-circle-down'} />}
+        title={status.saved ? 'Remove download' : 'Download'}
+      />
+      {label && (
+        <span className={`download-collection-state ${status.failed > 0 && status.downloading === 0 ? 'failed' : ''}`}>
+          {label}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default DownloadCollectionButton;
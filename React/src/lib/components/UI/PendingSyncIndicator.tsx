@@ -0,0 +1,32 @@
+import React from 'react';
+import { useOutboxStore } from '../../stores/outbox';
+import { useOfflineStore } from '../../stores/offline';
+import './PendingSyncIndicator.css';
+
+/**
+ * Shows how many offline changes are still waiting to reach the server
+ */
+export const PendingSyncIndicator: React.FC = () => {
+  const { entries, isSyncing, flush } = useOutboxStore();
+  const { isOnline } = useOfflineStore();
+
+  if (entries.length === 0) return null;
+
+  const label = isSyncing
+    ? 'Syncing…'
+    : `${entries.length} pending ${entries.length === 1 ? 'change' : 'changes'}`;
+
+  return (
+    <button
+      className={`pending-sync ${isOnline ? '' : 'offline'}`}
+      onClick={() => flush()}
+      disabled={isSyncing || !isOnline}
+      title={isOnline ? 'Sync now' : 'Will sync when you are back online'}
+    >
+      <i className={`fas fa-rotate ${isSyncing ? 'fa-spin' : ''}`}></i>
+      <span>{label}</span>
+    </button>
+  );
+};
+
+export default PendingSyncIndicator;
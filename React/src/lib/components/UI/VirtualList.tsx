@@ -0,0 +1,120 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import './VirtualList.css';
+
+interface VirtualListProps<T> {
+  items: T[];
+  rowHeight: number; // Every row is this tall (px), including the gap below it
+  renderRow: (item: T, index: number) => React.ReactNode;
+  getKey: (item: T, index: number) => React.Key;
+  overscan?: number; // Rows rendered above and below the visible ones
+  className?: string;
+  onEndReached?: () => void; // Called when the last rows come into view
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+// Rows rendered before the list has measured its scroll container
+const INITIAL_ROWS = 30;
+
+/**
+ * Nearest ancestor that scrolls (the page content or a modal)
+ */
+function findScrollParent(element: HTMLElement): HTMLElement | null {
+  let parent = element.parentElement;
+  while (parent) {
+    const { overflowY } = getComputedStyle(parent);
+    if (overflowY === 'auto' || overflowY === 'scroll') return parent;
+    parent = parent.parentElement;
+  }
+  return null;
+}
+
+/**
+ * List that only renders the rows in view of whatever it scrolls inside,
+ * so long track lists stay cheap to render and to scroll
+ */
+export function VirtualList<T>({
+  items,
+  rowHeight,
+  renderRow,
+  getKey,
+  overscan = 8,
+  className = '',
+  onEndReached,
+}: VirtualListProps<T>) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [range, setRange] = useState<Range>({ start: 0, end: INITIAL_ROWS });
+
+  const measure = useCallback(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const scroller = findScrollParent(list);
+    const viewTop = scroller ? scroller.getBoundingClientRect().top : 0;
+    const viewHeight = scroller ? scroller.clientHeight : window.innerHeight;
+    // Where the list starts relative to the top of the view, negative once scrolled past
+    const offset = list.getBoundingClientRect().top - viewTop;
+
+    const start = Math.max(0, Math.floor(-offset / rowHeight) - overscan);
+    const end = Math.max(start, Math.ceil((viewHeight - offset) / rowHeight) + overscan);
+
+    setRange(current => (current.start === start && current.end === end ? current : { start, end }));
+  }, [rowHeight, overscan]);
+
+  useLayoutEffect(() => {
+    measure();
+  }, [measure, items.length]);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const scroller = findScrollParent(list);
+    const target: HTMLElement | Window = scroller ?? window;
+    let frame = 0;
+
+    // At most one measurement per frame
+    const handleScroll = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        measure();
+      });
+    };
+
+    target.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll);
+    return () => {
+      target.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [measure]);
+
+  const start = Math.min(range.start, items.length);
+  const end = Math.min(range.end, items.length);
+
+  // Ask for more while the last rows are within the overscan
+  useEffect(() => {
+    if (onEndReached && items.length > 0 && end >= items.length) {
+      onEndReached();
+    }
+  }, [onEndReached, end, items.length]);
+
+  return (
+    <div ref={listRef} className={`virtual-list ${className}`} style={{ height: items.length * rowHeight }}>
+      <div className="virtual-list-window" style={{ transform: `translateY(${start * rowHeight}px)` }}>
+        {items.slice(start, end).map((item, i) => (
+          <div key={getKey(item, start + i)} className="virtual-list-row" style={{ height: rowHeight }}>
+            {renderRow(item, start + i)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
@@ -3,4 +3,7 @@ export { Input } from './Input';
 export { Slider } from './Slider';
 export { Skeleton, SkeletonCard, SkeletonTrack, SkeletonPlaylist } from './Skeleton';
 export { HorizontalScroll } from './HorizontalScroll';
+export { VirtualList } from './VirtualList';
 
+export { DownloadCollectionButton } from './DownloadCollectionButton';
+export { PendingSyncIndicator } from './PendingSyncIndicator';
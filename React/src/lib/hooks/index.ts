@@ -1,4 +1,7 @@
 export { useMediaSession } from './useMediaSession';
+export { usePlaybackSession } from './usePlaybackSession';
+export { useDeviceSync } from './useDeviceSync';
+export { useEqualizerProfile } from './useEqualizerProfile';
 export { useAnalytics } from './useAnalytics';
 export { useSwipeGesture, useSwipeToDelete } from './useSwipeGesture';
-
+export { useCachedQuery, useCachedQueries } from './useCachedQuery';
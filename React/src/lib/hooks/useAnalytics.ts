@@ -1,11 +1,13 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { usePlayerStore } from '../stores/player';
+import { useAuthStore } from '../stores/auth';
+import { useOfflineStore } from '../stores/offline';
+import { useOutboxStore } from '../stores/outbox';
 import {
   startSession,
   sessionHeartbeat,
   endSession,
   startListen,
-  endListen,
   trackSearch,
 } from '../api/analytics';
 
@@ -15,31 +17,74 @@ const HEARTBEAT_INTERVAL = 30000;
 // Minimum listen time to count as a valid listen (10 seconds)
 const MIN_LISTEN_TIME = 10;
 
+// Stands in for the listen event ID of a listen started while offline
+const OFFLINE_LISTEN = -1;
+
 /**
  * Custom hook for analytics tracking
  * Tracks sessions, listens, and searches
  */
 export function useAnalytics() {
   const { currentTrack, isPlaying, currentTime, duration } = usePlayerStore();
+  const userId = useAuthStore(state => state.user?.id ?? null);
   
   // Refs to track listen state
-  const sessionIdRef = useRef<string | null>(null);
-  const listenIdRef = useRef<string | null>(null);
+  const sessionIdRef = useRef<number | null>(null);
+  const listenIdRef = useRef<number | null>(null);
   const listenStartTimeRef = useRef<number>(0);
   const lastTrackIdRef = useRef<number | null>(null);
   const heartbeatIntervalRef = useRef<number | null>(null);
 
-  // Start session on mount
+  // Listens started offline, or ended while offline, go through the outbox
+  const beginListen = (trackId: number) => {
+    const userId = useAuthStore.getState().user?.id;
+    if (userId === undefined) return;
+    if (!useOfflineStore.getState().isOnline) {
+      listenIdRef.current = OFFLINE_LISTEN;
+      listenStartTimeRef.current = Date.now();
+      return;
+    }
+    startListen(userId, trackId, sessionIdRef.current)
+      .then(({ listenEventId }) => {
+        listenIdRef.current = listenEventId;
+        listenStartTimeRef.current = Date.now();
+      })
+      .catch(console.error);
+  };
+
+  const finishListen = (trackId: number, seconds: number, completed: boolean, skipped: boolean) => {
+    const userId = useAuthStore.getState().user?.id;
+    if (userId === undefined) return;
+    const listenEventId = listenIdRef.current === OFFLINE_LISTEN ? null : listenIdRef.current;
+    useOutboxStore.getState()
+      .runOrQueue({
+        type: 'listen',
+        userId,
+        trackId,
+        listenEventId,
+        duration: seconds,
+        completed,
+        skipped,
+        startedAt: listenStartTimeRef.current,
+        endedAt: Date.now(),
+      })
+      .catch(console.error);
+  };
+
+  // Start a session once signed in
   useEffect(() => {
+    if (userId === null) return;
+    const sessionToken = `web-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    
     const initSession = async () => {
       try {
-        const { sessionId } = await startSession();
+        const { sessionId } = await startSession(userId, sessionToken);
         sessionIdRef.current = sessionId;
         
         // Start heartbeat
         heartbeatIntervalRef.current = window.setInterval(async () => {
           try {
-            await sessionHeartbeat();
+            await sessionHeartbeat(sessionToken);
           } catch (error) {
             console.error('Heartbeat failed:', error);
           }
@@ -55,12 +100,14 @@ export function useAnalytics() {
     return () => {
       if (heartbeatIntervalRef.current) {
         clearInterval(heartbeatIntervalRef.current);
+        heartbeatIntervalRef.current = null;
       }
       
       // End session
-      endSession().catch(console.error);
+      sessionIdRef.current = null;
+      endSession(sessionToken).catch(console.error);
     };
-  }, []);
+  }, [userId]);
 
   // Track listen events when track changes or playback state changes
   useEffect(() => {
@@ -73,8 +120,8 @@ export function useAnalytics() {
       const completed = currentTime >= (duration - 2); // Within 2 seconds of end
       const skipped = seconds < MIN_LISTEN_TIME;
       
-      if (seconds >= MIN_LISTEN_TIME) {
-        endListen(listenIdRef.current, seconds, completed, skipped).catch(console.error);
+      if (seconds >= MIN_LISTEN_TIME && lastTrackIdRef.current !== null) {
+        finishListen(lastTrackIdRef.current, seconds, completed, skipped);
       }
       
       listenIdRef.current = null;
@@ -82,12 +129,7 @@ export function useAnalytics() {
 
     // New track started playing
     if (trackId && isPlaying && trackId !== lastTrackIdRef.current) {
-      startListen(trackId)
-        .then(({ listenId }) => {
-          listenIdRef.current = listenId;
-          listenStartTimeRef.current = Date.now();
-        })
-        .catch(console.error);
+      beginListen(trackId);
     }
 
     // Track stopped (paused at end or manually)
@@ -97,8 +139,8 @@ export function useAnalytics() {
       const completed = currentTime >= (duration - 2);
       const skipped = seconds < MIN_LISTEN_TIME;
       
-      if (seconds >= MIN_LISTEN_TIME) {
-        endListen(listenIdRef.current, seconds, completed, skipped).catch(console.error);
+      if (seconds >= MIN_LISTEN_TIME && trackId) {
+        finishListen(trackId, seconds, completed, skipped);
       }
       
       listenIdRef.current = null;
@@ -106,12 +148,7 @@ export function useAnalytics() {
 
     // Track started playing again (resume)
     if (trackId && isPlaying && !listenIdRef.current && trackId === lastTrackIdRef.current) {
-      startListen(trackId)
-        .then(({ listenId }) => {
-          listenIdRef.current = listenId;
-          listenStartTimeRef.current = Date.now();
-        })
-        .catch(console.error);
+      beginListen(trackId);
     }
 
     lastTrackIdRef.current = trackId ?? null;
@@ -122,11 +159,11 @@ export function useAnalytics() {
     if (query.trim().length < 2) return; // Ignore very short queries
     
     try {
-      await trackSearch(query, resultsCount);
+      await trackSearch(userId, query, resultsCount);
     } catch (error) {
       console.error('Failed to track search:', error);
     }
-  }, []);
+  }, [userId]);
 
   return { trackSearchQuery };
 }
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { getCachedData, retainQuery, subscribeQueries } from '../api/cache';
+
+/**
+ * Custom hook to read the cached data of several query keys, re-rendering when
+ * any of them changes. The keys stay in the cache while the component is mounted;
+ * loading them is up to the caller.
+ */
+export function useCachedQueries<T>(keys: readonly string[]): (T | undefined)[] {
+  // Callers usually build the array on every render, follow its contents instead
+  const id = JSON.stringify(keys);
+  const stableKeys = useMemo<string[]>(() => JSON.parse(id), [id]);
+  const snapshot = useRef<(T | undefined)[]>([]);
+
+  useEffect(() => {
+    const releases = stableKeys.map(retainQuery);
+    return () => releases.forEach(release => release());
+  }, [stableKeys]);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => subscribeQueries(key => {
+      if (stableKeys.includes(key)) onChange();
+    }),
+    [stableKeys]
+  );
+
+  // The same array as long as the data is the same, or React would render forever
+  const getSnapshot = useCallback(() => {
+    const data = stableKeys.map(key => getCachedData<T>(key));
+    const previous = snapshot.current;
+    if (data.length !== previous.length || data.some((value, i) => value !== previous[i])) {
+      snapshot.current = data;
+    }
+    return snapshot.current;
+  }, [stableKeys]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/**
+ * Custom hook to read one query key's cached data, see useCachedQueries
+ */
+export function useCachedQuery<T>(key: string): T | undefined {
+  return useCachedQueries<T>([key])[0];
+}
@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import { usePlayerStore } from '../stores/player';
+import { useAuthStore } from '../stores/auth';
+import { useDevicesStore } from '../stores/devices';
+
+// While playing, re-send the position this often so other devices stay in sync (ms)
+const POSITION_BROADCAST_INTERVAL = 5000;
+
+/**
+ * Custom hook to register this device for remote control and keep other
+ * devices informed about what it is playing
+ */
+export function useDeviceSync() {
+  const { isAuthenticated } = useAuthStore();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const { connect, disconnect, broadcastState } = useDevicesStore.getState();
+    connect();
+
+    const unsubscribe = usePlayerStore.subscribe((state, prev) => {
+      const queueChanged =
+        state.queue !== prev.queue ||
+        state.originalQueue !== prev.originalQueue ||
+        state.userQueue !== prev.userQueue;
+      const changed =
+        queueChanged ||
+        state.currentTrack?.id !== prev.currentTrack?.id ||
+        state.isPlaying !== prev.isPlaying ||
+        state.volume !== prev.volume ||
+        state.isMuted !== prev.isMuted ||
+        state.queueIndex !== prev.queueIndex ||
+        state.isShuffled !== prev.isShuffled ||
+        state.repeatMode !== prev.repeatMode ||
+        state.duration !== prev.duration ||
+        // Seeks show up as jumps in position
+        Math.abs(state.currentTime - prev.currentTime) > 2;
+
+      if (changed) {
+        broadcastState(queueChanged);
+      }
+    });
+
+    // Position only, the queues went out when they last changed
+    const interval = window.setInterval(() => {
+      if (usePlayerStore.getState().isPlaying) {
+        broadcastState(false);
+      }
+    }, POSITION_BROADCAST_INTERVAL);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+      disconnect();
+    };
+  }, [isAuthenticated]);
+}
@@ -0,0 +1,101 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '../stores/auth';
+import { useEqualizerStore } from '../stores/equalizer';
+import { getOutputDeviceKey, loadStoredEqualizer, storeEqualizer } from '../audio/equalizer';
+import { getPreferences, saveEqualizerSettings } from '../api/user';
+
+// Dragging a band changes the EQ many times a second; batch server writes (ms)
+const REMOTE_SYNC_DELAY = 3000;
+
+/**
+ * Custom hook to load the signed-in user's EQ settings for the current audio
+ * output, switching profiles when headphones or speakers are connected, and
+ * to keep them in step with the account so they follow the user to other devices
+ */
+export function useEqualizerProfile() {
+  const userId = useAuthStore((state) => state.user?.id ?? null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProfile = async () => {
+      const outputKey = await getOutputDeviceKey();
+      if (!cancelled) {
+        useEqualizerStore.getState().load(userId, outputKey);
+      }
+    };
+
+    loadProfile();
+    navigator.mediaDevices?.addEventListener?.('devicechange', loadProfile);
+
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener?.('devicechange', loadProfile);
+    };
+  }, [userId]);
+
+  // Newest settings win; localStorage stays the copy used offline
+  useEffect(() => {
+    if (userId === null) return;
+    let cancelled = false;
+    // Nothing is pushed until the account's settings have been compared
+    let syncedAt: number | null = null;
+    let remoteTimer: number | null = null;
+
+    const pushRemote = () => {
+      if (remoteTimer !== null) {
+        clearTimeout(remoteTimer);
+        remoteTimer = null;
+      }
+      const stored = loadStoredEqualizer(userId);
+      if (syncedAt === null || stored.updatedAt <= syncedAt) return;
+
+      syncedAt = stored.updatedAt;
+      saveEqualizerSettings(stored)
+        .catch((err) => console.warn('Could not sync equalizer settings:', err));
+    };
+
+    getPreferences()
+      .then(({ equalizer }) => {
+        if (cancelled) return;
+
+        const local = loadStoredEqualizer(userId);
+        if (equalizer && equalizer.updatedAt > local.updatedAt) {
+          storeEqualizer(userId, equalizer);
+          syncedAt = equalizer.updatedAt;
+
+          const { userId: loadedUserId, outputKey, load } = useEqualizerStore.getState();
+          if (loadedUserId === userId) {
+            load(userId, outputKey);
+          }
+        } else {
+          // Edited offline, or the account has no settings yet
+          syncedAt = equalizer?.updatedAt ?? -1;
+          pushRemote();
+        }
+      })
+      .catch((err) => console.warn('Could not load equalizer settings:', err));
+
+    const unsubscribe = useEqualizerStore.subscribe((state) => {
+      if (state.userId === userId && syncedAt !== null && remoteTimer === null) {
+        remoteTimer = window.setTimeout(pushRemote, REMOTE_SYNC_DELAY);
+      }
+    });
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && remoteTimer !== null) {
+        pushRemote();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (remoteTimer !== null) {
+        clearTimeout(remoteTimer);
+      }
+    };
+  }, [userId]);
+}
@@ -12,6 +12,7 @@ export function useMediaSession() {
     isPlaying,
     currentTime,
     duration,
+    playbackRate,
     togglePlay,
     next,
     previous,
@@ -57,13 +58,13 @@ export function useMediaSession() {
     try {
       navigator.mediaSession.setPositionState({
         duration: duration || 0,
-        playbackRate: 1,
+        playbackRate,
         position: Math.min(currentTime, duration || 0),
       });
     } catch {
       // Ignore errors - some browsers don't support setPositionState
     }
-  }, [currentTime, duration, currentTrack]);
+  }, [currentTime, duration, playbackRate, currentTrack]);
 
   // Memoized action handlers
   const handlePlay = useCallback(() => {
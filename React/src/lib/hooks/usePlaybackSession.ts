@@ -0,0 +1,125 @@
+import { useEffect } from 'react';
+import { usePlayerStore, loadSession, saveSession } from '../stores/player';
+import { useAuthStore } from '../stores/auth';
+import { getPreferences, savePlaybackSession } from '../api/user';
+
+// Position updates arrive several times a second; persist them at most this often (ms)
+const POSITION_SAVE_INTERVAL = 5000;
+
+// Batch server writes so skipping through a queue doesn't send a request per track (ms)
+const REMOTE_SYNC_DELAY = 15000;
+
+/**
+ * Custom hook to keep the playback session (queue, position, shuffle/repeat)
+ * saved locally and on the account, so it survives reloads and app restarts
+ * and can be picked up on another device
+ */
+export function usePlaybackSession() {
+  const { isAuthenticated } = useAuthStore();
+
+  // Adopt the account's session if it is newer than the one on this device
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let cancelled = false;
+
+    // Account listening history, so smart shuffle can play recently heard tracks last
+    usePlayerStore.getState().refreshListenHistory();
+
+    getPreferences()
+      .then(({ playbackSession }) => {
+        if (cancelled || !playbackSession) return;
+
+        const { isPlaying, restoreSession } = usePlayerStore.getState();
+        const localUpdatedAt = loadSession()?.updatedAt ?? 0;
+
+        // Never interrupt something the user already started here
+        if (!isPlaying && playbackSession.updatedAt > localUpdatedAt) {
+          console.log('🎵 Restoring playback session from account');
+          restoreSession(playbackSession);
+        }
+      })
+      .catch((err) => console.warn('Could not load playback session:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated]);
+
+  // Persist changes locally right away and to the server in batches
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    // When the session last actually changed - saving alone must not make it newer
+    let changedAt = loadSession()?.updatedAt ?? 0;
+    let savedTime = usePlayerStore.getState().currentTime;
+    let remoteTimer: number | null = null;
+
+    const snapshot = () => ({ ...usePlayerStore.getState().getSession(), updatedAt: changedAt });
+
+    const pushRemote = () => {
+      if (remoteTimer !== null) {
+        clearTimeout(remoteTimer);
+        remoteTimer = null;
+      }
+      const session = snapshot();
+      // An empty player shouldn't wipe the session saved from another device
+      if (session.queue.length === 0) return;
+      savePlaybackSession(session)
+        .catch((err) => console.warn('Could not sync playback session:', err));
+    };
+
+    const persist = () => {
+      changedAt = Date.now();
+      savedTime = usePlayerStore.getState().currentTime;
+      saveSession(snapshot());
+      if (remoteTimer === null) {
+        remoteTimer = window.setTimeout(pushRemote, REMOTE_SYNC_DELAY);
+      }
+    };
+
+    const unsubscribe = usePlayerStore.subscribe((state, prev) => {
+      const sessionChanged =
+        state.queue !== prev.queue ||
+        state.queueIndex !== prev.queueIndex ||
+        state.originalQueue !== prev.originalQueue ||
+        state.userQueue !== prev.userQueue ||
+        state.isShuffled !== prev.isShuffled ||
+        state.repeatMode !== prev.repeatMode ||
+        state.isPlaying !== prev.isPlaying;
+
+      if (sessionChanged) {
+        persist();
+      } else if (state.currentTime !== prev.currentTime && Date.now() - changedAt > POSITION_SAVE_INTERVAL) {
+        persist();
+      }
+    });
+
+    // Backgrounding is the last reliable chance to save (tab close, app switch, app kill)
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'hidden') return;
+      if (usePlayerStore.getState().currentTime !== savedTime) {
+        persist();
+      }
+      if (remoteTimer !== null) {
+        pushRemote();
+      }
+    };
+    const handlePageHide = () => {
+      if (usePlayerStore.getState().currentTime !== savedTime) {
+        persist();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      unsubscribe();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+      if (remoteTimer !== null) {
+        clearTimeout(remoteTimer);
+      }
+    };
+  }, [isAuthenticated]);
+}
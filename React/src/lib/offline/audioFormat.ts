@@ -0,0 +1,96 @@
+/**
+ * Audio container detection
+ *
+ * Works out the real format of a downloaded file from its first bytes, falling
+ * back to the Content-Type the server sent, so offline copies keep the right
+ * file extension and MIME type.
+ */
+
+export interface AudioFormat {
+  extension: string;
+  mimeType: string;
+}
+
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = { extension: 'mp3', mimeType: 'audio/mpeg' };
+
+const FORMATS: Record<string, AudioFormat> = {
+  mp3: DEFAULT_AUDIO_FORMAT,
+  flac: { extension: 'flac', mimeType: 'audio/flac' },
+  m4a: { extension: 'm4a', mimeType: 'audio/mp4' },
+  aac: { extension: 'aac', mimeType: 'audio/aac' },
+  ogg: { extension: 'ogg', mimeType: 'audio/ogg' },
+  opus: { extension: 'opus', mimeType: 'audio/ogg; codecs=opus' },
+  wav: { extension: 'wav', mimeType: 'audio/wav' },
+};
+
+// Content-Type (without parameters) to format, for files the magic bytes don't settle
+const MIME_FORMATS: Record<string, AudioFormat> = {
+  'audio/mpeg': FORMATS.mp3,
+  'audio/mp3': FORMATS.mp3,
+  'audio/flac': FORMATS.flac,
+  'audio/x-flac': FORMATS.flac,
+  'audio/mp4': FORMATS.m4a,
+  'audio/x-m4a': FORMATS.m4a,
+  'audio/aac': FORMATS.aac,
+  'audio/ogg': FORMATS.ogg,
+  'audio/opus': FORMATS.opus,
+  'audio/wav': FORMATS.wav,
+  'audio/x-wav': FORMATS.wav,
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/**
+ * Format from a file's leading bytes (at least 64 for Ogg Opus), null if unrecognised
+ */
+export function detectFormatFromBytes(bytes: Uint8Array): AudioFormat | null {
+  if (ascii(bytes, 0, 4) === 'fLaC') return FORMATS.flac;
+  if (ascii(bytes, 0, 4) === 'OggS') {
+    // The first page holds the codec header, "OpusHead" for Opus
+    return ascii(bytes, 0, 64).includes('OpusHead') ? FORMATS.opus : FORMATS.ogg;
+  }
+  if (ascii(bytes, 4, 4) === 'ftyp') return FORMATS.m4a;
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') return FORMATS.wav;
+  if (ascii(bytes, 0, 3) === 'ID3') return FORMATS.mp3;
+  if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return FORMATS.aac; // ADTS sync word, layer 0
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return FORMATS.mp3; // MPEG audio frame sync
+  return null;
+}
+
+/**
+ * Format from a Content-Type header, null if it isn't a known audio type
+ */
+export function formatFromMimeType(contentType: string | null | undefined): AudioFormat | null {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (!mimeType) return null;
+  if (mimeType === 'audio/ogg' && /codecs="?opus/i.test(contentType!)) return FORMATS.opus;
+  return MIME_FORMATS[mimeType] ?? null;
+}
+
+/**
+ * Real format of downloaded audio: magic bytes first, then the blob's type
+ */
+export async function detectAudioFormat(blob: Blob): Promise<AudioFormat> {
+  const head = new Uint8Array(await blob.slice(0, 64).arrayBuffer());
+  return detectFormatFromBytes(head) ?? formatFromMimeType(blob.type) ?? DEFAULT_AUDIO_FORMAT;
+}
+
+/**
+ * Real format of audio read as a stream, such as a file on the device. Only
+ * the leading bytes are read; the Content-Type is the fallback.
+ */
+export async function detectStreamFormat(stream: ReadableStream<Uint8Array>, contentType: string): Promise<AudioFormat> {
+  const head = new Uint8Array(64);
+  let length = 0;
+  const reader = stream.getReader();
+  while (length < head.length) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const take = value.subarray(0, head.length - length);
+    head.set(take, length);
+    length += take.length;
+  }
+  reader.cancel().catch(() => {});
+  return detectFormatFromBytes(head.subarray(0, length)) ?? formatFromMimeType(contentType) ?? DEFAULT_AUDIO_FORMAT;
+}
@@ -0,0 +1,24 @@
+/**
+ * Cache names, and how audio is keyed, shared by the app and the service worker
+ *
+ * The service worker drops every cache not starting with CACHE_VERSION when it
+ * activates, so bumping it also throws away offline downloads kept in the
+ * audio cache.
+ */
+
+export const CACHE_VERSION = 'noxa-v1.5';
+export const STATIC_CACHE = `${CACHE_VERSION}-static`;
+export const DYNAMIC_CACHE = `${CACHE_VERSION}-dynamic`;
+export const AUDIO_CACHE = `${CACHE_VERSION}-audio`;
+export const IMAGE_CACHE = `${CACHE_VERSION}-images`;
+
+/**
+ * Key of a stream URL in the audio cache. The auth token changes with every
+ * session so it is left out; anything else, like quality=, picks a different
+ * file and stays part of the key.
+ */
+export function audioCacheKey(url: string): string {
+  const key = new URL(url, location.href);
+  key.searchParams.delete('token');
+  return key.href;
+}
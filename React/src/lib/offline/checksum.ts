@@ -0,0 +1,44 @@
+/**
+ * Checksums for offline audio
+ *
+ * CRC-32 computed over a stream, so a track is verified without ever holding
+ * the whole file in memory. Values are prefixed with the algorithm name so
+ * stored checksums stay comparable if it ever changes.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, bytes: Uint8Array): number {
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+}
+
+/**
+ * Checksum of everything a stream yields, e.g. a response body
+ */
+export async function checksumStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  let crc = 0xffffffff;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    crc = updateCrc32(crc, value);
+  }
+
+  return `crc32:${((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+export const checksumBlob = (blob: Blob) => checksumStream(blob.stream());
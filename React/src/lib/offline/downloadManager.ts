@@ -0,0 +1,395 @@
+/**
+ * Offline download manager
+ *
+ * Runs track downloads from a queue with a concurrency limit. Progress is read
+ * byte by byte from the response stream, an interrupted transfer picks up where
+ * it stopped with an HTTP Range request, and failures are retried with
+ * exponential backoff before the download is marked as failed.
+ *
+ * Received bytes go straight to a DownloadSink as they arrive. On the device
+ * that is a file, so memory use doesn't grow with the size of the track.
+ */
+
+import type { Track } from '../api/library';
+
+export type DownloadStatus = 'queued' | 'downloading' | 'retrying' | 'failed';
+
+export interface DownloadJob {
+  track: Track;
+  status: DownloadStatus;
+  receivedBytes: number;
+  totalBytes: number | null; // null until the server reports a length
+  attempt: number; // Retries so far
+  error: string | null;
+}
+
+/**
+ * Where a download's bytes are kept while it runs. Resuming starts from the
+ * size the sink reports, not from anything held by the manager.
+ */
+export interface DownloadSink {
+  // Bytes stored so far; anything written but not yet flushed is dropped
+  size(): Promise<number>;
+  write(chunk: Uint8Array<ArrayBuffer>): Promise<void>;
+  flush(): Promise<void>;
+  // Start over from the first byte
+  clear(): Promise<void>;
+  // The download was cancelled, delete what was stored
+  discard(): Promise<void>;
+}
+
+/**
+ * Sink that keeps the download in memory, for storage that takes a whole Blob
+ */
+export class MemorySink implements DownloadSink {
+  private chunks: Uint8Array<ArrayBuffer>[] = [];
+  private stored = 0;
+
+  async size() {
+    return this.stored;
+  }
+
+  async write(chunk: Uint8Array<ArrayBuffer>) {
+    this.chunks.push(chunk);
+    this.stored += chunk.length;
+  }
+
+  async flush() {}
+
+  async clear() {
+    this.chunks = [];
+    this.stored = 0;
+  }
+
+  async discard() {
+    await this.clear();
+  }
+
+  toBlob(type: string): Blob {
+    return new Blob(this.chunks, { type });
+  }
+}
+
+export interface CompletedDownload {
+  track: Track;
+  sink: DownloadSink;
+  contentType: string; // As sent by the server, may be empty
+}
+
+export interface DownloadManagerOptions {
+  getUrl: (track: Track) => string;
+  // Where a track's bytes go, in memory unless given
+  createSink?: (track: Track) => DownloadSink;
+  // Persist a finished download; a rejection marks the download as failed.
+  // The signal aborts when the download is cancelled mid-save.
+  save: (download: CompletedDownload, signal: AbortSignal) => Promise<void>;
+  concurrency?: number;
+  maxRetries?: number;
+  retryDelayMs?: number; // First retry delay, doubled on every attempt
+}
+
+type DownloadListener = (jobs: DownloadJob[]) => void;
+
+// Don't publish progress for a job more often than this (ms)
+const PROGRESS_INTERVAL = 250;
+
+export const DEFAULT_DOWNLOAD_CONCURRENCY = 3;
+export const MAX_DOWNLOAD_CONCURRENCY = 6;
+
+interface Deferred {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  promise: Promise<void>;
+}
+
+interface ActiveJob extends DownloadJob, Deferred {
+  sink: DownloadSink;
+  opened: boolean; // Sink cleared of anything left by an earlier session
+  contentType: string;
+  controller: AbortController | null;
+  lastProgressAt: number;
+}
+
+/**
+ * Download failure that may say whether trying again could help
+ */
+export class DownloadError extends Error {
+  constructor(message: string, public retryable = true) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+/**
+ * Error the server answered with; 4xx responses (other than timeouts and
+ * rate limiting) won't get better by retrying
+ */
+class HttpError extends DownloadError {
+  constructor(public status: number) {
+    super(`HTTP ${status}`, status >= 500 || status === 408 || status === 429);
+    this.name = 'HttpError';
+  }
+}
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Total file size from a Content-Range header ("bytes 100-199/2000")
+ */
+function parseContentRangeTotal(header: string | null): number | null {
+  const total = header?.split('/')[1];
+  return total && total !== '*' ? parseInt(total, 10) : null;
+}
+
+/**
+ * Wait, unless the signal aborts first
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class DownloadManager {
+  private jobs = new Map<number, ActiveJob>();
+  private listeners = new Set<DownloadListener>();
+  private running = 0;
+  private concurrency: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+
+  constructor(private options: DownloadManagerOptions) {
+    this.concurrency = options.concurrency ?? DEFAULT_DOWNLOAD_CONCURRENCY;
+    this.maxRetries = options.maxRetries ?? 4;
+    this.retryDelayMs = options.retryDelayMs ?? 2000;
+  }
+
+  /**
+   * Queue a track. Resolves once it is saved, rejects if it fails for good or is cancelled.
+   */
+  enqueue(track: Track): Promise<void> {
+    const existing = this.jobs.get(track.id);
+    if (existing) {
+      if (existing.status === 'failed') this.retry(track.id);
+      return this.jobs.get(track.id)!.promise;
+    }
+
+    this.jobs.set(track.id, this.createJob(track));
+    this.publish();
+    this.pump();
+    return this.jobs.get(track.id)!.promise;
+  }
+
+  /**
+   * Stop a download and drop anything received so far
+   */
+  cancel(trackId: number) {
+    const job = this.jobs.get(trackId);
+    if (!job) return;
+
+    this.jobs.delete(trackId);
+    job.controller?.abort();
+    job.sink.discard().catch((error) => console.warn('Failed to discard download:', error));
+    if (job.status !== 'failed') {
+      job.reject(new Error('Download cancelled'));
+    }
+    this.publish();
+  }
+
+  /**
+   * Try a failed download again, resuming from the bytes already received
+   */
+  retry(trackId: number) {
+    const job = this.jobs.get(trackId);
+    if (!job || job.status !== 'failed') return;
+
+    Object.assign(job, { status: 'queued', attempt: 0, error: null }, this.createDeferred());
+    this.publish();
+    this.pump();
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.min(MAX_DOWNLOAD_CONCURRENCY, Math.round(concurrency)));
+    this.pump();
+  }
+
+  getJobs(): DownloadJob[] {
+    return [...this.jobs.values()].map(({ track, status, receivedBytes, totalBytes, attempt, error }) => ({
+      track,
+      status,
+      receivedBytes,
+      totalBytes,
+      attempt,
+      error,
+    }));
+  }
+
+  subscribe(listener: DownloadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private createDeferred(): Deferred {
+    let resolve!: () => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Callers that fire and forget shouldn't get unhandled rejections
+    promise.catch(() => {});
+    return { resolve, reject, promise };
+  }
+
+  private createJob(track: Track): ActiveJob {
+    return {
+      track,
+      status: 'queued',
+      receivedBytes: 0,
+      totalBytes: null,
+      attempt: 0,
+      error: null,
+      sink: this.options.createSink?.(track) ?? new MemorySink(),
+      opened: false,
+      contentType: '',
+      controller: null,
+      lastProgressAt: 0,
+      ...this.createDeferred(),
+    };
+  }
+
+  private publish() {
+    const jobs = this.getJobs();
+    this.listeners.forEach((listener) => listener(jobs));
+  }
+
+  /**
+   * Start queued jobs while there are free slots
+   */
+  private pump() {
+    for (const job of this.jobs.values()) {
+      if (this.running >= this.concurrency) return;
+      if (job.status === 'queued') {
+        this.running++;
+        this.run(job).finally(() => {
+          this.running--;
+          this.pump();
+        });
+      }
+    }
+  }
+
+  private async run(job: ActiveJob) {
+    const controller = new AbortController();
+    job.controller = controller;
+
+    for (;;) {
+      job.status = 'downloading';
+      this.publish();
+
+      try {
+        if (!job.opened) {
+          await job.sink.clear();
+          job.opened = true;
+        }
+        await this.transfer(job, controller.signal);
+        if (controller.signal.aborted) return;
+        // The sink keeps the bytes, so a failed save can still resume
+        await this.options.save({ track: job.track, sink: job.sink, contentType: job.contentType }, controller.signal);
+
+        this.jobs.delete(job.track.id);
+        this.publish();
+        job.resolve();
+        return;
+      } catch (error) {
+        if (controller.signal.aborted || isAbort(error)) return;
+
+        const retryable = !(error instanceof DownloadError) || error.retryable;
+        if (!retryable || job.attempt >= this.maxRetries) {
+          console.error(`❌ Download failed: ${job.track.title}`, error);
+          job.status = 'failed';
+          job.error = error instanceof Error ? error.message : String(error);
+          job.controller = null;
+          this.publish();
+          job.reject(error instanceof Error ? error : new Error(job.error));
+          return;
+        }
+
+        const delay = this.retryDelayMs * 2 ** job.attempt;
+        job.attempt++;
+        job.status = 'retrying';
+        job.error = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Download interrupted, retry ${job.attempt} in ${delay}ms: ${job.track.title}`);
+        this.publish();
+
+        try {
+          await sleep(delay, controller.signal);
+        } catch {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Fetch the rest of the file into the job's sink
+   */
+  private async transfer(job: ActiveJob, signal: AbortSignal) {
+    job.receivedBytes = await job.sink.size();
+    const headers: HeadersInit = job.receivedBytes > 0 ? { Range: `bytes=${job.receivedBytes}-` } : {};
+    const response = await fetch(this.options.getUrl(job.track), { headers, signal });
+
+    if (response.status === 206) {
+      job.totalBytes = parseContentRangeTotal(response.headers.get('Content-Range')) ?? job.totalBytes;
+    } else if (response.ok) {
+      // Full response: the server ignored (or we didn't send) the range, start over
+      await job.sink.clear();
+      job.receivedBytes = 0;
+      const length = parseInt(response.headers.get('Content-Length') || '', 10);
+      job.totalBytes = isNaN(length) ? null : length;
+    } else if (response.status === 416 && job.totalBytes !== null && job.receivedBytes >= job.totalBytes) {
+      // Nothing left to fetch
+      return;
+    } else {
+      throw new HttpError(response.status);
+    }
+    job.contentType = response.headers.get('Content-Type') || job.contentType;
+
+    if (!response.body) {
+      const buffer = new Uint8Array(await response.arrayBuffer());
+      await job.sink.write(buffer);
+      job.receivedBytes += buffer.length;
+    } else {
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        await job.sink.write(value);
+        job.receivedBytes += value.length;
+
+        const now = Date.now();
+        if (now - job.lastProgressAt >= PROGRESS_INTERVAL) {
+          job.lastProgressAt = now;
+          this.publish();
+        }
+      }
+    }
+
+    await job.sink.flush();
+
+    if (job.totalBytes !== null && job.receivedBytes < job.totalBytes) {
+      throw new Error(`Connection closed after ${job.receivedBytes} of ${job.totalBytes} bytes`);
+    }
+  }
+}
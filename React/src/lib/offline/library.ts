@@ -0,0 +1,88 @@
+/**
+ * Library views built from downloaded tracks
+ *
+ * Artists, albums and search results shaped like the library API's, so pages
+ * can show what is on the device when there is no connection.
+ */
+
+import type { Track, Artist, Album, FullSearchResult } from '../api/library';
+
+// Case and accent insensitive form used for matching and sorting
+const normalize = (text: string | null | undefined) =>
+  (text || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const byName = (a: string, b: string) => normalize(a).localeCompare(normalize(b));
+
+/**
+ * Album order: by album, then track number, then title for tracks without one
+ */
+export function sortAlbumTracks(tracks: Track[]): Track[] {
+  return [...tracks].sort((a, b) =>
+    byName(a.album, b.album) ||
+    (a.track_number ?? Infinity) - (b.track_number ?? Infinity) ||
+    byName(a.title, b.title)
+  );
+}
+
+export function buildArtists(tracks: Track[]): Artist[] {
+  const artists = new Map<string, Artist>();
+  for (const track of tracks) {
+    if (!track.artist) continue;
+    const artist = artists.get(track.artist);
+    if (artist) {
+      artist.track_count++;
+      artist.image = artist.image || track.artist_image;
+    } else {
+      artists.set(track.artist, { name: track.artist, image: track.artist_image, track_count: 1 });
+    }
+  }
+  return [...artists.values()].sort((a, b) => byName(a.name, b.name));
+}
+
+export function buildAlbums(tracks: Track[]): Album[] {
+  const albums = new Map<string, Album>();
+  for (const track of tracks) {
+    if (!track.album) continue;
+    const album = albums.get(track.album);
+    if (album) {
+      album.track_count++;
+      album.cover = album.cover || track.album_cover;
+      album.year = album.year ?? track.year;
+    } else {
+      albums.set(track.album, {
+        name: track.album,
+        artist: track.artist,
+        cover: track.album_cover,
+        track_count: 1,
+        year: track.year,
+      });
+    }
+  }
+  return [...albums.values()].sort((a, b) => byName(a.name, b.name));
+}
+
+/**
+ * Search over title, artist and album. Every word of the query has to match
+ * one of them, so "daft random" finds Random Access Memories tracks.
+ */
+export function searchTracks(tracks: Track[], query: string): FullSearchResult {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return { songs: [], artists: [], albums: [] };
+
+  const matches = (...fields: (string | null | undefined)[]) => {
+    const text = fields.map(normalize).join(' ');
+    return words.every(word => text.includes(word));
+  };
+
+  const songs = tracks
+    .filter(t => matches(t.title, t.artist, t.album))
+    .sort((a, b) => byName(a.title, b.title));
+  const artists = buildArtists(tracks)
+    .filter(a => matches(a.name))
+    .map(a => ({ artist: a.name, artist_image: a.image, track_count: a.track_count }));
+  const albums = buildAlbums(tracks)
+    .filter(a => matches(a.name, a.artist))
+    .map(a => ({ album: a.name, artist: a.artist, album_cover: a.cover, track_count: a.track_count }));
+
+  return { songs, artists, albums };
+}
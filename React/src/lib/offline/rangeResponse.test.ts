@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { parseRange, respondWithRange } from './rangeResponse';
+
+// 100 bytes, each the value of its own offset
+const BODY = Uint8Array.from({ length: 100 }, (_, i) => i);
+
+const cachedAudio = () =>
+  new Response(BODY, { headers: { 'Content-Type': 'audio/mpeg' } });
+
+const bytesOf = async (response: Response) => Array.from(new Uint8Array(await response.arrayBuffer()));
+
+describe('parseRange', () => {
+  it('reads a closed range', () => {
+    expect(parseRange('bytes=10-19', 100)).toEqual({ start: 10, end: 19 });
+  });
+
+  it('runs an open-ended range to the last byte', () => {
+    expect(parseRange('bytes=90-', 100)).toEqual({ start: 90, end: 99 });
+  });
+
+  it('reads a suffix range as the last bytes', () => {
+    expect(parseRange('bytes=-10', 100)).toEqual({ start: 90, end: 99 });
+    // Longer than the body: all of it
+    expect(parseRange('bytes=-500', 100)).toEqual({ start: 0, end: 99 });
+  });
+
+  it('clamps an end past the body', () => {
+    expect(parseRange('bytes=50-1000', 100)).toEqual({ start: 50, end: 99 });
+  });
+
+  it('ignores missing, malformed and multiple ranges', () => {
+    expect(parseRange(null, 100)).toBeNull();
+    expect(parseRange('bytes=-', 100)).toBeNull();
+    expect(parseRange('items=0-10', 100)).toBeNull();
+    expect(parseRange('bytes=0-10,20-30', 100)).toBeNull();
+    // end < start
+    expect(parseRange('bytes=20-10', 100)).toBeNull();
+  });
+
+  it('calls ranges outside the body unsatisfiable', () => {
+    expect(parseRange('bytes=100-', 100)).toBe('unsatisfiable');
+    expect(parseRange('bytes=150-200', 100)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 100)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-10', 0)).toBe('unsatisfiable');
+  });
+});
+
+describe('respondWithRange', () => {
+  it('returns the cached response as is without a Range header', async () => {
+    const cached = cachedAudio();
+    expect(await respondWithRange(cached, null)).toBe(cached);
+  });
+
+  it('answers a range with 206 and the requested bytes', async () => {
+    const response = await respondWithRange(cachedAudio(), 'bytes=10-19');
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Range')).toBe('bytes 10-19/100');
+    expect(response.headers.get('Content-Length')).toBe('10');
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(response.headers.get('Content-Type')).toBe('audio/mpeg');
+    expect(await bytesOf(response)).toEqual(Array.from(BODY.slice(10, 20)));
+  });
+
+  it('answers open-ended and suffix ranges up to the last byte', async () => {
+    const openEnded = await respondWithRange(cachedAudio(), 'bytes=95-');
+    expect(openEnded.status).toBe(206);
+    expect(openEnded.headers.get('Content-Range')).toBe('bytes 95-99/100');
+    expect(openEnded.headers.get('Content-Length')).toBe('5');
+    expect(await bytesOf(openEnded)).toEqual([95, 96, 97, 98, 99]);
+
+    const suffix = await respondWithRange(cachedAudio(), 'bytes=-3');
+    expect(suffix.status).toBe(206);
+    expect(suffix.headers.get('Content-Range')).toBe('bytes 97-99/100');
+    expect(suffix.headers.get('Content-Length')).toBe('3');
+    expect(await bytesOf(suffix)).toEqual([97, 98, 99]);
+  });
+
+  it('sends the whole body with 200 for a range it ignores', async () => {
+    const response = await respondWithRange(cachedAudio(), 'bytes=20-10');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Range')).toBeNull();
+    expect(response.headers.get('Content-Length')).toBe('100');
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(await bytesOf(response)).toEqual(Array.from(BODY));
+  });
+
+  it('answers an unsatisfiable range with 416 and the body size', async () => {
+    const response = await respondWithRange(cachedAudio(), 'bytes=200-300');
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe('bytes */100');
+    expect(await response.text()).toBe('');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Byte ranges of cached audio
+ *
+ * Media elements seek by requesting byte ranges, but the Cache API only keeps
+ * whole responses. The requested part is cut from the cached body instead, so
+ * seeking works without a connection.
+ */
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+/**
+ * Range asked for by a Range header on a body of the given size. Null when the
+ * header is missing or not a single byte range, in which case the whole body
+ * is sent; 'unsatisfiable' when the range lies outside the body.
+ */
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+  
+  if (match[1] === '') {
+    // Suffix range, the last N bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+  
+  const start = Number(match[1]);
+  const end = match[2] === '' ? Infinity : Number(match[2]);
+  if (end < start) return null; // Malformed, ignored like the server would
+  if (start >= size) return 'unsatisfiable';
+  return { start, end: Math.min(end, size - 1) };
+}
+
+/**
+ * Answer a request from a cached response: the full body without a Range
+ * header, otherwise 206 Partial Content with the requested bytes
+ */
+export async function respondWithRange(cached: Response, rangeHeader: string | null): Promise<Response> {
+  if (!rangeHeader) return cached;
+  
+  const body = await cached.blob();
+  const range = parseRange(rangeHeader, body.size);
+  const headers = new Headers(cached.headers);
+  headers.set('Accept-Ranges', 'bytes');
+  if (!headers.has('Content-Type') && body.type) headers.set('Content-Type', body.type);
+  
+  if (range === 'unsatisfiable') {
+    return new Response(null, {
+      status: 416,
+      statusText: 'Range Not Satisfiable',
+      headers: { 'Content-Range': `bytes */${body.size}` },
+    });
+  }
+  
+  if (range === null) {
+    headers.set('Content-Length', body.size.toString());
+    return new Response(body, { status: 200, statusText: 'OK', headers });
+  }
+  
+  const { start, end } = range;
+  headers.set('Content-Range', `bytes ${start}-${end}/${body.size}`);
+  headers.set('Content-Length', (end - start + 1).toString());
+  return new Response(body.slice(start, end + 1), { status: 206, statusText: 'Partial Content', headers });
+}
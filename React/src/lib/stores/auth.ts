@@ -1,5 +1,8 @@
 import { create } from 'zustand';
 import type { User } from '../api/auth';
+import { setSessionExpiredHandler } from '../api/client';
+import { clearQueryCache } from '../api/cache';
+import { usePlayerStore } from './player';
 import {
   login as apiLogin,
   signup as apiSignup,
@@ -20,6 +23,7 @@ interface AuthState {
   login: (username: string, password: string) => Promise<boolean>;
   signup: (username: string, password: string, email: string) => Promise<boolean>;
   logout: () => void;
+  expireSession: () => void;
   checkAuth: () => Promise<void>;
   clearError: () => void;
 }
@@ -28,7 +32,7 @@ interface AuthState {
 const initialUser = getStoredUser();
 const initialAuth = isAuthenticated();
 
-export const useAuthStore = create<AuthState>((set) => ({
+export const useAuthStore = create<AuthState>((set, get) => ({
   user: initialUser,
   isAuthenticated: initialAuth,
   isLoading: false, // Don't start as loading - inputs need to work immediately
@@ -41,7 +45,7 @@ export const useAuthStore = create<AuthState>((set) => ({
       const response = await apiLogin(username, password);
       
       if (response.success) {
-        storeAuth(response.token, response.user);
+        storeAuth(response.token, response.user, response.refreshToken);
         set({
           user: response.user,
           isAuthenticated: true,
@@ -69,7 +73,7 @@ export const useAuthStore = create<AuthState>((set) => ({
       const response = await apiSignup(username, password, email);
       
       if (response.success) {
-        storeAuth(response.token, response.user);
+        storeAuth(response.token, response.user, response.refreshToken);
         set({
           user: response.user,
           isAuthenticated: true,
@@ -92,6 +96,9 @@ export const useAuthStore = create<AuthState>((set) => ({
   
   logout: () => {
     clearAuth();
+    // Don't hand this user's queue or cached library to whoever logs in next
+    usePlayerStore.getState().resetSession();
+    clearQueryCache();
     set({
       user: null,
       isAuthenticated: false,
@@ -99,6 +106,14 @@ export const useAuthStore = create<AuthState>((set) => ({
     });
   },
   
+  // The session ran out and couldn't be refreshed. ProtectedRoute hands the
+  // current location to the login page, which returns there afterwards.
+  expireSession: () => {
+    if (!get().isAuthenticated) return;
+    get().logout();
+    set({ error: 'Your session has expired. Please log in again.' });
+  },
+  
   checkAuth: async () => {
     const hasToken = isAuthenticated();
     const storedUser = getStoredUser();
@@ -140,3 +155,5 @@ export const useAuthStore = create<AuthState>((set) => ({
   clearError: () => set({ error: null }),
 }));
 
+// Requests that find the session over log the user out
+setSessionExpiredHandler(() => useAuthStore.getState().expireSession());
@@ -0,0 +1,281 @@
+import { create } from 'zustand';
+import {
+  deviceSocket,
+  type DeviceType,
+  type RemoteAction,
+  type RemoteCommandData,
+  type RemoteDevice,
+  type RemotePlaybackState,
+  type PlaybackUpdate,
+} from '../api/devices';
+import { getAuthToken } from '../api/client';
+import { usePlayerStore } from './player';
+import { useUIStore } from './ui';
+
+interface RemoteState extends PlaybackUpdate {
+  receivedAt: number; // for extrapolating the position of a playing device
+}
+
+interface DevicesState {
+  deviceId: string;
+  isConnected: boolean;
+  devices: RemoteDevice[]; // other devices of this user
+  remoteStates: Record<string, RemoteState>;
+  controllingDeviceId: string | null;
+
+  // Actions
+  connect: () => void;
+  disconnect: () => void;
+  startControl: (deviceId: string) => void;
+  stopControl: () => void;
+  sendCommand: (action: RemoteAction, data?: RemoteCommandData) => void;
+  transferTo: (deviceId: string) => void;
+  pullPlayback: (deviceId: string) => void;
+  broadcastState: (withQueue?: boolean) => void;
+}
+
+/**
+ * Stable id for this tab. sessionStorage survives reloads but isn't shared
+ * between tabs, so two tabs show up as two devices.
+ */
+function getDeviceId(): string {
+  const stored = sessionStorage.getItem('device_id');
+  if (stored) return stored;
+
+  const id = `web-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  sessionStorage.setItem('device_id', id);
+  return id;
+}
+
+function getDeviceType(): DeviceType {
+  return useUIStore.getState().isMobile ? 'mobile' : 'web';
+}
+
+// Human readable name, e.g. "Chrome on macOS"
+function getDeviceName(): string {
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Android/.test(ua) ? 'Android'
+    : /Mac OS X/.test(ua) ? 'macOS'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Linux/.test(ua) ? 'Linux'
+    : '';
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Current local playback in wire format
+ */
+function getLocalPlaybackState(): RemotePlaybackState {
+  const { currentTrack, isPlaying, currentTime, duration, volume, isMuted, queue, originalQueue, userQueue, queueIndex, isShuffled, repeatMode } =
+    usePlayerStore.getState();
+  return {
+    isPlaying,
+    currentTrack,
+    currentTime,
+    duration,
+    volume: isMuted ? 0 : volume,
+    queue,
+    originalQueue,
+    userQueue,
+    currentIndex: queueIndex,
+    isShuffled,
+    repeatMode,
+  };
+}
+
+/**
+ * Run a command sent by a controlling device
+ */
+function applyCommand(action: RemoteAction, data?: RemoteCommandData) {
+  const player = usePlayerStore.getState();
+
+  switch (action) {
+    case 'PLAY':
+      player.play();
+      break;
+    case 'PAUSE':
+      player.pause();
+      break;
+    case 'NEXT':
+      player.next();
+      break;
+    case 'PREVIOUS':
+      player.previous();
+      break;
+    case 'SEEK':
+      if (typeof data?.time === 'number') player.seek(data.time);
+      break;
+    case 'SET_VOLUME':
+      if (typeof data?.volume === 'number') player.setVolume(data.volume);
+      break;
+    case 'TRANSFER_TO':
+      if (data?.deviceId) useDevicesStore.getState().transferTo(data.deviceId);
+      break;
+  }
+}
+
+let unsubscribers: (() => void)[] = [];
+
+export const useDevicesStore = create<DevicesState>((set, get) => ({
+  deviceId: getDeviceId(),
+  isConnected: false,
+  devices: [],
+  remoteStates: {},
+  controllingDeviceId: null,
+
+  connect: () => {
+    if (!getAuthToken()) return;
+
+    if (unsubscribers.length === 0) {
+      unsubscribers = [
+        deviceSocket.onConnectionChange((connected) => {
+          set({ isConnected: connected });
+          if (connected) {
+            get().broadcastState();
+          } else {
+            set({ devices: [], controllingDeviceId: null });
+          }
+        }),
+
+        deviceSocket.on('DEVICE_LIST', ({ devices }) => {
+          const { deviceId, controllingDeviceId } = get();
+          const others = devices.filter((d) => d.deviceId !== deviceId);
+          set({
+            devices: others,
+            // Drop control of a device that went offline
+            controllingDeviceId: others.some((d) => d.deviceId === controllingDeviceId)
+              ? controllingDeviceId
+              : null,
+          });
+        }),
+
+        deviceSocket.on('PLAYBACK_UPDATE', ({ sourceDeviceId, ...state }) => {
+          set((prev) => ({
+            remoteStates: {
+              ...prev.remoteStates,
+              // The queues are only sent when they change, keep the last ones
+              [sourceDeviceId]: { ...prev.remoteStates[sourceDeviceId], ...state, receivedAt: Date.now() },
+            },
+            devices: prev.devices.map((d) =>
+              d.deviceId === sourceDeviceId
+                ? {
+                    ...d,
+                    isPlaying: state.isPlaying,
+                    currentTrack: state.currentTrack,
+                    currentTime: state.currentTime,
+                    duration: state.duration,
+                    volume: state.volume,
+                  }
+                : d
+            ),
+          }));
+        }),
+
+        deviceSocket.on('CONTROL_STARTED', ({ targetDeviceId }) => {
+          set({ controllingDeviceId: targetDeviceId });
+        }),
+
+        deviceSocket.on('CONTROL_COMMAND', ({ action, data }) => {
+          console.log('📱 Remote command:', action, data);
+          applyCommand(action, data);
+        }),
+
+        deviceSocket.on('PLAYBACK_TRANSFER', (state) => {
+          console.log('📱 Playback transferred to this device');
+          const player = usePlayerStore.getState();
+          player.restoreSession({
+            queue: state.queue,
+            queueIndex: state.currentIndex,
+            originalQueue: state.originalQueue ?? state.queue,
+            userQueue: state.userQueue ?? [],
+            currentTime: state.currentTime,
+            isShuffled: state.isShuffled,
+            repeatMode: state.repeatMode,
+            updatedAt: Date.now(),
+          });
+          if (state.isPlaying) {
+            player.play();
+          }
+        }),
+
+        deviceSocket.on('PLAYBACK_TRANSFERRED', ({ toDeviceId }) => {
+          usePlayerStore.getState().pause();
+          const target = get().devices.find((d) => d.deviceId === toDeviceId);
+          useUIStore.getState().showToast(`Playing on ${target?.deviceName ?? 'another device'}`, 'info');
+        }),
+
+        deviceSocket.on('ERROR', ({ message }) => {
+          console.error('❌ Device socket error:', message);
+        }),
+      ];
+    }
+
+    deviceSocket.connect({
+      deviceId: get().deviceId,
+      deviceName: getDeviceName(),
+      deviceType: getDeviceType(),
+    });
+  },
+
+  disconnect: () => {
+    deviceSocket.disconnect();
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    unsubscribers = [];
+    set({ isConnected: false, devices: [], remoteStates: {}, controllingDeviceId: null });
+  },
+
+  startControl: (targetDeviceId) => {
+    const { controllingDeviceId, stopControl } = get();
+    if (controllingDeviceId && controllingDeviceId !== targetDeviceId) {
+      stopControl();
+    }
+    deviceSocket.send('CONTROL_DEVICE', { targetDeviceId, action: 'START_CONTROL' });
+  },
+
+  stopControl: () => {
+    const { controllingDeviceId } = get();
+    if (!controllingDeviceId) return;
+
+    deviceSocket.send('CONTROL_DEVICE', { targetDeviceId: controllingDeviceId, action: 'STOP_CONTROL' });
+    set({ controllingDeviceId: null });
+  },
+
+  sendCommand: (action, data) => {
+    const { controllingDeviceId } = get();
+    if (!controllingDeviceId) return;
+
+    deviceSocket.send('CONTROL_DEVICE', { targetDeviceId: controllingDeviceId, action, data });
+  },
+
+  transferTo: (toDeviceId) => {
+    if (!usePlayerStore.getState().currentTrack) return;
+
+    deviceSocket.send('TRANSFER_PLAYBACK', {
+      toDeviceId,
+      playbackState: getLocalPlaybackState(),
+    });
+  },
+
+  pullPlayback: (sourceDeviceId) => {
+    deviceSocket.send('CONTROL_DEVICE', {
+      targetDeviceId: sourceDeviceId,
+      action: 'TRANSFER_TO',
+      data: { deviceId: get().deviceId },
+    });
+  },
+
+  // Position and track, plus the queues when asked for (they are large)
+  broadcastState: (withQueue = true) => {
+    const state = getLocalPlaybackState();
+    const update: PlaybackUpdate = withQueue
+      ? state
+      : { ...state, queue: undefined, originalQueue: undefined, userQueue: undefined };
+    deviceSocket.send('PLAYBACK_STATE', update);
+  },
+}));
@@ -0,0 +1,114 @@
+import { create } from 'zustand';
+import { audioEngine } from '../audio/engine';
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_EQUALIZER,
+  DEFAULT_OUTPUT_KEY,
+  loadEqualizer,
+  normalizeGains,
+  saveEqualizer,
+  type EqPreset,
+} from '../audio/equalizer';
+
+interface EqualizerState {
+  // Whose settings and which output device they belong to
+  userId: number | null;
+  outputKey: string;
+
+  enabled: boolean;
+  presetId: string | null;
+  gains: number[];
+  userPresets: EqPreset[];
+
+  // Actions
+  load: (userId: number | null, outputKey: string) => void;
+  setEnabled: (enabled: boolean) => void;
+  setBandGain: (index: number, gain: number) => void;
+  applyPreset: (presetId: string) => void;
+  savePreset: (name: string) => EqPreset | null;
+  deletePreset: (presetId: string) => void;
+  reset: () => void;
+}
+
+/**
+ * Write the current settings for this user/output and apply them to the engine
+ */
+function commit(state: EqualizerState) {
+  const { userId, outputKey, enabled, presetId, gains, userPresets } = state;
+  saveEqualizer(userId, outputKey, { enabled, presetId, gains }, userPresets);
+  audioEngine.setEqualizer(enabled ? gains : null);
+}
+
+export const useEqualizerStore = create<EqualizerState>((set, get) => ({
+  userId: null,
+  outputKey: DEFAULT_OUTPUT_KEY,
+  enabled: DEFAULT_EQUALIZER.enabled,
+  presetId: DEFAULT_EQUALIZER.presetId,
+  gains: DEFAULT_EQUALIZER.gains,
+  userPresets: [],
+
+  load: (userId, outputKey) => {
+    const { userPresets, profile } = loadEqualizer(userId, outputKey);
+    set({ userId, outputKey, userPresets, ...profile });
+    audioEngine.setEqualizer(profile.enabled ? profile.gains : null);
+  },
+
+  setEnabled: (enabled) => {
+    set({ enabled });
+    commit(get());
+  },
+
+  setBandGain: (index, gain) => {
+    const gains = [...get().gains];
+    gains[index] = gain;
+    // Editing a band turns the EQ on and detaches it from the preset
+    set({ gains: normalizeGains(gains), presetId: null, enabled: true });
+    commit(get());
+  },
+
+  applyPreset: (presetId) => {
+    const preset = [...BUILT_IN_PRESETS, ...get().userPresets].find((p) => p.id === presetId);
+    if (!preset) return;
+
+    set({ gains: [...preset.gains], presetId, enabled: true });
+    commit(get());
+  },
+
+  savePreset: (name) => {
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+
+    const { userPresets, gains } = get();
+    // Saving under an existing name overwrites that preset
+    const existing = userPresets.find((p) => p.name.toLowerCase() === trimmed.toLowerCase());
+    const preset: EqPreset = {
+      id: existing?.id ?? `user-${Date.now().toString(36)}`,
+      name: trimmed,
+      gains: [...gains],
+    };
+
+    set({
+      userPresets: existing
+        ? userPresets.map((p) => (p.id === existing.id ? preset : p))
+        : [...userPresets, preset],
+      presetId: preset.id,
+    });
+    commit(get());
+    return preset;
+  },
+
+  deletePreset: (presetId) => {
+    const { userPresets, presetId: activePresetId } = get();
+    set({
+      userPresets: userPresets.filter((p) => p.id !== presetId),
+      // Keep the current curve, it just no longer has a name
+      presetId: activePresetId === presetId ? null : activePresetId,
+    });
+    commit(get());
+  },
+
+  reset: () => {
+    set({ gains: DEFAULT_EQUALIZER.gains, presetId: DEFAULT_EQUALIZER.presetId });
+    commit(get());
+  },
+}));
@@ -6,4 +6,7 @@ export { usePlaylistsStore } from './playlists';
 export { useLyricsStore } from './lyrics';
 export { useUIStore } from './ui';
 export { useOfflineStore } from './offline';
+export { useOutboxStore } from './outbox';
+export { useDevicesStore } from './devices';
+export { useEqualizerStore } from './equalizer';
 
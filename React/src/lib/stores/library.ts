@@ -1,13 +1,22 @@
+import { useMemo } from 'react';
 import { create } from 'zustand';
-import type { Track, Artist, Album, ScanResult, CleanupResult } from '../api/library';
+import type { Track, Artist, Album, ScanResult, CleanupResult, LibraryQuery, LibraryPage } from '../api/library';
+import { useOfflineStore, searchOfflineLibrary } from './offline';
+import { buildArtists, buildAlbums } from '../offline/library';
+import { getCachedData, invalidateQueries, subscribeQueries } from '../api/cache';
+import { useCachedQuery, useCachedQueries } from '../hooks/useCachedQuery';
+import { isAbortError } from '../api/client';
 import {
-  getLibrary,
+  libraryKeys,
+  libraryPageParams,
+  getLibraryPage,
   getArtists,
   getAlbums,
   searchLibrary,
   scanLibrary as scanLibraryApi,
   cleanupLibrary as cleanupLibraryApi,
 } from '../api/library';
+import { playlistKeys } from '../api/playlists';
 
 /**
  * Filter out orphaned/invalid tracks
@@ -32,10 +41,45 @@ function filterValidTracks(tracks: Track[]): Track[] {
   });
 }
 
+/**
+ * Sort and filter downloaded tracks the way the server does the library
+ */
+function applyTrackQuery(tracks: Track[], query: LibraryQuery): Track[] {
+  const q = query.q?.trim().toLowerCase();
+  const matches = (value: string | null | undefined, wanted?: string) =>
+    !wanted || value?.toLowerCase() === wanted.toLowerCase();
+  
+  const filtered = tracks.filter(track =>
+    (!q || [track.title, track.artist, track.album].some(value => value?.toLowerCase().includes(q))) &&
+    matches(track.artist, query.artist) &&
+    matches(track.album, query.album)
+  );
+  
+  // Downloads carry no date added, they stay in the order they were downloaded
+  if (query.sort === 'added_at') {
+    return query.order === 'asc' ? filtered.reverse() : filtered;
+  }
+  
+  const sort = query.sort;
+  const direction = query.order === 'asc' ? 1 : -1;
+  return filtered.sort((a, b) => {
+    const result = sort === 'duration'
+      ? (a.duration || 0) - (b.duration || 0)
+      : (a[sort] || '').localeCompare(b[sort] || '', undefined, { sensitivity: 'base' });
+    return (result || a.id - b.id) * direction;
+  });
+}
+
+// The search in flight; a newer search aborts it so its results never land
+let searchController: AbortController | null = null;
+
 interface LibraryState {
-  tracks: Track[];
-  artists: Artist[];
-  albums: Album[];
+  // Cache keys of the loaded pages of the library, in trackQuery order. The
+  // tracks themselves are read from the cache, see useLibraryTracks.
+  trackPages: string[];
+  tracksCursor: string | null; // Next page, null once all are loaded
+  trackQuery: LibraryQuery;
+  isLoadingMore: boolean;
   
   isLoading: boolean;
   error: string | null;
@@ -55,6 +99,9 @@ interface LibraryState {
   
   // Actions
   fetchLibrary: () => Promise<void>;
+  fetchMoreTracks: () => Promise<void>;
+  refreshTracks: () => Promise<void>;
+  setTrackQuery: (query: Partial<LibraryQuery>) => Promise<void>;
   fetchArtists: () => Promise<void>;
   fetchAlbums: () => Promise<void>;
   search: (query: string) => Promise<void>;
@@ -65,9 +112,10 @@ interface LibraryState {
 }
 
 export const useLibraryStore = create<LibraryState>((set, get) => ({
-  tracks: [],
-  artists: [],
-  albums: [],
+  trackPages: [],
+  tracksCursor: null,
+  trackQuery: { sort: 'added_at', order: 'desc' },
+  isLoadingMore: false,
   
   isLoading: false,
   error: null,
@@ -83,39 +131,119 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
   lastScanResult: null,
   lastCleanupResult: null,
   
+  // Load the first page for the current query, later pages come with fetchMoreTracks
   fetchLibrary: async () => {
-    set({ isLoading: true, error: null });
+    const { trackQuery } = get();
+    
+    // Offline the downloads are shown instead, and they are all there at once
+    if (!useOfflineStore.getState().isOnline) {
+      set({ tracksCursor: null, isLoading: false, isLoadingMore: false, error: null });
+      return;
+    }
+    
+    // Cached tracks show at once, even when they are being refreshed
+    const key = libraryKeys.tracks(libraryPageParams(trackQuery));
+    set({ isLoading: !getCachedData(key), error: null });
     
     try {
-      const allTracks = await getLibrary();
-      // Filter out orphaned/invalid tracks
-      const tracks = filterValidTracks(allTracks);
-      set({ tracks, isLoading: false });
+      const page = await getLibraryPage(trackQuery);
+      // The query changed while this page was loading
+      if (get().trackQuery !== trackQuery) return;
+      set({
+        trackPages: [key],
+        tracksCursor: page.nextCursor,
+        isLoading: false,
+        isLoadingMore: false,
+      });
     } catch (err) {
+      if (get().trackQuery !== trackQuery) return;
       const message = err instanceof Error ? err.message : 'Failed to load library';
       set({ error: message, isLoading: false });
     }
   },
   
+  fetchMoreTracks: async () => {
+    const { trackQuery, tracksCursor, isLoading, isLoadingMore } = get();
+    if (!tracksCursor || isLoading || isLoadingMore) return;
+    
+    set({ isLoadingMore: true });
+    
+    try {
+      const page = await getLibraryPage(trackQuery, tracksCursor);
+      // Started over from the first page meanwhile
+      if (get().trackQuery !== trackQuery || get().tracksCursor !== tracksCursor) return;
+      set({
+        trackPages: [...get().trackPages, libraryKeys.tracks(libraryPageParams(trackQuery, tracksCursor))],
+        tracksCursor: page.nextCursor,
+        isLoadingMore: false,
+      });
+    } catch (err) {
+      console.error('Failed to load more tracks:', err);
+      if (get().tracksCursor === tracksCursor) set({ isLoadingMore: false });
+    }
+  },
+  
+  // Reload as many tracks as are loaded now, so a refresh doesn't drop the
+  // list back to its first page
+  refreshTracks: async () => {
+    const { trackQuery, trackPages, tracksCursor } = get();
+    const loaded = trackPages.reduce((count, key) => count + (getCachedData<LibraryPage>(key)?.tracks.length ?? 0), 0);
+    
+    try {
+      let page = await getLibraryPage(trackQuery);
+      const pages = [libraryKeys.tracks(libraryPageParams(trackQuery))];
+      let refreshed = page.tracks.length;
+      while (page.nextCursor && refreshed < loaded) {
+        pages.push(libraryKeys.tracks(libraryPageParams(trackQuery, page.nextCursor)));
+        page = await getLibraryPage(trackQuery, page.nextCursor);
+        refreshed += page.tracks.length;
+      }
+      
+      // The query changed or more tracks came in meanwhile, this list is behind
+      if (get().trackQuery !== trackQuery || get().tracksCursor !== tracksCursor) return;
+      set({
+        trackPages: pages,
+        tracksCursor: page.nextCursor,
+        // A page still loading after the old cursor would no longer fit
+        ...(page.nextCursor !== tracksCursor ? { isLoadingMore: false } : {}),
+      });
+    } catch (err) {
+      console.error('Failed to refresh tracks:', err);
+    }
+  },
+  
+  setTrackQuery: async (query: Partial<LibraryQuery>) => {
+    set({ trackQuery: { ...get().trackQuery, ...query }, tracksCursor: null, isLoadingMore: false });
+    await get().fetchLibrary();
+  },
+  
+  // Offline, useArtists and useAlbums read the downloads instead
   fetchArtists: async () => {
+    if (!useOfflineStore.getState().isOnline) return;
+    
     try {
-      const artists = await getArtists();
-      set({ artists });
+      await getArtists();
     } catch (err) {
       console.error('Failed to fetch artists:', err);
     }
   },
   
   fetchAlbums: async () => {
+    if (!useOfflineStore.getState().isOnline) return;
+    
     try {
-      const albums = await getAlbums();
-      set({ albums });
+      await getAlbums();
     } catch (err) {
       console.error('Failed to fetch albums:', err);
     }
   },
   
   search: async (query: string) => {
+    searchController?.abort();
+    const controller = new AbortController();
+    searchController = controller;
+    const { signal } = controller;
+    
     set({ searchQuery: query });
     
     if (!query.trim()) {
@@ -123,6 +251,13 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
       return;
     }
     
+    // Search the downloads instead while offline
+    if (!useOfflineStore.getState().isOnline) {
+      const result = searchOfflineLibrary(query);
+      set({ searchResults: result.songs, searchArtists: result.artists, searchAlbums: result.albums, isSearching: false });
+      return;
+    }
+    
     set({ isSearching: true });
     
     // Retry up to 2 times for rate limiting
@@ -131,7 +266,7 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
     
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        const result = await searchLibrary(query);
+        const result = await searchLibrary(query, 'all', signal);
         // Filter out orphaned/invalid tracks from search results
         const searchResults = filterValidTracks(result.results || []);
         const searchArtists = result.fullResults?.artists || [];
@@ -139,12 +274,15 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
         set({ searchResults, searchArtists, searchAlbums, isSearching: false });
         return;
       } catch (err) {
+        // Replaced by a newer search, which owns the results now
+        if (signal.aborted || isAbortError(err)) return;
         lastError = err;
         console.warn(`Search attempt ${attempt + 1} failed:`, err);
         
         // Wait before retrying (300ms, 600ms)
         if (attempt < maxRetries - 1) {
           await new Promise(resolve => setTimeout(resolve, 300 * (attempt + 1)));
+          if (signal.aborted) return;
         }
       }
     }
@@ -154,6 +292,8 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
   },
   
   clearSearch: () => {
+    searchController?.abort();
+    searchController = null;
     set({ searchQuery: '', searchResults: [], searchArtists: [], searchAlbums: [], isSearching: false });
   },
   
@@ -187,6 +327,8 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
     try {
       const result = await cleanupLibraryApi();
       set({ lastCleanupResult: result, isCleaning: false });
+      // Removed tracks also drop out of playlists
+      invalidateQueries(playlistKeys.all);
       
       // Refresh library data after cleanup
       const { refresh } = get();
@@ -201,3 +343,90 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
   },
 }));
 
+
+// Reload data a mutation made stale. Only keys that were queried get here, so
+// nothing is loaded that wasn't asked for; new data reaches the screens through
+// the cache hooks.
+subscribeQueries(key => {
+  if (!useOfflineStore.getState().isOnline) return;
+  
+  const { trackQuery, refreshTracks, fetchArtists, fetchAlbums } = useLibraryStore.getState();
+  // Later pages are reloaded along with the first, their cursors may have moved
+  if (key === libraryKeys.tracks(libraryPageParams(trackQuery))) refreshTracks();
+  if (key === libraryKeys.artists) fetchArtists();
+  if (key === libraryKeys.albums) fetchAlbums();
+});
+
+// Search the server or the downloads when the connection changes, and follow
+// the downloads while offline
+useOfflineStore.subscribe((state, previous) => {
+  const switched = state.isOnline !== previous.isOnline;
+  if (!switched && (state.isOnline || state.offlineTracks === previous.offlineTracks)) return;
+  
+  const { searchQuery, search } = useLibraryStore.getState();
+  if (searchQuery) search(searchQuery);
+});
+
+const noKeys: string[] = [];
+const noTracks: Track[] = [];
+const noArtists: Artist[] = [];
+const noAlbums: Album[] = [];
+
+/**
+ * Downloaded tracks that play without a connection
+ */
+function usePlayableOfflineTracks(): Track[] {
+  const offlineTracks = useOfflineStore((state) => state.offlineTracks);
+  const offlineTrackMeta = useOfflineStore((state) => state.offlineTrackMeta);
+  return useMemo(
+    () => offlineTracks.filter(t => !offlineTrackMeta.get(t.id)?.broken),
+    [offlineTracks, offlineTrackMeta]
+  );
+}
+
+/**
+ * The loaded library tracks in trackQuery order, read from the query cache, or
+ * the downloads matching trackQuery while offline
+ */
+export function useLibraryTracks(): { tracks: Track[]; total: number } {
+  const isOnline = useOfflineStore((state) => state.isOnline);
+  const trackPages = useLibraryStore((state) => state.trackPages);
+  const trackQuery = useLibraryStore((state) => state.trackQuery);
+  const offlineTracks = usePlayableOfflineTracks();
+  const pages = useCachedQueries<LibraryPage>(isOnline ? trackPages : noKeys);
+  
+  return useMemo(() => {
+    if (!isOnline) {
+      const tracks = applyTrackQuery(offlineTracks, trackQuery);
+      return { tracks, total: tracks.length };
+    }
+    const tracks = pages.length > 0 ? pages.flatMap(page => page?.tracks ?? []) : noTracks;
+    return { tracks, total: pages[0]?.total ?? tracks.length };
+  }, [isOnline, pages, offlineTracks, trackQuery]);
+}
+
+/**
+ * Artists from the query cache (see fetchArtists), or the downloaded ones offline
+ */
+export function useArtists(): Artist[] {
+  const isOnline = useOfflineStore((state) => state.isOnline);
+  const offlineTracks = usePlayableOfflineTracks();
+  const artists = useCachedQuery<Artist[]>(libraryKeys.artists);
+  return useMemo(
+    () => isOnline ? artists ?? noArtists : buildArtists(offlineTracks),
+    [isOnline, artists, offlineTracks]
+  );
+}
+
+/**
+ * Albums from the query cache (see fetchAlbums), or the downloaded ones offline
+ */
+export function useAlbums(): Album[] {
+  const isOnline = useOfflineStore((state) => state.isOnline);
+  const offlineTracks = usePlayableOfflineTracks();
+  const albums = useCachedQuery<Album[]>(libraryKeys.albums);
+  return useMemo(
+    () => isOnline ? albums ?? noAlbums : buildAlbums(offlineTracks),
+    [isOnline, albums, offlineTracks]
+  );
+}
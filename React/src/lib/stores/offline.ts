@@ -3,31 +3,155 @@ import { Capacitor } from '@capacitor/core';
 import { Preferences } from '@capacitor/preferences';
 import { Network } from '@capacitor/network';
 import { Filesystem, Directory } from '@capacitor/filesystem';
-import type { Track } from '../api/library';
+import {
+  getAlbumDetail,
+  type Track,
+  type ArtistDetail,
+  type AlbumDetail,
+  type FullSearchResult,
+} from '../api/library';
+import { fetchPlaylistTracks } from '../api/playlists';
+import {
+  DownloadManager,
+  DEFAULT_DOWNLOAD_CONCURRENCY,
+  MAX_DOWNLOAD_CONCURRENCY,
+  DownloadError,
+  MemorySink,
+  type CompletedDownload,
+  type DownloadJob,
+  type DownloadSink,
+} from '../offline/downloadManager';
+import { detectAudioFormat, detectStreamFormat, DEFAULT_AUDIO_FORMAT, type AudioFormat } from '../offline/audioFormat';
+import { checksumBlob, checksumStream } from '../offline/checksum';
+import { AUDIO_CACHE, audioCacheKey } from '../offline/cacheNames';
+import { buildAlbums, searchTracks, sortAlbumTracks } from '../offline/library';
 
 // Detect if running in Capacitor
 const isCapacitor = Capacitor.isNativePlatform();
 
 // IndexedDB database name and store (for web)
 const DB_NAME = 'NoxaOfflineDB';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const TRACKS_STORE = 'offlineTracks';
+const COLLECTIONS_STORE = 'offlineCollections';
+const TRACK_META_STORE = 'trackMeta';
 
 // Capacitor storage keys
 const PREF_OFFLINE_TRACKS = 'offline_tracks';
+const PREF_OFFLINE_COLLECTIONS = 'offline_collections';
+const PREF_OFFLINE_TRACK_META = 'offline_track_meta';
 const AUDIO_FOLDER = 'offline_audio';
 
+export type OfflineCollectionType = 'playlist' | 'album' | 'tracks';
+
+/**
+ * A set of tracks saved for offline together. A downloaded track stays on the
+ * device while at least one collection still references it.
+ */
+export interface OfflineCollection {
+  key: string;
+  type: OfflineCollectionType;
+  name: string; // Playlist name, or album name used to look the album up again
+  artist: string | null;
+  artwork: string | null;
+  trackIds: number[];
+  savedAt: number;
+  pinned?: boolean; // Never evicted to stay under the storage limit
+}
+
+export type OfflineCollectionInfo = Pick<OfflineCollection, 'key' | 'type' | 'name'> &
+  Partial<Pick<OfflineCollection, 'artist' | 'artwork'>>;
+
+export interface OfflineCollectionStatus {
+  saved: boolean;
+  total: number;
+  downloaded: number;
+  downloading: number;
+  failed: number;
+}
+
+/**
+ * Bookkeeping for a downloaded track's audio, used to enforce the storage limit
+ */
+export interface OfflineTrackMeta {
+  id: number;
+  size: number; // Bytes
+  savedAt: number;
+  lastPlayedAt: number | null;
+  extension?: string; // Real container type of the file, mp3 when unknown
+  mimeType?: string;
+  quality?: OfflineQuality;
+  hash?: string; // Checksum of the file as it was saved
+  broken?: boolean; // Copy failed verification and was deleted, waiting to download again
+}
+
+// Quality offline copies are downloaded at; lower tiers are transcoded to MP3 by the server
+export type OfflineQuality = 'original' | '320k' | '160k' | '96k';
+
+export const OFFLINE_QUALITY_OPTIONS: OfflineQuality[] = ['original', '320k', '160k', '96k'];
+
+export interface OfflineVerificationResult {
+  checked: number;
+  broken: number; // Damaged or missing copies, queued to download again
+  orphans: number; // Stored audio no offline track refers to, deleted
+}
+
+export interface OfflineCollectionUsage {
+  key: string;
+  type: OfflineCollectionType;
+  name: string;
+  artist: string | null;
+  pinned: boolean;
+  size: number; // Tracks shared with other collections count towards each of them
+  trackCount: number;
+}
+
+const GB = 1024 ** 3;
+
+// Storage limits offered in the settings, null meaning no limit
+export const STORAGE_LIMIT_OPTIONS: (number | null)[] = [1 * GB, 2 * GB, 5 * GB, 10 * GB, 20 * GB, null];
+
+// Collection holding tracks saved one by one
+export const SAVED_TRACKS_KEY = 'tracks';
+
+export const playlistCollectionKey = (playlistId: number | string) => `playlist:${playlistId}`;
+export const albumCollectionKey = (album: string) => `album:${album}`;
+
 interface OfflineState {
   isOnline: boolean;
   offlineTracks: Track[];
+  offlineCollections: OfflineCollection[];
+  downloads: DownloadJob[]; // Queued, running and failed downloads
   downloadingTracks: Set<number>;
-  downloadProgress: Map<number, number>;
+  downloadProgress: Map<number, number>; // Percent (0-100) per track
+  downloadConcurrency: number;
+  offlineQuality: OfflineQuality;
+  offlineTrackMeta: Map<number, OfflineTrackMeta>;
+  storageLimit: number | null; // Bytes, null for no limit
+  isVerifying: boolean;
   
   // Actions
   setOnline: (online: boolean) => void;
   saveTrackForOffline: (track: Track) => Promise<void>;
+  cancelDownload: (trackId: number) => void;
+  retryDownload: (trackId: number) => void;
+  setDownloadConcurrency: (concurrency: number) => void;
+  setOfflineQuality: (quality: OfflineQuality) => void;
   removeTrackFromOffline: (trackId: number) => Promise<void>;
+  saveCollectionForOffline: (collection: OfflineCollectionInfo, tracks: Track[]) => Promise<void>;
+  removeCollectionFromOffline: (key: string) => Promise<void>;
+  syncCollection: (key: string, tracks: Track[]) => Promise<void>;
+  syncOfflinePlaylist: (playlistId: number | string) => Promise<void>;
+  syncOfflineCollections: () => Promise<void>;
+  getCollectionStatus: (key: string) => OfflineCollectionStatus;
+  setCollectionPinned: (key: string, pinned: boolean) => Promise<void>;
+  setStorageLimit: (limit: number | null) => Promise<void>;
+  markTrackPlayed: (trackId: number) => void;
+  getStorageUsage: () => number;
+  getStorageBreakdown: () => OfflineCollectionUsage[];
   isTrackOffline: (trackId: number) => boolean;
+  verifyOfflineTracks: (options?: { full?: boolean }) => Promise<OfflineVerificationResult>;
+  repairBrokenTracks: () => void;
   loadOfflineTracks: () => Promise<void>;
   clearAllOffline: () => Promise<void>;
   getOfflineStorageStats: () => Promise<{ count: number; size: number }>;
@@ -57,40 +181,140 @@ async function saveTracksToCapacitor(tracks: Track[]): Promise<void> {
   }
 }
 
-async function saveAudioToCapacitor(trackId: number, audioBlob: Blob): Promise<string> {
+async function getCollectionsFromCapacitor(): Promise<OfflineCollection[]> {
   try {
-    // Convert blob to base64
-    const base64 = await new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64data = reader.result as string;
-        // Remove data URL prefix
-        resolve(base64data.split(',')[1]);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(audioBlob);
-    });
+    const { value } = await Preferences.get({ key: PREF_OFFLINE_COLLECTIONS });
+    return value ? JSON.parse(value) : [];
+  } catch (error) {
+    console.error('Failed to get collections from Capacitor Preferences:', error);
+    return [];
+  }
+}
 
-    const fileName = `track_${trackId}.mp3`;
-    
-    await Filesystem.writeFile({
-      path: `${AUDIO_FOLDER}/${fileName}`,
-      data: base64,
-      directory: Directory.Data,
-    });
+async function saveCollectionsToCapacitor(collections: OfflineCollection[]): Promise<void> {
+  await Preferences.set({
+    key: PREF_OFFLINE_COLLECTIONS,
+    value: JSON.stringify(collections),
+  });
+}
 
-    return fileName;
+async function getTrackMetaFromCapacitor(): Promise<OfflineTrackMeta[]> {
+  try {
+    const { value } = await Preferences.get({ key: PREF_OFFLINE_TRACK_META });
+    return value ? JSON.parse(value) : [];
   } catch (error) {
-    console.error('Failed to save audio to Capacitor Filesystem:', error);
-    throw error;
+    console.error('Failed to get track info from Capacitor Preferences:', error);
+    return [];
+  }
+}
+
+async function saveTrackMetaToCapacitor(meta: OfflineTrackMeta[]): Promise<void> {
+  await Preferences.set({
+    key: PREF_OFFLINE_TRACK_META,
+    value: JSON.stringify(meta),
+  });
+}
+
+// Path of a track's audio file, relative to Directory.Data
+function getCapacitorAudioPath(trackId: number, extension?: string): string {
+  const ext = extension ?? useOfflineStore.getState().offlineTrackMeta.get(trackId)?.extension ?? DEFAULT_AUDIO_FORMAT.extension;
+  return `${AUDIO_FOLDER}/track_${trackId}.${ext}`;
+}
+
+// Downloaded audio is appended in slices of this size so memory use doesn't grow with the file
+const CAPACITOR_WRITE_CHUNK = 512 * 1024;
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      // Remove data URL prefix
+      resolve((reader.result as string).split(',')[1] ?? '');
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// A file on the device as a response, so it can be read as a stream
+async function readDeviceFile(path: string): Promise<Response> {
+  const { uri } = await Filesystem.stat({ path, directory: Directory.Data });
+  return fetch(Capacitor.convertFileSrc(uri));
+}
+
+/**
+ * A download written straight to the device. Bytes are appended to a
+ * temporary file as they arrive, and the file is only renamed into place once
+ * complete, so a cancelled or failed download never leaves a truncated track
+ * behind and an interrupted one resumes from what the file already holds.
+ */
+class CapacitorPartFile implements DownloadSink {
+  readonly path: string;
+  private pending: Uint8Array<ArrayBuffer>[] = [];
+  private pendingBytes = 0;
+  private discarded = false;
+  
+  constructor(trackId: number) {
+    this.path = `${AUDIO_FOLDER}/track_${trackId}.part`;
+  }
+  
+  async size(): Promise<number> {
+    this.pending = [];
+    this.pendingBytes = 0;
+    try {
+      const stat = await Filesystem.stat({ path: this.path, directory: Directory.Data });
+      return stat.size;
+    } catch {
+      return 0;
+    }
+  }
+  
+  async write(chunk: Uint8Array<ArrayBuffer>): Promise<void> {
+    if (this.discarded) return;
+    this.pending.push(chunk);
+    this.pendingBytes += chunk.length;
+    if (this.pendingBytes >= CAPACITOR_WRITE_CHUNK) await this.flush();
+  }
+  
+  async flush(): Promise<void> {
+    if (this.discarded || this.pendingBytes === 0) return;
+    const data = await blobToBase64(new Blob(this.pending));
+    this.pending = [];
+    this.pendingBytes = 0;
+    await Filesystem.appendFile({ path: this.path, data, directory: Directory.Data });
+  }
+  
+  async clear(): Promise<void> {
+    if (this.discarded) return;
+    this.pending = [];
+    this.pendingBytes = 0;
+    await Filesystem.writeFile({ path: this.path, data: '', directory: Directory.Data, recursive: true });
+  }
+  
+  async discard(): Promise<void> {
+    this.discarded = true;
+    this.pending = [];
+    this.pendingBytes = 0;
+    await Filesystem.deleteFile({ path: this.path, directory: Directory.Data }).catch(() => {});
+  }
+  
+  /**
+   * Move the finished file to its final path, replacing any older copy
+   */
+  async commit(path: string): Promise<void> {
+    await Filesystem.deleteFile({ path, directory: Directory.Data }).catch(() => {});
+    await Filesystem.rename({ from: this.path, to: path, directory: Directory.Data, toDirectory: Directory.Data });
   }
 }
 
 async function removeAudioFromCapacitor(trackId: number): Promise<void> {
   try {
-    const fileName = `track_${trackId}.mp3`;
     await Filesystem.deleteFile({
-      path: `${AUDIO_FOLDER}/${fileName}`,
+      path: getCapacitorAudioPath(trackId),
       directory: Directory.Data,
     });
   } catch (error) {
@@ -154,6 +378,14 @@ async function openDB(): Promise<IDBDatabase> {
         store.createIndex('artist', 'artist', { unique: false });
         store.createIndex('album', 'album', { unique: false });
       }
+      
+      if (!db.objectStoreNames.contains(COLLECTIONS_STORE)) {
+        db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'key' });
+      }
+      
+      if (!db.objectStoreNames.contains(TRACK_META_STORE)) {
+        db.createObjectStore(TRACK_META_STORE, { keyPath: 'id' });
+      }
     };
   });
 }
@@ -197,36 +429,127 @@ async function removeTrackFromDB(trackId: number): Promise<void> {
   });
 }
 
-async function clearAllFromDB(): Promise<void> {
+async function getTracksByIndexFromDB(index: 'artist' | 'album', value: string): Promise<Track[]> {
   const db = await openDB();
   
   return new Promise((resolve, reject) => {
-    const tx = db.transaction([TRACKS_STORE], 'readwrite');
+    const tx = db.transaction([TRACKS_STORE], 'readonly');
     const store = tx.objectStore(TRACKS_STORE);
-    const request = store.clear();
+    const request = store.index(index).getAll(value);
+    
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getAllCollectionsFromDB(): Promise<OfflineCollection[]> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([COLLECTIONS_STORE], 'readonly');
+    const store = tx.objectStore(COLLECTIONS_STORE);
+    const request = store.getAll();
+    
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function saveCollectionToDB(collection: OfflineCollection): Promise<void> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([COLLECTIONS_STORE], 'readwrite');
+    const store = tx.objectStore(COLLECTIONS_STORE);
+    const request = store.put(collection);
     
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 }
 
-// Message service worker to cache audio (web only)
-function cacheAudioInServiceWorker(url: string) {
-  if (!isCapacitor && 'serviceWorker' in navigator && navigator.serviceWorker.controller) {
-    navigator.serviceWorker.controller.postMessage({
-      type: 'CACHE_AUDIO',
-      url,
-    });
-  }
+async function removeCollectionFromDB(key: string): Promise<void> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([COLLECTIONS_STORE], 'readwrite');
+    const store = tx.objectStore(COLLECTIONS_STORE);
+    const request = store.delete(key);
+    
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
 }
 
-function removeAudioFromServiceWorker(url: string) {
-  if (!isCapacitor && 'serviceWorker' in navigator && navigator.serviceWorker.controller) {
-    navigator.serviceWorker.controller.postMessage({
-      type: 'REMOVE_AUDIO',
-      url,
-    });
-  }
+async function getAllTrackMetaFromDB(): Promise<OfflineTrackMeta[]> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([TRACK_META_STORE], 'readonly');
+    const store = tx.objectStore(TRACK_META_STORE);
+    const request = store.getAll();
+    
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function saveTrackMetaToDB(meta: OfflineTrackMeta): Promise<void> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([TRACK_META_STORE], 'readwrite');
+    const store = tx.objectStore(TRACK_META_STORE);
+    const request = store.put(meta);
+    
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function removeTrackMetaFromDB(trackId: number): Promise<void> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([TRACK_META_STORE], 'readwrite');
+    const store = tx.objectStore(TRACK_META_STORE);
+    const request = store.delete(trackId);
+    
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function clearAllFromDB(): Promise<void> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([TRACKS_STORE, COLLECTIONS_STORE, TRACK_META_STORE], 'readwrite');
+    tx.objectStore(TRACKS_STORE).clear();
+    tx.objectStore(COLLECTIONS_STORE).clear();
+    tx.objectStore(TRACK_META_STORE).clear();
+    
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// Store downloaded audio in the service worker's audio cache (web only)
+async function saveAudioToCache(url: string, audioBlob: Blob): Promise<void> {
+  const cache = await caches.open(AUDIO_CACHE);
+  // Drop every other copy of the track, e.g. one the service worker kept while streaming
+  await cache.delete(url, { ignoreSearch: true });
+  await cache.put(audioCacheKey(url), new Response(audioBlob, {
+    headers: {
+      'Content-Type': audioBlob.type,
+      'Content-Length': audioBlob.size.toString(),
+    },
+  }));
+}
+
+async function removeAudioFromCache(url: string): Promise<void> {
+  const cache = await caches.open(AUDIO_CACHE);
+  await cache.delete(url, { ignoreSearch: true });
 }
 
 // Get stream URL for a track
@@ -239,129 +562,851 @@ function getStreamUrl(trackId: number): string {
   return `${baseUrl}/api/library/stream/${trackId}${token ? `?token=${token}` : ''}`;
 }
 
+// ============= PLAYBACK OF OFFLINE COPIES =============
+
+// Playable URLs of offline copies by track ID. Reusing the same URL lets the
+// player match a preloaded track, and blob URLs (web) must be revoked.
+const offlineAudioUrls = new Map<number, string>();
+
+// Blob URLs to keep around: playing and preloaded track plus a little slack
+const MAX_OFFLINE_AUDIO_URLS = 4;
+
+function forgetOfflineAudioUrl(trackId: number) {
+  const url = offlineAudioUrls.get(trackId);
+  if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  offlineAudioUrls.delete(trackId);
+}
+
+/**
+ * Playable URL of a track's offline copy if it was already resolved
+ */
+export function peekOfflineAudioUrl(trackId: number): string | null {
+  return offlineAudioUrls.get(trackId) ?? null;
+}
+
+/**
+ * Playable URL of a track's offline copy: the local file on Capacitor, the
+ * cached response on web. Null when the track isn't saved or the copy is missing.
+ */
+export async function getOfflineAudioUrl(trackId: number): Promise<string | null> {
+  if (!useOfflineStore.getState().isTrackOffline(trackId)) return null;
+  
+  const known = offlineAudioUrls.get(trackId);
+  if (known) return known;
+  
+  try {
+    let url: string;
+    if (isCapacitor) {
+      const { uri } = await Filesystem.stat({
+        path: getCapacitorAudioPath(trackId),
+        directory: Directory.Data,
+      });
+      url = Capacitor.convertFileSrc(uri);
+    } else {
+      // The auth token in the cached URL may have changed since, so ignore the query
+      const cache = await caches.open(AUDIO_CACHE);
+      const response = await cache.match(audioCacheKey(getStreamUrl(trackId)));
+      if (!response) return null;
+      url = URL.createObjectURL(await response.blob());
+      
+      // Drop the oldest blob URLs (Map keeps insertion order)
+      while (offlineAudioUrls.size >= MAX_OFFLINE_AUDIO_URLS) {
+        forgetOfflineAudioUrl(offlineAudioUrls.keys().next().value as number);
+      }
+    }
+    
+    offlineAudioUrls.set(trackId, url);
+    return url;
+  } catch (error) {
+    console.warn('Offline copy not available, streaming instead:', trackId, error);
+    return null;
+  }
+}
+
+// ============= BROWSING DOWNLOADED MUSIC =============
+
+// Downloaded tracks that can actually play, broken copies left out
+function getPlayableOfflineTracks(): Track[] {
+  const { offlineTracks, isTrackOffline } = useOfflineStore.getState();
+  return offlineTracks.filter(t => isTrackOffline(t.id));
+}
+
+/**
+ * Downloaded tracks by one artist or on one album, looked up through the
+ * IndexedDB indexes on web
+ */
+async function getOfflineTracksBy(index: 'artist' | 'album', value: string): Promise<Track[]> {
+  const { isTrackOffline } = useOfflineStore.getState();
+  if (isCapacitor) {
+    return getPlayableOfflineTracks().filter(t => t[index] === value);
+  }
+  try {
+    return (await getTracksByIndexFromDB(index, value)).filter(t => isTrackOffline(t.id));
+  } catch (error) {
+    console.error('Failed to query offline tracks:', error);
+    return getPlayableOfflineTracks().filter(t => t[index] === value);
+  }
+}
+
+/**
+ * Offline counterpart of getArtistDetail, null when nothing by the artist is downloaded
+ */
+export async function getOfflineArtistDetail(artistName: string): Promise<ArtistDetail | null> {
+  const tracks = await getOfflineTracksBy('artist', artistName);
+  if (tracks.length === 0) return null;
+  return { artist: artistName, tracks: sortAlbumTracks(tracks), albums: buildAlbums(tracks) };
+}
+
+/**
+ * Offline counterpart of getAlbumDetail, null when no track of the album is downloaded
+ */
+export async function getOfflineAlbumDetail(albumName: string): Promise<AlbumDetail | null> {
+  const tracks = sortAlbumTracks(await getOfflineTracksBy('album', albumName));
+  if (tracks.length === 0) return null;
+  return {
+    album: albumName,
+    artist: tracks[0].artist,
+    tracks,
+    album_cover: tracks.find(t => t.album_cover)?.album_cover ?? null,
+  };
+}
+
+/**
+ * Search downloaded tracks by title, artist and album
+ */
+export const searchOfflineLibrary = (query: string): FullSearchResult =>
+  searchTracks(getPlayableOfflineTracks(), query);
+
+// Load the download concurrency limit from localStorage
+function loadDownloadConcurrency(): number {
+  const stored = parseInt(localStorage.getItem('offline_download_concurrency') || '', 10);
+  return isNaN(stored) ? DEFAULT_DOWNLOAD_CONCURRENCY : stored;
+}
+
+// Load the offline download quality from localStorage
+function loadOfflineQuality(): OfflineQuality {
+  const stored = localStorage.getItem('offline_quality') as OfflineQuality | null;
+  return stored && OFFLINE_QUALITY_OPTIONS.includes(stored) ? stored : 'original';
+}
+
+// Stream URL asking for the chosen offline quality
+function getDownloadUrl(trackId: number, quality: OfflineQuality): string {
+  const url = getStreamUrl(trackId);
+  if (quality === 'original') return url;
+  return `${url}${url.includes('?') ? '&' : '?'}quality=${quality}`;
+}
+
+// Load the offline storage limit (bytes) from localStorage
+function loadStorageLimit(): number | null {
+  const stored = parseInt(localStorage.getItem('offline_storage_limit') || '', 10);
+  return isNaN(stored) ? null : stored;
+}
+
+// Load the IDs of evicted tracks from localStorage, ignoring an unreadable value
+function loadEvictedTrackIds(): number[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem('offline_evicted_tracks') || '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is number => typeof id === 'number') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Tracks evicted to stay under the storage limit. Collection syncs leave them
+// alone until the user saves them again.
+const evictedTrackIds = new Set<number>(loadEvictedTrackIds());
+
+function setEvicted(trackIds: number[], evicted: boolean) {
+  if (trackIds.length === 0) return;
+  trackIds.forEach(id => {
+    if (evicted) {
+      evictedTrackIds.add(id);
+    } else {
+      evictedTrackIds.delete(id);
+    }
+  });
+  localStorage.setItem('offline_evicted_tracks', JSON.stringify([...evictedTrackIds]));
+}
+
+async function saveTrackMeta(meta: OfflineTrackMeta): Promise<void> {
+  const offlineTrackMeta = new Map(useOfflineStore.getState().offlineTrackMeta).set(meta.id, meta);
+  useOfflineStore.setState({ offlineTrackMeta });
+  
+  if (isCapacitor) {
+    await saveTrackMetaToCapacitor([...offlineTrackMeta.values()]);
+  } else {
+    await saveTrackMetaToDB(meta);
+  }
+}
+
+async function removeTrackMeta(trackId: number): Promise<void> {
+  const offlineTrackMeta = new Map(useOfflineStore.getState().offlineTrackMeta);
+  if (!offlineTrackMeta.delete(trackId)) return;
+  useOfflineStore.setState({ offlineTrackMeta });
+  
+  if (isCapacitor) {
+    await saveTrackMetaToCapacitor([...offlineTrackMeta.values()]);
+  } else {
+    await removeTrackMetaFromDB(trackId);
+  }
+}
+
+/**
+ * Record sizes of tracks saved before sizes were tracked. They count as never
+ * played, so they are the first to go when space runs out.
+ */
+async function backfillTrackMeta(tracks: Track[]): Promise<void> {
+  const missing = tracks.filter(t => !useOfflineStore.getState().offlineTrackMeta.has(t.id));
+  
+  for (const track of missing) {
+    try {
+      let size = 0;
+      if (isCapacitor) {
+        const stat = await Filesystem.stat({
+          path: getCapacitorAudioPath(track.id),
+          directory: Directory.Data,
+        });
+        size = stat.size || 0;
+      } else {
+        const cache = await caches.open(AUDIO_CACHE);
+        const response = await cache.match(audioCacheKey(getStreamUrl(track.id)));
+        const length = parseInt(response?.headers.get('Content-Length') || '', 10);
+        size = !isNaN(length) ? length : response ? (await response.blob()).size : 0;
+      }
+      await saveTrackMeta({ id: track.id, size, savedAt: 0, lastPlayedAt: null });
+    } catch (error) {
+      console.warn('Could not measure offline track:', track.id, error);
+    }
+  }
+}
+
+/**
+ * Evict the least recently played tracks outside pinned collections until
+ * `bytes` more fit under the storage limit. When a download can't fit even
+ * after evicting everything allowed, nothing is evicted and false is returned.
+ */
+async function makeRoom(bytes: number, keepTrackId?: number): Promise<boolean> {
+  const { storageLimit, offlineCollections, offlineTracks, offlineTrackMeta, getStorageUsage } = useOfflineStore.getState();
+  if (storageLimit === null) return true;
+  
+  let usage = getStorageUsage();
+  if (usage + bytes <= storageLimit) return true;
+  
+  const pinned = new Set(offlineCollections.filter(c => c.pinned).flatMap(c => c.trackIds));
+  const sizeOf = (trackId: number) => offlineTrackMeta.get(trackId)?.size ?? 0;
+  const lastUsed = (trackId: number) => {
+    const meta = offlineTrackMeta.get(trackId);
+    return meta?.lastPlayedAt ?? meta?.savedAt ?? 0;
+  };
+  const candidates = offlineTracks
+    .map(t => t.id)
+    .filter(id => id !== keepTrackId && !pinned.has(id))
+    .sort((a, b) => lastUsed(a) - lastUsed(b));
+  
+  const evictable = candidates.reduce((sum, id) => sum + sizeOf(id), 0);
+  if (bytes > 0 && usage - evictable + bytes > storageLimit) return false;
+  
+  const evicted: number[] = [];
+  for (const trackId of candidates) {
+    if (usage + bytes <= storageLimit) break;
+    try {
+      const size = sizeOf(trackId);
+      await deleteOfflineTrack(trackId);
+      usage -= size;
+      evicted.push(trackId);
+    } catch (error) {
+      console.error('Failed to evict offline track:', trackId, error);
+    }
+  }
+  
+  setEvicted(evicted, true);
+  console.log('🧹 Evicted least recently played offline tracks:', evicted.length);
+  return usage + bytes <= storageLimit;
+}
+
+/**
+ * Persist a finished download and add it to the offline tracks
+ */
+async function saveDownload({ track, sink, contentType }: CompletedDownload, signal: AbortSignal): Promise<void> {
+  // Every collection that wanted it was removed while it downloaded
+  if (!isTrackReferenced(track.id, useOfflineStore.getState().offlineCollections)) {
+    console.log('⏭️ Dropping download no longer saved anywhere:', track.title);
+    return;
+  }
+  
+  const size = await sink.size();
+  if (!(await makeRoom(size, track.id))) {
+    throw new DownloadError('Offline storage limit reached', false);
+  }
+  
+  const previous = useOfflineStore.getState().offlineTrackMeta.get(track.id);
+  let format: AudioFormat;
+  let hash: string;
+  
+  if (sink instanceof CapacitorPartFile) {
+    // Keep the real container type rather than whatever the response claimed
+    const [head, file] = await Promise.all([readDeviceFile(sink.path), readDeviceFile(sink.path)]);
+    if (!head.body || !file.body) throw new Error('Downloaded file could not be read');
+    format = await detectStreamFormat(head.body, contentType);
+    hash = await checksumStream(file.body);
+    throwIfAborted(signal);
+    
+    await sink.commit(getCapacitorAudioPath(track.id, format.extension));
+    if (previous && (previous.extension ?? DEFAULT_AUDIO_FORMAT.extension) !== format.extension) {
+      await Filesystem.deleteFile({
+        path: getCapacitorAudioPath(track.id, previous.extension ?? DEFAULT_AUDIO_FORMAT.extension),
+        directory: Directory.Data,
+      }).catch(() => {});
+    }
+    const currentTracks = await getTracksFromCapacitor();
+    await saveTracksToCapacitor([...currentTracks.filter(t => t.id !== track.id), track]);
+  } else {
+    const blob = (sink as MemorySink).toBlob(contentType);
+    format = await detectAudioFormat(blob);
+    const audio = blob.type === format.mimeType ? blob : new Blob([blob], { type: format.mimeType });
+    hash = await checksumBlob(audio);
+    throwIfAborted(signal);
+    
+    await saveAudioToCache(getStreamUrl(track.id), audio);
+    await saveTrackToDB(track);
+  }
+  forgetOfflineAudioUrl(track.id);
+  await saveTrackMeta({
+    id: track.id,
+    size,
+    savedAt: Date.now(),
+    lastPlayedAt: previous?.lastPlayedAt ?? null,
+    extension: format.extension,
+    mimeType: format.mimeType,
+    quality: useOfflineStore.getState().offlineQuality,
+    hash,
+  });
+  
+  const { offlineTracks } = useOfflineStore.getState();
+  useOfflineStore.setState({ offlineTracks: [...offlineTracks.filter(t => t.id !== track.id), track] });
+  console.log('✅ Saved track for offline:', track.title, isCapacitor ? '(Capacitor)' : '(Web)');
+}
+
+/**
+ * Delete a track's audio and metadata from the device
+ */
+async function deleteOfflineTrack(trackId: number): Promise<void> {
+  if (isCapacitor) {
+    await removeAudioFromCapacitor(trackId);
+    const currentTracks = await getTracksFromCapacitor();
+    await saveTracksToCapacitor(currentTracks.filter(t => t.id !== trackId));
+  } else {
+    await removeAudioFromCache(getStreamUrl(trackId));
+    await removeTrackFromDB(trackId);
+  }
+  await removeTrackMeta(trackId);
+  
+  forgetOfflineAudioUrl(trackId);
+  const { offlineTracks } = useOfflineStore.getState();
+  useOfflineStore.setState({ offlineTracks: offlineTracks.filter(t => t.id !== trackId) });
+}
+
+// ============= INTEGRITY CHECKS =============
+
+// Stored audio of a track as a response, null when the file is gone
+async function readOfflineAudio(trackId: number): Promise<Response | null> {
+  if (isCapacitor) {
+    try {
+      return await readDeviceFile(getCapacitorAudioPath(trackId));
+    } catch {
+      return null;
+    }
+  }
+  const cache = await caches.open(AUDIO_CACHE);
+  return (await cache.match(audioCacheKey(getStreamUrl(trackId)))) ?? null;
+}
+
+async function getOfflineAudioSize(trackId: number): Promise<number | null> {
+  if (isCapacitor) {
+    try {
+      const stat = await Filesystem.stat({ path: getCapacitorAudioPath(trackId), directory: Directory.Data });
+      return stat.size;
+    } catch {
+      return null;
+    }
+  }
+  const response = await readOfflineAudio(trackId);
+  if (!response) return null;
+  const length = parseInt(response.headers.get('Content-Length') || '', 10);
+  return !isNaN(length) ? length : (await response.blob()).size;
+}
+
+/**
+ * Check a track's stored audio against its metadata: the file must exist and
+ * have the recorded size, and for a full check also the recorded checksum.
+ * Copies saved before checksums were kept get theirs recorded instead.
+ */
+async function verifyOfflineTrack(trackId: number, full: boolean): Promise<boolean> {
+  const meta = useOfflineStore.getState().offlineTrackMeta.get(trackId);
+  const size = await getOfflineAudioSize(trackId);
+  if (size === null) return false;
+  if (meta?.size && size !== meta.size) return false;
+  if (!full) return true;
+  
+  const response = await readOfflineAudio(trackId);
+  if (!response?.body) return false;
+  const hash = await checksumStream(response.body);
+  
+  if (!meta?.hash) {
+    if (meta) await saveTrackMeta({ ...meta, hash });
+    return true;
+  }
+  return hash === meta.hash;
+}
+
+/**
+ * Delete a damaged copy but keep the track saved, flagged so it downloads again
+ */
+async function markTrackBroken(trackId: number): Promise<void> {
+  if (isCapacitor) {
+    await removeAudioFromCapacitor(trackId);
+  } else {
+    await removeAudioFromCache(getStreamUrl(trackId));
+  }
+  forgetOfflineAudioUrl(trackId);
+  
+  const meta = useOfflineStore.getState().offlineTrackMeta.get(trackId);
+  await saveTrackMeta({
+    ...(meta ?? { id: trackId, savedAt: 0, lastPlayedAt: null }),
+    size: 0,
+    hash: undefined,
+    broken: true,
+  });
+  console.warn('⚠️ Offline copy is damaged or missing, will download again:', trackId);
+}
+
+/**
+ * Delete stored audio that no offline track refers to, such as leftovers of
+ * interrupted saves. Returns how many files were removed.
+ */
+async function removeOrphanedAudio(): Promise<number> {
+  const { offlineTracks, downloadingTracks } = useOfflineStore.getState();
+  const known = new Set(offlineTracks.map(t => t.id));
+  let removed = 0;
+  
+  if (isCapacitor) {
+    const expected = new Set(offlineTracks.map(t => getCapacitorAudioPath(t.id).slice(AUDIO_FOLDER.length + 1)));
+    let files: { name: string }[];
+    try {
+      ({ files } = await Filesystem.readdir({ path: AUDIO_FOLDER, directory: Directory.Data }));
+    } catch {
+      return 0; // Nothing saved yet
+    }
+    
+    for (const file of files) {
+      const trackId = parseInt(file.name.match(/^track_(\d+)\./)?.[1] ?? '', 10);
+      if (expected.has(file.name) || downloadingTracks.has(trackId)) continue;
+      try {
+        await Filesystem.deleteFile({ path: `${AUDIO_FOLDER}/${file.name}`, directory: Directory.Data });
+        removed++;
+      } catch (error) {
+        console.warn('Failed to delete orphaned offline file:', file.name, error);
+      }
+    }
+  } else {
+    // Streamed tracks the service worker cached along the way count as orphans too
+    const cache = await caches.open(AUDIO_CACHE);
+    for (const request of await cache.keys()) {
+      const trackId = parseInt(new URL(request.url).pathname.match(/\/stream\/(\d+)/)?.[1] ?? '', 10);
+      if (known.has(trackId) || downloadingTracks.has(trackId)) continue;
+      await cache.delete(request);
+      removed++;
+    }
+  }
+  
+  return removed;
+}
+
+function isTrackReferenced(trackId: number, collections: OfflineCollection[]): boolean {
+  return collections.some(c => c.trackIds.includes(trackId));
+}
+
+async function persistCollections(collections: OfflineCollection[], changed: OfflineCollection[], removedKeys: string[] = []) {
+  if (isCapacitor) {
+    await saveCollectionsToCapacitor(collections);
+  } else {
+    await Promise.all([
+      ...changed.map(saveCollectionToDB),
+      ...removedKeys.map(removeCollectionFromDB),
+    ]);
+  }
+}
+
+/**
+ * Add or replace a collection
+ */
+async function putCollection(collection: OfflineCollection): Promise<void> {
+  const collections = [
+    ...useOfflineStore.getState().offlineCollections.filter(c => c.key !== collection.key),
+    collection,
+  ];
+  useOfflineStore.setState({ offlineCollections: collections });
+  await persistCollections(collections, [collection]);
+}
+
+/**
+ * Delete the given tracks (or stop their downloads) unless a collection still references them
+ */
+async function releaseTracks(trackIds: number[]): Promise<void> {
+  const { offlineCollections, isTrackOffline } = useOfflineStore.getState();
+  const orphans = trackIds.filter(id => !isTrackReferenced(id, offlineCollections));
+  
+  setEvicted(orphans, false);
+  for (const trackId of orphans) {
+    downloadManager.cancel(trackId);
+    if (isTrackOffline(trackId)) {
+      try {
+        await deleteOfflineTrack(trackId);
+      } catch (error) {
+        console.error('Failed to remove unused offline track:', trackId, error);
+      }
+    }
+  }
+  
+  if (orphans.length > 0) {
+    console.log('🧹 Removed offline tracks no longer in any collection:', orphans.length);
+  }
+}
+
+/**
+ * Queue downloads for tracks that are neither saved nor already queued.
+ * Failed and evicted downloads are left for the user to bring back.
+ */
+function downloadMissing(tracks: Track[]) {
+  const { isTrackOffline, downloads } = useOfflineStore.getState();
+  tracks
+    .filter(track =>
+      !isTrackOffline(track.id) &&
+      !evictedTrackIds.has(track.id) &&
+      !downloads.some(job => job.track.id === track.id)
+    )
+    .forEach(track => downloadManager.enqueue(track));
+}
+
+const downloadManager: DownloadManager = new DownloadManager({
+  getUrl: (track) => getDownloadUrl(track.id, useOfflineStore.getState().offlineQuality),
+  save: saveDownload,
+  createSink: isCapacitor ? (track) => new CapacitorPartFile(track.id) : undefined,
+  concurrency: loadDownloadConcurrency(),
+});
+
 export const useOfflineStore = create<OfflineState>((set, get) => ({
   isOnline: typeof navigator !== 'undefined' ? navigator.onLine : true,
   offlineTracks: [],
+  offlineCollections: [],
+  downloads: [],
   downloadingTracks: new Set(),
   downloadProgress: new Map(),
+  downloadConcurrency: loadDownloadConcurrency(),
+  offlineTrackMeta: new Map(),
+  storageLimit: loadStorageLimit(),
+  isVerifying: false,
+  offlineQuality: loadOfflineQuality(),
   
   setOnline: (online) => set({ isOnline: online }),
   
   saveTrackForOffline: async (track) => {
-    const { downloadingTracks, offlineTracks } = get();
-    
-    // Already downloading
-    if (downloadingTracks.has(track.id)) {
-      return;
+    const saved = get().offlineCollections.find(c => c.key === SAVED_TRACKS_KEY);
+    if (!saved?.trackIds.includes(track.id)) {
+      await putCollection({
+        key: SAVED_TRACKS_KEY,
+        type: 'tracks',
+        name: 'Songs',
+        artist: null,
+        artwork: null,
+        savedAt: saved?.savedAt ?? Date.now(),
+        trackIds: [...(saved?.trackIds ?? []), track.id],
+      });
     }
     
+    setEvicted([track.id], false);
+    
     // Already saved
-    if (offlineTracks.some(t => t.id === track.id)) {
+    if (get().isTrackOffline(track.id)) {
       return;
     }
     
-    // Mark as downloading
-    set({
-      downloadingTracks: new Set([...downloadingTracks, track.id]),
-      downloadProgress: new Map(get().downloadProgress).set(track.id, 0),
-    });
-    
+    // Joins the running download if there already is one
+    return downloadManager.enqueue(track);
+  },
+  
+  cancelDownload: (trackId) => downloadManager.cancel(trackId),
+  
+  retryDownload: (trackId) => downloadManager.retry(trackId),
+  
+  setDownloadConcurrency: (concurrency) => {
+    const clamped = Math.max(1, Math.min(MAX_DOWNLOAD_CONCURRENCY, Math.round(concurrency)));
+    downloadManager.setConcurrency(clamped);
+    localStorage.setItem('offline_download_concurrency', clamped.toString());
+    set({ downloadConcurrency: clamped });
+  },
+  
+  // Applies to downloads started from now on; saved copies keep their quality
+  setOfflineQuality: (quality) => {
+    localStorage.setItem('offline_quality', quality);
+    set({ offlineQuality: quality });
+  },
+  
+  removeTrackFromOffline: async (trackId) => {
     try {
-      if (isCapacitor) {
-        // Capacitor: Download audio and save to filesystem
-        const url = getStreamUrl(track.id);
-        const response = await fetch(url);
-        const blob = await response.blob();
-        await saveAudioToCapacitor(track.id, blob);
-        
-        // Save track metadata
-        const currentTracks = await getTracksFromCapacitor();
-        await saveTracksToCapacitor([...currentTracks, track]);
-      } else {
-        // Web: Use service worker and IndexedDB
-        const url = getStreamUrl(track.id);
-        cacheAudioInServiceWorker(url);
-        await saveTrackToDB(track);
+      // The track goes away everywhere, so drop it from every collection too
+      const collections = get().offlineCollections;
+      const changed = collections
+        .filter(c => c.trackIds.includes(trackId))
+        .map(c => ({ ...c, trackIds: c.trackIds.filter(id => id !== trackId) }));
+      if (changed.length > 0) {
+        const updated = collections.map(c => changed.find(u => u.key === c.key) ?? c);
+        set({ offlineCollections: updated });
+        await persistCollections(updated, changed);
       }
       
-      // Update state
-      const { downloadingTracks: currentDownloading, downloadProgress } = get();
-      const newDownloading = new Set(currentDownloading);
-      newDownloading.delete(track.id);
-      
-      const newProgress = new Map(downloadProgress);
-      newProgress.delete(track.id);
-      
-      set({
-        offlineTracks: [...get().offlineTracks, track],
-        downloadingTracks: newDownloading,
-        downloadProgress: newProgress,
-      });
-      
-      console.log('✅ Saved track for offline:', track.title, isCapacitor ? '(Capacitor)' : '(Web)');
+      downloadManager.cancel(trackId);
+      await deleteOfflineTrack(trackId);
+      console.log('🗑️ Removed track from offline:', trackId);
     } catch (error) {
-      console.error('Failed to save track for offline:', error);
-      
-      // Remove from downloading state
-      const { downloadingTracks: currentDownloading, downloadProgress } = get();
-      const newDownloading = new Set(currentDownloading);
-      newDownloading.delete(track.id);
-      
-      const newProgress = new Map(downloadProgress);
-      newProgress.delete(track.id);
-      
-      set({
-        downloadingTracks: newDownloading,
-        downloadProgress: newProgress,
-      });
-      
+      console.error('Failed to remove track from offline:', error);
       throw error;
     }
   },
   
-  removeTrackFromOffline: async (trackId) => {
+  saveCollectionForOffline: async (info, tracks) => {
+    const existing = get().offlineCollections.find(c => c.key === info.key);
+    await putCollection({
+      key: info.key,
+      type: info.type,
+      name: info.name,
+      artist: info.artist ?? null,
+      artwork: info.artwork ?? null,
+      trackIds: tracks.map(t => t.id),
+      savedAt: existing?.savedAt ?? Date.now(),
+      pinned: existing?.pinned,
+    });
+    
+    // Saving a collection again brings back tracks evicted from it
+    setEvicted(tracks.map(t => t.id), false);
+    downloadMissing(tracks);
+    console.log('📥 Saving collection for offline:', info.name, tracks.length);
+  },
+  
+  removeCollectionFromOffline: async (key) => {
+    const collection = get().offlineCollections.find(c => c.key === key);
+    if (!collection) return;
+    
+    const remaining = get().offlineCollections.filter(c => c.key !== key);
+    set({ offlineCollections: remaining });
+    await persistCollections(remaining, [], [key]);
+    await releaseTracks(collection.trackIds);
+    console.log('🗑️ Removed collection from offline:', collection.name);
+  },
+  
+  syncCollection: async (key, tracks) => {
+    const collection = get().offlineCollections.find(c => c.key === key);
+    if (!collection) return;
+    
+    const trackIds = tracks.map(t => t.id);
+    const removed = collection.trackIds.filter(id => !trackIds.includes(id));
+    const changed = removed.length > 0 ||
+      trackIds.length !== collection.trackIds.length ||
+      trackIds.some((id, i) => id !== collection.trackIds[i]);
+    
+    if (changed) {
+      await putCollection({ ...collection, trackIds });
+    }
+    downloadMissing(tracks);
+    await releaseTracks(removed);
+  },
+  
+  syncOfflinePlaylist: async (playlistId) => {
+    const key = playlistCollectionKey(playlistId);
+    const collection = get().offlineCollections.find(c => c.key === key);
+    if (!collection || !get().isOnline) return;
+    
+    // A failed request must not read as an emptied playlist and wipe the downloads
+    let tracks: Track[];
     try {
-      if (isCapacitor) {
-        // Remove audio file
-        await removeAudioFromCapacitor(trackId);
-        
-        // Update track list
-        const currentTracks = await getTracksFromCapacitor();
-        await saveTracksToCapacitor(currentTracks.filter(t => t.id !== trackId));
-      } else {
-        // Web
-        const url = getStreamUrl(trackId);
-        removeAudioFromServiceWorker(url);
-        await removeTrackFromDB(trackId);
+      tracks = await fetchPlaylistTracks(playlistId);
+    } catch (error) {
+      console.warn('Failed to sync offline playlist:', playlistId, error);
+      return;
+    }
+    await get().syncCollection(key, tracks);
+  },
+  
+  syncOfflineCollections: async () => {
+    if (!get().isOnline) return;
+    
+    for (const collection of get().offlineCollections) {
+      try {
+        if (collection.type === 'playlist') {
+          await get().syncOfflinePlaylist(collection.key.slice('playlist:'.length));
+        } else if (collection.type === 'album') {
+          const album = await getAlbumDetail(collection.name);
+          if (album && album.tracks.length > 0) {
+            await get().syncCollection(collection.key, album.tracks);
+          }
+        }
+      } catch (error) {
+        console.warn('Failed to sync offline collection:', collection.name, error);
       }
+    }
+  },
+  
+  getCollectionStatus: (key) => {
+    const { offlineCollections, downloads, isTrackOffline } = get();
+    const collection = offlineCollections.find(c => c.key === key);
+    if (!collection) {
+      return { saved: false, total: 0, downloaded: 0, downloading: 0, failed: 0 };
+    }
+    
+    const jobs = downloads.filter(job => collection.trackIds.includes(job.track.id));
+    return {
+      saved: true,
+      total: collection.trackIds.length,
+      downloaded: collection.trackIds.filter(isTrackOffline).length,
+      downloading: jobs.filter(job => job.status !== 'failed').length,
+      failed: jobs.filter(job => job.status === 'failed').length,
+    };
+  },
+  
+  setCollectionPinned: async (key, pinned) => {
+    const collection = get().offlineCollections.find(c => c.key === key);
+    if (!collection) return;
+    await putCollection({ ...collection, pinned });
+  },
+  
+  setStorageLimit: async (limit) => {
+    if (limit === null) {
+      localStorage.removeItem('offline_storage_limit');
+    } else {
+      localStorage.setItem('offline_storage_limit', limit.toString());
+    }
+    set({ storageLimit: limit });
+    
+    // Lowering the limit evicts right away, as far as pinned collections allow
+    await makeRoom(0);
+  },
+  
+  markTrackPlayed: (trackId) => {
+    const meta = get().offlineTrackMeta.get(trackId);
+    if (!meta) return;
+    saveTrackMeta({ ...meta, lastPlayedAt: Date.now() }).catch((error) => {
+      console.warn('Failed to record offline playback:', error);
+    });
+  },
+  
+  getStorageUsage: () => {
+    let total = 0;
+    get().offlineTrackMeta.forEach((meta) => {
+      total += meta.size;
+    });
+    return total;
+  },
+  
+  getStorageBreakdown: () => {
+    const { offlineCollections, offlineTrackMeta } = get();
+    return offlineCollections
+      .map((collection) => {
+        const downloaded = collection.trackIds.filter(id => offlineTrackMeta.has(id) && !offlineTrackMeta.get(id)!.broken);
+        return {
+          key: collection.key,
+          type: collection.type,
+          name: collection.name,
+          artist: collection.artist,
+          pinned: !!collection.pinned,
+          size: downloaded.reduce((sum, id) => sum + offlineTrackMeta.get(id)!.size, 0),
+          trackCount: downloaded.length,
+        };
+      })
+      .sort((a, b) => b.size - a.size);
+  },
+  
+  isTrackOffline: (trackId) => {
+    return get().offlineTracks.some(t => t.id === trackId) && !get().offlineTrackMeta.get(trackId)?.broken;
+  },
+  
+  verifyOfflineTracks: async ({ full = false } = {}) => {
+    if (get().isVerifying) return { checked: 0, broken: 0, orphans: 0 };
+    set({ isVerifying: true });
+    
+    try {
+      const { offlineTracks, offlineTrackMeta, downloadingTracks } = get();
+      const toCheck = offlineTracks.filter(t => !offlineTrackMeta.get(t.id)?.broken && !downloadingTracks.has(t.id));
       
-      set({
-        offlineTracks: get().offlineTracks.filter(t => t.id !== trackId),
-      });
+      let broken = 0;
+      for (const track of toCheck) {
+        try {
+          if (!(await verifyOfflineTrack(track.id, full))) {
+            await markTrackBroken(track.id);
+            broken++;
+          }
+        } catch (error) {
+          console.warn('Could not verify offline track:', track.id, error);
+        }
+      }
       
-      console.log('🗑️ Removed track from offline:', trackId);
-    } catch (error) {
-      console.error('Failed to remove track from offline:', error);
-      throw error;
+      const orphans = await removeOrphanedAudio();
+      console.log('🔍 Verified offline tracks:', toCheck.length, full ? '(full)' : '(quick)', 'broken:', broken, 'orphaned files:', orphans);
+      
+      get().repairBrokenTracks();
+      return { checked: toCheck.length, broken, orphans };
+    } finally {
+      set({ isVerifying: false });
     }
   },
   
-  isTrackOffline: (trackId) => {
-    return get().offlineTracks.some(t => t.id === trackId);
+  // Download broken copies again; runs whenever the device comes back online
+  repairBrokenTracks: () => {
+    const { isOnline, offlineTracks, offlineTrackMeta, downloads } = get();
+    if (!isOnline) return;
+    
+    offlineTracks
+      .filter(track =>
+        offlineTrackMeta.get(track.id)?.broken &&
+        !downloads.some(job => job.track.id === track.id)
+      )
+      .forEach(track => downloadManager.enqueue(track));
   },
   
   loadOfflineTracks: async () => {
     try {
       let tracks: Track[];
+      let collections: OfflineCollection[];
+      let meta: OfflineTrackMeta[];
       
       if (isCapacitor) {
         tracks = await getTracksFromCapacitor();
+        collections = await getCollectionsFromCapacitor();
+        meta = await getTrackMetaFromCapacitor();
       } else {
         tracks = await getAllTracksFromDB();
+        collections = await getAllCollectionsFromDB();
+        meta = await getAllTrackMetaFromDB();
       }
       
-      set({ offlineTracks: tracks });
-      console.log('📱 Loaded offline tracks:', tracks.length, isCapacitor ? '(Capacitor)' : '(Web)');
+      // Tracks saved before collections existed belong to the saved songs
+      const unreferenced = tracks.filter(t => !isTrackReferenced(t.id, collections)).map(t => t.id);
+      if (unreferenced.length > 0) {
+        const saved = collections.find(c => c.key === SAVED_TRACKS_KEY);
+        const updated: OfflineCollection = saved
+          ? { ...saved, trackIds: [...saved.trackIds, ...unreferenced] }
+          : { key: SAVED_TRACKS_KEY, type: 'tracks', name: 'Songs', artist: null, artwork: null, trackIds: unreferenced, savedAt: Date.now() };
+        collections = [...collections.filter(c => c.key !== SAVED_TRACKS_KEY), updated];
+        await persistCollections(collections, [updated]);
+      }
+      
+      set({
+        offlineTracks: tracks,
+        offlineCollections: collections,
+        offlineTrackMeta: new Map(meta.map(m => [m.id, m])),
+      });
+      console.log('📱 Loaded offline tracks:', tracks.length, 'in', collections.length, 'collections', isCapacitor ? '(Capacitor)' : '(Web)');
+      
+      await backfillTrackMeta(tracks);
     } catch (error) {
       console.error('Failed to load offline tracks:', error);
     }
@@ -369,17 +1414,24 @@ export const useOfflineStore = create<OfflineState>((set, get) => ({
   
   clearAllOffline: async () => {
     try {
+      get().downloads.forEach(job => downloadManager.cancel(job.track.id));
+      set({ offlineCollections: [] });
+      
       if (isCapacitor) {
         await clearCapacitorAudio();
         await Preferences.remove({ key: PREF_OFFLINE_TRACKS });
+        await Preferences.remove({ key: PREF_OFFLINE_COLLECTIONS });
+        await Preferences.remove({ key: PREF_OFFLINE_TRACK_META });
       } else {
         await clearAllFromDB();
         if ('caches' in window) {
-          await caches.delete('noxa-v1-audio');
+          await caches.delete(AUDIO_CACHE);
         }
       }
       
-      set({ offlineTracks: [] });
+      [...offlineAudioUrls.keys()].forEach(forgetOfflineAudioUrl);
+      setEvicted([...evictedTrackIds], false);
+      set({ offlineTracks: [], offlineTrackMeta: new Map() });
       console.log('🗑️ Cleared all offline content');
     } catch (error) {
       console.error('Failed to clear offline content:', error);
@@ -405,6 +1457,19 @@ export const useOfflineStore = create<OfflineState>((set, get) => ({
   },
 }));
 
+// Mirror the download manager's jobs into the store
+downloadManager.subscribe((downloads) => {
+  const active = downloads.filter((job) => job.status !== 'failed');
+  useOfflineStore.setState({
+    downloads,
+    downloadingTracks: new Set(active.map((job) => job.track.id)),
+    downloadProgress: new Map(active.map((job) => [
+      job.track.id,
+      job.totalBytes ? Math.round((job.receivedBytes / job.totalBytes) * 100) : 0,
+    ])),
+  });
+});
+
 // Initialize network listeners
 if (typeof window !== 'undefined') {
   if (isCapacitor) {
@@ -412,6 +1477,10 @@ if (typeof window !== 'undefined') {
     Network.addListener('networkStatusChange', (status) => {
       useOfflineStore.getState().setOnline(status.connected);
       console.log(status.connected ? '🟢 Back online' : '🔴 Gone offline', `(${status.connectionType})`);
+      if (status.connected) {
+        useOfflineStore.getState().repairBrokenTracks();
+        useOfflineStore.getState().syncOfflineCollections();
+      }
     });
     
     // Get initial status
@@ -424,6 +1493,8 @@ if (typeof window !== 'undefined') {
     window.addEventListener('online', () => {
       useOfflineStore.getState().setOnline(true);
       console.log('🟢 Back online');
+      useOfflineStore.getState().repairBrokenTracks();
+      useOfflineStore.getState().syncOfflineCollections();
     });
     
     window.addEventListener('offline', () => {
@@ -432,6 +1503,10 @@ if (typeof window !== 'undefined') {
     });
   }
   
-  // Load offline tracks on startup
-  useOfflineStore.getState().loadOfflineTracks();
+  // Load offline tracks on startup, check the files are still intact, then pick
+  // up collection changes made elsewhere
+  useOfflineStore.getState().loadOfflineTracks()
+    .then(() => useOfflineStore.getState().verifyOfflineTracks())
+    .catch((error) => console.error('Failed to verify offline tracks:', error))
+    .then(() => useOfflineStore.getState().syncOfflineCollections());
 }
@@ -0,0 +1,342 @@
+import { create } from 'zustand';
+import { Capacitor } from '@capacitor/core';
+import { Preferences } from '@capacitor/preferences';
+import {
+  fetchPlaylist,
+  fetchPlaylistTracks,
+  invalidatePlaylist,
+  addTrackToPlaylist,
+  removeTrackFromPlaylist,
+  reorderPlaylistTracks,
+} from '../api/playlists';
+import { startListen, endListen } from '../api/analytics';
+import type { ApiError } from '../api/client';
+import { useOfflineStore } from './offline';
+import { useUIStore } from './ui';
+
+// Detect if running in Capacitor
+const isCapacitor = Capacitor.isNativePlatform();
+
+// IndexedDB database and store (web)
+const DB_NAME = 'NoxaOutboxDB';
+const DB_VERSION = 1;
+const MUTATIONS_STORE = 'mutations';
+
+// Capacitor storage key
+const PREF_OUTBOX = 'offline_outbox';
+
+/**
+ * A change made while offline, replayed against the server once back online
+ */
+export type OutboxMutation =
+  | { type: 'addTrack'; playlistId: number | string; trackId: number }
+  | { type: 'removeTrack'; playlistId: number | string; trackId: number }
+  // baseTrackIds is the order the edit was made on, to spot changes made elsewhere
+  | { type: 'reorder'; playlistId: number | string; trackIds: number[]; baseTrackIds: number[] }
+  // listenEventId is null when the listen started offline too. The times (ms)
+  // go with it so a replayed listen isn't dated to when the connection came back.
+  | {
+      type: 'listen';
+      userId: number;
+      trackId: number;
+      listenEventId: number | null;
+      duration: number;
+      completed: boolean;
+      skipped: boolean;
+      startedAt: number;
+      endedAt: number;
+    };
+
+export interface OutboxEntry {
+  id: number; // Increasing, entries replay in id order
+  createdAt: number;
+  mutation: OutboxMutation;
+}
+
+// How replaying an entry went
+type ReplayResult = 'applied' | 'merged' | 'rejected';
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  isSyncing: boolean;
+  
+  // Actions
+  loadOutbox: () => Promise<void>;
+  runOrQueue: (mutation: OutboxMutation) => Promise<boolean>;
+  flush: () => Promise<void>;
+}
+
+// ============= STORAGE =============
+
+async function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+        db.createObjectStore(MUTATIONS_STORE, { keyPath: 'id' });
+      }
+    };
+  });
+}
+
+async function getAllEntriesFromDB(): Promise<OutboxEntry[]> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([MUTATIONS_STORE], 'readonly');
+    const request = tx.objectStore(MUTATIONS_STORE).getAll();
+    
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function saveEntryToDB(entry: OutboxEntry): Promise<void> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([MUTATIONS_STORE], 'readwrite');
+    const request = tx.objectStore(MUTATIONS_STORE).put(entry);
+    
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function removeEntryFromDB(id: number): Promise<void> {
+  const db = await openDB();
+  
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([MUTATIONS_STORE], 'readwrite');
+    const request = tx.objectStore(MUTATIONS_STORE).delete(id);
+    
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getEntriesFromCapacitor(): Promise<OutboxEntry[]> {
+  try {
+    const { value } = await Preferences.get({ key: PREF_OUTBOX });
+    return value ? JSON.parse(value) : [];
+  } catch (error) {
+    console.error('Failed to get outbox from Capacitor Preferences:', error);
+    return [];
+  }
+}
+
+async function saveEntriesToCapacitor(entries: OutboxEntry[]): Promise<void> {
+  await Preferences.set({ key: PREF_OUTBOX, value: JSON.stringify(entries) });
+}
+
+async function persistEntry(entries: OutboxEntry[], entry: OutboxEntry): Promise<void> {
+  if (isCapacitor) {
+    await saveEntriesToCapacitor(entries);
+  } else {
+    await saveEntryToDB(entry);
+  }
+}
+
+async function persistRemoval(entries: OutboxEntry[], id: number): Promise<void> {
+  if (isCapacitor) {
+    await saveEntriesToCapacitor(entries);
+  } else {
+    await removeEntryFromDB(id);
+  }
+}
+
+// ============= REPLAY =============
+
+// fetch() rejects with a TypeError when the request never reached the server
+const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+// The server refused the change itself (e.g. playlist deleted); retrying won't help
+const isRejected = (error: unknown) => {
+  const status = (error as ApiError | undefined)?.status;
+  return typeof status === 'number' && status >= 400 && status < 500;
+};
+
+/**
+ * Send a mutation as is, used while online
+ */
+async function sendMutation(mutation: OutboxMutation): Promise<void> {
+  switch (mutation.type) {
+    case 'addTrack':
+      return addTrackToPlaylist(mutation.playlistId, mutation.trackId);
+    case 'removeTrack':
+      return removeTrackFromPlaylist(mutation.playlistId, mutation.trackId);
+    case 'reorder':
+      return reorderPlaylistTracks(mutation.playlistId, mutation.trackIds);
+    case 'listen': {
+      const listenEventId = mutation.listenEventId ??
+        (await startListen(mutation.userId, mutation.trackId, null, mutation.startedAt)).listenEventId;
+      return endListen(listenEventId, mutation.duration, mutation.completed, mutation.skipped, mutation.endedAt);
+    }
+  }
+}
+
+/**
+ * Replay a queued mutation against the playlist as it is on the server now.
+ * Edits that already happened elsewhere are skipped, and a reorder of a
+ * playlist that changed in the meantime keeps the offline order for the tracks
+ * it knew about, with tracks added elsewhere moved to the end.
+ */
+async function replayMutation(mutation: OutboxMutation): Promise<ReplayResult> {
+  if (mutation.type === 'listen') {
+    await sendMutation(mutation);
+    return 'applied';
+  }
+  
+  // Throws for a playlist deleted on the server, the track list alone can't tell
+  await fetchPlaylist(mutation.playlistId);
+  // A failed request throws too, so a lost connection stops the flush
+  const current = (await fetchPlaylistTracks(mutation.playlistId)).map(t => t.id);
+  
+  switch (mutation.type) {
+    case 'addTrack':
+      if (current.includes(mutation.trackId)) return 'applied';
+      break;
+    case 'removeTrack':
+      if (!current.includes(mutation.trackId)) return 'applied';
+      break;
+    case 'reorder': {
+      const unchanged = current.length === mutation.baseTrackIds.length &&
+        current.every((id, i) => id === mutation.baseTrackIds[i]);
+      if (!unchanged) {
+        const merged = [
+          ...mutation.trackIds.filter(id => current.includes(id)),
+          ...current.filter(id => !mutation.trackIds.includes(id)),
+        ];
+        await reorderPlaylistTracks(mutation.playlistId, merged);
+        return 'merged';
+      }
+      break;
+    }
+  }
+  
+  await sendMutation(mutation);
+  return 'applied';
+}
+
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+  entries: [],
+  isSyncing: false,
+  
+  loadOutbox: async () => {
+    try {
+      const stored = isCapacitor ? await getEntriesFromCapacitor() : await getAllEntriesFromDB();
+      // Keep anything queued while loading
+      const entries = [...stored, ...get().entries.filter(e => !stored.some(s => s.id === e.id))];
+      set({ entries: entries.sort((a, b) => a.id - b.id) });
+      if (entries.length > 0) {
+        console.log('📮 Loaded pending offline changes:', entries.length);
+      }
+    } catch (error) {
+      console.error('Failed to load offline changes:', error);
+    }
+  },
+  
+  // Send a change now, or keep it for later when offline. Resolves to true
+  // when the change was queued rather than sent.
+  runOrQueue: async (mutation) => {
+    if (useOfflineStore.getState().isOnline && get().entries.length === 0) {
+      try {
+        await sendMutation(mutation);
+        return false;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+    
+    // Queue behind anything still pending so changes keep their order
+    const entries = get().entries;
+    const entry: OutboxEntry = {
+      id: Math.max(Date.now(), (entries[entries.length - 1]?.id ?? 0) + 1),
+      createdAt: Date.now(),
+      mutation,
+    };
+    const updated = [...entries, entry];
+    set({ entries: updated });
+    await persistEntry(updated, entry);
+    console.log('📮 Queued offline change:', mutation.type);
+    
+    if (useOfflineStore.getState().isOnline) {
+      get().flush().catch(error => console.warn('Offline changes sync failed:', error));
+    }
+    return true;
+  },
+  
+  flush: async () => {
+    if (get().isSyncing || get().entries.length === 0) return;
+    set({ isSyncing: true });
+    
+    const touchedPlaylists = new Set<number | string>();
+    let merged = 0;
+    let rejected = 0;
+    
+    try {
+      while (get().entries.length > 0 && useOfflineStore.getState().isOnline) {
+        const [entry] = get().entries;
+        let result: ReplayResult;
+        try {
+          result = await replayMutation(entry.mutation);
+        } catch (error) {
+          // Connection dropped or the server is struggling, try again later
+          if (!isRejected(error)) {
+            console.warn('Offline change replay interrupted:', error);
+            break;
+          }
+          console.warn('Offline change rejected by the server:', entry.mutation, error);
+          result = 'rejected';
+        }
+        
+        if (result === 'merged') merged++;
+        // Listens are best effort, only playlist edits are worth a warning
+        if (result === 'rejected' && entry.mutation.type !== 'listen') rejected++;
+        if (entry.mutation.type !== 'listen') touchedPlaylists.add(entry.mutation.playlistId);
+        
+        const remaining = get().entries.filter(e => e.id !== entry.id);
+        set({ entries: remaining });
+        await persistRemoval(remaining, entry.id);
+      }
+    } finally {
+      set({ isSyncing: false });
+    }
+    
+    // Skipped and merged edits changed the playlists too, then bring downloaded
+    // copies in line with the server
+    touchedPlaylists.forEach(id => {
+      invalidatePlaylist(id);
+      useOfflineStore.getState().syncOfflinePlaylist(id)
+        .catch(error => console.warn('Failed to sync offline playlist:', id, error));
+    });
+    
+    const { showToast } = useUIStore.getState();
+    if (rejected > 0) {
+      showToast(`${rejected} offline ${rejected === 1 ? 'change' : 'changes'} could not be applied`, 'warning');
+    } else if (merged > 0) {
+      showToast('Some playlists changed elsewhere, your offline edits were merged', 'info');
+    } else if (get().entries.length === 0) {
+      console.log('✅ Offline changes synced');
+    }
+  },
+}));
+
+// Replay pending changes on startup and whenever the connection comes back
+if (typeof window !== 'undefined') {
+  useOutboxStore.getState().loadOutbox()
+    .then(() => useOutboxStore.getState().flush())
+    .catch(error => console.warn('Offline changes sync failed:', error));
+  
+  useOfflineStore.subscribe((state, previous) => {
+    if (state.isOnline && !previous.isOnline) {
+      useOutboxStore.getState().flush()
+        .catch(error => console.warn('Offline changes sync failed:', error));
+    }
+  });
+}
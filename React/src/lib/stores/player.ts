@@ -1,9 +1,40 @@
 import { create } from 'zustand';
-import type { Track } from '../api/library';
+import { getAutoplayTracks, type Track } from '../api/library';
+import { getListenHistory, type PlaybackSession, type RepeatMode } from '../api/user';
 import { getStreamUrl } from '../api/client';
 import { prefetchLyrics } from '../api/lyrics';
+import { getOfflineAudioUrl, peekOfflineAudioUrl, useOfflineStore } from './offline';
+import {
+  audioEngine,
+  MAX_CROSSFADE_SECONDS,
+  MIN_PLAYBACK_RATE,
+  MAX_PLAYBACK_RATE,
+} from '../audio/engine';
+import {
+  getTrackGain,
+  loadNormalization,
+  saveNormalization,
+  MIN_PREAMP_DB,
+  MAX_PREAMP_DB,
+  type NormalizationSettings,
+} from '../audio/loudness';
+import {
+  createSleepTimer,
+  getSleepFadeLevel,
+  getSleepRemaining,
+  sleepEndsWithTrack,
+  type SleepTimer,
+  type SleepTimerMode,
+} from '../audio/sleepTimer';
+import { createShuffleSeed, smartShuffle } from '../utils/shuffle';
 
-type RepeatMode = 'off' | 'all' | 'one';
+// 'smart' spreads artists/albums apart and plays recently heard tracks last
+export type ShuffleMode = 'standard' | 'smart';
+
+interface PlayOptions {
+  // Crossfade from the outgoing track instead of cutting over
+  crossfade?: boolean;
+}
 
 interface PlayerState {
   // Current track and queue
@@ -11,6 +42,7 @@ interface PlayerState {
   queue: Track[];
   queueIndex: number;
   originalQueue: Track[]; // Store original queue for shuffle
+  userQueue: Track[]; // Manually queued tracks, played before the rest of the queue
   recentlyPlayed: Track[]; // Recently played tracks
   
   // Playback state
@@ -21,31 +53,55 @@ interface PlayerState {
   isMuted: boolean;
   repeatMode: RepeatMode;
   isShuffled: boolean;
-  
-  // Audio element ref
-  audioRef: HTMLAudioElement | null;
+  shuffleMode: ShuffleMode;
+  shuffleSeed: number | null; // Seed of the last smart shuffle, for reproducing an order
+  listenHistory: number[]; // Track IDs from the server's listen history, newest first
+  crossfadeSeconds: number;
+  normalization: NormalizationSettings;
+  sleepTimer: SleepTimer | null;
+  playbackRate: number;
+  preservesPitch: boolean;
+  autoplay: boolean; // Keep playing similar tracks when the queue runs out
   
   // Actions
-  setAudioRef: (audio: HTMLAudioElement | null) => void;
-  playTrack: (track: Track, queue?: Track[], index?: number) => void;
+  playTrack: (track: Track, queue?: Track[], index?: number, options?: PlayOptions) => void;
   playQueue: (tracks: Track[], startIndex?: number) => void;
   play: () => void;
   pause: () => void;
   togglePlay: () => void;
   next: () => void;
+  handleTrackEnding: () => void;
   previous: () => void;
   seek: (time: number) => void;
   setVolume: (volume: number) => void;
   toggleMute: () => void;
   toggleShuffle: () => void;
+  setShuffleMode: (mode: ShuffleMode) => void;
+  refreshListenHistory: () => Promise<void>;
   cycleRepeat: () => void;
+  setCrossfade: (seconds: number) => void;
+  setNormalization: (settings: Partial<NormalizationSettings>) => void;
+  setSleepTimer: (mode: SleepTimerMode, minutes?: number) => void;
+  cancelSleepTimer: () => void;
+  setPlaybackRate: (rate: number) => void;
+  setPreservesPitch: (preservesPitch: boolean) => void;
+  setAutoplay: (enabled: boolean) => void;
   setCurrentTime: (time: number) => void;
   setDuration: (duration: number) => void;
+  playNext: (track: Track) => void;
   addToQueue: (track: Track) => void;
+  playFromUserQueue: (index?: number, options?: PlayOptions) => void;
+  moveInUserQueue: (from: number, to: number) => void;
+  removeFromUserQueue: (index: number) => void;
+  clearUserQueue: () => void;
+  moveInQueue: (from: number, to: number) => void;
   removeFromQueue: (index: number) => void;
   clearQueue: () => void;
   addToRecentlyPlayed: (track: Track) => void;
   clearRecentlyPlayed: () => void;
+  getSession: () => PlaybackSession;
+  restoreSession: (session: PlaybackSession) => void;
+  resetSession: () => void;
 }
 
 // Shuffle array utility
@@ -58,6 +114,63 @@ function shuffleArray<T>(array: T[]): T[] {
   return shuffled;
 }
 
+/**
+ * Shuffle tracks using the selected shuffle mode
+ */
+function shuffleTracks(tracks: Track[]): Track[] {
+  const { shuffleMode, recentlyPlayed, listenHistory } = usePlayerStore.getState();
+  if (shuffleMode !== 'smart') return shuffleArray(tracks);
+
+  const seed = createShuffleSeed();
+  usePlayerStore.setState({ shuffleSeed: seed });
+  return smartShuffle(tracks, {
+    seed,
+    // This device's plays are the freshest, then the account's history
+    recentIds: [...recentlyPlayed.map((t) => t.id), ...listenHistory],
+  });
+}
+
+/**
+ * Index of the track that plays after the current one, or -1 at the end of the queue
+ */
+function getNextIndex(queue: Track[], queueIndex: number, repeatMode: RepeatMode): number {
+  if (queue.length === 0) return -1;
+  
+  const nextIndex = queueIndex + 1;
+  if (nextIndex < queue.length) return nextIndex;
+  return repeatMode === 'all' ? 0 : -1;
+}
+
+/**
+ * Queue in the order it will actually play: manually queued tracks come
+ * straight after the current one, then the rest of the context
+ */
+export function getPlaybackOrder(
+  { queue, queueIndex, userQueue }: { queue: Track[]; queueIndex: number; userQueue: Track[] }
+): Track[] {
+  return [...queue.slice(0, queueIndex + 1), ...userQueue, ...queue.slice(queueIndex + 1)];
+}
+
+// Move an item within a list
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
+
+// Load crossfade length from localStorage
+function loadCrossfade(): number {
+  const stored = parseFloat(localStorage.getItem('player_crossfade') || '0');
+  return isNaN(stored) ? 0 : Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, stored));
+}
+
+// Load playback speed from localStorage
+function loadPlaybackRate(): number {
+  const stored = parseFloat(localStorage.getItem('player_rate') || '1');
+  return isNaN(stored) ? 1 : Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, stored));
+}
+
 // Max recently played tracks to keep
 const MAX_RECENTLY_PLAYED = 20;
 
@@ -80,32 +193,83 @@ function saveRecentlyPlayed(tracks: Track[]) {
   }
 }
 
+// Load the last playback session from localStorage
+export function loadSession(): PlaybackSession | null {
+  try {
+    const stored = localStorage.getItem('player_session');
+    const session: PlaybackSession | null = stored ? JSON.parse(stored) : null;
+    return session && Array.isArray(session.queue) ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+// Save the playback session to localStorage
+export function saveSession(session: PlaybackSession | null) {
+  try {
+    if (session) {
+      localStorage.setItem('player_session', JSON.stringify(session));
+    } else {
+      localStorage.removeItem('player_session');
+    }
+  } catch {
+    // Ignore storage errors (e.g. quota exceeded by a very long queue)
+  }
+}
+
+/**
+ * Player state for a saved session. Always lands paused - the audio is
+ * loaded on the next play() at the saved position.
+ */
+function sessionState(session: PlaybackSession | null) {
+  const currentTrack = session?.queue[session.queueIndex] ?? null;
+  if (!session || !currentTrack) {
+    return {
+      currentTrack: null,
+      queue: [],
+      queueIndex: 0,
+      originalQueue: [],
+      userQueue: [],
+      currentTime: 0,
+      duration: 0,
+      repeatMode: 'off' as RepeatMode,
+      isShuffled: false,
+    };
+  }
+  
+  return {
+    currentTrack,
+    queue: session.queue,
+    queueIndex: session.queueIndex,
+    originalQueue: session.originalQueue ?? [],
+    userQueue: session.userQueue ?? [],
+    currentTime: Math.max(0, session.currentTime || 0),
+    duration: currentTrack.duration || 0,
+    repeatMode: session.repeatMode ?? 'off',
+    isShuffled: !!session.isShuffled,
+  };
+}
+
 export const usePlayerStore = create<PlayerState>((set, get) => ({
-  currentTrack: null,
-  queue: [],
-  queueIndex: 0,
-  originalQueue: [],
+  ...sessionState(loadSession()),
   recentlyPlayed: loadRecentlyPlayed(),
   
   isPlaying: false,
-  currentTime: 0,
-  duration: 0,
   volume: parseFloat(localStorage.getItem('player_volume') || '1'),
   isMuted: false,
-  repeatMode: 'off' as RepeatMode,
-  isShuffled: false,
-  
-  audioRef: null,
-  
-  setAudioRef: (audio) => {
-    set({ audioRef: audio });
-    if (audio) {
-      audio.volume = get().volume;
-    }
-  },
+  crossfadeSeconds: loadCrossfade(),
+  normalization: loadNormalization(),
+  shuffleMode: localStorage.getItem('player_shuffle_mode') === 'smart' ? 'smart' : 'standard',
+  shuffleSeed: null,
+  listenHistory: [],
+  sleepTimer: null,
+  playbackRate: loadPlaybackRate(),
+  // Pitch preservation is on unless turned off explicitly
+  preservesPitch: localStorage.getItem('player_preserve_pitch') !== 'false',
+  autoplay: localStorage.getItem('player_autoplay') === 'true',
   
-  playTrack: (track, queue, index) => {
-    const { audioRef, isShuffled, currentTrack, addToRecentlyPlayed } = get();
+  playTrack: (track, queue, index, options) => {
+    const { isShuffled, currentTrack, addToRecentlyPlayed, crossfadeSeconds, normalization } = get();
     
     // Add current track to recently played before switching
     if (currentTrack) {
@@ -115,12 +279,13 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     let newQueue = queue || [track];
     let newIndex = index ?? 0;
     
-    // If we have a new queue, store original and shuffle if needed
-    if (queue) {
+    // A different queue means a new context: store original and shuffle if needed.
+    // Moving within the current queue keeps its order.
+    if (queue && queue !== get().queue) {
       const originalQueue = [...queue];
       if (isShuffled) {
         // Keep current track at start, shuffle rest
-        newQueue = [track, ...shuffleArray(queue.filter((_, i) => i !== index))];
+        newQueue = [track, ...shuffleTracks(queue.filter((_, i) => i !== index))];
         newIndex = 0;
       }
       set({ originalQueue });
@@ -134,16 +299,11 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
       duration: track.duration || 0,
     });
     
-    if (audioRef) {
-      const streamUrl = getStreamUrl(track.id);
-      console.log('🎵 Playing track:', { id: track.id, title: track.title, streamUrl });
-      audioRef.src = streamUrl;
-      audioRef.play().catch((err) => {
-        console.error('❌ Audio play error:', err);
-        console.error('❌ Stream URL was:', streamUrl);
-      });
-      set({ isPlaying: true });
-    }
+    const fadeSeconds = options?.crossfade ? crossfadeSeconds : 0;
+    loadTrack(track, fadeSeconds, getTrackGain(track, normalization));
+    set({ isPlaying: true });
+    preloadUpcoming();
+    fillAutoplay();
     
     // Prefetch lyrics in background
     if (track.artist && track.title) {
@@ -161,7 +321,7 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     let newIndex = startIndex;
     
     if (isShuffled) {
-      newQueue = [track, ...shuffleArray(tracks.filter((_, i) => i !== startIndex))];
+      newQueue = [track, ...shuffleTracks(tracks.filter((_, i) => i !== startIndex))];
       newIndex = 0;
     }
     
@@ -175,19 +335,25 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
   },
   
   play: () => {
-    const { audioRef } = get();
-    if (audioRef && audioRef.src) {
-      audioRef.play().catch(console.error);
+    if (audioEngine.hasSource) {
+      audioEngine.play().catch(console.error);
+      set({ isPlaying: true });
+      return;
+    }
+    
+    // Restored session: load the track and resume where it left off
+    const { currentTrack, currentTime, normalization } = get();
+    if (currentTrack) {
+      loadTrack(currentTrack, 0, getTrackGain(currentTrack, normalization), currentTime);
       set({ isPlaying: true });
+      preloadUpcoming();
+      fillAutoplay();
     }
   },
   
   pause: () => {
-    const { audioRef } = get();
-    if (audioRef) {
-      audioRef.pause();
-      set({ isPlaying: false });
-    }
+    audioEngine.pause();
+    set({ isPlaying: false });
   },
   
   togglePlay: () => {
@@ -200,20 +366,26 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
   },
   
   next: () => {
-    const { queue, queueIndex, repeatMode } = get();
+    const { queue, queueIndex, repeatMode, userQueue } = get();
+    
+    // Manually queued tracks play before the rest of the context
+    if (userQueue.length > 0) {
+      get().playFromUserQueue();
+      return;
+    }
     
     if (queue.length === 0) return;
     
-    let nextIndex = queueIndex + 1;
+    const nextIndex = getNextIndex(queue, queueIndex, repeatMode);
     
-    if (nextIndex >= queue.length) {
-      if (repeatMode === 'all') {
-        nextIndex = 0;
+    if (nextIndex < 0) {
+      // End of queue
+      if (get().autoplay) {
+        continueWithAutoplay();
       } else {
-        // End of queue
         set({ isPlaying: false });
-        return;
       }
+      return;
     }
     
     const nextTrack = queue[nextIndex];
@@ -222,15 +394,43 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     }
   },
   
+  handleTrackEnding: () => {
+    const { queue, queueIndex, userQueue, repeatMode, crossfadeSeconds, sleepTimer } = get();
+    const nextIndex = getNextIndex(queue, queueIndex, repeatMode);
+    
+    // Sleep timer ends with this track: let it fade out, then stop instead of advancing
+    if (sleepEndsWithTrack(sleepTimer, getPlaybackOrder(get()), queueIndex)) {
+      if (!audioEngine.paused && audioEngine.currentTime < audioEngine.duration) return;
+      finishSleepTimer();
+      return;
+    }
+    
+    if (userQueue.length > 0) {
+      get().playFromUserQueue(0, { crossfade: crossfadeSeconds > 0 });
+      return;
+    }
+    
+    // Let the last track play out; the 'ended' event stops playback
+    if (nextIndex < 0) {
+      if (!audioEngine.paused && audioEngine.currentTime < audioEngine.duration) return;
+      if (get().autoplay) {
+        continueWithAutoplay();
+      } else {
+        set({ isPlaying: false });
+      }
+      return;
+    }
+    
+    get().playTrack(queue[nextIndex], queue, nextIndex, { crossfade: crossfadeSeconds > 0 });
+  },
+  
   previous: () => {
-    const { queue, queueIndex, currentTime, audioRef, repeatMode } = get();
+    const { queue, queueIndex, currentTime, repeatMode } = get();
     
     // If more than 3 seconds into song, restart it
     if (currentTime > 3) {
-      if (audioRef) {
-        audioRef.currentTime = 0;
-        set({ currentTime: 0 });
-      }
+      audioEngine.seek(0);
+      set({ currentTime: 0 });
       return;
     }
     
@@ -243,10 +443,8 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
         prevIndex = queue.length - 1;
       } else {
         // At start, just restart
-        if (audioRef) {
-          audioRef.currentTime = 0;
-          set({ currentTime: 0 });
-        }
+        audioEngine.seek(0);
+        set({ currentTime: 0 });
         return;
       }
     }
@@ -258,40 +456,42 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
   },
   
   seek: (time) => {
-    const { audioRef, isPlaying } = get();
-    if (audioRef) {
-      audioRef.currentTime = time;
+    const { isPlaying, currentTrack } = get();
+    if (!audioEngine.hasSource && currentTrack) {
+      // Nothing loaded yet (restored session) - play() starts from here
+      set({ currentTime: time });
+      return;
+    }
+    if (audioEngine.hasSource) {
+      audioEngine.seek(time);
       set({ currentTime: time });
       // Ensure playback continues after seeking
-      if (isPlaying && audioRef.paused) {
-        audioRef.play().catch(console.error);
+      if (isPlaying && audioEngine.paused) {
+        audioEngine.play().catch(console.error);
       }
     }
   },
   
   setVolume: (volume) => {
-    const { audioRef } = get();
     const clampedVolume = Math.max(0, Math.min(1, volume));
     
-    if (audioRef) {
-      audioRef.volume = clampedVolume;
-    }
+    audioEngine.setVolume(clampedVolume);
+    audioEngine.setMuted(false);
     
     localStorage.setItem('player_volume', clampedVolume.toString());
     set({ volume: clampedVolume, isMuted: clampedVolume === 0 });
   },
   
   toggleMute: () => {
-    const { audioRef, isMuted, volume } = get();
+    const { isMuted, volume } = get();
     
-    if (audioRef) {
-      if (isMuted) {
-        audioRef.volume = volume || 1;
-        set({ isMuted: false });
-      } else {
-        audioRef.volume = 0;
-        set({ isMuted: true });
-      }
+    if (isMuted) {
+      audioEngine.setVolume(volume || 1);
+      audioEngine.setMuted(false);
+      set({ isMuted: false });
+    } else {
+      audioEngine.setMuted(true);
+      set({ isMuted: true });
     }
   },
   
@@ -302,7 +502,7 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
       // Enable shuffle - keep current track, shuffle rest
       const currentIndex = queueIndex;
       const restOfQueue = queue.filter((_, i) => i > currentIndex);
-      const shuffledRest = shuffleArray(restOfQueue);
+      const shuffledRest = shuffleTracks(restOfQueue);
       const newQueue = [...queue.slice(0, currentIndex + 1), ...shuffledRest];
       
       set({
@@ -310,39 +510,177 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
         originalQueue: [...queue],
         queue: newQueue,
       });
+      preloadUpcoming();
     } else {
       // Disable shuffle - restore original order
-      const newIndex = originalQueue.findIndex((t) => t.id === currentTrack?.id);
+      let restoredQueue = originalQueue;
+      let newIndex = originalQueue.findIndex((t) => t.id === currentTrack?.id);
+      
+      // A manually queued track is playing: put it back after the context track it followed
+      if (newIndex < 0 && currentTrack) {
+        const followed = queue
+          .slice(0, queueIndex)
+          .reverse()
+          .find((track) => originalQueue.some((t) => t.id === track.id));
+        newIndex = followed ? originalQueue.findIndex((t) => t.id === followed.id) + 1 : 0;
+        restoredQueue = [...originalQueue.slice(0, newIndex), currentTrack, ...originalQueue.slice(newIndex)];
+      }
       
       set({
         isShuffled: false,
-        queue: originalQueue,
+        queue: restoredQueue,
         queueIndex: newIndex >= 0 ? newIndex : 0,
       });
+      preloadUpcoming();
+    }
+  },
+  
+  setShuffleMode: (mode) => {
+    const { isShuffled, queue, queueIndex } = get();
+    localStorage.setItem('player_shuffle_mode', mode);
+    set({ shuffleMode: mode });
+    
+    // Reshuffle what's still to come with the new mode
+    if (isShuffled) {
+      set({ queue: [...queue.slice(0, queueIndex + 1), ...shuffleTracks(queue.slice(queueIndex + 1))] });
+      preloadUpcoming();
+    }
+  },
+  
+  refreshListenHistory: async () => {
+    try {
+      set({ listenHistory: await getListenHistory() });
+    } catch (err) {
+      console.warn('Could not load listen history:', err);
     }
   },
   
   cycleRepeat: () => {
-    const { repeatMode, audioRef } = get();
+    const { repeatMode } = get();
     
     const modes: RepeatMode[] = ['off', 'all', 'one'];
     const currentIndex = modes.indexOf(repeatMode);
     const nextMode = modes[(currentIndex + 1) % modes.length];
     
-    if (audioRef) {
-      audioRef.loop = nextMode === 'one';
-    }
+    audioEngine.setLoop(nextMode === 'one');
     
     set({ repeatMode: nextMode });
+    preloadUpcoming();
+  },
+  
+  setCrossfade: (seconds) => {
+    const clamped = Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, Math.round(seconds)));
+    audioEngine.setCrossfade(clamped);
+    localStorage.setItem('player_crossfade', clamped.toString());
+    set({ crossfadeSeconds: clamped });
+  },
+  
+  setNormalization: (settings) => {
+    const { normalization, currentTrack } = get();
+    const updated = { ...normalization, ...settings };
+    updated.preAmp = Math.max(MIN_PREAMP_DB, Math.min(MAX_PREAMP_DB, updated.preAmp));
+    
+    saveNormalization(updated);
+    set({ normalization: updated });
+    
+    // Apply to the playing track and the buffered next one
+    audioEngine.setGain(getTrackGain(currentTrack, updated));
+    preloadUpcoming();
+  },
+  
+  setSleepTimer: (mode, minutes = 0) => {
+    set({ sleepTimer: createSleepTimer(mode, minutes) });
+    audioEngine.setFadeOutLevel(1);
+    
+    if (sleepTimerInterval === null) {
+      sleepTimerInterval = window.setInterval(tickSleepTimer, SLEEP_TICK_MS);
+    }
+  },
+  
+  cancelSleepTimer: () => {
+    clearSleepTimer();
+    set({ sleepTimer: null });
+  },
+  
+  setPlaybackRate: (rate) => {
+    // Round to the slider step so 1.0 stays exactly 1
+    const clamped = Math.round(Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate)) * 100) / 100;
+    audioEngine.setPlaybackRate(clamped, get().preservesPitch);
+    localStorage.setItem('player_rate', clamped.toString());
+    set({ playbackRate: clamped });
+  },
+  
+  setPreservesPitch: (preservesPitch) => {
+    audioEngine.setPlaybackRate(get().playbackRate, preservesPitch);
+    localStorage.setItem('player_preserve_pitch', preservesPitch.toString());
+    set({ preservesPitch });
+  },
+  
+  setAutoplay: (enabled) => {
+    localStorage.setItem('player_autoplay', enabled.toString());
+    set({ autoplay: enabled });
+    
+    if (enabled) {
+      fillAutoplay();
+    } else {
+      // Drop radio tracks that haven't played yet
+      const { queue, queueIndex } = get();
+      set({ queue: queue.filter((track, i) => i <= queueIndex || !track.autoplay) });
+      preloadUpcoming();
+    }
   },
   
   setCurrentTime: (time) => set({ currentTime: time }),
   
   setDuration: (duration) => set({ duration }),
   
+  playNext: (track) => {
+    set({ userQueue: [track, ...get().userQueue] });
+    preloadUpcoming();
+  },
+  
   addToQueue: (track) => {
-    const { queue } = get();
-    set({ queue: [...queue, track] });
+    set({ userQueue: [...get().userQueue, track] });
+    preloadUpcoming();
+  },
+  
+  playFromUserQueue: (index = 0, options) => {
+    const { queue, queueIndex, userQueue, currentTrack } = get();
+    const track = userQueue[index];
+    if (!track) return;
+    
+    // Slot the track in after the current one so the context carries on from there
+    const insertAt = currentTrack ? queueIndex + 1 : 0;
+    const newQueue = [...queue.slice(0, insertAt), track, ...queue.slice(insertAt)];
+    set({ queue: newQueue, userQueue: userQueue.filter((_, i) => i !== index) });
+    get().playTrack(track, newQueue, insertAt, options);
+  },
+  
+  moveInUserQueue: (from, to) => {
+    const { userQueue } = get();
+    if (from === to || !userQueue[from] || to < 0 || to >= userQueue.length) return;
+    
+    set({ userQueue: moveItem(userQueue, from, to) });
+    preloadUpcoming();
+  },
+  
+  removeFromUserQueue: (index) => {
+    set({ userQueue: get().userQueue.filter((_, i) => i !== index) });
+    preloadUpcoming();
+  },
+  
+  clearUserQueue: () => {
+    set({ userQueue: [] });
+    preloadUpcoming();
+  },
+  
+  moveInQueue: (from, to) => {
+    const { queue, queueIndex } = get();
+    // Only upcoming tracks can be reordered
+    if (from === to || from <= queueIndex || to <= queueIndex || from >= queue.length || to >= queue.length) return;
+    
+    set({ queue: moveItem(queue, from, to) });
+    preloadUpcoming();
   },
   
   removeFromQueue: (index) => {
@@ -356,10 +694,12 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     }
     
     set({ queue: newQueue, queueIndex: newIndex });
+    preloadUpcoming();
   },
   
   clearQueue: () => {
     set({ queue: [], queueIndex: 0, originalQueue: [] });
+    preloadUpcoming();
   },
   
   addToRecentlyPlayed: (track) => {
@@ -379,5 +719,212 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
     set({ recentlyPlayed: [] });
     saveRecentlyPlayed([]);
   },
+  
+  getSession: () => {
+    const { queue, queueIndex, originalQueue, userQueue, currentTime, isShuffled, repeatMode } = get();
+    return {
+      queue,
+      queueIndex,
+      originalQueue,
+      userQueue,
+      currentTime,
+      isShuffled,
+      repeatMode,
+      updatedAt: Date.now(),
+    };
+  },
+  
+  restoreSession: (session) => {
+    audioEngine.stop();
+    const state = sessionState(session);
+    audioEngine.setLoop(state.repeatMode === 'one');
+    set({ ...state, isPlaying: false });
+    saveSession(session);
+  },
+  
+  resetSession: () => {
+    get().cancelSleepTimer();
+    audioEngine.stop();
+    audioEngine.setLoop(false);
+    set({ ...sessionState(null), isPlaying: false, listenHistory: [] });
+    saveSession(null);
+  },
 }));
 
+// Sleep timer check interval (ms)
+const SLEEP_TICK_MS = 500;
+
+// Stop this close to the end; the fade has made the rest inaudible (seconds)
+const SLEEP_STOP_THRESHOLD = 0.5;
+
+let sleepTimerInterval: number | null = null;
+
+function clearSleepTimer() {
+  if (sleepTimerInterval !== null) {
+    clearInterval(sleepTimerInterval);
+    sleepTimerInterval = null;
+  }
+  audioEngine.setFadeOutLevel(1);
+}
+
+/**
+ * Pause playback and drop the sleep timer once it has run out
+ */
+function finishSleepTimer() {
+  const { pause } = usePlayerStore.getState();
+  pause();
+  clearSleepTimer();
+  usePlayerStore.setState({ sleepTimer: null });
+  console.log('😴 Sleep timer finished');
+}
+
+/**
+ * Fade the volume towards the sleep timer's deadline and stop when it is reached
+ */
+function tickSleepTimer() {
+  const state = usePlayerStore.getState();
+  const { sleepTimer, isPlaying, currentTime, duration, queueIndex, playbackRate } = state;
+  if (!sleepTimer) {
+    clearSleepTimer();
+    return;
+  }
+  
+  const remaining = getSleepRemaining(sleepTimer, {
+    currentTime,
+    duration,
+    queue: getPlaybackOrder(state),
+    queueIndex,
+    playbackRate,
+  });
+  if (remaining === null) return;
+  
+  if (remaining <= SLEEP_STOP_THRESHOLD) {
+    if (isPlaying || sleepTimer.mode === 'minutes') {
+      finishSleepTimer();
+    }
+    return;
+  }
+  
+  audioEngine.setFadeOutLevel(getSleepFadeLevel(sleepTimer, remaining));
+}
+
+// Autoplay radio: tracks played recently that seed the continuation, and tracks fetched per batch
+const AUTOPLAY_SEED_COUNT = 5;
+const AUTOPLAY_BATCH_SIZE = 10;
+
+let autoplayRequest: Promise<boolean> | null = null;
+
+/**
+ * Append autoplay radio tracks once the current track is the last one queued.
+ * Resolves true when there is something to play after the current track.
+ */
+function fillAutoplay(): Promise<boolean> {
+  const { autoplay, currentTrack, queue, queueIndex, userQueue, recentlyPlayed, repeatMode } = usePlayerStore.getState();
+  if (!autoplay || !currentTrack || repeatMode !== 'off') return Promise.resolve(false);
+  if (userQueue.length > 0 || queueIndex < queue.length - 1) return Promise.resolve(true);
+  if (autoplayRequest) return autoplayRequest;
+  
+  const seedIds = queue.slice(0, queueIndex + 1).slice(-AUTOPLAY_SEED_COUNT).map((t) => t.id);
+  const excludeIds = [...queue, ...recentlyPlayed].map((t) => t.id);
+  
+  autoplayRequest = getAutoplayTracks(seedIds, excludeIds, AUTOPLAY_BATCH_SIZE)
+    .then((tracks) => {
+      const state = usePlayerStore.getState();
+      // Autoplay was turned off or a new context started while loading
+      if (!state.autoplay || state.queue !== queue || tracks.length === 0) return false;
+      
+      console.log(`📻 Autoplay queued ${tracks.length} tracks`);
+      usePlayerStore.setState({ queue: [...queue, ...tracks.map((track) => ({ ...track, autoplay: true }))] });
+      preloadUpcoming();
+      return true;
+    })
+    .catch((err) => {
+      console.warn('Could not load autoplay tracks:', err);
+      return false;
+    })
+    .finally(() => {
+      autoplayRequest = null;
+    });
+  return autoplayRequest;
+}
+
+/**
+ * The queue has run out: move on to autoplay tracks, or stop if there are none
+ */
+function continueWithAutoplay() {
+  fillAutoplay().then((hasNext) => {
+    if (hasNext) {
+      usePlayerStore.getState().next();
+    } else {
+      usePlayerStore.setState({ isPlaying: false });
+    }
+  });
+}
+
+// Bumped on every load/preload so a slow offline lookup can't override a newer one
+let loadRequestId = 0;
+let preloadRequestId = 0;
+
+/**
+ * Where to play a track from: its offline copy when there is one, otherwise the stream.
+ * Calls back synchronously when no lookup is needed.
+ */
+function resolveTrackUrl(track: Track, requestId: () => number, onResolved: (url: string) => void) {
+  const known = peekOfflineAudioUrl(track.id);
+  if (known || !useOfflineStore.getState().isTrackOffline(track.id)) {
+    onResolved(known ?? getStreamUrl(track.id));
+    return;
+  }
+  
+  const id = requestId();
+  getOfflineAudioUrl(track.id).then((offlineUrl) => {
+    if (id === requestId()) onResolved(offlineUrl ?? getStreamUrl(track.id));
+  });
+}
+
+/**
+ * Load a track onto the active deck
+ */
+function loadTrack(track: Track, fadeSeconds: number, gainDb: number, startAt = 0) {
+  loadRequestId++;
+  // Recently played downloads are the last to be evicted
+  useOfflineStore.getState().markTrackPlayed(track.id);
+  resolveTrackUrl(track, () => loadRequestId, (url) => {
+    console.log('🎵 Playing track:', { id: track.id, title: track.title, url });
+    audioEngine.load(url, fadeSeconds, gainDb, startAt).catch((err) => {
+      console.error('❌ Audio play error:', err);
+      console.error('❌ URL was:', url);
+    });
+  });
+}
+
+/**
+ * Buffer the next queue entry on the standby deck so the transition is gapless
+ */
+function preloadUpcoming() {
+  const { queue, queueIndex, userQueue, repeatMode, currentTrack, normalization } = usePlayerStore.getState();
+  
+  // Repeat-one loops the active deck, nothing to preload
+  if (!currentTrack || repeatMode === 'one') {
+    preloadRequestId++;
+    audioEngine.preload(null);
+    return;
+  }
+  
+  const nextIndex = getNextIndex(queue, queueIndex, repeatMode);
+  const nextTrack = userQueue[0] ?? (nextIndex >= 0 ? queue[nextIndex] : null);
+  preloadRequestId++;
+  if (!nextTrack) {
+    audioEngine.preload(null);
+    return;
+  }
+  resolveTrackUrl(nextTrack, () => preloadRequestId, (url) => {
+    audioEngine.preload(url, getTrackGain(nextTrack, normalization));
+  });
+}
+
+// Apply persisted settings to the engine
+audioEngine.setVolume(usePlayerStore.getState().volume);
+audioEngine.setCrossfade(usePlayerStore.getState().crossfadeSeconds);
+audioEngine.setPlaybackRate(usePlayerStore.getState().playbackRate, usePlayerStore.getState().preservesPitch);
+audioEngine.setLoop(usePlayerStore.getState().repeatMode === 'one');
@@ -1,18 +1,19 @@
 import { create } from 'zustand';
 import type { Playlist, GeneratedPlaylist } from '../api/playlists';
+import { useOfflineStore, playlistCollectionKey } from './offline';
+import { useOutboxStore } from './outbox';
+import { getCachedData, setCachedData, subscribeQueries } from '../api/cache';
+import { useCachedQuery } from '../hooks/useCachedQuery';
 import {
+  playlistKeys,
   getPlaylists,
   getGeneratedPlaylists,
   createPlaylist as apiCreatePlaylist,
   deletePlaylist as apiDeletePlaylist,
-  addTrackToPlaylist as apiAddTrack,
-  removeTrackFromPlaylist as apiRemoveTrack,
 } from '../api/playlists';
 
+// The playlists themselves are read from the query cache, see usePlaylists
 interface PlaylistsState {
-  playlists: Playlist[];
-  generatedPlaylists: GeneratedPlaylist[];
-  
   isLoading: boolean;
   error: string | null;
   
@@ -23,22 +24,20 @@ interface PlaylistsState {
   deletePlaylist: (id: number | string) => Promise<boolean>;
   addTrackToPlaylist: (playlistId: number | string, trackId: number) => Promise<boolean>;
   removeTrackFromPlaylist: (playlistId: number | string, trackId: number) => Promise<boolean>;
+  reorderPlaylistTracks: (playlistId: number | string, trackIds: number[], previousTrackIds: number[]) => Promise<boolean>;
   refresh: () => Promise<void>;
 }
 
 export const usePlaylistsStore = create<PlaylistsState>((set, get) => ({
-  playlists: [],
-  generatedPlaylists: [],
-  
   isLoading: false,
   error: null,
   
   fetchPlaylists: async () => {
-    set({ isLoading: true, error: null });
+    set({ isLoading: !getCachedData(playlistKeys.list), error: null });
     
     try {
-      const playlists = await getPlaylists();
-      set({ playlists, isLoading: false });
+      await getPlaylists();
+      set({ isLoading: false });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to load playlists';
       set({ error: message, isLoading: false });
@@ -52,8 +51,7 @@ export const usePlaylistsStore = create<PlaylistsState>((set, get) => ({
     
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        const generatedPlaylists = await getGeneratedPlaylists();
-        set({ generatedPlaylists });
+        await getGeneratedPlaylists();
         return;
       } catch (err) {
         lastError = err;
@@ -72,9 +70,8 @@ export const usePlaylistsStore = create<PlaylistsState>((set, get) => ({
   createPlaylist: async (name: string, description?: string) => {
     try {
       const playlist = await apiCreatePlaylist(name, description);
-      set((state) => ({
-        playlists: [...state.playlists, playlist],
-      }));
+      // Show it right away, the list is refreshed in the background
+      setCachedData<Playlist[]>(playlistKeys.list, (playlists = []) => [...playlists, playlist]);
       return playlist;
     } catch (err) {
       console.error('Failed to create playlist:', err);
@@ -85,9 +82,8 @@ export const usePlaylistsStore = create<PlaylistsState>((set, get) => ({
   deletePlaylist: async (id: number | string) => {
     try {
       await apiDeletePlaylist(id);
-      set((state) => ({
-        playlists: state.playlists.filter((p) => p.id !== id),
-      }));
+      useOfflineStore.getState().removeCollectionFromOffline(playlistCollectionKey(id));
+      setCachedData<Playlist[]>(playlistKeys.list, (playlists = []) => playlists.filter((p) => p.id !== id));
       return true;
     } catch (err) {
       console.error('Failed to delete playlist:', err);
@@ -97,9 +93,13 @@ export const usePlaylistsStore = create<PlaylistsState>((set, get) => ({
   
   addTrackToPlaylist: async (playlistId: number | string, trackId: number) => {
     try {
-      await apiAddTrack(playlistId, trackId);
-      // Refresh playlists to get updated track count
-      get().fetchPlaylists();
+      // Offline, the change waits in the outbox and syncs once back online
+      const queued = await useOutboxStore.getState().runOrQueue({ type: 'addTrack', playlistId, trackId });
+      if (!queued) {
+        // Download the new track if the playlist is kept offline
+        useOfflineStore.getState().syncOfflinePlaylist(playlistId)
+          .catch((error) => console.warn('Failed to sync offline playlist:', playlistId, error));
+      }
       return true;
     } catch (err) {
       console.error('Failed to add track to playlist:', err);
@@ -109,9 +109,11 @@ export const usePlaylistsStore = create<PlaylistsState>((set, get) => ({
   
   removeTrackFromPlaylist: async (playlistId: number | string, trackId: number) => {
     try {
-      await apiRemoveTrack(playlistId, trackId);
-      // Refresh playlists to get updated track count
-      get().fetchPlaylists();
+      const queued = await useOutboxStore.getState().runOrQueue({ type: 'removeTrack', playlistId, trackId });
+      if (!queued) {
+        useOfflineStore.getState().syncOfflinePlaylist(playlistId)
+          .catch((error) => console.warn('Failed to sync offline playlist:', playlistId, error));
+      }
       return true;
     } catch (err) {
       console.error('Failed to remove track from playlist:', err);
@@ -119,9 +121,48 @@ export const usePlaylistsStore = create<PlaylistsState>((set, get) => ({
     }
   },
   
+  reorderPlaylistTracks: async (playlistId: number | string, trackIds: number[], previousTrackIds: number[]) => {
+    try {
+      await useOutboxStore.getState().runOrQueue({
+        type: 'reorder',
+        playlistId,
+        trackIds,
+        baseTrackIds: previousTrackIds,
+      });
+      return true;
+    } catch (err) {
+      console.error('Failed to reorder playlist:', err);
+      return false;
+    }
+  },
+  
   refresh: async () => {
     const { fetchPlaylists, fetchGeneratedPlaylists } = get();
     await Promise.all([fetchPlaylists(), fetchGeneratedPlaylists()]);
   },
 }));
 
+// Reload playlists a change made stale, new data reaches the screens through
+// the cache hooks
+subscribeQueries(key => {
+  const { fetchPlaylists, fetchGeneratedPlaylists } = usePlaylistsStore.getState();
+  if (key === playlistKeys.list) fetchPlaylists();
+  if (key === playlistKeys.generated) fetchGeneratedPlaylists();
+});
+
+const noPlaylists: Playlist[] = [];
+const noGeneratedPlaylists: GeneratedPlaylist[] = [];
+
+/**
+ * The user's playlists from the query cache, loaded by fetchPlaylists
+ */
+export function usePlaylists(): Playlist[] {
+  return useCachedQuery<Playlist[]>(playlistKeys.list) ?? noPlaylists;
+}
+
+/**
+ * Generated playlists from the query cache, loaded by fetchGeneratedPlaylists
+ */
+export function useGeneratedPlaylists(): GeneratedPlaylist[] {
+  return useCachedQuery<GeneratedPlaylist[]>(playlistKeys.generated) ?? noGeneratedPlaylists;
+}
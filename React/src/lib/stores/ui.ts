@@ -26,6 +26,9 @@ interface UIState {
   // Queue panel
   isQueueOpen: boolean;
   
+  // Devices panel (remote control)
+  isDevicesOpen: boolean;
+  
   // Lyrics modal/panel
   isLyricsOpen: boolean;
   
@@ -46,6 +49,7 @@ interface UIState {
   setIsMobile: (isMobile: boolean) => void;
   toggleSidebar: () => void;
   toggleQueue: () => void;
+  toggleDevices: () => void;
   toggleLyrics: () => void;
   toggleNowPlaying: () => void;
   toggleSettings: () => void;
@@ -78,6 +82,7 @@ export const useUIStore = create<UIState>((set, get) => ({
   
   isSidebarCollapsed: false,
   isQueueOpen: false,
+  isDevicesOpen: false,
   isLyricsOpen: false,
   isNowPlayingOpen: false,
   isSettingsOpen: false,
@@ -94,7 +99,9 @@ export const useUIStore = create<UIState>((set, get) => ({
   
   toggleSidebar: () => set((state) => ({ isSidebarCollapsed: !state.isSidebarCollapsed })),
   
-  toggleQueue: () => set((state) => ({ isQueueOpen: !state.isQueueOpen })),
+  toggleQueue: () => set((state) => ({ isQueueOpen: !state.isQueueOpen, isDevicesOpen: false })),
+  
+  toggleDevices: () => set((state) => ({ isDevicesOpen: !state.isDevicesOpen, isQueueOpen: false })),
   
   toggleLyrics: () => set((state) => ({ isLyricsOpen: !state.isLyricsOpen })),
   
@@ -143,6 +150,7 @@ export const useUIStore = create<UIState>((set, get) => ({
       importModal: { isOpen: false },
       addToPlaylistModal: { isOpen: false },
       isQueueOpen: false,
+      isDevicesOpen: false,
       isLyricsOpen: false,
       isNowPlayingOpen: false,
       isSettingsOpen: false,
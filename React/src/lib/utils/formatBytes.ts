@@ -0,0 +1,12 @@
+/**
+ * Format a byte count for display (e.g., "3.4 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (!bytes || bytes < 0) return '0 B';
+  
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+  const value = bytes / Math.pow(1024, exponent);
+  
+  return `${exponent === 0 ? value : value.toFixed(1)} ${units[exponent]}`;
+}
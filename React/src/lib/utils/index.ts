@@ -1,4 +1,6 @@
 export * from './formatTime';
+export * from './formatBytes';
 export * from './artwork';
 export * from './lrcParser';
 
+export * from './shuffle';
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { Track } from '../api/library';
+import { smartShuffle } from './shuffle';
+
+function makeTrack(id: number, artist: string, album: string): Track {
+  return {
+    id,
+    title: `Track ${id}`,
+    artist,
+    album,
+    album_cover: null,
+    artist_image: null,
+    duration: 180,
+    file_path: `/music/${id}.mp3`,
+    genre: null,
+    year: null,
+    track_number: null,
+  };
+}
+
+// Four artists with five tracks each, over two albums
+const library: Track[] = ['A', 'B', 'C', 'D'].flatMap((artist, a) =>
+  Array.from({ length: 5 }, (_, i) => makeTrack(a * 10 + i, artist, `${artist} ${i % 2}`))
+);
+
+const SEEDS = [1, 7, 42, 1234, 99999];
+
+const backToBack = (tracks: Track[]) =>
+  tracks.filter((track, i) => i > 0 && track.artist === tracks[i - 1].artist).length;
+
+describe('smartShuffle', () => {
+  it('gives the same order for the same seed', () => {
+    const first = smartShuffle(library, { seed: 42 });
+    const second = smartShuffle(library, { seed: 42 });
+
+    expect(second.map(t => t.id)).toEqual(first.map(t => t.id));
+    expect([...first.map(t => t.id)].sort((a, b) => a - b)).toEqual(library.map(t => t.id));
+  });
+
+  it('keeps tracks by the same artist apart', () => {
+    SEEDS.forEach(seed => {
+      expect(backToBack(smartShuffle(library, { seed }))).toBe(0);
+    });
+  });
+
+  it('moves recently heard tracks to the end, spread out as well', () => {
+    // Heard in clusters, B then A then C, most recent first
+    const recentIds = [10, 11, 12, 0, 1, 2, 20, 21, 22];
+
+    SEEDS.forEach(seed => {
+      const order = smartShuffle(library, { seed, recentIds });
+      const recent = order.slice(-recentIds.length);
+
+      expect(recent.every(t => recentIds.includes(t.id))).toBe(true);
+      expect(backToBack(recent)).toBe(0);
+
+      // The least recently heard lean to the front, the most recent to the back
+      const place = (id: number) => recent.findIndex(t => t.id === id);
+      expect(place(22)).toBeLessThan(recentIds.length / 2);
+      expect(place(10)).toBeGreaterThan(recentIds.length / 2);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Smart shuffle
+ *
+ * Spreads tracks by the same artist (and, within an artist, the same album)
+ * evenly across the order instead of leaving clusters to chance, and moves
+ * recently heard tracks towards the end. The result depends only on the
+ * input and the seed, so a given seed always produces the same order.
+ */
+
+import type { Track } from '../api/library';
+
+export interface SmartShuffleOptions {
+  seed: number;
+  // Track IDs heard recently, most recent first
+  recentIds?: number[];
+}
+
+/**
+ * Small seeded PRNG (mulberry32), returns floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * New random seed for a shuffle
+ */
+export function createShuffleSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff);
+}
+
+function seededShuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): T[][] {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const k = key(item);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(item);
+  });
+  return [...groups.values()];
+}
+
+const artistKey = (track: Track) => (track.artist || '').trim().toLowerCase();
+const albumKey = (track: Track) => (track.album || '').trim().toLowerCase();
+
+/**
+ * Give each member of a group evenly spaced positions in [0, 1) with a random
+ * offset and some jitter, then merge all groups by position
+ */
+function spread<T>(groups: T[][], random: () => number): T[] {
+  const placed: { item: T; position: number }[] = [];
+  groups.forEach((group) => {
+    const gap = 1 / group.length;
+    const offset = random() * gap;
+    group.forEach((item, i) => {
+      const jitter = (random() - 0.5) * gap * 0.6;
+      placed.push({ item, position: offset + i * gap + jitter });
+    });
+  });
+  return placed.sort((a, b) => a.position - b.position).map(({ item }) => item);
+}
+
+/**
+ * Swap away any remaining back-to-back tracks by the same artist, as long as
+ * the swap doesn't create a new pair somewhere else
+ */
+function separateNeighbours(tracks: Track[]): Track[] {
+  const result = [...tracks];
+  const artistAt = (index: number) => (index >= 0 && index < result.length ? artistKey(result[index]) : null);
+
+  for (let i = 1; i < result.length; i++) {
+    const artist = artistAt(i);
+    if (artist !== artistAt(i - 1)) continue;
+
+    const swapIndex = result.findIndex((candidate, j) => {
+      if (j <= i + 1) return false;
+      const candidateArtist = artistKey(candidate);
+      return candidateArtist !== artist &&
+        candidateArtist !== artistAt(i + 1) &&
+        artist !== artistAt(j - 1) &&
+        artist !== artistAt(j + 1);
+    });
+    if (swapIndex > 0) {
+      [result[i], result[swapIndex]] = [result[swapIndex], result[i]];
+    }
+  }
+  return result;
+}
+
+/**
+ * Order tracks so artists and albums are spread out. With `recentRank`, each
+ * artist's tracks go from least to most recently heard instead.
+ */
+function spreadTracks(tracks: Track[], random: () => number, recentRank?: Map<number, number>): Track[] {
+  // Within an artist, alternate albums before spreading the artist across the queue
+  const artistGroups = groupBy(tracks, artistKey).map((artistTracks) => recentRank
+    ? [...artistTracks].sort((a, b) => recentRank.get(b.id)! - recentRank.get(a.id)!)
+    : spread(groupBy(seededShuffle(artistTracks, random), albumKey), random)
+  );
+  return separateNeighbours(spread(seededShuffle(artistGroups, random), random));
+}
+
+/**
+ * Shuffle tracks with artists/albums spread apart and recently heard tracks last.
+ * Recently heard tracks are spread the same way, each artist's least recently
+ * heard first.
+ */
+export function smartShuffle(tracks: Track[], options: SmartShuffleOptions): Track[] {
+  const random = createRandom(options.seed);
+  const recentRank = new Map<number, number>();
+  (options.recentIds || []).forEach((id, rank) => {
+    if (!recentRank.has(id)) recentRank.set(id, rank);
+  });
+
+  const fresh = tracks.filter((track) => !recentRank.has(track.id));
+  const recent = tracks.filter((track) => recentRank.has(track.id));
+
+  return [...spreadTracks(fresh, random), ...spreadTracks(recent, random, recentRank)];
+}
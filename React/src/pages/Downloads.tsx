@@ -1,7 +1,10 @@
 import React, { useEffect, useState } from 'react';
 import { getDownloadQueue, cancelDownload, cleanupDownloads, type ImportStatus } from '../lib/api/import';
 import { useUIStore } from '../lib/stores/ui';
+import { useOfflineStore } from '../lib/stores/offline';
+import { MAX_DOWNLOAD_CONCURRENCY, type DownloadJob } from '../lib/offline/downloadManager';
 import { Button } from '../lib/components/UI/Button';
+import { formatBytes } from '../lib/utils/formatBytes';
 import './Downloads.css';
 
 export const Downloads: React.FC = () => {
@@ -9,6 +12,16 @@ export const Downloads: React.FC = () => {
   const [downloads, setDownloads] = useState<ImportStatus[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCleaning, setIsCleaning] = useState(false);
+  const {
+    downloads: offlineDownloads,
+    downloadConcurrency,
+    setDownloadConcurrency,
+    cancelDownload: cancelOfflineDownload,
+    retryDownload,
+    offlineTracks,
+    isVerifying,
+    verifyOfflineTracks,
+  } = useOfflineStore();
 
   // Only poll if there are active downloads
   const hasActiveDownloads = downloads.some(d => d.status === 'pending' || d.status === 'downloading');
@@ -63,9 +76,50 @@ export const Downloads: React.FC = () => {
     }
   };
 
+  // Full check of the offline copies, checksums included
+  const handleVerify = async () => {
+    try {
+      const result = await verifyOfflineTracks({ full: true });
+      if (result.broken === 0 && result.orphans === 0) {
+        showToast(`All ${result.checked} offline tracks are intact`, 'success');
+      } else {
+        const parts = [];
+        if (result.broken > 0) parts.push(`${result.broken} damaged ${result.broken === 1 ? 'track' : 'tracks'} will download again`);
+        if (result.orphans > 0) parts.push(`${result.orphans} leftover ${result.orphans === 1 ? 'file' : 'files'} removed`);
+        showToast(parts.join(', '), 'warning');
+      }
+    } catch (error) {
+      console.error('Failed to verify offline tracks:', error);
+      showToast('Failed to check offline tracks', 'error');
+    }
+  };
+
   // Count completed/failed downloads for cleanup button
   const cleanableCount = downloads.filter(d => d.status === 'completed' || d.status === 'failed').length;
 
+  // Overall progress across the offline downloads whose size is known
+  const offlineReceived = offlineDownloads.reduce((total, job) => total + job.receivedBytes, 0);
+  const offlineTotal = offlineDownloads.reduce((total, job) => total + (job.totalBytes ?? 0), 0);
+  const offlinePercent = offlineTotal > 0 ? Math.min(100, (offlineReceived / offlineTotal) * 100) : 0;
+
+  const getJobPercent = (job: DownloadJob) =>
+    job.totalBytes ? Math.min(100, (job.receivedBytes / job.totalBytes) * 100) : 0;
+
+  const getJobStatusText = (job: DownloadJob) => {
+    switch (job.status) {
+      case 'queued':
+        return 'Waiting';
+      case 'retrying':
+        return `Connection lost, retrying (${job.attempt})…`;
+      case 'failed':
+        return `Failed: ${job.error ?? 'unknown error'}`;
+      default:
+        return job.totalBytes
+          ? `${formatBytes(job.receivedBytes)} of ${formatBytes(job.totalBytes)}`
+          : formatBytes(job.receivedBytes);
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
@@ -74,6 +128,10 @@ export const Downloads: React.FC = () => {
         return 'fa-search fa-pulse';
       case 'downloading':
         return 'fa-spinner fa-spin';
+      case 'queued':
+        return 'fa-clock';
+      case 'retrying':
+        return 'fa-rotate fa-spin';
       case 'completed':
         return 'fa-check-circle';
       case 'failed':
@@ -91,6 +149,7 @@ export const Downloads: React.FC = () => {
         return 'var(--accent-red)';
       case 'downloading':
       case 'searching':
+      case 'retrying':
         return 'var(--accent-blue)';
       default:
         return 'var(--text-subdued)';
@@ -121,9 +180,83 @@ export const Downloads: React.FC = () => {
               {isCleaning ? 'Cleaning...' : `Cleanup (${cleanableCount})`}
             </Button>
           )}
+          {offlineTracks.length > 0 && (
+            <Button
+              variant="secondary"
+              onClick={handleVerify}
+              disabled={isVerifying}
+              icon={<i className={`fas ${isVerifying ? 'fa-spinner fa-spin' : 'fa-shield-halved'}`} />}
+            >
+              {isVerifying ? 'Checking...' : 'Check offline files'}
+            </Button>
+          )}
         </div>
       </header>
 
+      {offlineDownloads.length > 0 && (
+        <section className="offline-downloads">
+          <div className="offline-downloads-header">
+            <div className="offline-downloads-summary">
+              <h2>Saving for offline</h2>
+              <span>
+                {offlineDownloads.length} {offlineDownloads.length === 1 ? 'track' : 'tracks'}
+                {offlineTotal > 0 && ` · ${formatBytes(offlineReceived)} of ${formatBytes(offlineTotal)}`}
+              </span>
+            </div>
+            <label className="offline-concurrency">
+              <span>At once</span>
+              <select
+                value={downloadConcurrency}
+                onChange={(e) => setDownloadConcurrency(Number(e.target.value))}
+              >
+                {Array.from({ length: MAX_DOWNLOAD_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="download-progress offline-overall-progress">
+            <div className="download-progress-bar" style={{ width: `${offlinePercent}%` }}></div>
+          </div>
+
+          <div className="downloads-list">
+            {offlineDownloads.map((job) => (
+              <div key={job.track.id} className={`download-item status-${job.status}`}>
+                <div className="download-icon" style={{ color: getStatusColor(job.status) }}>
+                  <i className={`fas ${getStatusIcon(job.status)}`}></i>
+                </div>
+
+                <div className="download-info">
+                  <span className="download-title">{job.track.artist} - {job.track.title}</span>
+                  <span className="download-detail">{getJobStatusText(job)}</span>
+                  {job.status !== 'failed' && (
+                    <div className="download-progress">
+                      <div
+                        className="download-progress-bar"
+                        style={{ width: `${getJobPercent(job)}%` }}
+                      ></div>
+                    </div>
+                  )}
+                </div>
+
+                {job.status === 'failed' && (
+                  <button className="cancel-btn" onClick={() => retryDownload(job.track.id)} title="Retry">
+                    <i className="fas fa-rotate-right"></i>
+                  </button>
+                )}
+                <button
+                  className="cancel-btn"
+                  onClick={() => cancelOfflineDownload(job.track.id)}
+                  title={job.status === 'failed' ? 'Dismiss' : 'Cancel'}
+                >
+                  <i className="fas fa-times"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
       <div className="downloads-content">
         {isLoading ? (
           <div className="downloads-loading">
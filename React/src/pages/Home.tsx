@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo } from 'react';
-import { useLibraryStore } from '../lib/stores/library';
-import { usePlaylistsStore } from '../lib/stores/playlists';
+import { useLibraryStore, useLibraryTracks } from '../lib/stores/library';
+import { usePlaylistsStore, usePlaylists, useGeneratedPlaylists } from '../lib/stores/playlists';
+import { useOfflineStore } from '../lib/stores/offline';
 import { usePlayerStore } from '../lib/stores/player';
 import { FeaturedCard } from '../lib/components/Cards/FeaturedCard';
 import { PlaylistCard } from '../lib/components/Cards/PlaylistCard';
@@ -17,21 +18,24 @@ function getGreeting(): string {
 }
 
 export const Home: React.FC = () => {
-  const { tracks, isLoading: libraryLoading, fetchLibrary } = useLibraryStore();
+  const { isLoading: libraryLoading, fetchLibrary } = useLibraryStore();
+  const { tracks } = useLibraryTracks();
   const {
-    playlists,
-    generatedPlaylists,
     isLoading: playlistsLoading,
     fetchPlaylists,
     fetchGeneratedPlaylists,
   } = usePlaylistsStore();
+  const playlists = usePlaylists();
+  const generatedPlaylists = useGeneratedPlaylists();
   const { playQueue } = usePlayerStore();
+  const isOnline = useOfflineStore((state) => state.isOnline);
 
+  // Again once back online, for anything that couldn't load without a connection
   useEffect(() => {
     fetchLibrary();
     fetchPlaylists();
     fetchGeneratedPlaylists();
-  }, [fetchLibrary, fetchPlaylists, fetchGeneratedPlaylists]);
+  }, [isOnline, fetchLibrary, fetchPlaylists, fetchGeneratedPlaylists]);
 
   // Get recent tracks (last 10 by ID - assuming higher ID = more recent)
   const recentTracks = useMemo(() => 
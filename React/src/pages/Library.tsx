@@ -1,20 +1,48 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { usePlaylistsStore } from '../lib/stores/playlists';
+import { usePlaylistsStore, usePlaylists } from '../lib/stores/playlists';
+import { useLibraryStore, useLibraryTracks, useArtists, useAlbums } from '../lib/stores/library';
+import { useOfflineStore } from '../lib/stores/offline';
 import { PlaylistCard } from '../lib/components/Cards/PlaylistCard';
-import { SkeletonCard } from '../lib/components/UI/Skeleton';
+import { AlbumCard } from '../lib/components/Cards/AlbumCard';
+import { ArtistCard } from '../lib/components/Cards/ArtistCard';
+import { TrackCard, TRACK_ROW_HEIGHT } from '../lib/components/Cards/TrackCard';
+import { SkeletonCard, SkeletonTrack } from '../lib/components/UI/Skeleton';
+import { VirtualList } from '../lib/components/UI/VirtualList';
 import { getArtworkUrl, handleImageError } from '../lib/utils/artwork';
+import type { LibraryQuery } from '../lib/api/library';
 import './Library.css';
 
 type ViewMode = 'grid' | 'list';
 
+const SORT_OPTIONS: { label: string; sort: LibraryQuery['sort']; order: LibraryQuery['order'] }[] = [
+  { label: 'Recently added', sort: 'added_at', order: 'desc' },
+  { label: 'Title', sort: 'title', order: 'asc' },
+  { label: 'Artist', sort: 'artist', order: 'asc' },
+  { label: 'Album', sort: 'album', order: 'asc' },
+  { label: 'Duration', sort: 'duration', order: 'asc' },
+];
+
 export const Library: React.FC = () => {
   const navigate = useNavigate();
   const {
-    playlists,
     isLoading,
     fetchPlaylists,
   } = usePlaylistsStore();
+  const playlists = usePlaylists();
+  const {
+    trackQuery,
+    isLoading: tracksLoading,
+    isLoadingMore,
+    fetchLibrary,
+    fetchMoreTracks,
+    setTrackQuery,
+  } = useLibraryStore();
+  const { tracks, total: tracksTotal } = useLibraryTracks();
+  const artists = useArtists();
+  const albums = useAlbums();
+  const { isOnline } = useOfflineStore();
+  const [filter, setFilter] = useState(trackQuery.q ?? '');
 
   // Load saved view preference
   const [viewMode, setViewMode] = useState<ViewMode>(() => {
@@ -22,9 +50,28 @@ export const Library: React.FC = () => {
     return (saved as ViewMode) || 'grid';
   });
 
+  // Offline, what is downloaded is browsed instead (see useArtists and useAlbums)
+  useEffect(() => {
+    if (isOnline) {
+      fetchPlaylists();
+      fetchLibrary();
+    }
+  }, [isOnline, fetchPlaylists, fetchLibrary]);
+
+  // Filter on the server once typing pauses
   useEffect(() => {
-    fetchPlaylists();
-  }, [fetchPlaylists]);
+    const q = filter.trim();
+    if (q === (trackQuery.q ?? '')) return;
+    const timer = setTimeout(() => setTrackQuery({ q }), 300);
+    return () => clearTimeout(timer);
+  }, [filter, trackQuery.q, setTrackQuery]);
+
+  const handleSortChange = (value: string) => {
+    const option = SORT_OPTIONS.find(o => `${o.sort}:${o.order}` === value);
+    if (option) {
+      setTrackQuery({ sort: option.sort, order: option.order });
+    }
+  };
 
   // Save view preference
   const handleViewChange = (mode: ViewMode) => {
@@ -32,6 +79,54 @@ export const Library: React.FC = () => {
     localStorage.setItem('library_view_mode', mode);
   };
 
+  if (!isOnline) {
+    return (
+      <div className="library-page animate-fade-in">
+        <header className="library-header">
+          <div className="header-left">
+            <h1>Downloaded Music</h1>
+            <span className="playlist-count">
+              {albums.length} albums • {artists.length} artists
+            </span>
+          </div>
+        </header>
+
+        <div className="library-content">
+          {albums.length > 0 || artists.length > 0 ? (
+            <>
+              {albums.length > 0 && (
+                <section className="library-section">
+                  <h2>Albums</h2>
+                  <div className="card-grid">
+                    {albums.map((album) => (
+                      <AlbumCard key={album.name} album={album} />
+                    ))}
+                  </div>
+                </section>
+              )}
+              {artists.length > 0 && (
+                <section className="library-section">
+                  <h2>Artists</h2>
+                  <div className="card-grid">
+                    {artists.map((artist) => (
+                      <ArtistCard key={artist.name} artist={artist} />
+                    ))}
+                  </div>
+                </section>
+              )}
+            </>
+          ) : (
+            <div className="empty-state">
+              <i className="fas fa-wifi"></i>
+              <h3>You're offline</h3>
+              <p>Music you download will show up here</p>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="library-page animate-fade-in">
       <header className="library-header">
@@ -106,6 +201,67 @@ export const Library: React.FC = () => {
             <p>Create a playlist to get started</p>
           </div>
         )}
+
+        <section className="library-section library-songs">
+          <div className="library-songs-header">
+            <div className="header-left">
+              <h2>Songs</h2>
+              <span className="playlist-count">{tracksTotal} tracks</span>
+            </div>
+            <div className="library-songs-controls">
+              <input
+                type="search"
+                className="library-filter"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter songs"
+              />
+              <select
+                className="library-sort"
+                value={`${trackQuery.sort}:${trackQuery.order}`}
+                onChange={(e) => handleSortChange(e.target.value)}
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.label} value={`${option.sort}:${option.order}`}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {tracksLoading ? (
+            <div className="track-list">
+              {[...Array(5)].map((_, i) => (
+                <SkeletonTrack key={i} />
+              ))}
+            </div>
+          ) : tracks.length > 0 ? (
+            <>
+              <VirtualList
+                className="track-list"
+                items={tracks}
+                rowHeight={TRACK_ROW_HEIGHT}
+                getKey={(track) => track.id}
+                renderRow={(track, index) => (
+                  <TrackCard track={track} index={index} showIndex queue={tracks} />
+                )}
+                onEndReached={fetchMoreTracks}
+              />
+              {isLoadingMore && (
+                <div className="library-songs-more">
+                  <div className="spinner"></div>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="empty-state">
+              <i className="fas fa-music"></i>
+              <h3>{trackQuery.q ? 'No matching songs' : 'No songs yet'}</h3>
+              <p>{trackQuery.q ? 'Try a different filter' : 'Songs you add will show up here'}</p>
+            </div>
+          )}
+        </section>
       </div>
     </div>
   );
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate, type Location } from 'react-router-dom';
 import { useAuthStore } from '../lib/stores/auth';
 import { Input } from '../lib/components/UI/Input';
 import { Button } from '../lib/components/UI/Button';
@@ -11,7 +11,7 @@ import './Auth.css';
 function getErrorIcon(error: string): string {
   const lowerError = error.toLowerCase();
   
-  if (lowerError.includes('too many') || lowerError.includes('rate limit') || lowerError.includes('attempts')) {
+  if (lowerError.includes('too many') || lowerError.includes('rate limit') || lowerError.includes('attempts') || lowerError.includes('expired')) {
     return 'fa-clock'; // Rate limiting
   }
   if (lowerError.includes('credentials') || lowerError.includes('password') || lowerError.includes('invalid')) {
@@ -32,15 +32,20 @@ function getErrorIcon(error: string): string {
 
 export const Login: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { login, isAuthenticated, isLoading, error, clearError } = useAuthStore();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
 
+  // Back to the page that sent us here, e.g. after the session expired
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
+
   useEffect(() => {
     if (isAuthenticated) {
-      navigate('/');
+      navigate(returnTo, { replace: true });
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, returnTo]);
 
   useEffect(() => {
     return () => clearError();
@@ -50,7 +55,7 @@ export const Login: React.FC = () => {
     e.preventDefault();
     const success = await login(username, password);
     if (success) {
-      navigate('/');
+      navigate(returnTo, { replace: true });
     }
   };
 
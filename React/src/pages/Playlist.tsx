@@ -1,23 +1,28 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { getPlaylist, getPlaylistTracks, deletePlaylist, updatePlaylist, reorderPlaylistTracks, removeTrackFromPlaylist } from '../lib/api/playlists';
+import { getPlaylist, getPlaylistTracks, deletePlaylist, updatePlaylist, playlistKeys } from '../lib/api/playlists';
 import type { Playlist as PlaylistType } from '../lib/api/playlists';
 import type { Track } from '../lib/api/library';
+import { isAbortError } from '../lib/api/client';
+import { subscribeQueries } from '../lib/api/cache';
 import { usePlayerStore } from '../lib/stores/player';
 import { usePlaylistsStore } from '../lib/stores/playlists';
 import { useUIStore } from '../lib/stores/ui';
+import { useOfflineStore, playlistCollectionKey } from '../lib/stores/offline';
 import { getArtworkUrl, handleImageError } from '../lib/utils/artwork';
 import { formatDuration } from '../lib/utils/formatTime';
-import { TrackCard } from '../lib/components/Cards/TrackCard';
+import { TrackCard, TRACK_ROW_HEIGHT } from '../lib/components/Cards/TrackCard';
 import { Button } from '../lib/components/UI/Button';
+import { DownloadCollectionButton } from '../lib/components/UI/DownloadCollectionButton';
 import { SkeletonTrack } from '../lib/components/UI/Skeleton';
+import { VirtualList } from '../lib/components/UI/VirtualList';
 import './Playlist.css';
 
 export const Playlist: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { playQueue } = usePlayerStore();
-  const { fetchPlaylists } = usePlaylistsStore();
+  const { fetchPlaylists, removeTrackFromPlaylist, reorderPlaylistTracks } = usePlaylistsStore();
   const { showToast } = useUIStore();
   
   const [playlist, setPlaylist] = useState<PlaylistType | null>(null);
@@ -41,26 +46,49 @@ export const Playlist: React.FC = () => {
   const isGenerated = playlist?.is_generated || (id && id.includes('-'));
 
   useEffect(() => {
-    if (id) {
-      loadPlaylist(id);
-    }
+    if (!id) return;
+    // Moving on to another playlist drops this one's requests
+    const controller = new AbortController();
+    loadPlaylist(id, controller.signal);
+    return () => controller.abort();
+  }, [id]);
+
+  // Follow the query cache: refreshed data, or a change that made this playlist stale
+  useEffect(() => {
+    if (!id) return;
+    return subscribeQueries((key) => {
+      if (key === playlistKeys.detail(id)) {
+        getPlaylist(id)
+          .then(setPlaylist)
+          .catch((err) => console.warn('Failed to refresh playlist:', err));
+      }
+      if (key === playlistKeys.tracks(id)) {
+        getPlaylistTracks(id).then(setTracks);
+      }
+    });
   }, [id]);
 
-  const loadPlaylist = async (playlistId: string) => {
+  const loadPlaylist = async (playlistId: string, signal?: AbortSignal) => {
     setIsLoading(true);
     setError(null);
     try {
       const [playlistData, tracksData] = await Promise.all([
-        getPlaylist(playlistId),
-        getPlaylistTracks(playlistId),
+        getPlaylist(playlistId, signal),
+        getPlaylistTracks(playlistId, signal),
       ]);
       setPlaylist(playlistData);
       setTracks(Array.isArray(tracksData) ? tracksData : []);
+      
+      // Keep a downloaded copy in step with edits made elsewhere
+      if (Array.isArray(tracksData) && tracksData.length > 0) {
+        useOfflineStore.getState().syncCollection(playlistCollectionKey(playlistId), tracksData);
+      }
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Failed to load playlist:', err);
       setError(err instanceof Error ? err.message : 'Failed to load playlist');
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
     }
   };
 
@@ -85,6 +113,7 @@ export const Playlist: React.FC = () => {
     setIsDeleting(true);
     try {
       await deletePlaylist(playlist.id);
+      await useOfflineStore.getState().removeCollectionFromOffline(playlistCollectionKey(playlist.id));
       await fetchPlaylists();
       navigate('/library');
     } catch (error) {
@@ -133,14 +162,14 @@ export const Playlist: React.FC = () => {
   const handleRemoveTrack = async (trackId: number) => {
     if (!playlist || isGenerated) return;
     
-    try {
-      await removeTrackFromPlaylist(playlist.id, trackId);
-      setTracks(tracks.filter(t => t.id !== trackId));
-      showToast('Track removed', 'success');
-    } catch (err) {
-      console.error('Failed to remove track:', err);
+    if (!(await removeTrackFromPlaylist(playlist.id, trackId))) {
       showToast('Failed to remove track', 'error');
+      return;
     }
+    const remaining = tracks.filter(t => t.id !== trackId);
+    setTracks(remaining);
+    useOfflineStore.getState().syncCollection(playlistCollectionKey(playlist.id), remaining);
+    showToast('Track removed', 'success');
   };
 
   // Drag and drop handlers
@@ -168,12 +197,11 @@ export const Playlist: React.FC = () => {
     newTracks.splice(dragOverIndex, 0, draggedTrack);
     setTracks(newTracks);
 
-    // Save to backend
-    try {
-      await reorderPlaylistTracks(playlist!.id, newTracks.map(t => t.id));
+    // Save to backend (or queue it while offline)
+    if (await reorderPlaylistTracks(playlist!.id, newTracks.map(t => t.id), tracks.map(t => t.id))) {
+      useOfflineStore.getState().syncCollection(playlistCollectionKey(playlist!.id), newTracks);
       showToast('Playlist reordered', 'success');
-    } catch (err) {
-      console.error('Failed to reorder:', err);
+    } else {
       // Revert on error
       if (id) loadPlaylist(id);
       showToast('Failed to reorder playlist', 'error');
@@ -305,6 +333,15 @@ export const Playlist: React.FC = () => {
         >
           Shuffle
         </Button>
+        <DownloadCollectionButton
+          collection={{
+            key: playlistCollectionKey(playlist.id),
+            type: 'playlist',
+            name: playlist.name,
+            artwork: playlist.artwork || tracks[0]?.album_cover || null,
+          }}
+          tracks={tracks}
+        />
         {!isGenerated && (
           <>
             <Button
@@ -328,10 +365,13 @@ export const Playlist: React.FC = () => {
 
       <div className="playlist-tracks">
         {tracks.length > 0 ? (
-          <div className={`track-list ${isEditMode ? 'editable' : ''}`}>
-            {tracks.map((track, index) => (
+          <VirtualList
+            className={`track-list ${isEditMode ? 'editable' : ''}`}
+            items={tracks}
+            rowHeight={TRACK_ROW_HEIGHT}
+            getKey={(track) => track.id}
+            renderRow={(track, index) => (
               <div
-                key={track.id}
                 className={`track-item-wrapper ${draggedIndex === index ? 'dragging' : ''} ${dragOverIndex === index ? 'drag-over' : ''}`}
                 draggable={isEditMode}
                 onDragStart={() => handleDragStart(index)}
@@ -351,8 +391,8 @@ export const Playlist: React.FC = () => {
                   onRemove={!isGenerated ? () => handleRemoveTrack(track.id) : undefined}
                 />
               </div>
-            ))}
-          </div>
+            )}
+          />
         ) : (
           <div className="empty-state">
             <i className="fas fa-music"></i>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useLibraryStore } from '../lib/stores/library';
 import { useUIStore } from '../lib/stores/ui';
+import { useOfflineStore } from '../lib/stores/offline';
 import { 
   smartSearchOnline, 
   downloadOnlineTrack, 
@@ -14,6 +15,7 @@ import {
   type OnlineArtistDetail,
   type OnlineAlbumDetail
 } from '../lib/api/music';
+import { isAbortError } from '../lib/api/client';
 import { TrackCard } from '../lib/components/Cards/TrackCard';
 import { Input } from '../lib/components/UI/Input';
 import { Button } from '../lib/components/UI/Button';
@@ -28,6 +30,7 @@ type SearchFilter = 'all' | 'songs' | 'artists' | 'albums';
 export const Search: React.FC = () => {
   const { searchQuery, searchResults, searchArtists, searchAlbums, isSearching, search, clearSearch } = useLibraryStore();
   const { showToast, openArtistDetail, openAlbumDetail } = useUIStore();
+  const { isOnline } = useOfflineStore();
   const [localQuery, setLocalQuery] = useState(searchQuery);
   const [searchMode, setSearchMode] = useState<SearchMode>('local');
   const [searchFilter, setSearchFilter] = useState<SearchFilter>('all');
@@ -53,6 +56,9 @@ export const Search: React.FC = () => {
   }>({ tracks: {}, albums: {} });
   
   const debounceRef = useRef<number>();
+  // Requests in flight, aborted when a newer search or detail replaces them
+  const onlineSearchRef = useRef<AbortController>();
+  const detailRef = useRef<AbortController>();
 
   // Debounced local search
   const debouncedLocalSearch = useCallback(
@@ -74,6 +80,10 @@ export const Search: React.FC = () => {
       if (debounceRef.current) {
         clearTimeout(debounceRef.current);
       }
+      onlineSearchRef.current?.abort();
+      const controller = new AbortController();
+      onlineSearchRef.current = controller;
+      const { signal } = controller;
 
       if (!query.trim()) {
         setOnlineTracks([]);
@@ -90,7 +100,7 @@ export const Search: React.FC = () => {
         
         for (let attempt = 0; attempt < maxRetries; attempt++) {
           try {
-            const result = await smartSearchOnline(query);
+            const result = await smartSearchOnline(query, signal);
             setOnlineTracks(result.tracks || []);
             setOnlineArtists(result.artists || []);
             setOnlineAlbums(result.albums || []);
@@ -100,19 +110,23 @@ export const Search: React.FC = () => {
             if (result.tracks.length > 0 || result.albums.length > 0) {
               checkExistsInLibrary(
                 result.tracks.map(t => ({ id: t.id, title: t.title, artist: t.artist })),
-                result.albums.map(a => ({ id: a.id, title: a.title, artist: a.artist }))
+                result.albums.map(a => ({ id: a.id, title: a.title, artist: a.artist })),
+                signal
               ).then(exists => {
                 setExistsInLibrary(exists);
               }).catch(err => {
-                console.warn('Failed to check library:', err);
+                if (!isAbortError(err)) console.warn('Failed to check library:', err);
               });
             }
             
             return;
           } catch (error) {
+            // Replaced by a newer search, which owns the results now
+            if (signal.aborted || isAbortError(error)) return;
             console.warn(`Online search attempt ${attempt + 1} failed:`, error);
             if (attempt < maxRetries - 1) {
               await new Promise(resolve => setTimeout(resolve, 500 * (attempt + 1)));
+              if (signal.aborted) return;
             }
           }
         }
@@ -146,6 +160,8 @@ export const Search: React.FC = () => {
   useEffect(() => {
     return () => {
       clearSearch();
+      onlineSearchRef.current?.abort();
+      detailRef.current?.abort();
     };
   }, [clearSearch]);
 
@@ -167,6 +183,8 @@ export const Search: React.FC = () => {
     setSearchFilter('all'); // Reset filter when switching modes
     // Clear results when switching modes
     if (mode === 'local') {
+      onlineSearchRef.current?.abort();
+      setIsOnlineSearching(false);
       setOnlineTracks([]);
       setOnlineArtists([]);
       setOnlineAlbums([]);
@@ -223,29 +241,40 @@ export const Search: React.FC = () => {
     }
   };
 
-  const handleOnlineArtistClick = async (artist: OnlineArtist) => {
+  // Only the detail clicked last opens, an earlier one still loading is dropped
+  const startDetailLoad = () => {
+    detailRef.current?.abort();
+    const controller = new AbortController();
+    detailRef.current = controller;
     setIsLoadingDetail(true);
+    return controller.signal;
+  };
+
+  const handleOnlineArtistClick = async (artist: OnlineArtist) => {
+    const signal = startDetailLoad();
     try {
-      const detail = await getOnlineArtist(artist.id);
+      const detail = await getOnlineArtist(artist.id, signal);
       setSelectedOnlineArtist(detail);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to load artist:', error);
       showToast('Failed to load artist details', 'error');
     } finally {
-      setIsLoadingDetail(false);
+      if (!signal.aborted) setIsLoadingDetail(false);
     }
   };
 
   const handleOnlineAlbumClick = async (album: OnlineAlbum) => {
-    setIsLoadingDetail(true);
+    const signal = startDetailLoad();
     try {
-      const detail = await getOnlineAlbum(album.id);
+      const detail = await getOnlineAlbum(album.id, signal);
       setSelectedOnlineAlbum(detail);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to load album:', error);
       showToast('Failed to load album details', 'error');
     } finally {
-      setIsLoadingDetail(false);
+      if (!signal.aborted) setIsLoadingDetail(false);
     }
   };
 
@@ -314,6 +343,13 @@ export const Search: React.FC = () => {
     }
   };
 
+  // Online search needs a connection, local search covers the downloads meanwhile
+  useEffect(() => {
+    if (!isOnline) {
+      setSearchMode('local');
+    }
+  }, [isOnline]);
+
   const currentlySearching = searchMode === 'local' ? isSearching : isOnlineSearching;
   const hasLocalResults = searchResults.length > 0 || searchArtists.length > 0 || searchAlbums.length > 0;
   const hasOnlineResults = onlineTracks.length > 0 || onlineArtists.length > 0 || onlineAlbums.length > 0;
@@ -325,7 +361,9 @@ export const Search: React.FC = () => {
         <h1>Search</h1>
         <div className="search-input-container">
           <Input
-            placeholder={searchMode === 'local' ? "Search your library..." : "Search online for music..."}
+            placeholder={searchMode === 'online'
+              ? "Search online for music..."
+              : isOnline ? "Search your library..." : "Search your downloads..."}
             value={localQuery}
             onChange={handleInputChange}
             icon={<i className="fas fa-search"></i>}
@@ -353,6 +391,8 @@ export const Search: React.FC = () => {
           <button 
             className={`mode-btn ${searchMode === 'online' ? 'active' : ''}`}
             onClick={() => handleModeChange('online')}
+            disabled={!isOnline}
+            title={isOnline ? undefined : 'Not available offline'}
           >
             <i className="fas fa-globe"></i>
             <span>Online</span>
@@ -626,11 +666,11 @@ export const Search: React.FC = () => {
             <i className="fas fa-search"></i>
             <h3>No results found</h3>
             <p>
-              {searchMode === 'local' 
+              {searchMode === 'local' && isOnline
                 ? 'Try different keywords or search online' 
-                : 'Try different keywords'}
+                : isOnline ? 'Try different keywords' : 'Only downloaded music can be searched offline'}
             </p>
-            {searchMode === 'local' && (
+            {searchMode === 'local' && isOnline && (
               <Button 
                 variant="secondary" 
                 onClick={() => handleModeChange('online')}
@@ -643,10 +683,12 @@ export const Search: React.FC = () => {
         ) : (
           <div className="search-empty">
             <i className={searchMode === 'local' ? 'fas fa-search' : 'fas fa-globe'}></i>
-            <h3>{searchMode === 'local' ? 'Search your library' : 'Search online'}</h3>
+            <h3>{searchMode === 'local' ? (isOnline ? 'Search your library' : 'Search your downloads') : 'Search online'}</h3>
             <p>
               {searchMode === 'local' 
-                ? 'Find songs, artists, and albums in your collection' 
+                ? isOnline
+                  ? 'Find songs, artists, and albums in your collection'
+                  : "You're offline, find songs, artists, and albums you've downloaded"
                 : 'Find and download new music to add to your library'}
             </p>
           </div>
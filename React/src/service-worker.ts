@@ -1,9 +1,9 @@
 // NOXA Music Service Worker v1.4 - WebP playlist images
-const CACHE_VERSION = 'noxa-v1.5';
-const STATIC_CACHE = `${CACHE_VERSION}-static`;
-const DYNAMIC_CACHE = `${CACHE_VERSION}-dynamic`;
-const AUDIO_CACHE = `${CACHE_VERSION}-audio`;
-const IMAGE_CACHE = `${CACHE_VERSION}-images`;
+// Built to /service-worker.js by the serviceWorker plugin in vite.config.ts
+import { CACHE_VERSION, STATIC_CACHE, DYNAMIC_CACHE, AUDIO_CACHE, IMAGE_CACHE, audioCacheKey } from './lib/offline/cacheNames';
+import { respondWithRange } from './lib/offline/rangeResponse';
+
+declare const self: ServiceWorkerGlobalScope;
 
 // Static assets to cache on install
 const STATIC_ASSETS = [
@@ -55,10 +55,27 @@ self.addEventListener('activate', (event) => {
             })
         );
       })
+      .then(() => rekeyAudioCache())
       .then(() => self.clients.claim())
   );
 });
 
+// Audio used to be cached under URLs with the auth token in them, move those
+// entries to their token-free key
+async function rekeyAudioCache(): Promise<void> {
+  const cache = await caches.open(AUDIO_CACHE);
+  for (const request of await cache.keys()) {
+    const key = audioCacheKey(request.url);
+    if (key === request.url) continue;
+    
+    const response = await cache.match(request);
+    if (response && !(await cache.match(key))) {
+      await cache.put(key, response);
+    }
+    await cache.delete(request);
+  }
+}
+
 // Fetch event - serve from cache, fallback to network
 self.addEventListener('fetch', (event) => {
   const { request } = event;
@@ -92,7 +109,7 @@ self.addEventListener('fetch', (event) => {
 });
 
 // Check if request is for an image
-function isImageRequest(url) {
+function isImageRequest(url: URL): boolean {
   const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg', '.ico'];
   const imagePaths = ['/images/', '/music_lib/', '/artwork_cache/', '/icons/'];
   
@@ -110,7 +127,7 @@ function isImageRequest(url) {
 }
 
 // Handle image requests - cache first for performance
-async function handleImageRequest(request) {
+async function handleImageRequest(request: Request): Promise<Response> {
   const cache = await caches.open(IMAGE_CACHE);
   
   // Check cache first (images rarely change)
@@ -147,14 +164,16 @@ async function handleImageRequest(request) {
 }
 
 // Handle audio streaming requests
-async function handleAudioRequest(request) {
+async function handleAudioRequest(request: Request): Promise<Response> {
   const cache = await caches.open(AUDIO_CACHE);
+  const key = audioCacheKey(request.url);
   
-  // Check if cached
-  const cached = await cache.match(request);
+  // Check if cached, whatever auth token is in the URL
+  const cached = await cache.match(key);
   if (cached) {
     console.log('[SW] Serving audio from cache:', request.url);
-    return cached;
+    // Seeking asks for byte ranges, cut them from the cached body
+    return respondWithRange(cached, request.headers.get('Range'));
   }
 
   // Fetch from network
@@ -165,8 +184,8 @@ async function handleAudioRequest(request) {
     // Cache API doesn't support 206 Partial Content responses
     if (response.status === 200) {
       const cloned = response.clone();
-      cache.put(request, cloned);
-      console.log('[SW] Cached audio:', request.url);
+      cache.put(key, cloned);
+      console.log('[SW] Cached audio:', key);
     }
     
     return response;
@@ -178,7 +197,7 @@ async function handleAudioRequest(request) {
 }
 
 // Handle API requests - network first with cache fallback
-async function handleApiRequest(request) {
+async function handleApiRequest(request: Request): Promise<Response> {
   const cache = await caches.open(DYNAMIC_CACHE);
   
   try {
@@ -192,7 +211,7 @@ async function handleApiRequest(request) {
     }
     
     return response;
-  } catch (error) {
+  } catch {
     // Network failed, try cache
     console.log('[SW] Network failed, trying cache for:', request.url);
     const cached = await cache.match(request);
@@ -214,7 +233,7 @@ async function handleApiRequest(request) {
 }
 
 // Handle static requests - cache first with network fallback
-async function handleStaticRequest(request) {
+async function handleStaticRequest(request: Request): Promise<Response> {
   const cache = await caches.open(STATIC_CACHE);
   
   // Check cache first
@@ -234,10 +253,11 @@ async function handleStaticRequest(request) {
     }
     
     return response;
-  } catch (error) {
+  } catch {
     // For navigation requests, return the cached index.html
     if (request.mode === 'navigate') {
-      return cache.match('/index.html');
+      const index = await cache.match('/index.html');
+      if (index) return index;
     }
     
     return new Response(null, { status: 503, statusText: 'Service Unavailable' });
@@ -260,13 +280,13 @@ self.addEventListener('message', (event) => {
 });
 
 // Cache an audio file on demand
-async function cacheAudioFile(url) {
+async function cacheAudioFile(url: string): Promise<void> {
   const cache = await caches.open(AUDIO_CACHE);
   
   try {
     const response = await fetch(url);
     if (response.ok) {
-      await cache.put(url, response);
+      await cache.put(audioCacheKey(url), response);
       console.log('[SW] Cached audio on demand:', url);
     }
   } catch (error) {
@@ -275,12 +295,10 @@ async function cacheAudioFile(url) {
 }
 
 // Remove audio file from cache
-async function removeAudioFromCache(url) {
+async function removeAudioFromCache(url: string): Promise<void> {
   const cache = await caches.open(AUDIO_CACHE);
-  await cache.delete(url);
+  await cache.delete(audioCacheKey(url));
   console.log('[SW] Removed audio from cache:', url);
 }
 
 console.log('[SW] Service Worker loaded');
-
-
@@ -1,9 +1,58 @@
-import { defineConfig } from 'vite';
+import { build, defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 
+const SERVICE_WORKER_ENTRY = path.resolve(__dirname, 'src/service-worker.ts');
+const SERVICE_WORKER_FILE = 'service-worker.js';
+
+// Bundle the service worker into a single classic script, it shares code
+// (cache names, range handling) with the app but can't load modules
+async function bundleServiceWorker(): Promise<string> {
+  const result = await build({
+    configFile: false,
+    logLevel: 'warn',
+    build: {
+      write: false,
+      emptyOutDir: false,
+      lib: {
+        entry: SERVICE_WORKER_ENTRY,
+        formats: ['iife'],
+        name: 'NoxaServiceWorker',
+        fileName: () => SERVICE_WORKER_FILE,
+      },
+    },
+  });
+  const [output] = Array.isArray(result) ? result : [result];
+  if (!('output' in output)) throw new Error('Unexpected service worker build result');
+  return output.output[0].code;
+}
+
+// Serve the service worker at /service-worker.js in dev and emit it there on build
+function serviceWorker(): Plugin {
+  return {
+    name: 'noxa-service-worker',
+    configureServer(server) {
+      server.middlewares.use(`/${SERVICE_WORKER_FILE}`, (_req, res, next) => {
+        bundleServiceWorker()
+          .then((code) => {
+            res.setHeader('Content-Type', 'application/javascript');
+            res.end(code);
+          })
+          .catch(next);
+      });
+    },
+    async generateBundle() {
+      this.emitFile({
+        type: 'asset',
+        fileName: SERVICE_WORKER_FILE,
+        source: await bundleServiceWorker(),
+      });
+    },
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   // Use relative paths for Capacitor mobile app
   base: './',
   resolve: {
@@ -31,6 +80,10 @@ export default defineConfig({
         target: 'http://100.109.142.120:3001',
         changeOrigin: true,
       },
+      '/ws': {
+        target: 'ws://100.109.142.120:3001',
+        ws: true,
+      },
     },
   },
 });
@@ -8,6 +8,9 @@ import { fileURLToPath } from 'url';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Make % and _ in user input match literally, for LIKE ... ESCAPE '\'
+const escapeLike = (value) => value.replace(/[\\%_]/g, '\\$&');
+
 class Database {
   constructor() {
     this.db = null;
@@ -128,6 +131,22 @@ class Database {
           user_agent TEXT,
           accessed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           FOREIGN KEY (user_id) REFERENCES users (id)
+        )`,
+
+        // Listen events table (analytics, also read back as listening history)
+        `CREATE TABLE IF NOT EXISTS listen_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER,
+          music_id INTEGER,
+          session_id TEXT,
+          started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          ended_at DATETIME,
+          duration_listened INTEGER DEFAULT 0,
+          completed INTEGER DEFAULT 0,
+          skipped INTEGER DEFAULT 0,
+          skip_position REAL,
+          FOREIGN KEY (user_id) REFERENCES users (id),
+          FOREIGN KEY (music_id) REFERENCES music_library (id)
         )`
       ];
 
@@ -157,6 +176,10 @@ class Database {
         'ALTER TABLE music_library ADD COLUMN user_id INTEGER',
         'ALTER TABLE music_library ADD COLUMN album_cover TEXT',
         'ALTER TABLE music_library ADD COLUMN artist_image TEXT',
+        'ALTER TABLE music_library ADD COLUMN replaygain_track_gain REAL',
+        'ALTER TABLE music_library ADD COLUMN replaygain_track_peak REAL',
+        'ALTER TABLE music_library ADD COLUMN replaygain_album_gain REAL',
+        'ALTER TABLE music_library ADD COLUMN replaygain_album_peak REAL',
         'ALTER TABLE downloads ADD COLUMN retry_count INTEGER DEFAULT 0',
         'ALTER TABLE downloads ADD COLUMN last_retry DATETIME',
         'ALTER TABLE downloads ADD COLUMN error_log TEXT',
@@ -164,6 +187,8 @@ class Database {
         'ALTER TABLE downloads ADD COLUMN playlist_id INTEGER',
         'ALTER TABLE users ADD COLUMN theme_preference TEXT DEFAULT "apple-glass-black"',
         'ALTER TABLE users ADD COLUMN is_admin BOOLEAN DEFAULT 0',
+        'ALTER TABLE users ADD COLUMN playback_session TEXT',
+        'ALTER TABLE users ADD COLUMN equalizer_settings TEXT',
         'ALTER TABLE access_logs ADD COLUMN referrer TEXT',
         'ALTER TABLE access_logs ADD COLUMN referrer_domain TEXT'
       ];
@@ -215,7 +240,10 @@ class Database {
         // Downloads indexes
         'CREATE INDEX IF NOT EXISTS idx_downloads_user_id ON downloads(user_id)',
         'CREATE INDEX IF NOT EXISTS idx_downloads_status ON downloads(status)',
-        'CREATE INDEX IF NOT EXISTS idx_downloads_playlist_id ON downloads(playlist_id)'
+        'CREATE INDEX IF NOT EXISTS idx_downloads_playlist_id ON downloads(playlist_id)',
+
+        // Listen events indexes
+        'CREATE INDEX IF NOT EXISTS idx_listen_events_user_started ON listen_events(user_id, started_at)'
       ];
 
       let completed = 0;
@@ -331,8 +359,9 @@ class Database {
         `INSERT OR IGNORE INTO music_library 
          (stable_id, file_path, title, artist, album, year, genre, duration, file_size, bitrate, 
           album_cover, artist_image, user_id,
+          replaygain_track_gain, replaygain_track_peak, replaygain_album_gain, replaygain_album_peak,
           original_artist, original_title, original_album, original_file_path, first_added_at, is_available)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, 1)`,
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, 1)`,
         [
           stableId,
           filePath,
@@ -347,6 +376,11 @@ class Database {
           metadata.album_cover || null,
           metadata.artist_image || null,
           userId,
+          // Loudness normalization data (ReplayGain dB / linear peak)
+          metadata.replaygain_track_gain ?? null,
+          metadata.replaygain_track_peak ?? null,
+          metadata.replaygain_album_gain ?? null,
+          metadata.replaygain_album_peak ?? null,
           // Original metadata from ID3 tags (preserved forever)
           metadata.original_artist || metadata.artist || 'Unknown Artist',
           metadata.original_title || metadata.title || 'Unknown Title',
@@ -461,6 +495,98 @@ class Database {
     });
   }
 
+  // Get one page of the music library, sorted and filtered in SQL.
+  // Keyset pagination: `after` is the { value, id } of the last row of the
+  // previous page, so pages stay consistent while tracks are added. Only the
+  // first page (no `after`) is counted, later ones leave `total` out.
+  async getMusicLibraryPage({ userId = null, limit = 100, after = null, sort = 'added_at', order = 'desc', q = '', artist = '', album = '' } = {}) {
+    const sortColumns = {
+      title: "COALESCE(ml.title, '') COLLATE NOCASE",
+      artist: "COALESCE(ml.artist, '') COLLATE NOCASE",
+      album: "COALESCE(ml.album, '') COLLATE NOCASE",
+      added_at: "COALESCE(ml.added_at, '')",
+      duration: 'COALESCE(ml.duration, 0)'
+    };
+    const sortExpr = sortColumns[sort] || sortColumns.added_at;
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+    const comparison = order === 'asc' ? '>' : '<';
+
+    const isAdmin = userId ? await this.isUserAdmin(userId) : false;
+
+    let from = 'FROM music_library ml';
+    // Leave out orphaned rows the apps can't play or name
+    const where = [
+      "TRIM(COALESCE(ml.title, '')) != ''",
+      "TRIM(COALESCE(ml.file_path, '')) != ''",
+      "LOWER(COALESCE(ml.artist, '')) NOT IN ('', 'unknown', 'unknown artist', 'various artists')"
+    ];
+    const params = [];
+
+    if (userId && !isAdmin) {
+      // Regular user: Show only music from their library (user_library table)
+      from += ' INNER JOIN user_library ul ON ml.id = ul.music_id';
+      where.push('ul.user_id = ?');
+      params.push(userId);
+    }
+
+    if (q) {
+      const pattern = `%${escapeLike(q)}%`;
+      where.push("(ml.title LIKE ? ESCAPE '\\' OR ml.artist LIKE ? ESCAPE '\\' OR ml.album LIKE ? ESCAPE '\\')");
+      params.push(pattern, pattern, pattern);
+    }
+    if (artist) {
+      where.push('ml.artist = ? COLLATE NOCASE');
+      params.push(artist);
+    }
+    if (album) {
+      where.push('ml.album = ? COLLATE NOCASE');
+      params.push(album);
+    }
+
+    const countQuery = `SELECT COUNT(*) as total ${from} WHERE ${where.join(' AND ')}`;
+    const countParams = [...params];
+
+    if (after) {
+      // Ties on the sort value are broken by id
+      where.push(`(${sortExpr} ${comparison} ? OR (${sortExpr} = ? AND ml.id ${comparison} ?))`);
+      params.push(after.value, after.value, after.id);
+    }
+
+    // One extra row tells whether there is a next page
+    const pageQuery = `
+      SELECT ml.*, ${sortExpr} as sort_value ${from}
+      WHERE ${where.join(' AND ')}
+      ORDER BY ${sortExpr} ${direction}, ml.id ${direction}
+      LIMIT ?
+    `;
+    params.push(limit + 1);
+
+    const [rows, count] = await Promise.all([
+      new Promise((resolve, reject) => {
+        this.db.all(pageQuery, params, (err, result) => {
+          if (err) reject(err);
+          else resolve(result);
+        });
+      }),
+      after ? null : new Promise((resolve, reject) => {
+        this.db.get(countQuery, countParams, (err, result) => {
+          if (err) reject(err);
+          else resolve(result);
+        });
+      })
+    ]);
+
+    const hasMore = rows.length > limit;
+    const tracks = hasMore ? rows.slice(0, limit) : rows;
+    const last = tracks[tracks.length - 1];
+
+    return {
+      tracks: tracks.map(({ sort_value, ...track }) => track),
+      next: hasMore ? { value: last.sort_value, id: last.id } : null,
+      ...(after ? {} : { total: count ? count.total : 0 })
+    };
+  }
+
   // Add track to user's library (Spotify-like)
   async addToUserLibrary(userId, musicId) {
     return new Promise((resolve, reject) => {
@@ -876,6 +1002,14 @@ class Database {
       fields.push('theme_preference = ?');
       values.push(updates.theme_preference);
     }
+    if (updates.playback_session !== undefined) {
+      fields.push('playback_session = ?');
+      values.push(updates.playback_session);
+    }
+    if (updates.equalizer_settings !== undefined) {
+      fields.push('equalizer_settings = ?');
+      values.push(updates.equalizer_settings);
+    }
 
     if (fields.length === 0) {
       return false;
@@ -1712,6 +1846,8 @@ class Database {
          genre = ?, duration = ?, file_size = ?, bitrate = ?, 
          album_cover = COALESCE(?, album_cover), 
          artist_image = COALESCE(?, artist_image),
+         replaygain_track_gain = ?, replaygain_track_peak = ?,
+         replaygain_album_gain = ?, replaygain_album_peak = ?,
          added_at = CURRENT_TIMESTAMP
          WHERE id = ?`,
         [
@@ -1720,6 +1856,10 @@ class Database {
           musicData.fileSize, musicData.bitrate,
           musicData.album_cover || null,
           musicData.artist_image || null,
+          musicData.replaygain_track_gain ?? null,
+          musicData.replaygain_track_peak ?? null,
+          musicData.replaygain_album_gain ?? null,
+          musicData.replaygain_album_peak ?? null,
           id
         ],
         function (err) {
@@ -2484,12 +2624,12 @@ class Database {
   /**
    * Log listen start
    */
-  async logListenStart(userId, musicId, sessionId) {
+  async logListenStart(userId, musicId, sessionId, startedAt = null) {
     return new Promise((resolve, reject) => {
       this.db.run(
         `INSERT INTO listen_events (user_id, music_id, session_id, started_at)
-         VALUES (?, ?, ?, datetime('now'))`,
-        [userId, musicId, sessionId],
+         VALUES (?, ?, ?, COALESCE(?, datetime('now')))`,
+        [userId, musicId, sessionId, startedAt],
         function (err) {
           if (err) reject(err);
           else resolve({ id: this.lastID });
@@ -2498,20 +2638,130 @@ class Database {
     });
   }
 
+  /**
+   * Get the tracks a user listened to most recently, newest first
+   */
+  async getRecentListens(userId, limit = 200) {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT music_id, MAX(started_at) as last_played
+         FROM listen_events
+         WHERE user_id = ?
+         GROUP BY music_id
+         ORDER BY last_played DESC
+         LIMIT ?`,
+        [userId, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * Get tracks by ID (order not guaranteed)
+   */
+  async getMusicByIds(ids) {
+    if (ids.length === 0) return [];
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM music_library WHERE id IN (${ids.map(() => '?').join(',')})`,
+        ids,
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * Count, per track, the listening sessions it shares with any of the given tracks
+   */
+  async getCoListenCounts(musicIds, limit = 200) {
+    if (musicIds.length === 0) return [];
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT other.music_id, COUNT(DISTINCT other.session_id) as sessions
+         FROM listen_events seed
+         INNER JOIN listen_events other
+           ON other.session_id = seed.session_id AND other.music_id != seed.music_id
+         WHERE seed.music_id IN (${musicIds.map(() => '?').join(',')})
+           AND seed.session_id IS NOT NULL
+         GROUP BY other.music_id
+         ORDER BY sessions DESC
+         LIMIT ?`,
+        [...musicIds, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
+  /**
+   * Tracks sharing an artist or genre with, or released around the same years as,
+   * a set of seed tracks, plus any explicitly listed IDs (e.g. co-listened tracks).
+   * Regular users only get tracks from their own library.
+   */
+  async getAutoplayCandidates({ artists, genres, minYear, maxYear, ids = [], userId = null, limit = 500 }) {
+    const isAdmin = userId ? await this.isUserAdmin(userId) : false;
+    const conditions = [];
+    const params = [];
+
+    if (ids.length > 0) {
+      conditions.push(`ml.id IN (${ids.map(() => '?').join(',')})`);
+      params.push(...ids);
+    }
+    if (artists.length > 0) {
+      conditions.push(`LOWER(ml.artist) IN (${artists.map(() => '?').join(',')})`);
+      params.push(...artists);
+    }
+    if (genres.length > 0) {
+      conditions.push(`LOWER(ml.genre) IN (${genres.map(() => '?').join(',')})`);
+      params.push(...genres);
+    }
+    if (minYear && maxYear) {
+      conditions.push('ml.year BETWEEN ? AND ?');
+      params.push(minYear, maxYear);
+    }
+    if (conditions.length === 0) return [];
+
+    const join = userId && !isAdmin ? 'INNER JOIN user_library ul ON ml.id = ul.music_id AND ul.user_id = ?' : '';
+    if (join) params.unshift(userId);
+
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT ml.* FROM music_library ml
+         ${join}
+         WHERE ${conditions.join(' OR ')}
+         ORDER BY RANDOM()
+         LIMIT ?`,
+        [...params, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows || []);
+        }
+      );
+    });
+  }
+
   /**
    * Log listen end
    */
-  async logListenEnd(listenEventId, durationListened, completed, skipped, skipPosition) {
+  async logListenEnd(listenEventId, durationListened, completed, skipped, skipPosition, endedAt = null) {
     return new Promise((resolve, reject) => {
       this.db.run(
         `UPDATE listen_events 
-         SET ended_at = datetime('now'),
+         SET ended_at = COALESCE(?, datetime('now')),
              duration_listened = ?,
              completed = ?,
              skipped = ?,
              skip_position = ?
          WHERE id = ?`,
-        [durationListened, completed ? 1 : 0, skipped ? 1 : 0, skipPosition, listenEventId],
+        [endedAt, durationListened, completed ? 1 : 0, skipped ? 1 : 0, skipPosition, listenEventId],
         (err) => {
           if (err) reject(err);
           else resolve();
@@ -10,7 +10,7 @@ import Database from './database.js';
 import MusicScanner from './musicScanner.js';
 import { authLimiter, signupLimiter, generalLimiter } from './middleware/rateLimiter.js';
 import activityLogger from './middleware/activityLogger.js';
-// import WebSocketManager from './websocket.js'; // Disabled - device sync removed
+import WebSocketManager from './websocket.js';
 import musicRoutes from './routes/music.js';
 import downloadRoutes, { setDatabase as setDownloadDatabase, downloadMusicWithSpotdl, moveSingleFileToLibrary } from './routes/download.js';
 import spotifyPlaylistRoutes, { setDatabase as setSpotifyDatabase, setDownloadFunction } from './routes/spotify-playlist.js';
@@ -253,22 +253,22 @@ async function startServer() {
   // Create HTTP server
   const server = http.createServer(app);
 
-  // Initialize WebSocket - DISABLED (device sync removed)
-  // WebSocketManager.initialize(server);
+  // Initialize WebSocket for multi-device playback control
+  WebSocketManager.initialize(server);
 
   // Listen on 0.0.0.0 to allow local network and ngrok access
   server.listen(PORT, '0.0.0.0', () => {
     console.log(`🚀 Server running on:`);
     console.log(`   - Local: http://localhost:${PORT}`);
     console.log(`   - Network: http://[your-ip]:${PORT}`);
-    // console.log(`   - WebSocket: ws://localhost:${PORT}/ws`);
+    console.log(`   - WebSocket: ws://localhost:${PORT}/ws`);
     console.log(`   - Ready for ngrok!`);
     console.log(`\n🎵 Music API: Deezer (free) + Local Library`);
     console.log(`📥 Downloads: Spotify/YouTube (spotdl)`);
     console.log(`💾 Database: SQLite (persistent)`);
     console.log(`📁 Local Music: Enabled`);
     console.log(`🌐 Frontend: Served from /public`);
-    // console.log(`🔌 Multi-Device: WebSocket enabled`);
+    console.log(`🔌 Multi-Device: WebSocket enabled`);
 
     // Start background music scan (non-blocking)
     backgroundMusicScan().catch(err => {
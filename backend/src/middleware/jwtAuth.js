@@ -4,6 +4,7 @@ import { logUserAccess } from '../utils/accessLogger.js';
 // JWT Secret - in production, use a strong random secret
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this-in-production';
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d'; // 7 days default
+const REFRESH_TOKEN_EXPIRES_IN = process.env.REFRESH_TOKEN_EXPIRES_IN || '30d';
 
 /**
  * Generate JWT token for a user
@@ -22,6 +23,24 @@ export function generateToken(user) {
   });
 }
 
+/**
+ * Generate a refresh token, exchanged at /api/auth/refresh for a new token pair
+ * @param {Object} user - User object with id and username
+ * @returns {String} JWT refresh token
+ */
+export function generateRefreshToken(user) {
+  const payload = {
+    id: user.id,
+    username: user.username,
+    type: 'refresh'
+  };
+  
+  return jwt.sign(payload, JWT_SECRET, { 
+    expiresIn: REFRESH_TOKEN_EXPIRES_IN,
+    issuer: 'noxa-music-app'
+  });
+}
+
 /**
  * Verify JWT token and extract user data
  * @param {String} token - JWT token
@@ -30,13 +49,29 @@ export function generateToken(user) {
 export function verifyToken(token) {
   try {
     const decoded = jwt.verify(token, JWT_SECRET);
-    return decoded;
+    // Refresh tokens only open /api/auth/refresh
+    return decoded.type === 'refresh' ? null : decoded;
   } catch (error) {
     console.error('JWT verification failed:', error.message);
     return null;
   }
 }
 
+/**
+ * Verify a refresh token
+ * @param {String} token - JWT refresh token
+ * @returns {Object|null} Decoded user data or null if invalid
+ */
+export function verifyRefreshToken(token) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET);
+    return decoded.type === 'refresh' ? decoded : null;
+  } catch (error) {
+    console.error('Refresh token verification failed:', error.message);
+    return null;
+  }
+}
+
 /**
  * Express middleware to protect routes with JWT authentication
  * Usage: router.get('/protected', authenticateJWT, (req, res) => { ... })
@@ -82,7 +117,9 @@ export function getUserIdFromToken(req) {
 
 export default {
   generateToken,
+  generateRefreshToken,
   verifyToken,
+  verifyRefreshToken,
   authenticateJWT,
   getUserIdFromToken
 };
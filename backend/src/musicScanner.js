@@ -20,6 +20,34 @@ class MusicScanner {
     this.scanPaths = Array.isArray(paths) ? paths : [paths];
   }
 
+  // Extract loudness normalization data (ReplayGain, or EBU R128 tags from Opus/Vorbis files)
+  extractLoudness(metadata) {
+    const common = metadata.common || {};
+    const loudness = {
+      replaygain_track_gain: common.replaygain_track_gain?.dB ?? null,
+      replaygain_track_peak: common.replaygain_track_peak?.ratio ?? null,
+      replaygain_album_gain: common.replaygain_album_gain?.dB ?? null,
+      replaygain_album_peak: common.replaygain_album_peak?.ratio ?? null
+    };
+
+    // R128 gains are Q7.8 integers relative to -23 LUFS; ReplayGain targets -18 LUFS, hence +5 dB
+    const nativeTags = Object.values(metadata.native || {}).flat();
+    const readR128 = (id) => {
+      const tag = nativeTags.find(t => t.id && t.id.toUpperCase() === id);
+      const value = tag ? parseInt(tag.value, 10) : NaN;
+      return Number.isFinite(value) ? value / 256 + 5 : null;
+    };
+
+    if (loudness.replaygain_track_gain === null) {
+      loudness.replaygain_track_gain = readR128('R128_TRACK_GAIN');
+    }
+    if (loudness.replaygain_album_gain === null) {
+      loudness.replaygain_album_gain = readR128('R128_ALBUM_GAIN');
+    }
+
+    return loudness;
+  }
+
   // Extract artist and album from folder path (authoritative source)
   extractArtistAlbumFromPath(filePath) {
     const pathParts = filePath.split('/');
@@ -354,6 +382,12 @@ class MusicScanner {
           needsUpdate = true;
         }
 
+        // Backfill loudness data for files scanned before it was stored
+        const loudness = this.extractLoudness(metadata);
+        if (existing.replaygain_track_gain == null && loudness.replaygain_track_gain !== null) {
+          needsUpdate = true;
+        }
+
         // OPTIMIZATION: If missing artwork, try to find it now!
         if (!existing.album_cover) {
           try {
@@ -390,6 +424,7 @@ class MusicScanner {
             duration: Math.round(metadata.format.duration || 0),
             fileSize: stat.size,
             bitrate: metadata.format.bitrate || null,
+            ...loudness,
             ...updates
           };
           await this.db.updateMusicFile(existing.id, filePath, finalMetadata);
@@ -411,7 +446,8 @@ class MusicScanner {
         genre: metadata.common.genre ? metadata.common.genre.join(', ') : null,
         duration: Math.round(metadata.format.duration || 0),
         fileSize: stat.size,
-        bitrate: metadata.format.bitrate || null
+        bitrate: metadata.format.bitrate || null,
+        ...this.extractLoudness(metadata)
       };
 
       // Metadata-based relinking for moved files or better quality replacements
@@ -592,7 +628,8 @@ class MusicScanner {
       genre: metadata.common.genre ? metadata.common.genre.join(', ') : null,
       duration: Math.round(metadata.format.duration || 0),
       fileSize: stat.size,
-      bitrate: metadata.format.bitrate || null
+      bitrate: metadata.format.bitrate || null,
+      ...this.extractLoudness(metadata)
     };
 
     // Try to find local artwork during update
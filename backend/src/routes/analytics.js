@@ -359,14 +359,25 @@ router.post('/session/end', async (req, res) => {
   }
 });
 
+/**
+ * Client timestamp (ms) as an SQLite datetime, for listens sent after the fact
+ * (played offline). Missing, invalid or future times give null, meaning now.
+ */
+function toListenTime(timestamp) {
+  if (typeof timestamp !== 'number' || !Number.isFinite(timestamp) || timestamp <= 0 || timestamp > Date.now()) {
+    return null;
+  }
+  return new Date(timestamp).toISOString().slice(0, 19).replace('T', ' ');
+}
+
 // POST /api/analytics/listen/start - Start listening to a track
 router.post('/listen/start', async (req, res) => {
   try {
-    const { userId, musicId, sessionId } = req.body;
+    const { userId, musicId, sessionId, startedAt } = req.body;
     if (!userId || !musicId) {
       return res.status(400).json({ error: 'userId and musicId required' });
     }
-    const event = await database.logListenStart(userId, musicId, sessionId || null);
+    const event = await database.logListenStart(userId, musicId, sessionId || null, toListenTime(startedAt));
     res.json({ success: true, listenEventId: event.id });
   } catch (error) {
     console.error('Listen start error:', error);
@@ -377,7 +388,7 @@ router.post('/listen/start', async (req, res) => {
 // POST /api/analytics/listen/end - End listening (with duration/skip info)
 router.post('/listen/end', async (req, res) => {
   try {
-    const { listenEventId, durationListened, completed, skipped, skipPosition } = req.body;
+    const { listenEventId, durationListened, completed, skipped, skipPosition, endedAt } = req.body;
     if (!listenEventId) {
       return res.status(400).json({ error: 'listenEventId required' });
     }
@@ -386,7 +397,8 @@ router.post('/listen/end', async (req, res) => {
       durationListened || 0,
       completed || false,
       skipped || false,
-      skipPosition || null
+      skipPosition || null,
+      toListenTime(endedAt)
     );
     res.json({ success: true });
   } catch (error) {
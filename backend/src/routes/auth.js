@@ -1,5 +1,5 @@
 import express from 'express';
-import { generateToken, verifyToken } from '../middleware/jwtAuth.js';
+import { generateToken, generateRefreshToken, verifyToken, verifyRefreshToken } from '../middleware/jwtAuth.js';
 import { validatePassword, validateUsername } from '../utils/passwordValidator.js';
 import { logUserAccess } from '../utils/accessLogger.js';
 
@@ -46,7 +46,8 @@ router.post('/login', async (req, res) => {
     res.json({
       success: true,
       user: userWithoutPassword,
-      token: token
+      token: token,
+      refreshToken: generateRefreshToken(user)
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -115,7 +116,8 @@ router.post('/signup', async (req, res) => {
     res.json({
       success: true,
       user: newUser,
-      token: token
+      token: token,
+      refreshToken: generateRefreshToken(newUser)
     });
   } catch (error) {
     console.error('Signup error:', error);
@@ -186,6 +188,43 @@ function parseReferralSource(referrer, utmSource) {
 }
 
 
+// Exchange a refresh token for a new token pair
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token required' });
+    }
+
+    const decoded = verifyRefreshToken(refreshToken);
+
+    if (!decoded) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+
+    if (!database) {
+      return res.status(500).json({ error: 'Database not initialized' });
+    }
+
+    // Deleted or deactivated accounts don't get new tokens
+    const user = await database.getUserById(decoded.id);
+
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    res.json({
+      success: true,
+      token: generateToken(user),
+      refreshToken: generateRefreshToken(user)
+    });
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Token refresh failed', message: error.message });
+  }
+});
+
 // Get current user
 router.get('/me', async (req, res) => {
   try {
@@ -6,6 +6,7 @@ import axios from 'axios';
 import { fileURLToPath } from 'url';
 import * as artworkService from '../services/artworkService.js';
 import * as playlistCleanup from '../services/playlistCleanup.js';
+import { buildAutoplayContinuation } from '../services/autoplayService.js';
 import { getUserIdFromToken as jwtGetUserIdFromToken } from '../middleware/jwtAuth.js';
 
 const router = express.Router();
@@ -74,6 +75,60 @@ setInterval(() => {
   console.log(`🧹 Stream cache cleaned. Current size: ${streamCache.size}`);
 }, 10 * 60 * 1000); // Clean every 10 minutes
 
+// Bitrates the stream endpoint can transcode to (?quality=), e.g. for smaller offline copies
+const STREAM_QUALITY_BITRATES = {
+  '320k': 320,
+  '160k': 160,
+  '96k': 96,
+};
+
+// Requested transcoding bitrate in kbps, null for the original file, undefined if invalid
+function parseStreamQuality(quality) {
+  if (quality === undefined || quality === '' || quality === 'original') return null;
+  return STREAM_QUALITY_BITRATES[quality];
+}
+
+// An MP3 that's already at or below the requested bitrate gains nothing from re-encoding
+function needsQualityTranscode(kbps, contentType, bitrate) {
+  if (!kbps) return false;
+  return !(contentType === 'audio/mpeg' && bitrate && bitrate / 1000 <= kbps);
+}
+
+// Transcode a file to MP3 on the fly and pipe it to the response
+function streamTranscoded(req, res, filePath, kbps) {
+  res.setHeader('Content-Type', 'audio/mpeg');
+  res.setHeader('Accept-Ranges', 'none'); // Disable range requests for transcoded streams
+
+  const ffmpeg = spawn('ffmpeg', [
+    '-i', filePath,
+    '-vn', // No video
+    '-f', 'mp3',
+    '-acodec', 'libmp3lame',
+    '-ab', `${kbps}k`,
+    '-ar', '44100',
+    '-threads', '0', // Use all CPU cores
+    '-bufsize', '64k', // Smaller buffer for faster startup
+    '-'
+  ]);
+
+  ffmpeg.stdout.pipe(res);
+
+  ffmpeg.stderr.on('data', () => {
+    // Suppress ffmpeg verbose output
+  });
+
+  ffmpeg.on('error', (error) => {
+    console.error('FFmpeg error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Transcoding failed' });
+    }
+  });
+
+  req.on('close', () => {
+    ffmpeg.kill('SIGKILL');
+  });
+}
+
 // Use artwork service for background fetching
 async function fetchArtworkInBackground(music) {
   return await artworkService.fetchArtworkInBackground(music, database);
@@ -138,6 +193,72 @@ router.get('/library', optionalAuth, async (req, res) => {
   }
 });
 
+// Cursors are opaque to clients: the last row's sort value and id
+function encodeLibraryCursor(position) {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeLibraryCursor(cursor) {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return position && Number.isInteger(position.id) && 'value' in position ? position : null;
+  } catch {
+    return null;
+  }
+}
+
+const LIBRARY_SORTS = ['title', 'artist', 'album', 'added_at', 'duration'];
+
+// Get one page of the music library (filtered by user unless admin)
+// Query: cursor, limit (max 500), sort, order (asc|desc), q, artist, album
+router.get('/tracks', optionalAuth, async (req, res) => {
+  try {
+    if (!database) {
+      return res.status(500).json({ error: 'Database not initialized' });
+    }
+
+    const { cursor, sort = 'added_at', order = 'desc', q = '', artist = '', album = '' } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 100, 1), 500);
+
+    if (!LIBRARY_SORTS.includes(sort)) {
+      return res.status(400).json({ error: `Unknown sort "${sort}"`, allowed: LIBRARY_SORTS });
+    }
+    if (order !== 'asc' && order !== 'desc') {
+      return res.status(400).json({ error: 'Order must be asc or desc' });
+    }
+
+    const after = cursor ? decodeLibraryCursor(cursor) : null;
+    if (cursor && !after) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const page = await database.getMusicLibraryPage({
+      userId: req.userId, // From optionalAuth middleware
+      limit,
+      after,
+      sort,
+      order,
+      q: String(q).trim(),
+      artist: String(artist),
+      album: String(album)
+    });
+
+    res.json({
+      tracks: page.tracks.map(song => ({
+        ...song,
+        album_cover: convertArtworkPathToURL(song.album_cover),
+        artist_image: convertArtworkPathToURL(song.artist_image)
+      })),
+      nextCursor: page.next ? encodeLibraryCursor(page.next) : null,
+      // Counted on the first page only
+      ...(page.total !== undefined ? { total: page.total } : {})
+    });
+  } catch (error) {
+    console.error('Get library page error:', error);
+    res.status(500).json({ error: 'Failed to get library', message: error.message });
+  }
+});
+
 // Search music (global - users can discover all music)
 // Search music (global - users can discover all music)
 router.get('/search', async (req, res) => {
@@ -341,6 +462,44 @@ router.get('/album/:album', async (req, res) => {
   }
 });
 
+// Autoplay radio: tracks to keep playing after the queue runs out
+router.post('/autoplay', optionalAuth, async (req, res) => {
+  try {
+    if (!database) {
+      return res.status(500).json({ error: 'Database not initialized' });
+    }
+
+    const toIds = (value) => (Array.isArray(value) ? value : [])
+      .map((id) => parseInt(id, 10))
+      .filter((id) => Number.isInteger(id));
+
+    // Only the last few tracks shape the radio
+    const seedIds = toIds(req.body.seedIds).slice(-5);
+    const excludeIds = toIds(req.body.excludeIds).slice(-1000);
+    const limit = Math.min(parseInt(req.body.limit, 10) || 10, 50);
+
+    if (seedIds.length === 0) {
+      return res.status(400).json({ error: 'seedIds required' });
+    }
+
+    const tracks = await buildAutoplayContinuation(database, {
+      seedIds,
+      excludeIds,
+      userId: req.userId,
+      limit,
+    });
+
+    res.json(tracks.map(song => ({
+      ...song,
+      album_cover: convertArtworkPathToURL(song.album_cover),
+      artist_image: convertArtworkPathToURL(song.artist_image)
+    })));
+  } catch (error) {
+    console.error('Autoplay error:', error);
+    res.status(500).json({ error: 'Failed to build autoplay queue', message: error.message });
+  }
+});
+
 // Get all artists
 // OLD endpoints removed - using optimized versions below
 
@@ -353,6 +512,11 @@ router.get('/stream/:id', async (req, res) => {
       return res.status(500).json({ error: 'Database not initialized' });
     }
 
+    const qualityKbps = parseStreamQuality(req.query.quality);
+    if (qualityKbps === undefined) {
+      return res.status(400).json({ error: 'Invalid quality', allowed: ['original', ...Object.keys(STREAM_QUALITY_BITRATES)] });
+    }
+
     // ⚡ TRY CACHE FIRST - Skip DB and FS checks entirely for cached files
     let cachedEntry = streamCache.get(id);
 
@@ -361,7 +525,7 @@ router.get('/stream/:id', async (req, res) => {
       cachedEntry.lastAccess = Date.now();
 
       // Use cached file path, content type, and file size
-      const { file_path, contentType, fileSize } = cachedEntry;
+      const { file_path, contentType, fileSize, bitrate } = cachedEntry;
       const range = req.headers.range;
 
       // Update play count asynchronously (fire-and-forget)
@@ -369,6 +533,11 @@ router.get('/stream/:id', async (req, res) => {
         musicScanner.updatePlayCount(id).catch(() => { });
       }
 
+      if (needsQualityTranscode(qualityKbps, contentType, bitrate)) {
+        console.log(`🔄 Transcoding track ${id} to ${qualityKbps}k MP3`);
+        return streamTranscoded(req, res, file_path, qualityKbps);
+      }
+
       // Stream from cache - INSTANT!
       console.log(`⚡ [Stream Cache HIT] Track ${id} - Streaming from cache`);
 
@@ -457,6 +626,7 @@ router.get('/stream/:id', async (req, res) => {
         contentType = 'audio/mp4';
         break;
       case '.ogg':
+      case '.opus':
         contentType = 'audio/ogg';
         break;
       default:
@@ -482,47 +652,19 @@ router.get('/stream/:id', async (req, res) => {
       file_path: music.file_path,
       contentType,
       fileSize,
+      bitrate: music.bitrate,
       lastAccess: Date.now()
     });
 
     // For M4A/AAC files, transcode to MP3 on-the-fly using ffmpeg
     if (needsTranscoding) {
       console.log(`🔄 Transcoding ${ext} to MP3 for browser compatibility: ${path.basename(music.file_path)}`);
+      return streamTranscoded(req, res, music.file_path, 192); // Lower bitrate for faster encoding
+    }
 
-      res.setHeader('Content-Type', 'audio/mpeg');
-      res.setHeader('Accept-Ranges', 'none'); // Disable range requests for transcoded streams
-
-      // Use ffmpeg to convert to MP3 on-the-fly with optimized settings
-      const ffmpeg = spawn('ffmpeg', [
-        '-i', music.file_path,
-        '-vn', // No video
-        '-f', 'mp3',
-        '-acodec', 'libmp3lame',
-        '-ab', '192k', // Lower bitrate for faster encoding
-        '-ar', '44100',
-        '-threads', '0', // Use all CPU cores
-        '-bufsize', '64k', // Smaller buffer for faster startup
-        '-'
-      ]);
-
-      ffmpeg.stdout.pipe(res);
-
-      ffmpeg.stderr.on('data', (data) => {
-        // Suppress ffmpeg verbose output
-      });
-
-      ffmpeg.on('error', (error) => {
-        console.error('FFmpeg error:', error);
-        if (!res.headersSent) {
-          res.status(500).json({ error: 'Transcoding failed' });
-        }
-      });
-
-      req.on('close', () => {
-        ffmpeg.kill('SIGKILL');
-      });
-
-      return; // Exit early - ffmpeg handles the streaming
+    if (needsQualityTranscode(qualityKbps, contentType, music.bitrate)) {
+      console.log(`🔄 Transcoding track ${id} to ${qualityKbps}k MP3`);
+      return streamTranscoded(req, res, music.file_path, qualityKbps);
     }
 
     if (range) {
@@ -90,8 +90,10 @@ router.post('/', authenticateUser, async (req, res) => {
       success: true,
       playlist: {
         id: playlist.id,
+        user_id: userId,
         name: playlist.name,
         description: playlist.description,
+        artwork: null,
         track_count: 0,
         created_at: new Date().toISOString()
       }
@@ -583,9 +585,15 @@ router.put('/:playlistId', authenticateUser, async (req, res) => {
       return res.status(404).json({ error: 'Playlist not found' });
     }
     
+    const playlist = await database.getPlaylistById(parseInt(playlistId), userId);
+    
     res.json({
       success: true,
-      message: 'Playlist updated successfully'
+      message: 'Playlist updated successfully',
+      playlist: {
+        ...playlist,
+        artwork: convertArtworkPathToURL(playlist.artwork)
+      }
     });
   } catch (error) {
     console.error('Update playlist error:', error);
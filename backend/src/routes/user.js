@@ -1,4 +1,5 @@
 import express from 'express';
+import { authenticateJWT, getUserIdFromToken as jwtGetUserIdFromToken } from '../middleware/jwtAuth.js';
 
 const router = express.Router();
 let db = null;
@@ -17,10 +18,15 @@ const getUserIdFromToken = (req) => {
     return null;
   }
   
+  // JWT issued by /api/auth/login
+  const jwtUserId = jwtGetUserIdFromToken(req);
+  if (jwtUserId) {
+    return jwtUserId;
+  }
+  
   const token = authHeader.substring(7); // Remove 'Bearer '
-  console.log('🔑 [User Prefs] Token received:', token);
   
-  // Token format is 'token_userId'
+  // Legacy token format is 'token_userId'
   if (token.startsWith('token_')) {
     const userId = parseInt(token.substring(6), 10);
     console.log('✅ [User Prefs] User ID extracted:', userId);
@@ -46,9 +52,32 @@ router.get('/preferences', async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    // Synced settings only go to signed tokens, a legacy token_<id> can be made up
+    const isVerified = jwtGetUserIdFromToken(req) === userId;
+
+    let playbackSession = null;
+    if (isVerified && user.playback_session) {
+      try {
+        playbackSession = JSON.parse(user.playback_session);
+      } catch (parseError) {
+        console.warn(`⚠️ Ignoring unreadable playback session for user ${userId}`);
+      }
+    }
+
+    let equalizer = null;
+    if (isVerified && user.equalizer_settings) {
+      try {
+        equalizer = JSON.parse(user.equalizer_settings);
+      } catch (parseError) {
+        console.warn(`⚠️ Ignoring unreadable equalizer settings for user ${userId}`);
+      }
+    }
+
     res.json({
       theme: user.theme_preference || 'apple-glass-black',
-      username: user.username
+      username: user.username,
+      playbackSession,
+      equalizer
     });
   } catch (error) {
     console.error('Error fetching user preferences:', error);
@@ -92,5 +121,73 @@ router.post('/theme', async (req, res) => {
   }
 });
 
+// Get the tracks the user listened to most recently (newest first), used to demote them when shuffling
+router.get('/listen-history', authenticateJWT, async (req, res) => {
+  try {
+    const userId = req.user.id;
+
+    const limit = Math.min(parseInt(req.query.limit, 10) || 200, 1000);
+    const rows = await db.getRecentListens(userId, limit);
+
+    res.json({ trackIds: rows.map((row) => row.music_id) });
+  } catch (error) {
+    console.error('Error fetching listen history:', error);
+    res.status(500).json({ error: 'Failed to fetch listen history' });
+  }
+});
+
+// Save the user's playback session (queue, position, shuffle/repeat) so it follows the account.
+// Signed tokens only: the legacy token_<id> format can be made up for any user.
+router.post('/playback-session', authenticateJWT, async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { session } = req.body;
+
+    // null clears the stored session
+    if (session !== null && (typeof session !== 'object' || !Array.isArray(session.queue))) {
+      return res.status(400).json({ error: 'Invalid playback session' });
+    }
+
+    const updated = await db.updateUser(userId, {
+      playback_session: session ? JSON.stringify(session) : null
+    });
+    
+    if (!updated) {
+      return res.status(500).json({ error: 'Failed to save playback session' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error saving playback session:', error);
+    res.status(500).json({ error: 'Failed to save playback session' });
+  }
+});
+
+// Save the user's EQ presets and per-output profiles so they follow the account
+router.post('/equalizer', authenticateJWT, async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { equalizer } = req.body;
+
+    if (!equalizer || typeof equalizer !== 'object' ||
+        !Array.isArray(equalizer.userPresets) || !equalizer.outputs || typeof equalizer.outputs !== 'object') {
+      return res.status(400).json({ error: 'Invalid equalizer settings' });
+    }
+
+    const updated = await db.updateUser(userId, {
+      equalizer_settings: JSON.stringify(equalizer)
+    });
+    
+    if (!updated) {
+      return res.status(500).json({ error: 'Failed to save equalizer settings' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error saving equalizer settings:', error);
+    res.status(500).json({ error: 'Failed to save equalizer settings' });
+  }
+});
+
 export default router;
 
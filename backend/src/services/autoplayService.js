@@ -0,0 +1,96 @@
+/**
+ * Autoplay Service
+ * Builds a "radio" continuation for when the queue runs out, from the last few
+ * tracks played: shared artist, genre and release years, plus tracks that were
+ * listened to in the same sessions (listen_events)
+ */
+
+// Score weights per matching seed
+const ARTIST_WEIGHT = 3;
+const GENRE_WEIGHT = 2;
+const YEAR_WEIGHT = 1;
+const CO_LISTEN_WEIGHT = 2;
+
+// Years either side of a seed's release that still count as "the same era"
+const YEAR_RANGE = 3;
+
+// Keep the radio from turning into a single-artist playlist
+const MAX_PER_ARTIST = 2;
+
+const normalize = (value) => (value || '').toString().trim().toLowerCase();
+
+/**
+ * Pick tracks to continue playback after the seed tracks
+ * @param {object} database
+ * @param {object} options
+ * @param {number[]} options.seedIds - Last tracks played, oldest first
+ * @param {number[]} options.excludeIds - Tracks already in the queue
+ * @param {number|null} options.userId
+ * @param {number} options.limit
+ */
+export async function buildAutoplayContinuation(database, { seedIds, excludeIds = [], userId = null, limit = 10 }) {
+  const seeds = await database.getMusicByIds(seedIds);
+  if (seeds.length === 0) return [];
+
+  // The most recent seed counts the most
+  const seedWeight = new Map(seedIds.map((id, i) => [id, (i + 1) / seedIds.length]));
+  const weightOf = (seed) => seedWeight.get(seed.id) || 0;
+
+  const years = seeds.map((seed) => seed.year).filter(Boolean);
+  const coListens = await database.getCoListenCounts(seedIds);
+  const coListenSessions = new Map(coListens.map((row) => [row.music_id, row.sessions]));
+
+  const candidates = await database.getAutoplayCandidates({
+    artists: [...new Set(seeds.map((seed) => normalize(seed.artist)).filter(Boolean))],
+    genres: [...new Set(seeds.map((seed) => normalize(seed.genre)).filter(Boolean))],
+    minYear: years.length > 0 ? Math.min(...years) - YEAR_RANGE : null,
+    maxYear: years.length > 0 ? Math.max(...years) + YEAR_RANGE : null,
+    ids: coListens.map((row) => row.music_id),
+    userId,
+  });
+
+  const excluded = new Set([...seedIds, ...excludeIds]);
+  const scored = candidates
+    .filter((track) => !excluded.has(track.id))
+    .map((track) => {
+      let score = 0;
+      seeds.forEach((seed) => {
+        const weight = weightOf(seed);
+        if (normalize(seed.artist) && normalize(seed.artist) === normalize(track.artist)) {
+          score += ARTIST_WEIGHT * weight;
+        }
+        if (normalize(seed.genre) && normalize(seed.genre) === normalize(track.genre)) {
+          score += GENRE_WEIGHT * weight;
+        }
+        if (seed.year && track.year && Math.abs(seed.year - track.year) <= YEAR_RANGE) {
+          score += YEAR_WEIGHT * weight * (1 - Math.abs(seed.year - track.year) / (YEAR_RANGE + 1));
+        }
+      });
+      score += CO_LISTEN_WEIGHT * Math.log2(1 + (coListenSessions.get(track.id) || 0));
+      // A little randomness so the same seeds don't always give the same radio
+      score += Math.random() * 0.5;
+      return { track, score };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const picked = [];
+  const perArtist = new Map();
+  for (const { track } of scored) {
+    const artist = normalize(track.artist);
+    const count = perArtist.get(artist) || 0;
+    if (count >= MAX_PER_ARTIST) continue;
+
+    perArtist.set(artist, count + 1);
+    picked.push(track);
+    if (picked.length >= limit) break;
+  }
+
+  // Avoid back-to-back tracks by the same artist where possible
+  for (let i = 1; i < picked.length; i++) {
+    if (normalize(picked[i].artist) !== normalize(picked[i - 1].artist)) continue;
+    const swap = picked.findIndex((track, j) => j > i && normalize(track.artist) !== normalize(picked[i].artist));
+    if (swap > 0) [picked[i], picked[swap]] = [picked[swap], picked[i]];
+  }
+
+  return picked;
+}
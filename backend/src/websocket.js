@@ -1,4 +1,5 @@
 import { WebSocketServer, WebSocket } from 'ws';
+import { verifyToken } from './middleware/jwtAuth.js';
 
 class WebSocketManager {
     constructor() {
@@ -37,25 +38,37 @@ class WebSocketManager {
         const { type, payload } = message;
         console.log(`📨 Received WebSocket message: ${type}`);
 
+        if (type === 'REGISTER_DEVICE') {
+            this.registerDevice(ws, payload);
+            return;
+        }
+
+        // Everything else requires a registered (authenticated) device
+        const sender = this.getDeviceByWs(ws);
+        if (!sender) {
+            this.send(ws, {
+                type: 'ERROR',
+                payload: { message: 'Device not registered' }
+            });
+            return;
+        }
+
         switch (type) {
-            case 'REGISTER_DEVICE':
-                this.registerDevice(ws, payload);
-                break;
 
             case 'GET_DEVICES':
                 this.sendDeviceList(ws);
                 break;
 
             case 'PLAYBACK_STATE':
-                this.broadcastPlaybackState(payload);
+                this.broadcastPlaybackState({ ...payload, deviceId: sender.deviceId, userId: sender.userId });
                 break;
 
             case 'CONTROL_DEVICE':
-                this.controlDevice(payload);
+                this.controlDevice({ ...payload, controllerDeviceId: sender.deviceId });
                 break;
 
             case 'TRANSFER_PLAYBACK':
-                this.transferPlayback(payload);
+                this.transferPlayback({ ...payload, fromDeviceId: sender.deviceId });
                 break;
 
             default:
@@ -64,7 +77,34 @@ class WebSocketManager {
     }
 
     registerDevice(ws, deviceInfo) {
-        const { deviceId, deviceName, deviceType, userId } = deviceInfo;
+        const { deviceId, deviceName, deviceType, token } = deviceInfo || {};
+
+        // The user comes from the JWT, never from the client payload
+        const decoded = token ? verifyToken(token) : null;
+        if (!decoded || !deviceId) {
+            this.send(ws, {
+                type: 'ERROR',
+                payload: { message: 'Authentication required' }
+            });
+            ws.close(4001, 'Unauthorized');
+            return;
+        }
+        const userId = decoded.id;
+
+        const existing = this.devices.get(deviceId);
+        if (existing && existing.ws !== ws) {
+            // A device id belongs to whoever registered it first
+            if (existing.userId !== userId) {
+                this.send(ws, {
+                    type: 'ERROR',
+                    payload: { message: 'Device ID already in use' }
+                });
+                ws.close(4003, 'Device ID in use');
+                return;
+            }
+            // Same device reconnecting, drop its stale connection
+            existing.ws.close(4000, 'Replaced by a new connection');
+        }
 
         // Store device connection
         this.devices.set(deviceId, {
@@ -164,18 +204,15 @@ class WebSocketManager {
             track: playbackState.currentTrack?.title
         });
 
-        // Update device state
+        // Update device state. Updates may leave out the queue when it didn't
+        // change, so only the fields sent are taken over.
         const device = this.devices.get(deviceId);
         if (device) {
-            device.isPlaying = playbackState.isPlaying;
-            device.currentTrack = playbackState.currentTrack;
-            device.currentTime = playbackState.currentTime;
-            device.duration = playbackState.duration;
-            device.volume = playbackState.volume;
-            device.queue = playbackState.queue;
-            device.currentIndex = playbackState.currentIndex;
-            device.isShuffled = playbackState.isShuffled;
-            device.repeatMode = playbackState.repeatMode;
+            for (const field of ['isPlaying', 'currentTrack', 'currentTime', 'duration', 'volume', 'queue', 'currentIndex', 'isShuffled', 'repeatMode']) {
+                if (playbackState[field] !== undefined) {
+                    device[field] = playbackState[field];
+                }
+            }
         } else {
             console.warn(`⚠️ Device ${deviceId} not found in registry`);
         }
@@ -207,7 +244,7 @@ class WebSocketManager {
         const targetDevice = this.devices.get(targetDeviceId);
         const controllerDevice = this.devices.get(controllerDeviceId);
 
-        if (!targetDevice || !controllerDevice) {
+        if (!targetDevice || !controllerDevice || targetDevice.userId !== controllerDevice.userId) {
             console.warn('⚠️ Device not found for control');
             return;
         }
@@ -247,7 +284,8 @@ class WebSocketManager {
         const { fromDeviceId, toDeviceId, playbackState } = payload;
 
         const toDevice = this.devices.get(toDeviceId);
-        if (!toDevice) {
+        const fromDevice = this.devices.get(fromDeviceId);
+        if (!toDevice || !fromDevice || toDevice.userId !== fromDevice.userId) {
             console.warn('⚠️ Target device not found for transfer');
             return;
         }
@@ -262,13 +300,10 @@ class WebSocketManager {
         });
 
         // Notify source device to stop
-        const fromDevice = this.devices.get(fromDeviceId);
-        if (fromDevice) {
-            this.send(fromDevice.ws, {
-                type: 'PLAYBACK_TRANSFERRED',
-                payload: { toDeviceId }
-            });
-        }
+        this.send(fromDevice.ws, {
+            type: 'PLAYBACK_TRANSFERRED',
+            payload: { toDeviceId }
+        });
     }
 
     getDevicesForUser(userId) {
@@ -280,6 +315,9 @@ class WebSocketManager {
                 deviceType: d.deviceType,
                 isPlaying: d.isPlaying,
                 currentTrack: d.currentTrack,
+                currentTime: d.currentTime || 0,
+                duration: d.duration || 0,
+                volume: d.volume ?? null,
                 controlledBy: d.controlledBy,
                 controlling: d.controlling
             }));
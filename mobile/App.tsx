@@ -8,6 +8,7 @@ import { enableScreens } from 'react-native-screens';
 import AppNavigator from './src/navigation/AppNavigator';
 import { AuthProvider } from './src/context/AuthContext';
 import { OfflineProvider } from './src/context/OfflineContext';
+import { DevicesProvider } from './src/context/DevicesContext';
 import { LanguageProvider } from './src/context/LanguageContext';
 import { ThemeProvider } from './src/context/ThemeContext';
 
@@ -30,11 +31,13 @@ const App = () => (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
         <OfflineProvider>
-          <LanguageProvider>
-            <ThemeProvider>
-              <AppNavigator />
-            </ThemeProvider>
-          </LanguageProvider>
+          <DevicesProvider>
+            <LanguageProvider>
+              <ThemeProvider>
+                <AppNavigator />
+              </ThemeProvider>
+            </LanguageProvider>
+          </DevicesProvider>
         </OfflineProvider>
       </AuthProvider>
     </QueryClientProvider>
@@ -14,6 +14,7 @@ export const STORAGE_KEYS = {
 } as const;
 
 let authToken: string | null = null;
+let currentUser: User | null = null;
 let adminCredentials: AdminCredentials | null = null;
 
 type UnauthorizedHandler = () => void;
@@ -41,6 +42,10 @@ apiClient.interceptors.response.use(
   },
 );
 
+// Requests take an AbortSignal through their config (`signal`); an aborted one
+// rejects with a cancel error, which means the caller moved on, not a failure
+export const isRequestCancelled = (error: unknown) => axios.isCancel(error);
+
 export const setUnauthorizedHandler = (handler: UnauthorizedHandler | undefined) => {
   unauthorizedHandler = handler;
 };
@@ -119,6 +124,7 @@ export const bootstrapApiClient = async (): Promise<BootstrapState> => {
       user = null;
     }
   }
+  currentUser = user;
 
   let admin: AdminCredentials | null = null;
   if (storedAdmin) {
@@ -134,6 +140,7 @@ export const bootstrapApiClient = async (): Promise<BootstrapState> => {
 };
 
 export const persistUser = async (user: User | null) => {
+  currentUser = user;
   if (user) {
     await AsyncStorage.setItem(STORAGE_KEYS.user, JSON.stringify(user));
   } else {
@@ -141,3 +148,6 @@ export const persistUser = async (user: User | null) => {
   }
 };
 
+
+// Signed-in user, for requests that name the user in their body
+export const getCurrentUser = () => currentUser;
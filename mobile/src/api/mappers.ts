@@ -1,271 +1,284 @@
 import type {
   DownloadItem,
+  LibraryAlbumMatch,
+  LibraryArtistMatch,
   LibraryStats,
   Playlist,
-  PlaylistTrackItem,
   RemoteAlbum,
   RemoteAlbumDetail,
   RemoteArtist,
   RemoteArtistDetail,
-  RemoteSearchResponse,
   RemoteTrack,
   SmartSearchResult,
   Song,
   User,
 } from '../types/models';
+import { s, type Infer, type Schema } from './schema';
 
-const normalizeString = (value: unknown) =>
-  typeof value === 'string' && value.trim().length > 0 ? value : undefined;
+// Response schemas for each endpoint, mapped onto the app's models
 
-const normalizeNumber = (value: unknown) =>
-  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+// A music_library row; playlist tracks carry their playlist entry id too
+export const songSchema = s
+  .object({
+    id: s.number(),
+    title: s.string().nullable(),
+    artist: s.string().nullable(),
+    album: s.string().nullable(),
+    duration: s.number().nullable(),
+    file_path: s.string().nullable(),
+    album_cover: s.string().nullable(),
+    source: s.string().nullable(),
+    added_at: s.string().nullable(),
+    isLocal: s.flag().nullable(),
+    playlist_track_id: s.number().nullable(),
+  })
+  .map(
+    (raw): Song => ({
+      id: raw.id,
+      title: raw.title || 'Unknown Title',
+      artist: raw.artist ?? '',
+      album: raw.album,
+      duration: raw.duration,
+      filePath: raw.file_path,
+      albumCover: raw.album_cover,
+      source: raw.source,
+      addedAt: raw.added_at,
+      isLocal: raw.isLocal,
+      playlistTrackId: raw.playlist_track_id,
+    }),
+  );
 
-const coerceBoolean = (value: unknown) => {
-  if (typeof value === 'boolean') {
-    return value;
-  }
-  if (typeof value === 'number') {
-    return value !== 0;
-  }
-  if (typeof value === 'string') {
-    const normalized = value.toLowerCase();
-    if (normalized === 'true' || normalized === '1') {
-      return true;
-    }
-    if (normalized === 'false' || normalized === '0') {
-      return false;
-    }
-  }
-  return undefined;
-};
+export const songsSchema = s.array(songSchema);
 
-export const mapSong = (raw: any): Song => ({
-  id: Number(raw?.id ?? 0),
-  title: normalizeString(raw?.title) ?? normalizeString(raw?.name) ?? 'Unknown Title',
-  artist: normalizeString(raw?.artist) ?? normalizeString(raw?.artist_name) ?? '',
-  album:
-    normalizeString(raw?.album) ??
-    normalizeString(raw?.album_name) ??
-    (typeof raw?.album === 'object' ? normalizeString(raw?.album?.title) : undefined) ??
-    undefined,
-  duration:
-    normalizeNumber(raw?.duration) ??
-    (normalizeNumber(raw?.duration_ms) ? Math.round(Number(raw.duration_ms) / 1000) : undefined),
-  filePath: normalizeString(raw?.file_path) ?? normalizeString(raw?.filePath),
-  albumCover:
-    normalizeString(raw?.album_cover) ??
-    normalizeString(raw?.albumCover) ??
-    normalizeString(raw?.cover) ??
-    normalizeString(raw?.picture),
-  source: normalizeString(raw?.source),
-  trackId: normalizeString(raw?.track_id) ?? normalizeString(raw?.trackId),
-  addedAt: normalizeString(raw?.added_at) ?? normalizeString(raw?.addedAt),
-  isLocal:
-    typeof raw?.is_local === 'boolean'
-      ? raw.is_local
-      : typeof raw?.isLocal === 'boolean'
-        ? raw.isLocal
-        : undefined,
-  playlistTrackId:
-    typeof raw?.playlist_track_id === 'number'
-      ? raw.playlist_track_id
-      : typeof raw?.playlistTrackId === 'number'
-        ? raw.playlistTrackId
-        : undefined,
+export const librarySearchSchema = s.object({
+  songs: songsSchema,
+  artists: s.array(
+    s
+      .object({
+        artist: s.string(),
+        artist_image: s.string().nullable(),
+        track_count: s.number(),
+      })
+      .map(
+        (raw): LibraryArtistMatch => ({
+          name: raw.artist,
+          image: raw.artist_image,
+          trackCount: raw.track_count,
+        }),
+      ),
+  ),
+  albums: s.array(
+    s
+      .object({
+        album: s.string(),
+        artist: s.string().or(''),
+        album_cover: s.string().nullable(),
+        track_count: s.number(),
+      })
+      .map(
+        (raw): LibraryAlbumMatch => ({
+          title: raw.album,
+          artist: raw.artist,
+          cover: raw.album_cover,
+          trackCount: raw.track_count,
+        }),
+      ),
+  ),
 });
 
-export const mapSongs = (payload: any[]): Song[] => payload.map(mapSong);
+export const playlistSchema = s
+  .object({
+    id: s.number(),
+    name: s.string(),
+    description: s.string().nullable(),
+    // Generated playlists come with an image instead of artwork
+    artwork: s.string().nullable(),
+    image: s.string().nullable(),
+    track_count: s.number().or(0),
+    created_at: s.string().nullable(),
+    user_id: s.number().nullable(),
+  })
+  .map(
+    (raw): Playlist => ({
+      id: raw.id,
+      name: raw.name,
+      description: raw.description || null,
+      coverUrl: raw.artwork ?? raw.image,
+      trackCount: raw.track_count,
+      createdAt: raw.created_at,
+      userId: raw.user_id,
+    }),
+  );
 
-export const mapPlaylist = (raw: any): Playlist => ({
-  id: Number(raw?.id ?? 0),
-  name: normalizeString(raw?.name) ?? 'Untitled Playlist',
-  description: normalizeString(raw?.description) ?? null,
-  coverUrl:
-    normalizeString(raw?.cover_url) ??
-    normalizeString(raw?.coverUrl) ??
-    normalizeString(raw?.coverURL) ??
-    normalizeString(raw?.artwork) ??
-    normalizeString(raw?.image) ??
-    null,
-  trackCount:
-    typeof raw?.track_count === 'number'
-      ? raw.track_count
-      : typeof raw?.trackCount === 'number'
-        ? raw.trackCount
-        : 0,
-  createdAt: normalizeString(raw?.created_at) ?? normalizeString(raw?.createdAt) ?? null,
-  userId:
-    typeof raw?.user_id === 'number'
-      ? raw.user_id
-      : typeof raw?.userId === 'number'
-        ? raw.userId
-        : null,
-});
+export const playlistsSchema = s.object({ playlists: s.array(playlistSchema) });
 
-export const mapPlaylists = (payload: any[]): Playlist[] => payload.map(mapPlaylist);
+export const createdPlaylistSchema = s.object({ playlist: playlistSchema });
 
-export const mapPlaylistTrack = (raw: any): PlaylistTrackItem => ({
-  playlistTrackId:
-    typeof raw?.playlist_track_id === 'number'
-      ? raw.playlist_track_id
-      : typeof raw?.playlistTrackId === 'number'
-        ? raw.playlistTrackId
-        : undefined,
-  position:
-    typeof raw?.position === 'number'
-      ? raw.position
-      : typeof raw?.order === 'number'
-        ? raw.order
-        : undefined,
-  song: mapSong(raw?.song ?? raw?.track ?? raw),
-});
+export const playlistTracksSchema = s.object({ tracks: songsSchema });
 
-export const mapPlaylistTracks = (payload: any[]): PlaylistTrackItem[] =>
-  payload.map(mapPlaylistTrack);
+export const listenStartSchema = s.object({ listenEventId: s.number() });
 
-export const mapUser = (raw: any): User => ({
-  id: Number(raw?.id ?? 0),
-  username: normalizeString(raw?.username) ?? '',
-  email: normalizeString(raw?.email) ?? null,
-  isAdmin: coerceBoolean(raw?.is_admin ?? raw?.isAdmin) ?? null,
-  lastLogin: normalizeString(raw?.last_login ?? raw?.lastLogin) ?? null,
-});
+export const userSchema = s
+  .object({
+    id: s.number(),
+    username: s.string(),
+    email: s.string().nullable(),
+    is_admin: s.flag().nullable(),
+    last_login: s.string().nullable(),
+  })
+  .map(
+    (raw): User => ({
+      id: raw.id,
+      username: raw.username,
+      email: raw.email || null,
+      isAdmin: raw.is_admin,
+      lastLogin: raw.last_login,
+    }),
+  );
 
-export const mapAuthResponse = (raw: any) => ({
-  success: raw?.success,
-  token: typeof raw?.token === 'string' ? raw.token : '',
-  user: mapUser(raw?.user ?? raw),
+export const authResponseSchema = s.object({
+  success: s.flag().optional(),
+  token: s.string(),
+  user: userSchema,
 });
 
-export const mapDownloadItem = (raw: any): DownloadItem => ({
-  id: String(raw?.id ?? ''),
-  title: normalizeString(raw?.title) ?? '',
-  artist: normalizeString(raw?.artist) ?? '',
-  album: normalizeString(raw?.album) ?? null,
-  status: (normalizeString(raw?.status) ?? 'unknown') as DownloadItem['status'],
-  progress:
-    typeof raw?.progress === 'number'
-      ? raw.progress
-      : typeof raw?.progress === 'string'
-        ? Number.parseInt(raw.progress, 10)
-        : undefined,
-  createdAt: normalizeString(raw?.created_at) ?? normalizeString(raw?.createdAt) ?? null,
-  completedAt: normalizeString(raw?.completed_at) ?? normalizeString(raw?.completedAt) ?? null,
-  playlistId:
-    typeof raw?.playlist_id === 'number'
-      ? raw.playlist_id
-      : typeof raw?.playlistId === 'number'
-        ? raw.playlistId
-        : null,
-  userId:
-    typeof raw?.user_id === 'number'
-      ? raw.user_id
-      : typeof raw?.userId === 'number'
-        ? raw.userId
-        : null,
-  filePath: normalizeString(raw?.file_path) ?? normalizeString(raw?.filePath) ?? null,
-});
+export const downloadItemSchema = s
+  .object({
+    id: s.id(),
+    title: s.string(),
+    artist: s.string(),
+    album: s.string().nullable(),
+    status: s.string().or('unknown'),
+    progress: s.number().nullable(),
+    created_at: s.string().nullable(),
+    completed_at: s.string().nullable(),
+    playlist_id: s.number().nullable(),
+    user_id: s.number().nullable(),
+    file_path: s.string().nullable(),
+  })
+  .map(
+    (raw): DownloadItem => ({
+      id: raw.id,
+      title: raw.title,
+      artist: raw.artist,
+      album: raw.album,
+      status: raw.status as DownloadItem['status'],
+      progress: raw.progress,
+      createdAt: raw.created_at,
+      completedAt: raw.completed_at,
+      playlistId: raw.playlist_id,
+      userId: raw.user_id,
+      filePath: raw.file_path,
+    }),
+  );
 
-export const mapDownloads = (payload: any[]): DownloadItem[] => payload.map(mapDownloadItem);
+export const downloadsSchema = s.object({ downloads: s.array(downloadItemSchema) });
 
-export const mapLibraryStats = (raw: any): LibraryStats => ({
-  totalSongs:
-    typeof raw?.totalSongs === 'number'
-      ? raw.totalSongs
-      : typeof raw?.total_songs === 'number'
-        ? raw.total_songs
-        : 0,
-  totalArtists:
-    typeof raw?.totalArtists === 'number'
-      ? raw.totalArtists
-      : typeof raw?.total_artists === 'number'
-        ? raw.total_artists
-        : 0,
-  totalAlbums:
-    typeof raw?.totalAlbums === 'number'
-      ? raw.totalAlbums
-      : typeof raw?.total_albums === 'number'
-        ? raw.total_albums
-        : 0,
-  totalStorage:
-    normalizeString(raw?.totalStorage) ?? normalizeString(raw?.total_storage) ?? undefined,
-  totalStorageBytes:
-    typeof raw?.totalStorageBytes === 'number'
-      ? raw.totalStorageBytes
-      : typeof raw?.total_storage_bytes === 'number'
-        ? raw.total_storage_bytes
-        : undefined,
+export const libraryStatsSchema: Schema<LibraryStats> = s.object({
+  totalSongs: s.number(),
+  totalArtists: s.number(),
+  totalAlbums: s.number(),
+  totalStorage: s.string().nullable(),
+  totalStorageBytes: s.number().nullable(),
 });
 
-export const mapRemoteTrack = (raw: any): RemoteTrack => ({
-  id: String(raw?.id ?? raw?.track_id ?? raw?.trackId ?? ''),
-  title: normalizeString(raw?.title) ?? normalizeString(raw?.name) ?? 'Unknown Title',
-  artistName:
-    normalizeString(raw?.artist_name) ??
-    normalizeString(raw?.artistName) ??
-    normalizeString(raw?.artist) ??
-    normalizeString(raw?.artists?.[0]?.name) ??
-    '',
-  albumTitle:
-    normalizeString(raw?.album_title) ??
-    normalizeString(raw?.albumTitle) ??
-    normalizeString(raw?.album?.title) ??
-    normalizeString(raw?.album?.name) ??
-    normalizeString(raw?.album_name) ??
-    null,
-  duration:
-    normalizeNumber(raw?.duration) ??
-    (normalizeNumber(raw?.duration_ms) ? Math.round(Number(raw.duration_ms) / 1000) : undefined),
-  image:
-    normalizeString(raw?.image) ??
-    normalizeString(raw?.picture) ??
-    normalizeString(raw?.cover) ??
-    normalizeString(raw?.album?.cover) ??
-    undefined,
-  preview: normalizeString(raw?.preview) ?? undefined,
-  source: normalizeString(raw?.source) ?? undefined,
-  type: normalizeString(raw?.type) ?? undefined,
-});
+// Deezer leaves fields out (no preview, no cover), those come back as null
+export const remoteTrackSchema = s
+  .object({
+    id: s.id(),
+    title: s.string(),
+    artist: s.string().or(''),
+    album: s.string().nullable(),
+    image: s.string().nullable(),
+    duration: s.number().nullable(),
+    preview: s.string().nullable(),
+    source: s.string().nullable(),
+    type: s.string().nullable(),
+  })
+  .map(
+    (raw): RemoteTrack => ({
+      id: raw.id,
+      title: raw.title,
+      artistName: raw.artist,
+      albumTitle: raw.album,
+      duration: raw.duration,
+      image: raw.image,
+      preview: raw.preview,
+      source: raw.source,
+      type: raw.type,
+    }),
+  );
 
-export const mapRemoteSearchResponse = (raw: RemoteSearchResponse): RemoteTrack[] => {
-  const { data, items, results, tracks } = raw;
-  const list = data ?? items ?? results ?? tracks ?? [];
-  return list.map(mapRemoteTrack);
+export const remoteTracksSchema = s.array(remoteTrackSchema);
+
+const remoteArtistFields = {
+  id: s.id(),
+  name: s.string(),
+  image: s.string().nullable(),
+  fans: s.number().nullable(),
 };
 
-export const mapRemoteArtist = (raw: any): RemoteArtist => ({
-  id: String(raw?.id ?? ''),
-  name: normalizeString(raw?.name) ?? normalizeString(raw?.title) ?? 'Unknown Artist',
-  image: normalizeString(raw?.image) ?? normalizeString(raw?.picture) ?? normalizeString(raw?.picture_medium) ?? undefined,
-  fans: normalizeNumber(raw?.fans) ?? normalizeNumber(raw?.nb_fan) ?? undefined,
-  source: normalizeString(raw?.source) ?? 'deezer',
-});
+const remoteArtistShape = s.object(remoteArtistFields);
 
-export const mapRemoteAlbum = (raw: any): RemoteAlbum => ({
-  id: String(raw?.id ?? ''),
-  title: normalizeString(raw?.title) ?? normalizeString(raw?.name) ?? 'Unknown Album',
-  artistName: normalizeString(raw?.artist) ?? normalizeString(raw?.artistName) ?? normalizeString(raw?.artist_name) ?? '',
-  artistId: raw?.artistId ? String(raw.artistId) : raw?.artist_id ? String(raw.artist_id) : undefined,
-  image: normalizeString(raw?.image) ?? normalizeString(raw?.cover) ?? normalizeString(raw?.cover_medium) ?? undefined,
-  trackCount: normalizeNumber(raw?.trackCount) ?? normalizeNumber(raw?.track_count) ?? normalizeNumber(raw?.nb_tracks) ?? undefined,
-  releaseDate: normalizeString(raw?.releaseDate) ?? normalizeString(raw?.release_date) ?? undefined,
-  type: normalizeString(raw?.type) ?? normalizeString(raw?.record_type) ?? undefined,
-  source: normalizeString(raw?.source) ?? 'deezer',
+const toRemoteArtist = (raw: Infer<typeof remoteArtistShape>): RemoteArtist => ({
+  ...raw,
+  source: 'deezer',
 });
 
-export const mapSmartSearchResult = (raw: any): SmartSearchResult => ({
-  tracks: Array.isArray(raw?.tracks) ? raw.tracks.map(mapRemoteTrack) : [],
-  artists: Array.isArray(raw?.artists) ? raw.artists.map(mapRemoteArtist) : [],
-  albums: Array.isArray(raw?.albums) ? raw.albums.map(mapRemoteAlbum) : [],
+export const remoteArtistSchema = remoteArtistShape.map(toRemoteArtist);
+
+const remoteAlbumFields = {
+  id: s.id(),
+  title: s.string(),
+  artist: s.string().or(''),
+  artistId: s.id().nullable(),
+  image: s.string().nullable(),
+  trackCount: s.number().nullable(),
+  releaseDate: s.string().nullable(),
+  type: s.string().nullable(),
+};
+
+const remoteAlbumShape = s.object(remoteAlbumFields);
+
+const toRemoteAlbum = ({ artist, ...raw }: Infer<typeof remoteAlbumShape>): RemoteAlbum => ({
+  ...raw,
+  artistName: artist,
+  source: 'deezer',
 });
 
-export const mapRemoteArtistDetail = (raw: any): RemoteArtistDetail => ({
-  ...mapRemoteArtist(raw),
-  albums: Array.isArray(raw?.albums) ? raw.albums.map(mapRemoteAlbum) : [],
+export const remoteAlbumSchema = remoteAlbumShape.map(toRemoteAlbum);
+
+export const smartSearchSchema: Schema<SmartSearchResult> = s.object({
+  tracks: remoteTracksSchema,
+  artists: s.array(remoteArtistSchema),
+  albums: s.array(remoteAlbumSchema),
 });
 
-export const mapRemoteAlbumDetail = (raw: any): RemoteAlbumDetail => ({
-  ...mapRemoteAlbum(raw),
-  tracks: Array.isArray(raw?.tracks) ? raw.tracks.map(mapRemoteTrack) : [],
-  duration: normalizeNumber(raw?.duration) ?? undefined,
+export const remoteArtistDetailSchema = s
+  .object({ ...remoteArtistFields, albums: s.array(remoteAlbumShape) })
+  .map(
+    ({ albums, ...raw }): RemoteArtistDetail => ({
+      ...toRemoteArtist(raw),
+      // Albums on an artist page don't repeat the artist
+      albums: albums.map(album => toRemoteAlbum({ ...album, artist: album.artist || raw.name })),
+    }),
+  );
+
+export const remoteAlbumDetailSchema = s
+  .object({ ...remoteAlbumFields, duration: s.number().nullable(), tracks: remoteTracksSchema })
+  .map(
+    ({ tracks, duration, ...raw }): RemoteAlbumDetail => ({
+      ...toRemoteAlbum(raw),
+      duration,
+      tracks: tracks.map(track => ({
+        ...track,
+        albumTitle: track.albumTitle ?? raw.title,
+        image: track.image ?? raw.image,
+      })),
+    }),
+  );
+
+export const existsInLibrarySchema = s.object({
+  tracks: s.record(s.flag()),
+  albums: s.record(s.flag()),
 });
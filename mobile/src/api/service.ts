@@ -6,6 +6,8 @@ import {
   getAdminAuthHeader,
   getBaseUrl,
   getAuthToken,
+  getCurrentUser,
+  isRequestCancelled,
   persistUser,
   setAdminAuth,
   setAuthToken,
@@ -13,28 +15,31 @@ import {
   setUnauthorizedHandler,
 } from './client';
 import {
-  mapAuthResponse,
-  mapDownloads,
-  mapLibraryStats,
-  mapPlaylist,
-  mapPlaylists,
-  mapPlaylistTracks,
-  mapRemoteAlbumDetail,
-  mapRemoteArtistDetail,
-  mapRemoteSearchResponse,
-  mapRemoteTrack,
-  mapSmartSearchResult,
-  mapSongs,
+  authResponseSchema,
+  createdPlaylistSchema,
+  downloadsSchema,
+  existsInLibrarySchema,
+  librarySearchSchema,
+  libraryStatsSchema,
+  listenStartSchema,
+  playlistsSchema,
+  playlistTracksSchema,
+  remoteAlbumDetailSchema,
+  remoteArtistDetailSchema,
+  remoteTracksSchema,
+  smartSearchSchema,
+  songsSchema,
 } from './mappers';
+import { ApiContractError, parseResponse } from './schema';
 import type {
   AdminCredentials,
   BasicResponse,
   DownloadItem,
+  LibraryAlbumMatch,
+  LibraryArtistMatch,
   LibraryStats,
   Playlist,
-  RemoteAlbum,
   RemoteAlbumDetail,
-  RemoteArtist,
   RemoteArtistDetail,
   RemoteTrack,
   SmartSearchResult,
@@ -67,14 +72,23 @@ const parseBasicResponse = (data: unknown): BasicResponse | null => {
   return null;
 };
 
+// Errors keep the HTTP status so callers can tell a refusal from a lost connection
+export type ServiceError = Error & { status?: number };
+
 const handleAxiosError = (error: unknown, fallback?: string): never => {
+  // Cancelled by the caller, passed on as is so it can be told apart
+  if (isRequestCancelled(error)) {
+    throw error;
+  }
   if (axios.isAxiosError(error)) {
     const basic = parseBasicResponse(error.response?.data);
     const message =
       error.response?.status === 401
         ? 'Session expired. Please sign in again.'
         : resolveErrorMessage(basic, fallback);
-    throw new Error(message);
+    const serviceError: ServiceError = new Error(message);
+    serviceError.status = error.response?.status;
+    throw serviceError;
   }
   throw error instanceof Error ? error : new Error(fallback ?? DEFAULT_ERROR_MESSAGE);
 };
@@ -85,6 +99,8 @@ export const registerUnauthorizedHandler = setUnauthorizedHandler;
 
 export const getSessionToken = getAuthToken;
 
+export { getCurrentUser, isRequestCancelled };
+
 export const getApiBaseUrl = getBaseUrl;
 
 export const updateBaseUrl = (url: string) => setBaseUrl(url);
@@ -108,7 +124,7 @@ export const fetchSongs = async (params: { limit?: number; offset?: number } = {
     const response = await apiClient.get('/api/library/library', {
       params,
     });
-    return mapSongs(Array.isArray(response.data) ? response.data : []);
+    return parseResponse('GET /api/library/library', songsSchema, response.data);
   } catch (error) {
     return handleAxiosError(error, 'Unable to load songs.');
   }
@@ -116,49 +132,50 @@ export const fetchSongs = async (params: { limit?: number; offset?: number } = {
 
 export interface SearchResults {
   songs: Song[];
-  artists: any[];
-  albums: any[];
+  artists: LibraryArtistMatch[];
+  albums: LibraryAlbumMatch[];
 }
 
 export const searchLibrary = async (
   query: string,
   type: 'all' | 'track' | 'artist' | 'album' = 'all',
+  signal?: AbortSignal,
 ): Promise<SearchResults> => {
   try {
     const response = await apiClient.get('/api/library/search', {
       params: { q: query, type, limit: 50 },
+      signal,
     });
-    // The backend returns { songs: [], artists: [], albums: [] }
-    // We need to map the songs array using mapSongs
-    const data = response.data;
-    return {
-      songs: Array.isArray(data.songs) ? mapSongs(data.songs) : [],
-      artists: Array.isArray(data.artists) ? data.artists : [],
-      albums: Array.isArray(data.albums) ? data.albums : [],
-    };
-  } catch {
-    // Return empty results instead of throwing, to match previous behavior gracefully
+    return parseResponse('GET /api/library/search', librarySearchSchema, response.data);
+  } catch (error) {
+    // A malformed response is a bug worth surfacing, a cancelled search isn't
+    // empty, anything else reads as no results
+    if (error instanceof ApiContractError || isRequestCancelled(error)) {
+      throw error;
+    }
     return { songs: [], artists: [], albums: [] };
   }
 };
 
-export const fetchArtistTracks = async (artist: string): Promise<Song[]> => {
+export const fetchArtistTracks = async (artist: string, signal?: AbortSignal): Promise<Song[]> => {
   try {
     const response = await apiClient.get(`/api/library/artist/${encodeURIComponent(artist)}`, {
       params: { limit: 1000 },
+      signal,
     });
-    return mapSongs(Array.isArray(response.data) ? response.data : []);
+    return parseResponse('GET /api/library/artist/:artist', songsSchema, response.data);
   } catch (error) {
     return handleAxiosError(error, 'Unable to load artist tracks.');
   }
 };
 
-export const fetchAlbumTracks = async (album: string): Promise<Song[]> => {
+export const fetchAlbumTracks = async (album: string, signal?: AbortSignal): Promise<Song[]> => {
   try {
     const response = await apiClient.get(`/api/library/album/${encodeURIComponent(album)}`, {
       params: { limit: 1000 },
+      signal,
     });
-    return mapSongs(Array.isArray(response.data) ? response.data : []);
+    return parseResponse('GET /api/library/album/:album', songsSchema, response.data);
   } catch (error) {
     return handleAxiosError(error, 'Unable to load album tracks.');
   }
@@ -169,48 +186,56 @@ export type OnlineSearchType = 'track' | 'artist' | 'album';
 export const searchOnlineTracks = async (
   query: string,
   type: OnlineSearchType = 'track',
+  signal?: AbortSignal,
 ): Promise<RemoteTrack[]> => {
   try {
     const response = await apiClient.get('/api/music/search', {
       params: { q: query, type, limit: 30 },
+      signal,
     });
-    const data = response.data;
-    if (Array.isArray(data)) {
-      return data.map(mapRemoteTrack);
-    }
-    return mapRemoteSearchResponse(data);
+    return parseResponse('GET /api/music/search', remoteTracksSchema, response.data);
   } catch (error) {
     return handleAxiosError(error, 'Unable to search online catalog.');
   }
 };
 
 // Smart search - returns tracks, artists, albums at once
-export const smartSearchOnline = async (query: string): Promise<SmartSearchResult> => {
+export const smartSearchOnline = async (
+  query: string,
+  signal?: AbortSignal,
+): Promise<SmartSearchResult> => {
   try {
     const response = await apiClient.get('/api/music/smart-search', {
       params: { q: query, limit: 10 },
+      signal,
     });
-    return mapSmartSearchResult(response.data);
+    return parseResponse('GET /api/music/smart-search', smartSearchSchema, response.data);
   } catch (error) {
     return handleAxiosError(error, 'Unable to search online catalog.');
   }
 };
 
 // Get online artist detail with albums
-export const fetchOnlineArtist = async (artistId: string): Promise<RemoteArtistDetail> => {
+export const fetchOnlineArtist = async (
+  artistId: string,
+  signal?: AbortSignal,
+): Promise<RemoteArtistDetail> => {
   try {
-    const response = await apiClient.get(`/api/music/artist/${artistId}`);
-    return mapRemoteArtistDetail(response.data);
+    const response = await apiClient.get(`/api/music/artist/${artistId}`, { signal });
+    return parseResponse('GET /api/music/artist/:id', remoteArtistDetailSchema, response.data);
   } catch (error) {
     return handleAxiosError(error, 'Unable to load artist details.');
   }
 };
 
 // Get online album detail with tracks
-export const fetchOnlineAlbum = async (albumId: string): Promise<RemoteAlbumDetail> => {
+export const fetchOnlineAlbum = async (
+  albumId: string,
+  signal?: AbortSignal,
+): Promise<RemoteAlbumDetail> => {
   try {
-    const response = await apiClient.get(`/api/music/album/${albumId}`);
-    return mapRemoteAlbumDetail(response.data);
+    const response = await apiClient.get(`/api/music/album/${albumId}`, { signal });
+    return parseResponse('GET /api/music/album/:id', remoteAlbumDetailSchema, response.data);
   } catch (error) {
     return handleAxiosError(error, 'Unable to load album details.');
   }
@@ -220,11 +245,19 @@ export const fetchOnlineAlbum = async (albumId: string): Promise<RemoteAlbumDeta
 export const checkExistsInLibrary = async (
   tracks: Array<{ id: string; title: string; artist: string }>,
   albums: Array<{ id: string; title: string; artist: string }>,
+  signal?: AbortSignal,
 ): Promise<{ tracks: Record<string, boolean>; albums: Record<string, boolean> }> => {
   try {
-    const response = await apiClient.post('/api/library/check-exists', { tracks, albums });
-    return response.data;
-  } catch {
+    const response = await apiClient.post(
+      '/api/library/check-exists',
+      { tracks, albums },
+      { signal },
+    );
+    return parseResponse('POST /api/library/check-exists', existsInLibrarySchema, response.data);
+  } catch (error) {
+    if (error instanceof ApiContractError || isRequestCancelled(error)) {
+      throw error;
+    }
     return { tracks: {}, albums: {} };
   }
 };
@@ -232,14 +265,7 @@ export const checkExistsInLibrary = async (
 export const fetchPlaylists = async (): Promise<Playlist[]> => {
   try {
     const response = await apiClient.get('/api/playlists');
-    const data = response.data;
-    if (Array.isArray(data?.playlists)) {
-      return mapPlaylists(data.playlists);
-    }
-    if (Array.isArray(data)) {
-      return mapPlaylists(data);
-    }
-    return [];
+    return parseResponse('GET /api/playlists', playlistsSchema, response.data).playlists;
   } catch (error) {
     return handleAxiosError(error, 'Unable to load playlists.');
   }
@@ -248,14 +274,7 @@ export const fetchPlaylists = async (): Promise<Playlist[]> => {
 export const fetchGeneratedPlaylists = async (): Promise<Playlist[]> => {
   try {
     const response = await apiClient.get('/api/playlists/generated');
-    const data = response.data;
-    if (Array.isArray(data?.playlists)) {
-      return mapPlaylists(data.playlists);
-    }
-    if (Array.isArray(data)) {
-      return mapPlaylists(data);
-    }
-    return [];
+    return parseResponse('GET /api/playlists/generated', playlistsSchema, response.data).playlists;
   } catch (error) {
     return handleAxiosError(error, 'Unable to load generated playlists.');
   }
@@ -264,17 +283,8 @@ export const fetchGeneratedPlaylists = async (): Promise<Playlist[]> => {
 export const fetchPlaylistTracks = async (playlistId: number): Promise<Song[]> => {
   try {
     const response = await apiClient.get(`/api/playlists/${playlistId}/tracks`);
-    const data = response.data;
-    let trackItems: any[] = [];
-    if (Array.isArray(data?.tracks)) {
-      trackItems = data.tracks;
-    } else if (Array.isArray(data)) {
-      trackItems = data;
-    }
-    return mapPlaylistTracks(trackItems).map(item => ({
-      ...item.song,
-      playlistTrackId: item.song.playlistTrackId ?? item.playlistTrackId ?? undefined,
-    }));
+    return parseResponse('GET /api/playlists/:id/tracks', playlistTracksSchema, response.data)
+      .tracks;
   } catch (error) {
     return handleAxiosError(error, 'Unable to load playlist tracks.');
   }
@@ -289,16 +299,7 @@ export const createPlaylist = async (
       name,
       ...(description ? { description } : {}),
     });
-    if (response.data?.success && response.data?.playlist) {
-      return mapPlaylist(response.data.playlist);
-    }
-    if (response.data?.playlist) {
-      return mapPlaylist(response.data.playlist);
-    }
-    if (response.data?.id) {
-      return mapPlaylist(response.data);
-    }
-    throw new Error('Playlist created but response malformed.');
+    return parseResponse('POST /api/playlists', createdPlaylistSchema, response.data).playlist;
   } catch (error) {
     return handleAxiosError(error, 'Failed to create playlist.');
   }
@@ -363,10 +364,40 @@ export const reorderPlaylist = async (
   }
 };
 
+// Listening stats: a listen is started, then ended with how long it lasted
+export const startListen = async (
+  userId: number,
+  musicId: number,
+  startedAt?: number,
+): Promise<number> => {
+  try {
+    const response = await apiClient.post('/api/analytics/listen/start', {
+      userId,
+      musicId,
+      startedAt,
+    });
+    return parseResponse('POST /api/analytics/listen/start', listenStartSchema, response.data)
+      .listenEventId;
+  } catch (error) {
+    return handleAxiosError(error, 'Failed to log listen.');
+  }
+};
+
+export const endListen = async (
+  listenEventId: number,
+  listen: { durationListened: number; completed: boolean; skipped: boolean; endedAt?: number },
+): Promise<void> => {
+  try {
+    await apiClient.post('/api/analytics/listen/end', { listenEventId, ...listen });
+  } catch (error) {
+    return handleAxiosError(error, 'Failed to log listen.');
+  }
+};
+
 export const fetchLibraryStats = async (): Promise<LibraryStats> => {
   try {
     const response = await apiClient.get('/api/library/stats');
-    return mapLibraryStats(response.data);
+    return parseResponse('GET /api/library/stats', libraryStatsSchema, response.data);
   } catch (error) {
     return handleAxiosError(error, 'Unable to load library stats.');
   }
@@ -391,7 +422,7 @@ export const login = async (
 ): Promise<User> => {
   try {
     const response = await apiClient.post('/api/auth/login', { username, password });
-    const { token, user } = mapAuthResponse(response.data);
+    const { token, user } = parseResponse('POST /api/auth/login', authResponseSchema, response.data);
     await rememberSession(token, user, rememberMe);
     return user;
   } catch (error) {
@@ -406,7 +437,7 @@ export const signup = async (
 ): Promise<User> => {
   try {
     const response = await apiClient.post('/api/auth/signup', { username, password });
-    const { token, user } = mapAuthResponse(response.data);
+    const { token, user } = parseResponse('POST /api/auth/signup', authResponseSchema, response.data);
     await rememberSession(token, user, rememberMe);
     return user;
   } catch (error) {
@@ -432,13 +463,7 @@ export const addAllToLibrary = async (): Promise<string> => {
 export const fetchDownloads = async (): Promise<DownloadItem[]> => {
   try {
     const response = await apiClient.get('/api/download/list');
-    if (Array.isArray(response.data?.downloads)) {
-      return mapDownloads(response.data.downloads);
-    }
-    if (Array.isArray(response.data)) {
-      return mapDownloads(response.data);
-    }
-    return [];
+    return parseResponse('GET /api/download/list', downloadsSchema, response.data).downloads;
   } catch (error) {
     return handleAxiosError(error, 'Unable to load downloads.');
   }
@@ -0,0 +1,388 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type { GestureResponderEvent } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import Icon from './Icon';
+import ArtworkImage from './ArtworkImage';
+import { useDevices } from '../context/DevicesContext';
+import { useLanguage } from '../context/LanguageContext';
+import { useCurrentTrack } from '../hooks/useCurrentTrack';
+import { useAccentColor } from '../hooks/useAccentColor';
+import type { DeviceType, RemoteDevice } from '../services/devices/DeviceManager';
+
+const DEVICE_ICONS: Record<DeviceType, string> = {
+  web: 'desktop-outline',
+  desktop: 'desktop-outline',
+  mobile: 'phone-portrait-outline',
+  tablet: 'tablet-portrait-outline',
+};
+
+// Volume change per tap on the remote volume buttons
+const VOLUME_STEP = 0.1;
+
+const formatTime = (seconds: number) => {
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    return '0:00';
+  }
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const RemoteControls: React.FC<{ device: RemoteDevice }> = ({ device }) => {
+  const { sendCommand, pullPlayback, remotePosition } = useDevices();
+  const { t } = useLanguage();
+  const { primary, onPrimary } = useAccentColor();
+  const [barWidth, setBarWidth] = useState(0);
+  const [, setTick] = useState(0);
+  const track = device.currentTrack;
+
+  // Re-render every second so the extrapolated position keeps moving
+  useEffect(() => {
+    if (!device.isPlaying) {
+      return;
+    }
+    const interval = setInterval(() => setTick(value => value + 1), 1000);
+    return () => clearInterval(interval);
+  }, [device.isPlaying]);
+
+  const position = remotePosition(device);
+  const progressPct = device.duration > 0 ? Math.min((position / device.duration) * 100, 100) : 0;
+
+  const handleSeek = (event: GestureResponderEvent) => {
+    if (!device.duration || barWidth <= 0) {
+      return;
+    }
+    const fraction = Math.min(Math.max(event.nativeEvent.locationX / barWidth, 0), 1);
+    sendCommand('SEEK', { time: device.duration * fraction });
+  };
+
+  const changeVolume = (delta: number) => {
+    if (device.volume === null) {
+      return;
+    }
+    const volume = Math.min(Math.max(device.volume + delta, 0), 1);
+    sendCommand('SET_VOLUME', { volume: Math.round(volume * 100) / 100 });
+  };
+
+  return (
+    <View style={styles.remoteControls}>
+      {track && device.duration > 0 ? (
+        <View style={styles.remoteProgress}>
+          <View
+            style={styles.progressBar}
+            onLayout={event => setBarWidth(event.nativeEvent.layout.width)}
+            onStartShouldSetResponder={() => true}
+            onResponderRelease={handleSeek}
+          >
+            <View style={[styles.progressFill, { width: `${progressPct}%`, backgroundColor: primary }]} />
+          </View>
+          <View style={styles.progressTimes}>
+            <Text style={styles.progressTime}>{formatTime(position)}</Text>
+            <Text style={styles.progressTime}>{formatTime(device.duration)}</Text>
+          </View>
+        </View>
+      ) : null}
+
+      <View style={styles.remoteButtons}>
+        {device.volume !== null ? (
+          <TouchableOpacity style={styles.remoteBtn} onPress={() => changeVolume(-VOLUME_STEP)}>
+            <Icon name="volume-low" size={20} color="#b3b3b3" />
+          </TouchableOpacity>
+        ) : null}
+        <TouchableOpacity style={styles.remoteBtn} onPress={() => sendCommand('PREVIOUS')} disabled={!track}>
+          <Icon name="skip-back" size={22} color="#ffffff" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.remotePlayBtn, { backgroundColor: primary }]}
+          onPress={() => sendCommand(device.isPlaying ? 'PAUSE' : 'PLAY')}
+          disabled={!track}
+        >
+          <Icon name={device.isPlaying ? 'pause' : 'play'} size={22} color={onPrimary} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.remoteBtn} onPress={() => sendCommand('NEXT')} disabled={!track}>
+          <Icon name="skip-forward" size={22} color="#ffffff" />
+        </TouchableOpacity>
+        {device.volume !== null ? (
+          <TouchableOpacity style={styles.remoteBtn} onPress={() => changeVolume(VOLUME_STEP)}>
+            <Icon name="volume-high" size={20} color="#b3b3b3" />
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {track ? (
+        <TouchableOpacity style={styles.pullBtn} onPress={() => pullPlayback(device.deviceId)}>
+          <Icon name="download" size={16} color={primary} />
+          <Text style={[styles.pullBtnText, { color: primary }]}>{t('nowPlaying.playHere')}</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+};
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+/**
+ * Bottom sheet listing this account's other devices, with remote controls
+ * for the selected one and a button to hand playback over to it
+ */
+const DevicesSheet: React.FC<Props> = ({ visible, onClose }) => {
+  const insets = useSafeAreaInsets();
+  const { t } = useLanguage();
+  const { primary } = useAccentColor();
+  const { track } = useCurrentTrack();
+  const { state, startControl, stopControl, transferTo } = useDevices();
+
+  // Release the controlled device when the sheet closes
+  useEffect(() => {
+    if (!visible) {
+      stopControl();
+    }
+  }, [visible, stopControl]);
+
+  return (
+    <Modal transparent visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.container, { paddingBottom: insets.bottom + 16 }]}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('nowPlaying.devices')}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeBtn}>
+              <Icon name="x" size={24} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list}>
+            <View style={styles.deviceRow}>
+              <Icon name={DEVICE_ICONS.mobile} size={22} color={primary} />
+              <View style={styles.deviceInfo}>
+                <Text style={[styles.deviceName, { color: primary }]}>{t('nowPlaying.thisDevice')}</Text>
+                <Text style={styles.deviceStatus} numberOfLines={1}>
+                  {track ? `${track.title} · ${track.artist}` : t('nowPlaying.notPlaying')}
+                </Text>
+              </View>
+            </View>
+
+            {!state.isConnected ? (
+              <View style={styles.connecting}>
+                <ActivityIndicator color={primary} />
+                <Text style={styles.deviceStatus}>{t('nowPlaying.connecting')}</Text>
+              </View>
+            ) : null}
+
+            {state.isConnected && state.devices.length === 0 ? (
+              <View style={styles.empty}>
+                <Icon name="radio-outline" size={32} color="#6b7280" />
+                <Text style={styles.emptyTitle}>{t('nowPlaying.noDevices')}</Text>
+                <Text style={styles.emptyHint}>{t('nowPlaying.noDevicesHint')}</Text>
+              </View>
+            ) : null}
+
+            {state.devices.map(device => {
+              const isSelected = device.deviceId === state.controllingDeviceId;
+              return (
+                <View key={device.deviceId} style={[styles.deviceEntry, isSelected && styles.deviceEntrySelected]}>
+                  <TouchableOpacity
+                    style={styles.deviceRow}
+                    onPress={() => (isSelected ? stopControl() : startControl(device.deviceId))}
+                  >
+                    <Icon name={DEVICE_ICONS[device.deviceType] ?? DEVICE_ICONS.web} size={22} color="#ffffff" />
+                    <View style={styles.deviceInfo}>
+                      <Text style={styles.deviceName} numberOfLines={1}>{device.deviceName}</Text>
+                      <Text
+                        style={[styles.deviceStatus, device.isPlaying && { color: primary }]}
+                        numberOfLines={1}
+                      >
+                        {device.currentTrack
+                          ? `${device.currentTrack.title} · ${device.currentTrack.artist}`
+                          : t('nowPlaying.notPlaying')}
+                      </Text>
+                    </View>
+                    {device.currentTrack ? (
+                      <ArtworkImage
+                        uri={device.currentTrack.album_cover ?? null}
+                        size={36}
+                        fallbackLabel={device.currentTrack.title?.[0]?.toUpperCase()}
+                      />
+                    ) : null}
+                    {track ? (
+                      <TouchableOpacity style={styles.transferBtn} onPress={() => transferTo(device.deviceId)}>
+                        <Icon name="arrow-redo-outline" size={20} color="#b3b3b3" />
+                      </TouchableOpacity>
+                    ) : null}
+                  </TouchableOpacity>
+                  {isSelected ? <RemoteControls device={device} /> : null}
+                </View>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  container: {
+    backgroundColor: '#0a0a0a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    maxHeight: '70%',
+    minHeight: 200,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  closeBtn: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  deviceEntry: {
+    borderRadius: 14,
+    marginBottom: 4,
+  },
+  deviceEntrySelected: {
+    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+  },
+  deviceInfo: {
+    flex: 1,
+  },
+  deviceName: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  deviceStatus: {
+    color: '#9090a5',
+    fontSize: 12,
+  },
+  transferBtn: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  connecting: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 16,
+    paddingHorizontal: 8,
+  },
+  empty: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 32,
+  },
+  emptyTitle: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  emptyHint: {
+    color: '#6b7280',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  remoteControls: {
+    paddingHorizontal: 8,
+    paddingBottom: 12,
+    gap: 12,
+  },
+  remoteProgress: {
+    gap: 6,
+  },
+  progressBar: {
+    height: 6,
+    backgroundColor: '#1b1b1b',
+    borderRadius: 999,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
+  progressTimes: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  progressTime: {
+    fontSize: 12,
+    color: '#9090a5',
+  },
+  remoteButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  remoteBtn: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(26, 26, 26, 0.9)',
+  },
+  remotePlayBtn: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pullBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  pullBtnText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default DevicesSheet;
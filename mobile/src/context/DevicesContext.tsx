@@ -0,0 +1,65 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+
+import type { ReactNode } from 'react';
+
+import { useAuth } from './AuthContext';
+import {
+  deviceManager,
+  DeviceSnapshot,
+  RemoteAction,
+  RemoteCommandData,
+  RemoteDevice,
+} from '../services/devices/DeviceManager';
+
+type DevicesContextValue = {
+  state: DeviceSnapshot;
+  startControl: (deviceId: string) => void;
+  stopControl: () => void;
+  sendCommand: (action: RemoteAction, data?: RemoteCommandData) => void;
+  transferTo: (deviceId: string) => Promise<void>;
+  pullPlayback: (deviceId: string) => void;
+  remotePosition: (device: RemoteDevice) => number;
+};
+
+const DevicesContext = createContext<DevicesContextValue | undefined>(undefined);
+
+export const DevicesProvider = ({ children }: { children: ReactNode }) => {
+  const { state: authState } = useAuth();
+  const [state, setState] = useState<DeviceSnapshot>(() => deviceManager.snapshot());
+
+  useEffect(() => deviceManager.subscribe(snapshot => setState(snapshot)), []);
+
+  // Register this device while signed in
+  useEffect(() => {
+    if (!authState.token) {
+      deviceManager.stop();
+      return;
+    }
+    deviceManager.start(authState.token, authState.baseUrl).catch(error => {
+      console.warn('Failed to start device sync', error);
+    });
+  }, [authState.token, authState.baseUrl]);
+
+  const value = useMemo<DevicesContextValue>(
+    () => ({
+      state,
+      startControl: deviceId => deviceManager.startControl(deviceId),
+      stopControl: () => deviceManager.stopControl(),
+      sendCommand: (action, data) => deviceManager.sendCommand(action, data),
+      transferTo: deviceId => deviceManager.transferTo(deviceId),
+      pullPlayback: deviceId => deviceManager.pullPlayback(deviceId),
+      remotePosition: device => deviceManager.remotePosition(device),
+    }),
+    [state],
+  );
+
+  return <DevicesContext.Provider value={value}>{children}</DevicesContext.Provider>;
+};
+
+export const useDevices = () => {
+  const ctx = useContext(DevicesContext);
+  if (!ctx) {
+    throw new Error('useDevices must be used within DevicesProvider');
+  }
+  return ctx;
+};
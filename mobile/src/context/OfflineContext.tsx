@@ -3,7 +3,13 @@ import React, { createContext, useContext, useEffect, useMemo, useState } from '
 import type { ReactNode } from 'react';
 
 import type { Playlist, Song } from '../types/models';
-import { offlineManager } from '../services/offline/OfflineManager';
+import { useConnectivity } from '../hooks/useConnectivity';
+import {
+  offlineManager,
+  type OfflineQuality,
+  type OfflineStorageUsage,
+  type OfflineVerification,
+} from '../services/offline/OfflineManager';
 
 type OfflineState = ReturnType<typeof offlineManager.snapshot>;
 
@@ -13,10 +19,18 @@ type OfflineContextValue = {
   downloadSong: (song: Song, playlist?: Playlist) => Promise<void>;
   removePlaylist: (playlistId: number) => Promise<void>;
   removeSong: (songId: number) => Promise<void>;
+  removeSongFromPlaylist: (song: Song, playlist: Playlist) => Promise<void>;
+  reorderPlaylist: (playlistId: number, songIds: number[]) => Promise<void>;
   localUri: (songId: number) => string | null;
   isSongDownloaded: (songId: number) => boolean;
   isPlaylistDownloaded: (playlistId: number) => boolean;
   playlistSongs: (playlistId: number) => Song[];
+  setStorageLimit: (limit: number | null) => Promise<void>;
+  setQuality: (quality: OfflineQuality) => Promise<void>;
+  setPlaylistPinned: (playlistId: number, pinned: boolean) => Promise<void>;
+  setAlbumPinned: (album: string, pinned: boolean) => Promise<void>;
+  storageBreakdown: () => OfflineStorageUsage[];
+  verifyDownloads: () => Promise<OfflineVerification>;
 };
 
 const OfflineContext = createContext<OfflineContextValue | undefined>(undefined);
@@ -41,6 +55,15 @@ export const OfflineProvider = ({ children }: { children: ReactNode }) => {
     };
   }, []);
 
+  // Songs whose files turned out damaged are downloaded again once online
+  const { isConnected } = useConnectivity();
+  const brokenCount = state.brokenSongs.length;
+  useEffect(() => {
+    if (isConnected && brokenCount > 0) {
+      offlineManager.repairBroken().catch(error => console.warn('Offline repair failed', error));
+    }
+  }, [isConnected, brokenCount]);
+
   const value = useMemo<OfflineContextValue>(
     () => ({
       state,
@@ -48,10 +71,18 @@ export const OfflineProvider = ({ children }: { children: ReactNode }) => {
       downloadSong: (song, playlist) => offlineManager.downloadSong(song, playlist?.id, playlist),
       removePlaylist: playlistId => offlineManager.removePlaylist(playlistId),
       removeSong: songId => offlineManager.removeTrack(songId),
+      removeSongFromPlaylist: (song, playlist) => offlineManager.removeSongFromPlaylist(song, playlist),
+      reorderPlaylist: (playlistId, songIds) => offlineManager.reorderPlaylist(playlistId, songIds),
       localUri: songId => offlineManager.localUri(songId),
       isSongDownloaded: songId => offlineManager.isSongDownloaded(songId),
       isPlaylistDownloaded: playlistId => offlineManager.isPlaylistDownloaded(playlistId),
       playlistSongs: playlistId => offlineManager.playlistSongs(playlistId),
+      setStorageLimit: limit => offlineManager.setStorageLimit(limit),
+      setQuality: quality => offlineManager.setQuality(quality),
+      setPlaylistPinned: (playlistId, pinned) => offlineManager.setPlaylistPinned(playlistId, pinned),
+      setAlbumPinned: (album, pinned) => offlineManager.setAlbumPinned(album, pinned),
+      storageBreakdown: () => offlineManager.storageBreakdown(),
+      verifyDownloads: () => offlineManager.verify(true),
     }),
     [state],
   );
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+import { outbox } from '../services/offline/Outbox';
+
+export const useOutbox = () => {
+  const [state, setState] = useState(() => outbox.snapshot());
+
+  useEffect(() => {
+    outbox.initialize().catch(error => console.warn('Failed to start offline outbox', error));
+    return outbox.subscribe(setState);
+  }, []);
+
+  return state;
+};
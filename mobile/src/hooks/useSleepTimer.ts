@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+
+import {
+  getSleepRemaining,
+  getSleepTimer,
+  subscribeSleepTimer,
+  SleepTimer,
+} from '../services/player/PlayerService';
+
+type SleepTimerState = {
+  timer: SleepTimer | null;
+  // Seconds left, null while unknown or when no timer is set
+  remaining: number | null;
+};
+
+export const useSleepTimer = (): SleepTimerState => {
+  const [timer, setTimer] = useState<SleepTimer | null>(() => getSleepTimer());
+  const [remaining, setRemaining] = useState<number | null>(null);
+
+  useEffect(() => subscribeSleepTimer(setTimer), []);
+
+  // Refresh the countdown every second while a timer is set
+  useEffect(() => {
+    if (!timer) {
+      setRemaining(null);
+      return;
+    }
+    let cancelled = false;
+    const update = () => {
+      getSleepRemaining()
+        .then(value => {
+          if (!cancelled) {
+            setRemaining(value);
+          }
+        })
+        .catch(() => {});
+    };
+    update();
+    const interval = setInterval(update, 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [timer]);
+
+  return { timer, remaining };
+};
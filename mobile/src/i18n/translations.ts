@@ -38,6 +38,10 @@ const dictionary: Record<SupportedLanguage, TranslationNode> = {
       madeForYou: 'Made For You',
       play: 'Play All',
       offline: 'Offline mode',
+      pendingSync: '{{count}} changes waiting to sync',
+      syncing: 'Syncing changes…',
+      syncMerged: 'Some playlists changed elsewhere, your offline edits were merged',
+      syncRejected: '{{count}} offline changes could not be applied',
       stats: {
         songs: 'Songs',
         artists: 'Artists',
@@ -66,6 +70,7 @@ const dictionary: Record<SupportedLanguage, TranslationNode> = {
     search: {
       placeholderLocal: 'Search your library',
       placeholderOnline: 'Search online catalog',
+      placeholderOffline: 'Search your downloads',
       downloadQueued: 'Track added to the download queue.',
       downloadFailed: 'Failed to queue download.',
       chooseAction: 'Choose an action',
@@ -75,6 +80,7 @@ const dictionary: Record<SupportedLanguage, TranslationNode> = {
       searchForMusic: 'Search for music',
       discover: 'Discover millions of tracks online',
       localDescription: 'Find songs in your library',
+      offlineDescription: "You're offline. Find songs, artists and albums you downloaded",
       noResultsDescription: 'Try different keywords or check your spelling',
       loading: 'Searching…',
       downloadOnly: 'Download',
@@ -114,6 +120,22 @@ const dictionary: Record<SupportedLanguage, TranslationNode> = {
       accentOptionRed: 'Apple Music Red',
       english: 'English',
       spanish: 'Español',
+      storageTitle: 'Offline storage',
+      storageSubtitle: 'Least recently played downloads are removed when the limit is reached. Pinned ones are always kept.',
+      storageUsed: '{{used}} used',
+      storageUsedOf: '{{used}} of {{limit}} used',
+      storageNoLimit: 'No limit',
+      storageEmpty: 'No downloads yet.',
+      storageTracks: '{{count}} tracks • {{size}}',
+      storagePin: 'Pin',
+      storagePinned: 'Pinned',
+      qualityTitle: 'Download quality',
+      qualitySubtitle: 'Lower quality saves space. Applies to new downloads.',
+      qualityOriginal: 'Original',
+      verifyDownloads: 'Check downloaded files',
+      verifyRunning: 'Checking…',
+      verifyIntact: 'All {{count}} downloads are intact.',
+      verifyRepaired: '{{broken}} damaged downloads will be downloaded again, {{orphans}} leftover files removed.',
     },
     library: {
       artists: 'Artists',
@@ -169,6 +191,19 @@ const dictionary: Record<SupportedLanguage, TranslationNode> = {
       noPlaylists: 'No playlists available',
       removeFromLibrary: 'Remove from library',
       delete: 'Delete permanently',
+      devices: 'Devices',
+      thisDevice: 'This device',
+      connecting: 'Connecting…',
+      noDevices: 'No other devices',
+      noDevicesHint: 'Open Noxa on another device with this account to control it from here.',
+      notPlaying: 'Not playing',
+      playHere: 'Play on this device',
+      sleepTimer: 'Sleep',
+      sleepTitle: 'Stop playback',
+      sleepIn: 'In {{minutes}} minutes',
+      sleepEndOfTrack: 'End of track',
+      sleepEndOfCollection: 'End of album or playlist',
+      sleepOff: 'Turn off timer',
     },
     downloads: {
       title: 'Downloads',
@@ -217,6 +252,10 @@ const dictionary: Record<SupportedLanguage, TranslationNode> = {
       madeForYou: 'Hecho para ti',
       play: 'Reproducir todo',
       offline: 'Modo sin conexión',
+      pendingSync: '{{count}} cambios pendientes de sincronizar',
+      syncing: 'Sincronizando cambios…',
+      syncMerged: 'Algunas listas cambiaron en otro lugar, tus cambios sin conexión se combinaron',
+      syncRejected: 'No se pudieron aplicar {{count}} cambios sin conexión',
       stats: {
         songs: 'Canciones',
         artists: 'Artistas',
@@ -245,6 +284,7 @@ const dictionary: Record<SupportedLanguage, TranslationNode> = {
     search: {
       placeholderLocal: 'Busca en tu biblioteca',
       placeholderOnline: 'Busca en el catálogo en línea',
+      placeholderOffline: 'Busca en tus descargas',
       downloadQueued: 'Canción añadida a la cola de descargas.',
       downloadFailed: 'Error al añadir a la cola.',
       chooseAction: 'Elige una acción',
@@ -254,6 +294,7 @@ const dictionary: Record<SupportedLanguage, TranslationNode> = {
       searchForMusic: 'Busca música',
       discover: 'Descubre millones de canciones en línea',
       localDescription: 'Encuentra canciones en tu biblioteca',
+      offlineDescription: 'Sin conexión. Encuentra canciones, artistas y álbumes descargados',
       noResultsDescription: 'Prueba con otras palabras o revisa la ortografía',
       loading: 'Buscando…',
       downloadOnly: 'Descargar',
@@ -293,6 +334,22 @@ const dictionary: Record<SupportedLanguage, TranslationNode> = {
       accentOptionRed: 'Rojo Apple Music',
       english: 'English',
       spanish: 'Español',
+      storageTitle: 'Almacenamiento sin conexión',
+      storageSubtitle: 'Al llegar al límite se borran las descargas escuchadas hace más tiempo. Las fijadas se conservan siempre.',
+      storageUsed: '{{used}} usados',
+      storageUsedOf: '{{used}} de {{limit}} usados',
+      storageNoLimit: 'Sin límite',
+      storageEmpty: 'Aún no hay descargas.',
+      storageTracks: '{{count}} canciones • {{size}}',
+      storagePin: 'Fijar',
+      storagePinned: 'Fijada',
+      qualityTitle: 'Calidad de descarga',
+      qualitySubtitle: 'Una calidad menor ahorra espacio. Se aplica a las nuevas descargas.',
+      qualityOriginal: 'Original',
+      verifyDownloads: 'Comprobar archivos descargados',
+      verifyRunning: 'Comprobando…',
+      verifyIntact: 'Las {{count}} descargas están intactas.',
+      verifyRepaired: 'Se volverán a descargar {{broken}} descargas dañadas y se borraron {{orphans}} archivos sobrantes.',
     },
     library: {
       artists: 'Artistas',
@@ -348,6 +405,19 @@ const dictionary: Record<SupportedLanguage, TranslationNode> = {
       noPlaylists: 'No hay listas disponibles',
       removeFromLibrary: 'Quitar de la biblioteca',
       delete: 'Eliminar permanentemente',
+      devices: 'Dispositivos',
+      thisDevice: 'Este dispositivo',
+      connecting: 'Conectando…',
+      noDevices: 'No hay otros dispositivos',
+      noDevicesHint: 'Abre Noxa en otro dispositivo con esta cuenta para controlarlo desde aquí.',
+      notPlaying: 'Sin reproducción',
+      playHere: 'Reproducir en este dispositivo',
+      sleepTimer: 'Dormir',
+      sleepTitle: 'Detener reproducción',
+      sleepIn: 'En {{minutes}} minutos',
+      sleepEndOfTrack: 'Al final de la canción',
+      sleepEndOfCollection: 'Al final del álbum o lista',
+      sleepOff: 'Desactivar temporizador',
     },
     downloads: {
       title: 'Descargas',
@@ -42,7 +42,7 @@ const AlbumDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   // If songs are not passed, fetch them
   const { data: fetchedSongs } = useQuery({
     queryKey: ['album', albumTitle, 'tracks'],
-    queryFn: () => fetchAlbumTracks(albumTitle),
+    queryFn: ({ signal }) => fetchAlbumTracks(albumTitle, signal),
     enabled: !initialSongs || initialSongs.length === 0,
   });
 
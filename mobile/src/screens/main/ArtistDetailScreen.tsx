@@ -49,7 +49,7 @@ const ArtistDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   // If songs are not passed (e.g. from Search), fetch them
   const { data: fetchedSongs } = useQuery({
     queryKey: ['artist', artistName, 'tracks'],
-    queryFn: () => fetchArtistTracks(artistName),
+    queryFn: ({ signal }) => fetchArtistTracks(artistName, signal),
     enabled: !initialSongs || initialSongs.length === 0,
   });
 
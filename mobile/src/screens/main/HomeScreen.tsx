@@ -21,8 +21,8 @@ import {
   fetchGeneratedPlaylists,
   fetchPlaylists,
   fetchSongs,
-  addTrackToPlaylist,
 } from '../../api/service';
+import { outbox } from '../../services/offline/Outbox';
 import type { Playlist, Song } from '../../types/models';
 import ArtworkImage from '../../components/ArtworkImage';
 import { playSong } from '../../services/player/PlayerService';
@@ -30,6 +30,7 @@ import Icon from '../../components/Icon';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import type { AppStackParamList, AppTabsParamList } from '../../navigation/types';
 import { useConnectivity } from '../../hooks/useConnectivity';
+import { useOutbox } from '../../hooks/useOutbox';
 import { useLanguage } from '../../context/LanguageContext';
 import { useAutoDownloadNewTracks } from '../../hooks/useAutoDownloadNewTracks';
 import { useAccentColor } from '../../hooks/useAccentColor';
@@ -49,6 +50,7 @@ const HomeScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const insets = useSafeAreaInsets();
   const connectivity = useConnectivity();
+  const pendingSync = useOutbox();
   const { t } = useLanguage();
   const autoDownloadNewTrack = useAutoDownloadNewTracks();
   const { primary, primaryRgba } = useAccentColor();
@@ -218,7 +220,7 @@ const HomeScreen: React.FC = () => {
     }
     try {
       setAddingPlaylistId(playlistId);
-      await addTrackToPlaylist(playlistId, selectedTrack.id);
+      await outbox.runOrQueue({ type: 'addTrack', playlistId, musicId: selectedTrack.id });
       Alert.alert(t('common.ok'), t('common.addedToPlaylist'));
       const targetPlaylist = playlists.find(item => item.id === playlistId);
       autoDownloadNewTrack(targetPlaylist, selectedTrack);
@@ -296,6 +298,25 @@ const HomeScreen: React.FC = () => {
               <Text style={styles.offlineText}>{t('home.offline')}</Text>
             </View>
           ) : null}
+          {pendingSync.pending > 0 ? (
+            <View style={styles.syncBanner}>
+              <Icon name="refresh" size={14} color="#9090a5" />
+              <Text style={styles.syncText}>
+                {pendingSync.syncing
+                  ? t('home.syncing')
+                  : t('home.pendingSync', { count: pendingSync.pending })}
+              </Text>
+            </View>
+          ) : pendingSync.rejected > 0 || pendingSync.merged > 0 ? (
+            <View style={styles.syncBanner}>
+              <Icon name="alert-triangle" size={14} color="#9090a5" />
+              <Text style={styles.syncText}>
+                {pendingSync.rejected > 0
+                  ? t('home.syncRejected', { count: pendingSync.rejected })
+                  : t('home.syncMerged')}
+              </Text>
+            </View>
+          ) : null}
         </View>
 
         {/* Daily Mix & Recommended Horizontal Section */}
@@ -739,6 +760,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 13,
   },
+  syncBanner: {
+    marginTop: 8,
+    alignSelf: 'flex-start',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  syncText: {
+    color: '#9090a5',
+    fontWeight: '600',
+    fontSize: 13,
+  },
   featuredScrollContainer: {
     paddingHorizontal: 24,
     gap: 16,
@@ -17,20 +17,19 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { fetchPlaylists, fetchSongs } from '../../api/service';
 import { useOffline } from '../../context/OfflineContext';
 import { useConnectivity } from '../../hooks/useConnectivity';
+import {
+  groupAlbums,
+  groupArtists,
+  offlineSongs,
+  type OfflineAlbum as Album,
+  type OfflineArtist as Artist,
+} from '../../services/offline/offlineLibrary';
 import type { LibraryStackParamList, LibraryView } from '../../navigation/types';
 import type { Playlist, Song } from '../../types/models';
 import ArtworkImage from '../../components/ArtworkImage';
 import DownloadsScreen from './DownloadsScreen';
 import { useLanguage } from '../../context/LanguageContext';
 
-interface Artist {
-  id: string;
-  name: string;
-  trackCount: number;
-  songs: Song[];
-  artwork?: string | null;
-}
-
 type Props = NativeStackScreenProps<LibraryStackParamList, 'LibraryMain'>;
 
 const LibraryScreen: React.FC<Props> = ({ navigation, route }) => {
@@ -65,9 +64,11 @@ const LibraryScreen: React.FC<Props> = ({ navigation, route }) => {
     enabled: !connectivity.isOffline,
   });
 
-  const songs = connectivity.isOffline
-    ? Object.values(offlineState.tracks).map(entry => entry.song)
-    : onlineSongs;
+  // Offline, browse what is on the device
+  const songs = useMemo<Song[]>(
+    () => (connectivity.isOffline ? offlineSongs(offlineState) : onlineSongs),
+    [connectivity.isOffline, offlineState, onlineSongs],
+  );
 
   const playlists: Playlist[] = connectivity.isOffline
     ? Object.values(offlineState.playlists).map(entry => ({
@@ -81,31 +82,8 @@ const LibraryScreen: React.FC<Props> = ({ navigation, route }) => {
       }))
     : onlinePlaylists;
 
-  // Group songs by artist
-  const artists = useMemo<Artist[]>(() => {
-    const grouped = songs.reduce(
-      (acc, song) => {
-        const artistName = song.artist || t('library.unknownArtist');
-        if (!acc[artistName]) {
-          acc[artistName] = {
-            id: artistName,
-            name: artistName,
-            trackCount: 0,
-            songs: [],
-            artwork: song.albumCover ?? null,
-          };
-        }
-        acc[artistName].songs.push(song);
-        acc[artistName].trackCount += 1;
-        if (!acc[artistName].artwork && song.albumCover) {
-          acc[artistName].artwork = song.albumCover;
-        }
-        return acc;
-      },
-      {} as Record<string, Artist>,
-    );
-    return Object.values(grouped).sort((a, b) => a.name.localeCompare(b.name));
-  }, [songs, t]);
+  const artists = useMemo(() => groupArtists(songs, t('library.unknownArtist')), [songs, t]);
+  const albums = useMemo(() => groupAlbums(songs, t('library.unknownAlbum')), [songs, t]);
 
   const isLoading = songsLoading || playlistsLoading;
   const isRefetching = songsRefetching || playlistsRefetching;
@@ -120,6 +98,8 @@ const LibraryScreen: React.FC<Props> = ({ navigation, route }) => {
       switch (view) {
         case 'artists':
           return t('library.artists');
+        case 'albums':
+          return t('library.albums');
         case 'playlists':
           return t('library.playlists');
         case 'downloads':
@@ -133,6 +113,7 @@ const LibraryScreen: React.FC<Props> = ({ navigation, route }) => {
   const tabItems = useMemo(
     () => [
       { key: 'artists' as LibraryView, label: t('library.artists'), icon: 'mic' as const },
+      { key: 'albums' as LibraryView, label: t('library.albums'), icon: 'disc' as const },
       { key: 'playlists' as LibraryView, label: t('library.playlists'), icon: 'music' as const },
       { key: 'downloads' as LibraryView, label: t('library.downloads'), icon: 'download' as const },
     ],
@@ -173,6 +154,34 @@ const LibraryScreen: React.FC<Props> = ({ navigation, route }) => {
     [navigation, t],
   );
 
+  const renderAlbum = useCallback(
+    ({ item }: { item: Album }) => (
+      <TouchableOpacity
+        style={styles.gridCard}
+        onPress={() =>
+          navigation.navigate('AlbumDetail', {
+            artistName: item.artist,
+            albumTitle: item.title,
+            songs: item.songs,
+          })
+        }
+      >
+        <ArtworkImage
+          uri={item.artwork}
+          size={140}
+          fallbackLabel={item.title?.[0]?.toUpperCase()}
+        />
+        <Text style={styles.gridTitle} numberOfLines={2}>
+          {item.title}
+        </Text>
+        <Text style={styles.gridSubtitle} numberOfLines={1}>
+          {item.artist ?? t('library.unknownArtist')}
+        </Text>
+      </TouchableOpacity>
+    ),
+    [navigation, t],
+  );
+
   const renderPlaylist = useCallback(
     ({ item }: { item: Playlist }) => (
       <TouchableOpacity
@@ -231,8 +240,10 @@ const LibraryScreen: React.FC<Props> = ({ navigation, route }) => {
   const activeLabel = labelForView(activeView);
   const activeLabelLower = activeLabel.toLowerCase();
 
-  const listData = activeView === 'artists' ? artists : playlists;
-  const listRenderer = activeView === 'artists' ? renderArtist : renderPlaylist;
+  const listData =
+    activeView === 'artists' ? artists : activeView === 'albums' ? albums : playlists;
+  const listRenderer =
+    activeView === 'artists' ? renderArtist : activeView === 'albums' ? renderAlbum : renderPlaylist;
 
   return (
     <View style={styles.container}>
@@ -289,7 +300,7 @@ const LibraryScreen: React.FC<Props> = ({ navigation, route }) => {
             <View style={styles.centered}>
               <View style={styles.emptyIconCircle}>
                 <Icon
-                  name={activeView === 'artists' ? 'mic' : 'music'}
+                  name={activeView === 'artists' ? 'mic' : activeView === 'albums' ? 'disc' : 'music'}
                   size={28}
                   color="#8aa4ff"
                 />
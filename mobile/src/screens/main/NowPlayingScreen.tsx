@@ -32,7 +32,15 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import type { AppStackParamList } from '../../navigation/types';
 import { useCurrentTrack } from '../../hooks/useCurrentTrack';
 import ArtworkImage from '../../components/ArtworkImage';
-import { playSong, togglePlayback } from '../../services/player/PlayerService';
+import DevicesSheet from '../../components/DevicesSheet';
+import {
+  cancelSleepTimer,
+  playSong,
+  setSleepTimer,
+  SleepTimerMode,
+  SLEEP_TIMER_PRESETS,
+  togglePlayback,
+} from '../../services/player/PlayerService';
 import { addTrackToPlaylist, fetchPlaylists, fetchArtistTracks } from '../../api/service';
 import { fetchLyrics, parseSyncedLyrics, parsePlainLyrics, ParsedLyricLine } from '../../api/lyrics';
 import type { Playlist, Song } from '../../types/models';
@@ -40,6 +48,8 @@ import { useLanguage } from '../../context/LanguageContext';
 import { useAutoDownloadNewTracks } from '../../hooks/useAutoDownloadNewTracks';
 import { useMiniPlayerVisibility } from '../../context/MiniPlayerContext';
 import { useAccentColor } from '../../hooks/useAccentColor';
+import { useDevices } from '../../context/DevicesContext';
+import { useSleepTimer } from '../../hooks/useSleepTimer';
 
 const trackToSong = (playerTrack: Track): Song => ({
   id: Number(playerTrack.id),
@@ -76,6 +86,8 @@ const NowPlayingScreen: React.FC<Props> = ({ navigation }) => {
   const [progressBarWidth, setProgressBarWidth] = useState(0);
   const [lyricsVisible, setLyricsVisible] = useState(false);
   const [queueVisible, setQueueVisible] = useState(false);
+  const [devicesVisible, setDevicesVisible] = useState(false);
+  const [sleepPickerVisible, setSleepPickerVisible] = useState(false);
   const [syncedLyrics, setSyncedLyrics] = useState<ParsedLyricLine[]>([]);
   const [plainLyrics, setPlainLyrics] = useState<string[]>([]);
   const [lyricsLoading, setLyricsLoading] = useState(false);
@@ -89,6 +101,8 @@ const NowPlayingScreen: React.FC<Props> = ({ navigation }) => {
   const shuffleEnabledRef = useRef(false);
   const shuffleToggleInProgressRef = useRef(false);
   const { primary, onPrimary } = useAccentColor();
+  const otherDevices = useDevices().state.devices.length;
+  const sleep = useSleepTimer();
 
   const loadQueue = useCallback(async () => {
     try {
@@ -441,6 +455,11 @@ const NowPlayingScreen: React.FC<Props> = ({ navigation }) => {
   };
 
 
+  const handleSleepTimer = (mode: SleepTimerMode, minutes?: number) => {
+    setSleepTimer(mode, minutes).catch(error => console.warn('Failed to set sleep timer', error));
+    setSleepPickerVisible(false);
+  };
+
   const handleProgressGesture = useCallback(
     (event: GestureResponderEvent) => {
       if (!duration || progressBarWidth <= 0) {
@@ -636,6 +655,18 @@ const NowPlayingScreen: React.FC<Props> = ({ navigation }) => {
             <Icon name="list" size={18} color="#b3b3b3" />
             <Text style={styles.actionBtnText}>Queue ({queue.length})</Text>
           </TouchableOpacity>
+          <TouchableOpacity style={styles.actionBtn} onPress={() => setDevicesVisible(true)}>
+            <Icon name="radio-outline" size={18} color={otherDevices > 0 ? primary : '#b3b3b3'} />
+            <Text style={[styles.actionBtnText, otherDevices > 0 && { color: primary }]}>
+              {t('nowPlaying.devices')}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionBtn} onPress={() => setSleepPickerVisible(true)}>
+            <Icon name={sleep.timer ? 'moon' : 'moon-outline'} size={18} color={sleep.timer ? primary : '#b3b3b3'} />
+            <Text style={[styles.actionBtnText, sleep.timer && { color: primary }]}>
+              {sleep.remaining !== null ? formatTime(sleep.remaining) : t('nowPlaying.sleepTimer')}
+            </Text>
+          </TouchableOpacity>
         </View>
       </ScrollView>
 
@@ -740,6 +771,51 @@ const NowPlayingScreen: React.FC<Props> = ({ navigation }) => {
         </View>
       </Modal>
 
+      <DevicesSheet visible={devicesVisible} onClose={() => setDevicesVisible(false)} />
+
+      <Modal
+        transparent
+        visible={sleepPickerVisible}
+        animationType="fade"
+        onRequestClose={() => setSleepPickerVisible(false)}
+      >
+        <View style={styles.centeredModalOverlay}>
+          <Pressable style={StyleSheet.absoluteFillObject} onPress={() => setSleepPickerVisible(false)} />
+          <View style={styles.centeredModalContainer}>
+            <Text style={styles.sheetTitle}>{t('nowPlaying.sleepTitle')}</Text>
+            {SLEEP_TIMER_PRESETS.map(minutes => (
+              <TouchableOpacity key={minutes} style={styles.sheetAction} onPress={() => handleSleepTimer('minutes', minutes)}>
+                <Icon name="time-outline" size={18} color="#ffffff" />
+                <Text style={styles.sheetActionText}>{t('nowPlaying.sleepIn', { minutes })}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.sheetAction} onPress={() => handleSleepTimer('track')}>
+              <Icon name="musical-note" size={18} color={sleep.timer?.mode === 'track' ? primary : '#ffffff'} />
+              <Text style={[styles.sheetActionText, sleep.timer?.mode === 'track' && { color: primary }]}>
+                {t('nowPlaying.sleepEndOfTrack')}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.sheetAction} onPress={() => handleSleepTimer('collection')}>
+              <Icon name="disc" size={18} color={sleep.timer?.mode === 'collection' ? primary : '#ffffff'} />
+              <Text style={[styles.sheetActionText, sleep.timer?.mode === 'collection' && { color: primary }]}>
+                {t('nowPlaying.sleepEndOfCollection')}
+              </Text>
+            </TouchableOpacity>
+            {sleep.timer ? (
+              <TouchableOpacity
+                style={styles.sheetAction}
+                onPress={() => {
+                  cancelSleepTimer().catch(error => console.warn('Failed to cancel sleep timer', error));
+                  setSleepPickerVisible(false);
+                }}
+              >
+                <Icon name="x" size={18} color="#f87171" />
+                <Text style={[styles.sheetActionText, styles.sheetDangerText]}>{t('nowPlaying.sleepOff')}</Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 
@@ -950,7 +1026,7 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     gap: 6,
     paddingVertical: 10,
-    paddingHorizontal: 16,
+    paddingHorizontal: 4,
     flex: 1,
   },
   actionBtnText: {
@@ -20,15 +20,13 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 
 import {
-  addTrackToPlaylist,
   deletePlaylist,
   fetchPlaylistTracks,
-  removeTrackFromPlaylist,
-  reorderPlaylist,
   updatePlaylist,
   fetchPlaylists,
 } from '../../api/service';
 import { useOffline } from '../../context/OfflineContext';
+import { outbox } from '../../services/offline/Outbox';
 import { useConnectivity } from '../../hooks/useConnectivity';
 import type { LibraryStackParamList } from '../../navigation/types';
 import type { Playlist, Song } from '../../types/models';
@@ -45,8 +43,14 @@ const PlaylistDetailScreen: React.FC<Props> = ({ route, navigation }) => {
   const { primary, onPrimary } = useAccentColor();
   const { playlistId, playlistName: initialName, description: initialDescription, coverUrl: initialCover } = route.params;
   const queryClient = useQueryClient();
-  const { state: offlineState, downloadPlaylist, removePlaylist, isPlaylistDownloaded } =
-    useOffline();
+  const {
+    state: offlineState,
+    downloadPlaylist,
+    removePlaylist,
+    isPlaylistDownloaded,
+    removeSongFromPlaylist,
+    reorderPlaylist,
+  } = useOffline();
   const connectivity = useConnectivity();
   const insets = useSafeAreaInsets();
   const { t } = useLanguage();
@@ -184,11 +188,18 @@ const PlaylistDetailScreen: React.FC<Props> = ({ route, navigation }) => {
         operations.push(updatePlaylist(playlistId, { name: trimmedName, description: descInput }));
       }
       if (orderDirty) {
-        const orders = orderedTracksRef.current.map((track, index) => ({
-          musicId: track.id,
-          position: index + 1,
-        }));
-        operations.push(reorderPlaylist(playlistId, orders));
+        // Queued while offline and replayed once the connection is back
+        const songIds = orderedTracksRef.current.map(track => track.id);
+        operations.push(
+          outbox
+            .runOrQueue({
+              type: 'reorder',
+              playlistId,
+              songIds,
+              baseSongIds: baseTracks.map(track => track.id),
+            })
+            .then(() => reorderPlaylist(playlistId, songIds)),
+        );
       }
       if (operations.length === 0) {
         return false;
@@ -223,8 +234,16 @@ const PlaylistDetailScreen: React.FC<Props> = ({ route, navigation }) => {
   });
 
   const removeTrackMutation = useMutation({
-    mutationFn: (musicId: number) => removeTrackFromPlaylist(playlistId, musicId),
-    onSuccess: () => {
+    mutationFn: (song: Song) => outbox.runOrQueue({ type: 'removeTrack', playlistId, musicId: song.id }),
+    onSuccess: (queued, song) => {
+      if (queued) {
+        // Reflect the edit in the downloaded copy until it syncs
+        const entry = offlineState.playlists[playlistId];
+        if (entry) {
+          removeSongFromPlaylist(song, entry.playlist);
+        }
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['playlists', playlistId, 'tracks'] });
       refetch();
     },
@@ -241,7 +260,7 @@ const PlaylistDetailScreen: React.FC<Props> = ({ route, navigation }) => {
   const handleRemoveTrack = (song: Song) => {
     Alert.alert(t('playlist.removeTitle'), t('playlist.removePrompt', { track: song.title }), [
       { text: t('common.cancel'), style: 'cancel' },
-      { text: t('common.removeFromPlaylist'), style: 'destructive', onPress: () => removeTrackMutation.mutate(song.id) },
+      { text: t('common.removeFromPlaylist'), style: 'destructive', onPress: () => removeTrackMutation.mutate(song) },
     ]);
   };
 
@@ -336,7 +355,7 @@ const PlaylistDetailScreen: React.FC<Props> = ({ route, navigation }) => {
       return;
     }
     try {
-      await addTrackToPlaylist(targetPlaylistId, selectedTrack.id);
+      await outbox.runOrQueue({ type: 'addTrack', playlistId: targetPlaylistId, musicId: selectedTrack.id });
       Alert.alert(t('common.ok'), t('common.addedToPlaylist'));
       const targetPlaylist = availablePlaylists.find(item => item.id === targetPlaylistId);
       autoDownloadNewTrack(targetPlaylist, selectedTrack);
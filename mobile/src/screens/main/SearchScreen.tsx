@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert,
   ActivityIndicator,
@@ -16,7 +16,7 @@ import type { CompositeScreenProps } from '@react-navigation/native';
 import type { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 
-import { fetchPlaylists, requestDownloadAdd, searchLibrary, smartSearchOnline, fetchOnlineArtist, fetchOnlineAlbum, checkExistsInLibrary } from '../../api/service';
+import { fetchPlaylists, requestDownloadAdd, searchLibrary, smartSearchOnline, fetchOnlineArtist, fetchOnlineAlbum, checkExistsInLibrary, isRequestCancelled } from '../../api/service';
 import type { AppStackParamList, AppTabsParamList } from '../../navigation/types';
 import type { RemoteTrack, RemoteArtist, RemoteAlbum, RemoteAlbumDetail, Song } from '../../types/models';
 import { playSong } from '../../services/player/PlayerService';
@@ -26,6 +26,9 @@ import Icon from '../../components/Icon';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useLanguage } from '../../context/LanguageContext';
 import { useAccentColor } from '../../hooks/useAccentColor';
+import { useConnectivity } from '../../hooks/useConnectivity';
+import { useOffline } from '../../context/OfflineContext';
+import { offlineSongs, searchOfflineSongs } from '../../services/offline/offlineLibrary';
 
 type SearchMode = 'local' | 'online';
 type OnlineSearchType = 'all' | 'track' | 'artist' | 'album';
@@ -65,65 +68,111 @@ const SearchScreen: React.FC<Props> = ({ navigation }) => {
   const [playlistPickerTrack, setPlaylistPickerTrack] = useState<RemoteTrack | null>(null);
   const [selectedOnlineAlbum, setSelectedOnlineAlbum] = useState<RemoteAlbumDetail | null>(null);
   const [existsInLibrary, setExistsInLibrary] = useState<Record<string, boolean>>({});
-  const { data: playlists = [] } = useQuery({ queryKey: ['playlists'], queryFn: fetchPlaylists });
+  // The online artist/album being opened, aborted when another one is tapped
+  const detailRequest = useRef<AbortController | null>(null);
+  const { isOffline } = useConnectivity();
+  const { state: offlineState } = useOffline();
+  const { data: playlists = [] } = useQuery({
+    queryKey: ['playlists'],
+    queryFn: fetchPlaylists,
+    enabled: !isOffline,
+  });
 
   const { data: localData, isFetching: localFetching } = useQuery({
     queryKey: ['library', 'search', query, localType],
-    queryFn: () => searchLibrary(query.trim(), localType === 'all' ? 'all' : localType),
-    enabled: mode === 'local' && query.trim().length > 1,
+    // React Query aborts the signal once the query text has moved on
+    queryFn: ({ signal }) => searchLibrary(query.trim(), localType === 'all' ? 'all' : localType, signal),
+    enabled: mode === 'local' && !isOffline && query.trim().length > 1,
   });
 
+  // Offline, search the downloads instead of the server
+  const offlineResults = useMemo(() => {
+    if (!isOffline || query.trim().length <= 1) {
+      return null;
+    }
+    return searchOfflineSongs(offlineSongs(offlineState), query, {
+      unknownArtist: t('library.unknownArtist'),
+      unknownAlbum: t('library.unknownAlbum'),
+    });
+  }, [isOffline, offlineState, query, t]);
+
+  // Online search needs a connection
+  useEffect(() => {
+    if (isOffline) {
+      setMode('local');
+    }
+  }, [isOffline]);
+
   // Use smart search for online - returns tracks, artists, albums at once
   const { data: onlineData, isFetching: onlineFetching } = useQuery({
     queryKey: ['music', 'smart-search', query],
-    queryFn: () => smartSearchOnline(query.trim()),
+    queryFn: ({ signal }) => smartSearchOnline(query.trim(), signal),
     enabled: mode === 'online' && query.trim().length > 1,
   });
 
   // Check existence in library when online results change
   useEffect(() => {
-    if (onlineData && (onlineData.tracks.length > 0 || onlineData.albums.length > 0)) {
-      const tracksToCheck = onlineData.tracks.map(t => ({ id: t.id, title: t.title, artist: t.artistName }));
-      const albumsToCheck = onlineData.albums.map(a => ({ id: a.id, title: a.title, artist: a.artistName }));
-      checkExistsInLibrary(tracksToCheck, albumsToCheck).then(result => {
+    if (!onlineData || (onlineData.tracks.length === 0 && onlineData.albums.length === 0)) {
+      return;
+    }
+    const controller = new AbortController();
+    const tracksToCheck = onlineData.tracks.map(t => ({ id: t.id, title: t.title, artist: t.artistName }));
+    const albumsToCheck = onlineData.albums.map(a => ({ id: a.id, title: a.title, artist: a.artistName }));
+    checkExistsInLibrary(tracksToCheck, albumsToCheck, controller.signal)
+      .then(result => {
         setExistsInLibrary({ ...result.tracks, ...result.albums });
+      })
+      .catch(error => {
+        if (!isRequestCancelled(error)) {
+          console.warn('Failed to check library', error);
+        }
       });
-    }
+    // Results for an older search must not mark the newer one
+    return () => controller.abort();
   }, [onlineData]);
 
+  useEffect(() => () => detailRequest.current?.abort(), []);
+
+  const startDetailRequest = useCallback(() => {
+    detailRequest.current?.abort();
+    detailRequest.current = new AbortController();
+    return detailRequest.current.signal;
+  }, []);
+
   const onlineTracks = useMemo(() => onlineData?.tracks || [], [onlineData]);
   const onlineArtists = useMemo(() => onlineData?.artists || [], [onlineData]);
   const onlineAlbums = useMemo(() => onlineData?.albums || [], [onlineData]);
 
-  const localSongs = useMemo(() => localData?.songs || [], [localData]);
+  const localSongs = useMemo(
+    () => offlineResults?.songs ?? localData?.songs ?? [],
+    [localData, offlineResults],
+  );
   const localArtists = useMemo<LocalArtist[]>(() => {
-    // If backend returns artists, use them directly (mapping needed if structure differs)
-    if (localData?.artists && localData.artists.length > 0) {
-      return localData.artists.map((artist: any) => ({
-        id: artist.artist,
-        name: artist.artist,
-        trackCount: artist.track_count || 0,
-        songs: [], // Songs loaded on detail screen
-        artwork: artist.artist_image,
-      }));
+    if (offlineResults) {
+      return offlineResults.artists;
     }
-    return [];
-  }, [localData]);
+    return (localData?.artists ?? []).map(artist => ({
+      id: artist.name,
+      name: artist.name,
+      trackCount: artist.trackCount,
+      songs: [], // Songs loaded on detail screen
+      artwork: artist.image,
+    }));
+  }, [localData, offlineResults]);
 
   const localAlbums = useMemo<LocalAlbum[]>(() => {
-    // If backend returns albums, use them directly
-    if (localData?.albums && localData.albums.length > 0) {
-      return localData.albums.map((album: any) => ({
-        id: `${album.title}-${album.artist}`,
-        title: album.album,
-        artist: album.artist,
-        trackCount: album.track_count || 0,
-        songs: [], // Songs loaded on detail screen
-        artwork: album.album_cover,
-      }));
+    if (offlineResults) {
+      return offlineResults.albums;
     }
-    return [];
-  }, [localData]);
+    return (localData?.albums ?? []).map(album => ({
+      id: `${album.title}-${album.artist}`,
+      title: album.title,
+      artist: album.artist,
+      trackCount: album.trackCount,
+      songs: [], // Songs loaded on detail screen
+      artwork: album.cover,
+    }));
+  }, [localData, offlineResults]);
 
   const isFetching = mode === 'local' ? localFetching : onlineFetching;
 
@@ -300,22 +349,28 @@ const SearchScreen: React.FC<Props> = ({ navigation }) => {
 
   const handleOpenOnlineArtist = useCallback(async (artist: RemoteArtist) => {
     try {
-      const artistDetail = await fetchOnlineArtist(artist.id);
+      const artistDetail = await fetchOnlineArtist(artist.id, startDetailRequest());
       // Navigate to a modal or detail screen showing artist albums
       Alert.alert(artist.name, `${artistDetail.albums.length} albums available`);
     } catch (error) {
+      if (isRequestCancelled(error)) {
+        return;
+      }
       Alert.alert(t('common.error'), t('search.loadFailed'));
     }
-  }, [t]);
+  }, [startDetailRequest, t]);
 
   const handleOpenOnlineAlbum = useCallback(async (album: RemoteAlbum) => {
     try {
-      const albumDetail = await fetchOnlineAlbum(album.id);
+      const albumDetail = await fetchOnlineAlbum(album.id, startDetailRequest());
       setSelectedOnlineAlbum(albumDetail);
     } catch (error) {
+      if (isRequestCancelled(error)) {
+        return;
+      }
       Alert.alert(t('common.error'), t('search.loadFailed'));
     }
-  }, [t]);
+  }, [startDetailRequest, t]);
 
   const renderOnlineArtist = useCallback(
     ({ item }: { item: RemoteArtist }) => (
@@ -376,7 +431,11 @@ const SearchScreen: React.FC<Props> = ({ navigation }) => {
             </View>
             <Text style={styles.emptyTitle}>{t('search.searchForMusic')}</Text>
             <Text style={styles.emptyText}>
-              {context === 'local' ? t('search.localDescription') : t('search.discover')}
+              {context === 'online'
+                ? t('search.discover')
+                : isOffline
+                  ? t('search.offlineDescription')
+                  : t('search.localDescription')}
             </Text>
           </View>
         );
@@ -391,7 +450,7 @@ const SearchScreen: React.FC<Props> = ({ navigation }) => {
         </View>
       );
     },
-    [query, t],
+    [isOffline, query, t],
   );
 
   const localFilterChips = (
@@ -473,7 +532,11 @@ const SearchScreen: React.FC<Props> = ({ navigation }) => {
       <TextInput
         style={styles.searchInput}
         placeholder={
-          mode === 'local' ? t('search.placeholderLocal') : t('search.placeholderOnline')
+          mode === 'online'
+            ? t('search.placeholderOnline')
+            : isOffline
+              ? t('search.placeholderOffline')
+              : t('search.placeholderLocal')
         }
         placeholderTextColor="#606072"
         value={query}
@@ -494,8 +557,13 @@ const SearchScreen: React.FC<Props> = ({ navigation }) => {
           </Text>
         </TouchableOpacity>
         <TouchableOpacity
-          style={[styles.modeBtn, mode === 'online' && [styles.modeBtnActive, { backgroundColor: primary }]]}
+          style={[
+            styles.modeBtn,
+            mode === 'online' && [styles.modeBtnActive, { backgroundColor: primary }],
+            isOffline && styles.modeBtnDisabled,
+          ]}
           onPress={() => setMode('online')}
+          disabled={isOffline}
         >
           <Text style={[styles.modeBtnText, mode === 'online' && styles.modeBtnTextActive]}>
             {t('search.modes.online')}
@@ -773,6 +841,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   modeBtnActive: {},
+  modeBtnDisabled: {
+    opacity: 0.4,
+  },
   modeBtnText: {
     color: '#9090a5',
     fontSize: 14,
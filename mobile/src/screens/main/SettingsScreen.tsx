@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   KeyboardAvoidingView,
   Platform,
@@ -16,6 +16,10 @@ import type { SupportedLanguage } from '../../i18n/translations';
 import { accentOptionsList, useThemeAccent } from '../../context/ThemeContext';
 import { useAccentColor } from '../../hooks/useAccentColor';
 import { useMiniPlayerVisibility } from '../../context/MiniPlayerContext';
+import { useOffline } from '../../context/OfflineContext';
+import { OFFLINE_QUALITY_OPTIONS, STORAGE_LIMIT_OPTIONS } from '../../services/offline/OfflineManager';
+import { formatBytes } from '../../utils/formatBytes';
+import Icon from '../../components/Icon';
 
 const SettingsScreen: React.FC = () => {
   const {
@@ -36,6 +40,26 @@ const SettingsScreen: React.FC = () => {
   const { t, language, setLanguage } = useLanguage();
   const { accentId, setAccent } = useThemeAccent();
   const { primary } = useAccentColor();
+  const {
+    state: { storageLimit, usedBytes, quality, verifying },
+    setStorageLimit,
+    setQuality,
+    setPlaylistPinned,
+    setAlbumPinned,
+    storageBreakdown,
+    verifyDownloads,
+  } = useOffline();
+  const breakdown = storageBreakdown();
+  const [verifyResult, setVerifyResult] = useState<string | null>(null);
+
+  const handleVerify = async () => {
+    const result = await verifyDownloads();
+    setVerifyResult(
+      result.broken || result.orphans
+        ? t('settings.verifyRepaired', { broken: result.broken, orphans: result.orphans })
+        : t('settings.verifyIntact', { count: result.checked }),
+    );
+  };
 
   const handleLogout = async () => {
     await logout();
@@ -130,6 +154,107 @@ const SettingsScreen: React.FC = () => {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.qualityTitle')}</Text>
+          <Text style={styles.sectionSubtitle}>{t('settings.qualitySubtitle')}</Text>
+          <View style={styles.storageOptions}>
+            {OFFLINE_QUALITY_OPTIONS.map(option => {
+              const isActive = quality === option;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.storageOption, isActive && { backgroundColor: primary }]}
+                  onPress={() => setQuality(option)}
+                >
+                  <Text style={[styles.storageOptionLabel, isActive && styles.storageOptionLabelActive]}>
+                    {option === 'original' ? t('settings.qualityOriginal') : option}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.storageTitle')}</Text>
+          <Text style={styles.sectionSubtitle}>{t('settings.storageSubtitle')}</Text>
+          <Text style={styles.storageUsage}>
+            {storageLimit !== null
+              ? t('settings.storageUsedOf', { used: formatBytes(usedBytes), limit: formatBytes(storageLimit) })
+              : t('settings.storageUsed', { used: formatBytes(usedBytes) })}
+          </Text>
+          {storageLimit !== null && (
+            <View style={styles.storageBar}>
+              <View
+                style={[
+                  styles.storageBarFill,
+                  { width: `${Math.min(100, (usedBytes / storageLimit) * 100)}%`, backgroundColor: primary },
+                ]}
+              />
+            </View>
+          )}
+          <View style={styles.storageOptions}>
+            {STORAGE_LIMIT_OPTIONS.map(limit => {
+              const isActive = storageLimit === limit;
+              return (
+                <TouchableOpacity
+                  key={limit ?? 'none'}
+                  style={[styles.storageOption, isActive && { backgroundColor: primary }]}
+                  onPress={() => setStorageLimit(limit)}
+                >
+                  <Text style={[styles.storageOptionLabel, isActive && styles.storageOptionLabelActive]}>
+                    {limit !== null ? formatBytes(limit) : t('settings.storageNoLimit')}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {breakdown.length ? (
+            breakdown.map(item => (
+              <View key={item.key} style={styles.storageItem}>
+                <Icon
+                  name={item.type === 'playlist' ? 'list' : 'disc'}
+                  size={18}
+                  color="#9090a5"
+                />
+                <View style={styles.storageItemInfo}>
+                  <Text style={styles.storageItemName} numberOfLines={1}>
+                    {item.name}
+                  </Text>
+                  <Text style={styles.storageItemMeta} numberOfLines={1}>
+                    {item.artist ? `${item.artist} • ` : ''}
+                    {t('settings.storageTracks', { count: item.trackCount, size: formatBytes(item.size) })}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={[styles.pinButton, item.pinned && { borderColor: primary }]}
+                  onPress={() =>
+                    item.type === 'playlist'
+                      ? setPlaylistPinned(Number(item.id), !item.pinned)
+                      : setAlbumPinned(String(item.id), !item.pinned)
+                  }
+                >
+                  <Text style={[styles.pinButtonLabel, item.pinned && { color: primary }]}>
+                    {item.pinned ? t('settings.storagePinned') : t('settings.storagePin')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.sectionSubtitle}>{t('settings.storageEmpty')}</Text>
+          )}
+          <TouchableOpacity
+            style={[styles.button, styles.outlineButton, { borderColor: primary }]}
+            onPress={handleVerify}
+            disabled={verifying}
+          >
+            <Text style={[styles.buttonText, { color: primary }]}>
+              {verifying ? t('settings.verifyRunning') : t('settings.verifyDownloads')}
+            </Text>
+          </TouchableOpacity>
+          {verifyResult && <Text style={styles.sectionSubtitle}>{verifyResult}</Text>}
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('settings.accountTitle')}</Text>
           <TouchableOpacity style={[styles.button, styles.dangerButton]} onPress={handleLogout}>
@@ -239,6 +364,9 @@ const styles = StyleSheet.create({
   dangerButton: {
     backgroundColor: '#f87171',
   },
+  outlineButton: {
+    borderWidth: 1,
+  },
   buttonText: {
     color: '#ffffff',
     fontWeight: '600',
@@ -280,6 +408,67 @@ const styles = StyleSheet.create({
     borderTopRightRadius: 12,
     borderBottomRightRadius: 12,
   },
+  storageUsage: {
+    color: '#d1d5db',
+    fontWeight: '600',
+  },
+  storageBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    overflow: 'hidden',
+  },
+  storageBarFill: {
+    height: '100%',
+  },
+  storageOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  storageOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+    backgroundColor: 'rgba(255,255,255,0.06)',
+  },
+  storageOptionLabel: {
+    color: '#9090a5',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  storageOptionLabelActive: {
+    color: '#050505',
+  },
+  storageItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  storageItemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  storageItemName: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  storageItemMeta: {
+    color: '#9090a5',
+    fontSize: 12,
+  },
+  pinButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.12)',
+  },
+  pinButtonLabel: {
+    color: '#9090a5',
+    fontWeight: '600',
+    fontSize: 12,
+  },
   accentLabel: {
     color: '#d1d5db',
     fontWeight: '600',
@@ -0,0 +1,471 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import TrackPlayer, { Event, RepeatMode, State, Track } from 'react-native-track-player';
+
+import { songsSchema } from '../../api/mappers';
+import { parseResponse } from '../../api/schema';
+import { playQueueAt } from '../player/PlayerService';
+
+const DEVICE_ID_KEY = 'remoteDeviceId';
+
+// Reconnect backoff bounds (ms)
+const RECONNECT_MIN_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// While playing, re-send the position this often so other devices stay in sync (ms)
+const POSITION_BROADCAST_INTERVAL = 5000;
+
+export type DeviceType = 'web' | 'desktop' | 'mobile' | 'tablet';
+
+// Track as sent over the wire (library API shape, shared with the web player)
+export interface RemoteTrack {
+  id: number;
+  title: string;
+  artist: string;
+  album?: string | null;
+  album_cover?: string | null;
+  duration?: number | null;
+}
+
+export interface RemoteDevice {
+  deviceId: string;
+  deviceName: string;
+  deviceType: DeviceType;
+  isPlaying: boolean;
+  currentTrack: RemoteTrack | null;
+  currentTime: number;
+  duration: number;
+  volume: number | null;
+  receivedAt: number;
+}
+
+export interface RemotePlaybackState {
+  isPlaying: boolean;
+  currentTrack: RemoteTrack | null;
+  currentTime: number;
+  duration: number;
+  volume: number;
+  queue: RemoteTrack[];
+  currentIndex: number;
+  isShuffled: boolean;
+  repeatMode: 'off' | 'all' | 'one';
+}
+
+export type RemoteAction =
+  | 'START_CONTROL'
+  | 'STOP_CONTROL'
+  | 'PLAY'
+  | 'PAUSE'
+  | 'NEXT'
+  | 'PREVIOUS'
+  | 'SEEK'
+  | 'SET_VOLUME'
+  | 'TRANSFER_TO';
+
+export interface RemoteCommandData {
+  time?: number;
+  volume?: number;
+  deviceId?: string;
+}
+
+export interface DeviceSnapshot {
+  deviceId: string | null;
+  isConnected: boolean;
+  devices: RemoteDevice[];
+  controllingDeviceId: string | null;
+}
+
+type Listener = (snapshot: DeviceSnapshot) => void;
+
+const toRemoteTrack = (track: Track): RemoteTrack => ({
+  id: Number(track.id),
+  title: track.title ?? 'Unknown',
+  artist: track.artist ?? 'Unknown Artist',
+  album: track.album ?? null,
+  album_cover: typeof track.artwork === 'string' ? track.artwork : null,
+  duration: typeof track.duration === 'number' ? track.duration : null,
+});
+
+const toRepeatMode = (mode: RepeatMode): RemotePlaybackState['repeatMode'] => {
+  if (mode === RepeatMode.Track) {
+    return 'one';
+  }
+  return mode === RepeatMode.Queue ? 'all' : 'off';
+};
+
+const fromRepeatMode = (mode: RemotePlaybackState['repeatMode']) => {
+  if (mode === 'one') {
+    return RepeatMode.Track;
+  }
+  return mode === 'all' ? RepeatMode.Queue : RepeatMode.Off;
+};
+
+const createDeviceId = () =>
+  `mobile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Client for the server's /ws device protocol: lists this account's other
+ * devices, lets them control this player and hands playback between devices.
+ */
+export class DeviceManager {
+  private ws: WebSocket | null = null;
+  private token: string | null = null;
+  private baseUrl: string | null = null;
+  private deviceId: string | null = null;
+  private devices = new Map<string, RemoteDevice>();
+  private controllingDeviceId: string | null = null;
+  private listeners = new Set<Listener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = RECONNECT_MIN_DELAY;
+  private broadcastTimer: ReturnType<typeof setInterval> | null = null;
+  private playerSubscriptions: { remove: () => void }[] = [];
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  snapshot(): DeviceSnapshot {
+    return {
+      deviceId: this.deviceId,
+      isConnected: this.ws?.readyState === WebSocket.OPEN,
+      devices: Array.from(this.devices.values()),
+      controllingDeviceId: this.controllingDeviceId,
+    };
+  }
+
+  /**
+   * Connect and register this device. Reconnects with backoff until stop().
+   */
+  async start(token: string, baseUrl: string) {
+    if (this.ws && this.token === token && this.baseUrl === baseUrl) {
+      return;
+    }
+    this.stop();
+    this.token = token;
+    this.baseUrl = baseUrl;
+    this.deviceId = await this.loadDeviceId();
+    this.attachPlayerListeners();
+    this.open();
+  }
+
+  stop() {
+    this.token = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.detachPlayerListeners();
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+    }
+    this.devices.clear();
+    this.controllingDeviceId = null;
+    this.notify();
+  }
+
+  startControl(targetDeviceId: string) {
+    if (this.controllingDeviceId && this.controllingDeviceId !== targetDeviceId) {
+      this.stopControl();
+    }
+    this.send('CONTROL_DEVICE', { targetDeviceId, action: 'START_CONTROL' });
+  }
+
+  stopControl() {
+    if (!this.controllingDeviceId) {
+      return;
+    }
+    this.send('CONTROL_DEVICE', { targetDeviceId: this.controllingDeviceId, action: 'STOP_CONTROL' });
+    this.controllingDeviceId = null;
+    this.notify();
+  }
+
+  sendCommand(action: RemoteAction, data?: RemoteCommandData) {
+    if (!this.controllingDeviceId) {
+      return;
+    }
+    this.send('CONTROL_DEVICE', { targetDeviceId: this.controllingDeviceId, action, data });
+  }
+
+  /**
+   * Hand the local queue and position over to another device
+   */
+  async transferTo(toDeviceId: string) {
+    const playbackState = await this.getPlaybackState();
+    if (!playbackState.currentTrack) {
+      return;
+    }
+    this.send('TRANSFER_PLAYBACK', { toDeviceId, playbackState });
+  }
+
+  /**
+   * Ask another device to hand its playback over to this one
+   */
+  pullPlayback(sourceDeviceId: string) {
+    this.send('CONTROL_DEVICE', {
+      targetDeviceId: sourceDeviceId,
+      action: 'TRANSFER_TO',
+      data: { deviceId: this.deviceId },
+    });
+  }
+
+  /**
+   * Position of a remote device, extrapolated from its last update while playing
+   */
+  remotePosition(device: RemoteDevice) {
+    if (!device.isPlaying) {
+      return device.currentTime;
+    }
+    const elapsed = Math.max(0, (Date.now() - device.receivedAt) / 1000);
+    return Math.min(device.currentTime + elapsed, device.duration || Infinity);
+  }
+
+  async broadcastState() {
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    try {
+      this.send('PLAYBACK_STATE', await this.getPlaybackState());
+    } catch (error) {
+      console.warn('Failed to read playback state', error);
+    }
+  }
+
+  private async getPlaybackState(): Promise<RemotePlaybackState> {
+    const [queue, index, state, progress, volume, repeatMode] = await Promise.all([
+      TrackPlayer.getQueue(),
+      TrackPlayer.getActiveTrackIndex(),
+      TrackPlayer.getPlaybackState(),
+      TrackPlayer.getProgress(),
+      TrackPlayer.getVolume(),
+      TrackPlayer.getRepeatMode(),
+    ]);
+    const current = index != null ? queue[index] : undefined;
+    return {
+      isPlaying: state.state === State.Playing || state.state === State.Buffering,
+      currentTrack: current ? toRemoteTrack(current) : null,
+      currentTime: progress.position,
+      duration: progress.duration || (typeof current?.duration === 'number' ? current.duration : 0),
+      volume,
+      queue: queue.map(toRemoteTrack),
+      currentIndex: index ?? 0,
+      isShuffled: false,
+      repeatMode: toRepeatMode(repeatMode),
+    };
+  }
+
+  private async loadDeviceId() {
+    const stored = await AsyncStorage.getItem(DEVICE_ID_KEY);
+    if (stored) {
+      return stored;
+    }
+    const id = createDeviceId();
+    await AsyncStorage.setItem(DEVICE_ID_KEY, id);
+    return id;
+  }
+
+  private socketUrl() {
+    const base = (this.baseUrl ?? '').replace(/\/+$/, '');
+    return `${base.replace(/^http/, 'ws')}/ws`;
+  }
+
+  private open() {
+    if (!this.token || !this.deviceId) {
+      return;
+    }
+    const ws = new WebSocket(this.socketUrl());
+    this.ws = ws;
+
+    ws.onopen = () => {
+      this.reconnectDelay = RECONNECT_MIN_DELAY;
+      this.send('REGISTER_DEVICE', {
+        deviceId: this.deviceId,
+        deviceName: `Noxa on ${Platform.OS === 'ios' ? 'iPhone' : 'Android'}`,
+        deviceType: 'mobile',
+        token: this.token,
+      });
+      this.notify();
+      this.broadcastState();
+    };
+
+    ws.onmessage = event => {
+      try {
+        const { type, payload } = JSON.parse(String(event.data));
+        this.handleMessage(type, payload);
+      } catch (error) {
+        console.warn('Invalid device message', error);
+      }
+    };
+
+    ws.onclose = () => {
+      if (this.ws !== ws) {
+        return;
+      }
+      this.ws = null;
+      this.devices.clear();
+      this.controllingDeviceId = null;
+      this.notify();
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (!this.token || this.reconnectTimer) {
+      return;
+    }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.token && !this.ws) {
+        this.open();
+      }
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_DELAY);
+  }
+
+  private send(type: string, payload: object) {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ type, payload }));
+    }
+  }
+
+  private handleMessage(type: string, payload: any) {
+    switch (type) {
+      case 'DEVICE_LIST': {
+        const previous = this.devices;
+        this.devices = new Map();
+        (payload?.devices ?? [])
+          .filter((device: RemoteDevice) => device.deviceId !== this.deviceId)
+          .forEach((device: RemoteDevice) => {
+            this.devices.set(device.deviceId, {
+              ...previous.get(device.deviceId),
+              ...device,
+              currentTime: device.currentTime ?? 0,
+              duration: device.duration ?? 0,
+              volume: device.volume ?? null,
+              receivedAt: Date.now(),
+            });
+          });
+        if (this.controllingDeviceId && !this.devices.has(this.controllingDeviceId)) {
+          this.controllingDeviceId = null;
+        }
+        this.notify();
+        break;
+      }
+      case 'PLAYBACK_UPDATE': {
+        const device = this.devices.get(payload?.sourceDeviceId);
+        if (device) {
+          this.devices.set(device.deviceId, {
+            ...device,
+            isPlaying: !!payload.isPlaying,
+            currentTrack: payload.currentTrack ?? null,
+            currentTime: payload.currentTime ?? 0,
+            duration: payload.duration ?? 0,
+            volume: payload.volume ?? null,
+            receivedAt: Date.now(),
+          });
+          this.notify();
+        }
+        break;
+      }
+      case 'CONTROL_STARTED':
+        this.controllingDeviceId = payload?.targetDeviceId ?? null;
+        this.notify();
+        break;
+      case 'CONTROL_COMMAND':
+        this.applyCommand(payload?.action, payload?.data).catch(error =>
+          console.warn('Remote command failed', error),
+        );
+        break;
+      case 'PLAYBACK_TRANSFER':
+        this.receiveTransfer(payload).catch(error => console.warn('Playback transfer failed', error));
+        break;
+      case 'PLAYBACK_TRANSFERRED':
+        TrackPlayer.pause().catch(() => {});
+        break;
+      case 'ERROR':
+        console.warn('Device server error:', payload?.message);
+        break;
+    }
+  }
+
+  private async applyCommand(action: RemoteAction, data?: RemoteCommandData) {
+    switch (action) {
+      case 'PLAY':
+        await TrackPlayer.play();
+        break;
+      case 'PAUSE':
+        await TrackPlayer.pause();
+        break;
+      case 'NEXT':
+        await TrackPlayer.skipToNext();
+        break;
+      case 'PREVIOUS':
+        await TrackPlayer.skipToPrevious();
+        break;
+      case 'SEEK':
+        if (typeof data?.time === 'number') {
+          await TrackPlayer.seekTo(data.time);
+          this.broadcastState();
+        }
+        break;
+      case 'SET_VOLUME':
+        if (typeof data?.volume === 'number') {
+          await TrackPlayer.setVolume(Math.max(0, Math.min(1, data.volume)));
+          this.broadcastState();
+        }
+        break;
+      case 'TRANSFER_TO':
+        if (data?.deviceId) {
+          await this.transferTo(data.deviceId);
+        }
+        break;
+    }
+  }
+
+  private async receiveTransfer(state: RemotePlaybackState) {
+    const songs = parseResponse('PLAYBACK_TRANSFER message', songsSchema, state.queue ?? []);
+    if (songs.length === 0) {
+      return;
+    }
+    await playQueueAt(songs, state.currentIndex ?? 0, state.currentTime ?? 0, !!state.isPlaying);
+    await TrackPlayer.setRepeatMode(fromRepeatMode(state.repeatMode));
+  }
+
+  private attachPlayerListeners() {
+    this.detachPlayerListeners();
+    const broadcast = () => {
+      this.broadcastState();
+    };
+    this.playerSubscriptions = [
+      TrackPlayer.addEventListener(Event.PlaybackState, broadcast),
+      TrackPlayer.addEventListener(Event.PlaybackActiveTrackChanged, broadcast),
+    ];
+    this.broadcastTimer = setInterval(async () => {
+      const { state } = await TrackPlayer.getPlaybackState().catch(() => ({ state: State.None }));
+      if (state === State.Playing) {
+        this.broadcastState();
+      }
+    }, POSITION_BROADCAST_INTERVAL);
+  }
+
+  private detachPlayerListeners() {
+    this.playerSubscriptions.forEach(subscription => subscription.remove());
+    this.playerSubscriptions = [];
+    if (this.broadcastTimer) {
+      clearInterval(this.broadcastTimer);
+      this.broadcastTimer = null;
+    }
+  }
+
+  private notify() {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const deviceManager = new DeviceManager();
@@ -4,12 +4,19 @@ import { Platform } from 'react-native';
 import { getAuthToken } from '../../api/client';
 import { getStreamUrl } from '../../api/service';
 import type { Playlist, Song } from '../../types/models';
+import { detectFileFormat } from './audioFormat';
+
+// Quality songs are downloaded at; lower tiers are transcoded to MP3 by the server
+export type OfflineQuality = 'original' | '320k' | '160k' | '96k';
+
+export const OFFLINE_QUALITY_OPTIONS: OfflineQuality[] = ['original', '320k', '160k', '96k'];
 
 type OfflinePlaylistEntry = {
   playlist: Playlist;
   songIds: number[];
   downloadedAt: string;
   artworkUri?: string | null;
+  pinned?: boolean;
 };
 
 type OfflineTrackEntry = {
@@ -18,20 +25,52 @@ type OfflineTrackEntry = {
   playlistIds: number[];
   artworkUri?: string | null;
   downloadedAt: string;
+  size?: number;
+  lastPlayedAt?: string | null;
+  quality?: OfflineQuality;
+  hash?: string;
+  // The file failed verification and was deleted; downloaded again once online
+  broken?: boolean;
 };
 
 type OfflineCache = {
   playlists: OfflinePlaylistEntry[];
   tracks: OfflineTrackEntry[];
+  storageLimit?: number | null;
+  pinnedAlbums?: string[];
+  quality?: OfflineQuality;
 };
 
-type OfflineSnapshot = {
+export type OfflineStorageUsage = {
+  key: string;
+  type: 'playlist' | 'album';
+  id: number | string;
+  name: string;
+  artist?: string | null;
+  pinned: boolean;
+  size: number;
+  trackCount: number;
+};
+
+export type OfflineVerification = {
+  checked: number;
+  broken: number;
+  orphans: number;
+};
+
+export type OfflineSnapshot = {
   playlists: Record<number, OfflinePlaylistEntry>;
   tracks: Record<number, OfflineTrackEntry>;
   downloadProgress: Record<number, number>;
   activePlaylists: number[];
   songDownloads: number[];
   statusMessage?: string;
+  storageLimit: number | null;
+  usedBytes: number;
+  pinnedAlbums: string[];
+  quality: OfflineQuality;
+  brokenSongs: number[];
+  verifying: boolean;
 };
 
 type Listener = (snapshot: OfflineSnapshot) => void;
@@ -60,6 +99,13 @@ const ensureDirectory = async (path: string) => {
 
 const nowIso = () => new Date().toISOString();
 
+const GB = 1024 ** 3;
+
+// Storage limits offered in the settings, null meaning no limit
+export const STORAGE_LIMIT_OPTIONS: (number | null)[] = [1 * GB, 2 * GB, 5 * GB, 10 * GB, 20 * GB, null];
+
+const UNKNOWN_ALBUM = 'Unknown album';
+
 const getSongArtwork = (song: Song) => song.albumCover ?? song.source ?? null;
 
 export class OfflineManager {
@@ -70,6 +116,11 @@ export class OfflineManager {
   private songDownloads = new Set<number>();
   private listeners = new Set<Listener>();
   private statusMessage?: string;
+  private storageLimit: number | null = null;
+  private pinnedAlbums = new Set<string>();
+  private quality: OfflineQuality = 'original';
+  private verifying = false;
+  private repairing = false;
   private metadataLoaded = false;
   private loadingPromise: Promise<void> | null = null;
 
@@ -81,6 +132,8 @@ export class OfflineManager {
       await ensureDirectory(CACHE_DIR);
       await ensureDirectory(ARTWORK_DIR);
       await this.loadCache();
+      await this.measureTracks();
+      await this.verifyFiles(false);
       this.metadataLoaded = true;
       this.notify();
     })();
@@ -103,6 +156,14 @@ export class OfflineManager {
       activePlaylists: Array.from(this.activePlaylists),
       songDownloads: Array.from(this.songDownloads),
       statusMessage: this.statusMessage,
+      storageLimit: this.storageLimit,
+      usedBytes: this.usedBytes(),
+      pinnedAlbums: Array.from(this.pinnedAlbums),
+      quality: this.quality,
+      brokenSongs: Array.from(this.tracks.values())
+        .filter(track => track.broken)
+        .map(track => track.song.id),
+      verifying: this.verifying,
     };
   }
 
@@ -121,13 +182,18 @@ export class OfflineManager {
       let completed = 0;
       for (const song of songs) {
         const alreadyLocal = this.tracks.get(song.id);
-        if (!alreadyLocal) {
+        if (!alreadyLocal || alreadyLocal.broken) {
           const filePath = await this.downloadSongFile(song);
           if (!filePath) {
             continue;
           }
+          const size = await this.reserveSpace(song, filePath);
+          if (size === null) {
+            break;
+          }
           const artwork = await this.fetchArtwork(song);
           this.storeTrack(song, filePath, artwork, playlist.id, playlist);
+          Object.assign(this.tracks.get(song.id)!, { size, quality: this.quality, hash: await this.fileHash(filePath) });
         } else {
           this.attachTrackToPlaylist(song, playlist.id, playlist);
         }
@@ -135,7 +201,9 @@ export class OfflineManager {
         this.downloadProgress.set(playlist.id, Math.min(1, completed / songs.length));
         this.notify();
       }
-      this.statusMessage = `Offline download ready: ${playlist.name}`;
+      if (completed === songs.length) {
+        this.statusMessage = `Offline download ready: ${playlist.name}`;
+      }
     } finally {
       this.activePlaylists.delete(playlist.id);
       this.downloadProgress.delete(playlist.id);
@@ -151,7 +219,7 @@ export class OfflineManager {
     if (this.songDownloads.has(song.id)) {
       return;
     }
-    if (this.tracks.has(song.id)) {
+    if (this.isSongDownloaded(song.id)) {
       if (playlistId) {
         this.attachTrackToPlaylist(song, playlistId, playlist);
       }
@@ -164,8 +232,13 @@ export class OfflineManager {
       if (!file) {
         return;
       }
+      const size = await this.reserveSpace(song, file);
+      if (size === null) {
+        return;
+      }
       const artwork = await this.fetchArtwork(song);
       this.storeTrack(song, file, artwork, playlistId, playlist);
+      Object.assign(this.tracks.get(song.id)!, { size, quality: this.quality, hash: await this.fileHash(file) });
       this.statusMessage = `${song.title} saved for offline playback`;
       await this.persistCache();
       this.notify();
@@ -247,6 +320,115 @@ export class OfflineManager {
     }
   }
 
+  /**
+   * Follow a playlist's new song order in its downloaded copy
+   */
+  async reorderPlaylist(playlistId: number, songIds: number[]) {
+    const entry = this.playlists.get(playlistId);
+    if (!entry) {
+      return;
+    }
+    const ordered = songIds.filter(id => entry.songIds.includes(id));
+    const rest = entry.songIds.filter(id => !songIds.includes(id));
+    this.playlists.set(playlistId, { ...entry, songIds: [...ordered, ...rest] });
+    await this.persistCache();
+    this.notify();
+  }
+
+  async setStorageLimit(limit: number | null) {
+    this.storageLimit = limit;
+    // Lowering the limit evicts right away, as far as pinned collections allow
+    await this.makeRoom(0);
+    await this.persistCache();
+    this.notify();
+  }
+
+  /**
+   * Quality for downloads started from now on; saved songs keep theirs
+   */
+  async setQuality(quality: OfflineQuality) {
+    this.quality = quality;
+    await this.persistCache();
+    this.notify();
+  }
+
+  async setPlaylistPinned(playlistId: number, pinned: boolean) {
+    const entry = this.playlists.get(playlistId);
+    if (!entry) {
+      return;
+    }
+    this.playlists.set(playlistId, { ...entry, pinned });
+    await this.persistCache();
+    this.notify();
+  }
+
+  async setAlbumPinned(album: string, pinned: boolean) {
+    if (pinned) {
+      this.pinnedAlbums.add(album);
+    } else {
+      this.pinnedAlbums.delete(album);
+    }
+    await this.persistCache();
+    this.notify();
+  }
+
+  /**
+   * Remember when a downloaded song was last played; the least recently
+   * played songs are evicted first when storage runs out
+   */
+  async markPlayed(songId: number) {
+    const track = this.tracks.get(songId);
+    if (!track) {
+      return;
+    }
+    this.tracks.set(songId, { ...track, lastPlayedAt: nowIso() });
+    await this.persistCache();
+  }
+
+  /**
+   * Storage used per downloaded playlist and per album, largest first. Songs in
+   * several playlists count towards each of them.
+   */
+  storageBreakdown(): OfflineStorageUsage[] {
+    const playlists: OfflineStorageUsage[] = Array.from(this.playlists.values()).map(entry => {
+      const tracks = entry.songIds
+        .map(id => this.tracks.get(id))
+        .filter(track => track && !track.broken) as OfflineTrackEntry[];
+      return {
+        key: `playlist:${entry.playlist.id}`,
+        type: 'playlist',
+        id: entry.playlist.id,
+        name: entry.playlist.name,
+        pinned: !!entry.pinned,
+        size: tracks.reduce((sum, track) => sum + (track.size ?? 0), 0),
+        trackCount: tracks.length,
+      };
+    });
+
+    const albums = new Map<string, OfflineStorageUsage>();
+    this.tracks.forEach(track => {
+      if (track.broken) {
+        return;
+      }
+      const album = track.song.album || UNKNOWN_ALBUM;
+      const usage = albums.get(album) ?? {
+        key: `album:${album}`,
+        type: 'album',
+        id: album,
+        name: album,
+        artist: track.song.artist,
+        pinned: this.pinnedAlbums.has(album),
+        size: 0,
+        trackCount: 0,
+      };
+      usage.size += track.size ?? 0;
+      usage.trackCount += 1;
+      albums.set(album, usage);
+    });
+
+    return [...playlists, ...albums.values()].sort((a, b) => b.size - a.size);
+  }
+
   isPlaylistDownloaded(playlistId: number) {
     return this.playlists.has(playlistId);
   }
@@ -258,17 +440,18 @@ export class OfflineManager {
     }
     return entry.songIds
       .map(id => this.tracks.get(id))
-      .filter(Boolean)
+      .filter(track => track && !track.broken)
       .map(track => track!.song);
   }
 
   isSongDownloaded(songId: number) {
-    return this.tracks.has(songId);
+    const track = this.tracks.get(songId);
+    return !!track && !track.broken;
   }
 
   localUri(songId: number) {
     const track = this.tracks.get(songId);
-    return track?.localFile ?? null;
+    return track && !track.broken ? track.localFile : null;
   }
 
   artworkUri(songId: number) {
@@ -276,14 +459,241 @@ export class OfflineManager {
     return track?.artworkUri ?? null;
   }
 
+  /**
+   * Check downloaded files against their metadata. A quick check looks at
+   * existence and size, a full one also compares checksums. Damaged files are
+   * deleted and flagged for download, files nothing refers to are removed.
+   */
+  async verify(full = false) {
+    if (!this.metadataLoaded) {
+      await this.initialize();
+    }
+    return this.verifyFiles(full);
+  }
+
+  /**
+   * Download songs flagged as broken again, keeping their playlists
+   */
+  async repairBroken() {
+    if (!this.metadataLoaded) {
+      await this.initialize();
+    }
+    if (this.repairing) {
+      return;
+    }
+    this.repairing = true;
+    try {
+      const broken = Array.from(this.tracks.values()).filter(track => track.broken);
+      for (const track of broken) {
+        await this.downloadSong(track.song);
+      }
+    } finally {
+      this.repairing = false;
+    }
+  }
+
   downloadedSongs() {
-    return Array.from(this.tracks.values()).map(entry => entry.song);
+    return Array.from(this.tracks.values())
+      .filter(entry => !entry.broken)
+      .map(entry => entry.song);
   }
 
   downloadedPlaylists() {
     return Array.from(this.playlists.values());
   }
 
+  private usedBytes() {
+    let total = 0;
+    this.tracks.forEach(track => {
+      total += track.size ?? 0;
+    });
+    return total;
+  }
+
+  private isPinned(track: OfflineTrackEntry) {
+    return (
+      this.pinnedAlbums.has(track.song.album || UNKNOWN_ALBUM) ||
+      track.playlistIds.some(id => this.playlists.get(id)?.pinned)
+    );
+  }
+
+  /**
+   * Make room for a freshly downloaded file. Returns its size, or null (after
+   * deleting the file) when it doesn't fit under the storage limit.
+   */
+  private async reserveSpace(song: Song, localFile: string) {
+    const size = await this.fileSize(localFile);
+    if (await this.makeRoom(size, song.id)) {
+      return size;
+    }
+    await this.deleteFile(localFile).catch(() => undefined);
+    this.statusMessage = `Offline storage limit reached, ${song.title} was not saved`;
+    this.notify();
+    return null;
+  }
+
+  /**
+   * Evict the least recently played songs outside pinned playlists and albums
+   * until `bytes` more fit under the storage limit. When a download can't fit
+   * even after evicting everything allowed, nothing is evicted.
+   */
+  private async makeRoom(bytes: number, keepSongId?: number) {
+    if (this.storageLimit === null) {
+      return true;
+    }
+    let used = this.usedBytes();
+    if (used + bytes <= this.storageLimit) {
+      return true;
+    }
+
+    const lastUsed = (track: OfflineTrackEntry) => Date.parse(track.lastPlayedAt ?? track.downloadedAt) || 0;
+    const candidates = Array.from(this.tracks.values())
+      .filter(track => track.song.id !== keepSongId && !track.broken && !this.isPinned(track))
+      .sort((a, b) => lastUsed(a) - lastUsed(b));
+
+    const evictable = candidates.reduce((sum, track) => sum + (track.size ?? 0), 0);
+    if (bytes > 0 && used - evictable + bytes > this.storageLimit) {
+      return false;
+    }
+
+    for (const track of candidates) {
+      if (used + bytes <= this.storageLimit) {
+        break;
+      }
+      await this.removeTrack(track.song.id);
+      used -= track.size ?? 0;
+    }
+    return used + bytes <= this.storageLimit;
+  }
+
+  private async verifyFiles(full: boolean): Promise<OfflineVerification> {
+    if (this.verifying) {
+      return { checked: 0, broken: 0, orphans: 0 };
+    }
+    this.verifying = true;
+    this.notify();
+    try {
+      const tracks = Array.from(this.tracks.values()).filter(
+        track => !track.broken && !this.songDownloads.has(track.song.id),
+      );
+      let broken = 0;
+      for (const track of tracks) {
+        if (await this.isIntact(track, full)) {
+          continue;
+        }
+        await this.deleteFile(track.localFile).catch(() => undefined);
+        this.tracks.set(track.song.id, { ...track, size: 0, hash: undefined, broken: true });
+        broken += 1;
+      }
+      const orphans = await this.removeOrphanedFiles();
+      if (broken || full) {
+        await this.persistCache();
+      }
+      if (broken) {
+        this.statusMessage = `${broken} damaged downloads will be downloaded again`;
+      }
+      return { checked: tracks.length, broken, orphans };
+    } finally {
+      this.verifying = false;
+      this.notify();
+    }
+  }
+
+  /**
+   * Whether a song's file exists with the recorded size (and checksum, for a
+   * full check). Songs saved before checksums were kept get theirs recorded.
+   */
+  private async isIntact(track: OfflineTrackEntry, full: boolean) {
+    const path = track.localFile.replace('file://', '');
+    try {
+      if (!(await RNFS.exists(path))) {
+        return false;
+      }
+      const size = Number((await RNFS.stat(path)).size) || 0;
+      if (track.size && size !== track.size) {
+        return false;
+      }
+      if (!full) {
+        return true;
+      }
+      const hash = await this.fileHash(track.localFile);
+      if (!track.hash) {
+        track.hash = hash;
+        return true;
+      }
+      return hash === track.hash;
+    } catch (error) {
+      console.warn('Failed to verify offline file', track.localFile, error);
+      return true;
+    }
+  }
+
+  /**
+   * Delete songs and artwork in the cache folder that no entry refers to,
+   * e.g. leftovers of interrupted downloads. Skipped while downloads run.
+   */
+  private async removeOrphanedFiles() {
+    if (this.songDownloads.size || this.activePlaylists.size) {
+      return 0;
+    }
+    const referenced = new Set<string>([METADATA_FILE]);
+    this.tracks.forEach(track => {
+      referenced.add(track.localFile.replace('file://', ''));
+      if (track.artworkUri?.startsWith('file://')) {
+        referenced.add(track.artworkUri.replace('file://', ''));
+      }
+    });
+    this.playlists.forEach(entry => {
+      if (entry.artworkUri?.startsWith('file://')) {
+        referenced.add(entry.artworkUri.replace('file://', ''));
+      }
+    });
+
+    let removed = 0;
+    for (const dir of [CACHE_DIR, ARTWORK_DIR]) {
+      const items = await RNFS.readDir(dir).catch(() => []);
+      for (const item of items) {
+        if (!item.isFile() || referenced.has(item.path)) {
+          continue;
+        }
+        await RNFS.unlink(item.path).catch(() => undefined);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+
+  private async fileHash(uri: string) {
+    try {
+      return `sha256:${await RNFS.hash(uri.replace('file://', ''), 'sha256')}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async fileSize(uri: string) {
+    try {
+      const stat = await RNFS.stat(uri.replace('file://', ''));
+      return Number(stat.size) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Record sizes of songs downloaded before sizes were tracked
+   */
+  private async measureTracks() {
+    const unmeasured = Array.from(this.tracks.values()).filter(track => track.size === undefined);
+    if (!unmeasured.length) {
+      return;
+    }
+    for (const track of unmeasured) {
+      track.size = await this.fileSize(track.localFile);
+    }
+    await this.persistCache();
+  }
+
   private attachTrackToPlaylist(song: Song, playlistId?: number, playlist?: Playlist) {
     if (!playlistId) {
       return;
@@ -378,9 +788,12 @@ export class OfflineManager {
     if (!streamUrl) {
       return null;
     }
+    const fromUrl = this.quality === 'original' ? streamUrl : `${streamUrl}?quality=${this.quality}`;
     await ensureDirectory(CACHE_DIR);
-    const safeFileName = `song_${song.id}_${Date.now()}.mp3`;
-    const destination = `${CACHE_DIR}/${safeFileName}`;
+    // The extension is only known once the file is in, see below
+    const baseName = `${CACHE_DIR}/song_${song.id}_${Date.now()}`;
+    const destination = `${baseName}.download`;
+    let contentType: string | undefined;
     const headers: Record<string, string> = {};
     const token = getAuthToken();
     if (token) {
@@ -388,17 +801,24 @@ export class OfflineManager {
     }
     try {
       const { statusCode } = await RNFS.downloadFile({
-        fromUrl: streamUrl,
+        fromUrl,
         toFile: destination,
         headers,
         discretionary: true,
         cacheable: false,
+        begin: ({ headers: responseHeaders }) => {
+          contentType = responseHeaders['Content-Type'] ?? responseHeaders['content-type'];
+        },
       }).promise;
       if (statusCode && statusCode >= 400) {
         await RNFS.unlink(destination).catch(() => undefined);
         return null;
       }
-      return `file://${destination}`;
+      // Name the file after its real container type so players accept it
+      const format = await detectFileFormat(destination, contentType);
+      const finalPath = `${baseName}.${format.extension}`;
+      await RNFS.moveFile(destination, finalPath);
+      return `file://${finalPath}`;
     } catch (error) {
       await RNFS.unlink(destination).catch(() => undefined);
       console.warn('Offline download failed', error);
@@ -463,6 +883,9 @@ export class OfflineManager {
       const parsed: OfflineCache = JSON.parse(raw);
       this.playlists = new Map(parsed.playlists.map(entry => [entry.playlist.id, entry]));
       this.tracks = new Map(parsed.tracks.map(entry => [entry.song.id, entry]));
+      this.storageLimit = parsed.storageLimit ?? null;
+      this.pinnedAlbums = new Set(parsed.pinnedAlbums ?? []);
+      this.quality = parsed.quality ?? 'original';
     } catch (error) {
       console.warn('Failed to load offline cache', error);
     }
@@ -472,6 +895,9 @@ export class OfflineManager {
     const cache: OfflineCache = {
       playlists: Array.from(this.playlists.values()),
       tracks: Array.from(this.tracks.values()),
+      storageLimit: this.storageLimit,
+      pinnedAlbums: Array.from(this.pinnedAlbums),
+      quality: this.quality,
     };
     try {
       await RNFS.writeFile(METADATA_FILE, JSON.stringify(cache), 'utf8');
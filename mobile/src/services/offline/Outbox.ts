@@ -0,0 +1,245 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+
+import {
+  addTrackToPlaylist,
+  endListen,
+  fetchPlaylistTracks,
+  removeTrackFromPlaylist,
+  reorderPlaylist,
+  startListen,
+  type ServiceError,
+} from '../../api/service';
+
+// Playlist edits and listens made while offline, replayed once the connection is back
+export type OutboxMutation =
+  | { type: 'addTrack'; playlistId: number; musicId: number }
+  | { type: 'removeTrack'; playlistId: number; musicId: number }
+  // baseSongIds is the order the edit was made on, to spot changes made elsewhere
+  | { type: 'reorder'; playlistId: number; songIds: number[]; baseSongIds: number[] }
+  // A finished listen, started and ended on the server in one go. The times
+  // (ms) keep a listen replayed later dated to when it was played.
+  | {
+      type: 'listen';
+      userId: number;
+      musicId: number;
+      durationListened: number;
+      completed: boolean;
+      skipped: boolean;
+      startedAt: number;
+      endedAt: number;
+    };
+
+type OutboxEntry = {
+  id: number;
+  createdAt: string;
+  mutation: OutboxMutation;
+};
+
+type OutboxSnapshot = {
+  pending: number;
+  syncing: boolean;
+  // Outcome of the last sync: edits merged with changes made elsewhere, and
+  // edits the server refused (e.g. the playlist was deleted)
+  merged: number;
+  rejected: number;
+};
+
+type Listener = (snapshot: OutboxSnapshot) => void;
+
+type ReplayResult = 'applied' | 'merged' | 'rejected';
+
+const STORAGE_KEY = 'noxa_offline_outbox';
+
+const isRejected = (error: unknown) => {
+  const status = (error as ServiceError | undefined)?.status;
+  return typeof status === 'number' && status >= 400 && status < 500;
+};
+
+const isConnected = async () => (await NetInfo.fetch()).isConnected ?? true;
+
+const sendMutation = async (mutation: OutboxMutation) => {
+  switch (mutation.type) {
+    case 'addTrack':
+      return addTrackToPlaylist(mutation.playlistId, mutation.musicId);
+    case 'removeTrack':
+      return removeTrackFromPlaylist(mutation.playlistId, mutation.musicId);
+    case 'reorder':
+      return reorderPlaylist(
+        mutation.playlistId,
+        mutation.songIds.map((musicId, index) => ({ musicId, position: index + 1 })),
+      );
+    case 'listen': {
+      const { userId, musicId, startedAt, ...listen } = mutation;
+      return endListen(await startListen(userId, musicId, startedAt), listen);
+    }
+  }
+};
+
+/**
+ * Replay an edit against the playlist as it is on the server now. Edits that
+ * already happened elsewhere are skipped; a reorder of a playlist changed in
+ * the meantime keeps the offline order for the songs it knew about and moves
+ * songs added elsewhere to the end.
+ */
+const replayMutation = async (mutation: OutboxMutation): Promise<ReplayResult> => {
+  if (mutation.type === 'listen') {
+    await sendMutation(mutation);
+    return 'applied';
+  }
+  const current = (await fetchPlaylistTracks(mutation.playlistId)).map(song => song.id);
+  if (mutation.type === 'addTrack' && current.includes(mutation.musicId)) {
+    return 'applied';
+  }
+  if (mutation.type === 'removeTrack' && !current.includes(mutation.musicId)) {
+    return 'applied';
+  }
+  if (mutation.type === 'reorder') {
+    const unchanged =
+      current.length === mutation.baseSongIds.length &&
+      current.every((id, index) => id === mutation.baseSongIds[index]);
+    if (!unchanged) {
+      const songIds = [
+        ...mutation.songIds.filter(id => current.includes(id)),
+        ...current.filter(id => !mutation.songIds.includes(id)),
+      ];
+      await sendMutation({ ...mutation, songIds });
+      return 'merged';
+    }
+  }
+  await sendMutation(mutation);
+  return 'applied';
+};
+
+export class Outbox {
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<Listener>();
+  private syncing = false;
+  private merged = 0;
+  private rejected = 0;
+  private loadingPromise: Promise<void> | null = null;
+
+  async initialize() {
+    if (this.loadingPromise) {
+      return this.loadingPromise;
+    }
+    this.loadingPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY);
+        const stored: OutboxEntry[] = raw ? JSON.parse(raw) : [];
+        this.entries = [...stored, ...this.entries].sort((a, b) => a.id - b.id);
+      } catch (error) {
+        console.warn('Failed to load offline outbox', error);
+      }
+      NetInfo.addEventListener(info => {
+        if (info.isConnected) {
+          this.flush().catch(error => console.warn('Offline outbox sync failed', error));
+        }
+      });
+      this.notify();
+    })();
+    await this.loadingPromise;
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  snapshot(): OutboxSnapshot {
+    return {
+      pending: this.entries.length,
+      syncing: this.syncing,
+      merged: this.merged,
+      rejected: this.rejected,
+    };
+  }
+
+  /**
+   * Send an edit now, or keep it for later when there is no connection.
+   * Resolves to true when the edit was queued rather than sent.
+   */
+  async runOrQueue(mutation: OutboxMutation) {
+    await this.initialize();
+    if (!this.entries.length && (await isConnected())) {
+      try {
+        await sendMutation(mutation);
+        return false;
+      } catch (error) {
+        // Only a lost connection is worth queueing for
+        if (await isConnected()) {
+          throw error;
+        }
+      }
+    }
+
+    const last = this.entries[this.entries.length - 1];
+    this.entries.push({
+      id: Math.max(Date.now(), (last?.id ?? 0) + 1),
+      createdAt: new Date().toISOString(),
+      mutation,
+    });
+    await this.persist();
+    this.notify();
+    return true;
+  }
+
+  async flush() {
+    await this.initialize();
+    if (this.syncing || !this.entries.length) {
+      return;
+    }
+    this.syncing = true;
+    this.merged = 0;
+    this.rejected = 0;
+    this.notify();
+
+    try {
+      while (this.entries.length && (await isConnected())) {
+        const [entry] = this.entries;
+        let result: ReplayResult;
+        try {
+          result = await replayMutation(entry.mutation);
+        } catch (error) {
+          if (!isRejected(error)) {
+            // Connection dropped or the server is struggling, try again later
+            console.warn('Offline outbox replay interrupted', error);
+            break;
+          }
+          console.warn('Offline edit rejected by the server', entry.mutation, error);
+          result = 'rejected';
+        }
+        if (result === 'merged') {
+          this.merged += 1;
+        } else if (result === 'rejected' && entry.mutation.type !== 'listen') {
+          // Listens are best effort, only playlist edits are worth reporting
+          this.rejected += 1;
+        }
+        this.entries = this.entries.filter(item => item.id !== entry.id);
+        await this.persist();
+        this.notify();
+      }
+    } finally {
+      this.syncing = false;
+      this.notify();
+    }
+  }
+
+  private notify() {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.warn('Failed to persist offline outbox', error);
+    }
+  }
+}
+
+export const outbox = new Outbox();
@@ -0,0 +1,107 @@
+import RNFS from 'react-native-fs';
+
+export type AudioFormat = {
+  extension: string;
+  mimeType: string;
+};
+
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = { extension: 'mp3', mimeType: 'audio/mpeg' };
+
+const FORMATS: Record<string, AudioFormat> = {
+  mp3: DEFAULT_AUDIO_FORMAT,
+  flac: { extension: 'flac', mimeType: 'audio/flac' },
+  m4a: { extension: 'm4a', mimeType: 'audio/mp4' },
+  aac: { extension: 'aac', mimeType: 'audio/aac' },
+  ogg: { extension: 'ogg', mimeType: 'audio/ogg' },
+  opus: { extension: 'opus', mimeType: 'audio/ogg; codecs=opus' },
+  wav: { extension: 'wav', mimeType: 'audio/wav' },
+};
+
+const MIME_FORMATS: Record<string, AudioFormat> = {
+  'audio/mpeg': FORMATS.mp3,
+  'audio/mp3': FORMATS.mp3,
+  'audio/flac': FORMATS.flac,
+  'audio/x-flac': FORMATS.flac,
+  'audio/mp4': FORMATS.m4a,
+  'audio/x-m4a': FORMATS.m4a,
+  'audio/aac': FORMATS.aac,
+  'audio/ogg': FORMATS.ogg,
+  'audio/opus': FORMATS.opus,
+  'audio/wav': FORMATS.wav,
+  'audio/x-wav': FORMATS.wav,
+};
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const decodeBase64 = (input: string) => {
+  const clean = input.replace(/[=]+$/, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i += 4) {
+    const chunk = clean.slice(i, i + 4);
+    const value = Array.from({ length: 4 }, (_, j) =>
+      j < chunk.length ? BASE64_ALPHABET.indexOf(chunk[j]) : 0,
+    ).reduce((sum, digit) => sum * 64 + digit, 0);
+    // Each full group of 4 characters carries 3 bytes
+    [65536, 256, 1].slice(0, chunk.length - 1).forEach(divisor => {
+      bytes.push(Math.floor(value / divisor) % 256);
+    });
+  }
+  return bytes;
+};
+
+const ascii = (bytes: number[], start: number, length: number) =>
+  String.fromCharCode(...bytes.slice(start, start + length));
+
+const detectFromBytes = (bytes: number[]): AudioFormat | null => {
+  if (ascii(bytes, 0, 4) === 'fLaC') {
+    return FORMATS.flac;
+  }
+  if (ascii(bytes, 0, 4) === 'OggS') {
+    return ascii(bytes, 0, 64).includes('OpusHead') ? FORMATS.opus : FORMATS.ogg;
+  }
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    return FORMATS.m4a;
+  }
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') {
+    return FORMATS.wav;
+  }
+  if (ascii(bytes, 0, 3) === 'ID3') {
+    return FORMATS.mp3;
+  }
+  // ADTS (AAC) and MPEG audio frame sync words
+  if (bytes[0] === 0xff && [0xf0, 0xf1, 0xf8, 0xf9].includes(bytes[1])) {
+    return FORMATS.aac;
+  }
+  if (bytes[0] === 0xff && bytes[1] >= 0xe0) {
+    return FORMATS.mp3;
+  }
+  return null;
+};
+
+const formatFromMimeType = (contentType?: string | null): AudioFormat | null => {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (!mimeType) {
+    return null;
+  }
+  if (mimeType === 'audio/ogg' && /codecs="?opus/i.test(contentType ?? '')) {
+    return FORMATS.opus;
+  }
+  return MIME_FORMATS[mimeType] ?? null;
+};
+
+/**
+ * Real container type of a downloaded file: magic bytes first, then the
+ * Content-Type the server sent
+ */
+export const detectFileFormat = async (path: string, contentType?: string | null) => {
+  try {
+    const head = await RNFS.read(path, 64, 0, 'base64');
+    const detected = detectFromBytes(decodeBase64(head));
+    if (detected) {
+      return detected;
+    }
+  } catch (error) {
+    console.warn('Could not read downloaded file header', error);
+  }
+  return formatFromMimeType(contentType) ?? DEFAULT_AUDIO_FORMAT;
+};
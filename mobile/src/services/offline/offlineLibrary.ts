@@ -0,0 +1,99 @@
+import type { Song } from '../../types/models';
+import type { OfflineSnapshot } from './OfflineManager';
+
+// Artists and albums built from downloaded songs, for browsing without a connection
+export type OfflineArtist = {
+  id: string;
+  name: string;
+  trackCount: number;
+  songs: Song[];
+  artwork?: string | null;
+};
+
+export type OfflineAlbum = {
+  id: string;
+  title: string;
+  artist: string | null;
+  trackCount: number;
+  songs: Song[];
+  artwork?: string | null;
+};
+
+export type OfflineSearchResult = {
+  songs: Song[];
+  artists: OfflineArtist[];
+  albums: OfflineAlbum[];
+};
+
+// Case and accent insensitive form used for matching and sorting
+const normalize = (text?: string | null) =>
+  (text ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const byName = (a: string, b: string) => normalize(a).localeCompare(normalize(b));
+
+/**
+ * Songs that can play from the device, with the saved artwork so covers show offline
+ */
+export const offlineSongs = (snapshot: Pick<OfflineSnapshot, 'tracks'>): Song[] =>
+  Object.values(snapshot.tracks)
+    .filter(entry => !entry.broken)
+    .map(entry => ({ ...entry.song, albumCover: entry.artworkUri ?? entry.song.albumCover }))
+    .sort((a, b) => byName(a.title, b.title));
+
+export const groupArtists = (songs: Song[], unknownArtist: string): OfflineArtist[] => {
+  const artists = new Map<string, OfflineArtist>();
+  songs.forEach(song => {
+    const name = song.artist || unknownArtist;
+    const artist = artists.get(name) ?? { id: name, name, trackCount: 0, songs: [], artwork: null };
+    artist.songs.push(song);
+    artist.trackCount += 1;
+    artist.artwork = artist.artwork ?? song.albumCover ?? null;
+    artists.set(name, artist);
+  });
+  return Array.from(artists.values()).sort((a, b) => byName(a.name, b.name));
+};
+
+export const groupAlbums = (songs: Song[], unknownAlbum: string): OfflineAlbum[] => {
+  const albums = new Map<string, OfflineAlbum>();
+  songs.forEach(song => {
+    const title = song.album || unknownAlbum;
+    const album = albums.get(title) ?? {
+      id: title,
+      title,
+      artist: song.artist || null,
+      trackCount: 0,
+      songs: [],
+      artwork: null,
+    };
+    album.songs.push(song);
+    album.trackCount += 1;
+    album.artwork = album.artwork ?? song.albumCover ?? null;
+    albums.set(title, album);
+  });
+  return Array.from(albums.values()).sort((a, b) => byName(a.title, b.title));
+};
+
+/**
+ * Search downloaded songs by title, artist and album. Every word of the query
+ * has to match one of them, so "daft random" finds Random Access Memories songs.
+ */
+export const searchOfflineSongs = (
+  songs: Song[],
+  query: string,
+  labels: { unknownArtist: string; unknownAlbum: string },
+): OfflineSearchResult => {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (!words.length) {
+    return { songs: [], artists: [], albums: [] };
+  }
+  const matches = (...fields: (string | null | undefined)[]) => {
+    const text = fields.map(normalize).join(' ');
+    return words.every(word => text.includes(word));
+  };
+
+  return {
+    songs: songs.filter(song => matches(song.title, song.artist, song.album)),
+    artists: groupArtists(songs, labels.unknownArtist).filter(artist => matches(artist.name)),
+    albums: groupAlbums(songs, labels.unknownAlbum).filter(album => matches(album.title, album.artist)),
+  };
+};
@@ -8,7 +8,8 @@ import TrackPlayer, {
 } from 'react-native-track-player';
 
 import { offlineManager } from '../offline/OfflineManager';
-import { getApiBaseUrl, getStreamUrl } from '../../api/service';
+import { outbox } from '../offline/Outbox';
+import { getApiBaseUrl, getCurrentUser, getStreamUrl } from '../../api/service';
 import type { Song } from '../../types/models';
 import { cancelPreview } from './PreviewManager';
 
@@ -88,6 +89,26 @@ export const playSong = async (song: Song, queue: Song[] = []) => {
   await updateNowPlaying(song);
 };
 
+/**
+ * Replace the queue and resume at a given track and position (playback handed over from another device)
+ */
+export const playQueueAt = async (songs: Song[], index: number, position = 0, autoPlay = true) => {
+  await cancelPreview();
+  await setupPlayer();
+  await TrackPlayer.reset();
+  await TrackPlayer.add(songs.map(songToTrack));
+  const startIndex = Math.max(0, Math.min(songs.length - 1, index));
+  if (startIndex > 0) {
+    await TrackPlayer.skip(startIndex);
+  }
+  if (position > 0) {
+    await TrackPlayer.seekTo(position);
+  }
+  if (autoPlay) {
+    await TrackPlayer.play();
+  }
+};
+
 export const updateNowPlaying = async (song: Song) => {
   const currentTrackId = await TrackPlayer.getCurrentTrack();
   if (currentTrackId != null && `${currentTrackId}` === `${song.id}`) {
@@ -109,10 +130,186 @@ export const stopPlayback = async () => {
   await TrackPlayer.reset();
 };
 
+export type SleepTimerMode = 'minutes' | 'track' | 'collection';
+
+export type SleepTimer = {
+  mode: SleepTimerMode;
+  // Wall-clock deadline (ms) for 'minutes'; null when the timer follows playback
+  endsAt: number | null;
+};
+
+type SleepTimerListener = (timer: SleepTimer | null) => void;
+
+// Preset lengths offered in the timer menu (minutes)
+export const SLEEP_TIMER_PRESETS = [5, 15, 30, 45, 60, 90];
+
+// Fade-out length before a timed stop, and before stopping at the end of a track (seconds)
+const SLEEP_FADE_SECONDS = 30;
+const SLEEP_TRACK_FADE_SECONDS = 10;
+
+// Check interval (ms) and how close to the end we stop; the fade has made the rest inaudible (seconds)
+const SLEEP_TICK_MS = 500;
+const SLEEP_STOP_THRESHOLD = 0.75;
+
+let sleepTimer: SleepTimer | null = null;
+let sleepInterval: ReturnType<typeof setInterval> | null = null;
+// Volume before the fade started, restored once the timer ends
+let sleepBaseVolume: number | null = null;
+const sleepTimerListeners = new Set<SleepTimerListener>();
+
+const notifySleepTimer = () => {
+  sleepTimerListeners.forEach(listener => listener(sleepTimer));
+};
+
+export const getSleepTimer = () => sleepTimer;
+
+export const subscribeSleepTimer = (listener: SleepTimerListener) => {
+  sleepTimerListeners.add(listener);
+  return () => {
+    sleepTimerListeners.delete(listener);
+  };
+};
+
+/**
+ * Seconds until the sleep timer stops playback, or null while the track length is unknown
+ */
+export const getSleepRemaining = async (): Promise<number | null> => {
+  if (!sleepTimer) {
+    return null;
+  }
+  if (sleepTimer.mode === 'minutes') {
+    return Math.max(0, ((sleepTimer.endsAt ?? Date.now()) - Date.now()) / 1000);
+  }
+
+  const [{ position, duration }, queue, index] = await Promise.all([
+    TrackPlayer.getProgress(),
+    TrackPlayer.getQueue(),
+    TrackPlayer.getActiveTrackIndex(),
+  ]);
+  if (!duration) {
+    return null;
+  }
+  const trackRemaining = Math.max(0, duration - position);
+  if (sleepTimer.mode === 'track' || index == null) {
+    return trackRemaining;
+  }
+  // Rest of the current track plus everything still queued after it
+  return queue.slice(index + 1).reduce((total, track) => total + (track.duration ?? 0), trackRemaining);
+};
+
+const restoreSleepVolume = async () => {
+  if (sleepBaseVolume !== null) {
+    const volume = sleepBaseVolume;
+    sleepBaseVolume = null;
+    await TrackPlayer.setVolume(volume);
+  }
+};
+
+const clearSleepTimer = async () => {
+  if (sleepInterval) {
+    clearInterval(sleepInterval);
+    sleepInterval = null;
+  }
+  sleepTimer = null;
+  notifySleepTimer();
+};
+
+const tickSleepTimer = async () => {
+  if (!sleepTimer) {
+    return;
+  }
+  const remaining = await getSleepRemaining();
+  if (remaining === null || !sleepTimer) {
+    return;
+  }
+
+  const state = await TrackPlayer.getState();
+  if (remaining <= SLEEP_STOP_THRESHOLD) {
+    if (state === State.Playing || sleepTimer.mode === 'minutes') {
+      await TrackPlayer.pause();
+      await clearSleepTimer();
+      await restoreSleepVolume();
+    }
+    return;
+  }
+
+  const fadeSeconds = sleepTimer.mode === 'minutes' ? SLEEP_FADE_SECONDS : SLEEP_TRACK_FADE_SECONDS;
+  if (remaining < fadeSeconds && state === State.Playing) {
+    if (sleepBaseVolume === null) {
+      sleepBaseVolume = await TrackPlayer.getVolume();
+    }
+    await TrackPlayer.setVolume(sleepBaseVolume * (remaining / fadeSeconds));
+  } else {
+    // Skipped back out of the fade window (e.g. next track in 'track' mode)
+    await restoreSleepVolume();
+  }
+};
+
+/**
+ * Stop playback after a number of minutes, at the end of the current track or
+ * at the end of the queue (the album or playlist being played), fading out first
+ */
+export const setSleepTimer = async (mode: SleepTimerMode, minutes = 0) => {
+  await restoreSleepVolume();
+  sleepTimer = {
+    mode,
+    endsAt: mode === 'minutes' ? Date.now() + minutes * 60 * 1000 : null,
+  };
+  if (!sleepInterval) {
+    sleepInterval = setInterval(() => {
+      tickSleepTimer().catch(error => console.warn('Sleep timer check failed', error));
+    }, SLEEP_TICK_MS);
+  }
+  notifySleepTimer();
+};
+
+export const cancelSleepTimer = async () => {
+  await clearSleepTimer();
+  await restoreSleepVolume();
+};
+
+// Plays shorter than this don't count as listens (seconds)
+const MIN_LISTEN_SECONDS = 10;
+
+/**
+ * Log a track that stopped playing at `position` for the listening stats,
+ * through the outbox so listens made offline are sent later
+ */
+const logListen = (track: Track, position: number) => {
+  const user = getCurrentUser();
+  const musicId = Number(track.id);
+  // Previews aren't library songs
+  if (!user || !Number.isFinite(musicId) || position < MIN_LISTEN_SECONDS) {
+    return;
+  }
+  const completed = !!track.duration && position >= track.duration - 2;
+  const endedAt = Date.now();
+  outbox
+    .runOrQueue({
+      type: 'listen',
+      userId: user.id,
+      musicId,
+      durationListened: Math.floor(position),
+      completed,
+      skipped: !completed,
+      startedAt: endedAt - Math.floor(position) * 1000,
+      endedAt,
+    })
+    .catch(error => console.warn('Failed to log listen', error));
+};
+
 export const registerPlayerListeners = () => {
   TrackPlayer.addEventListener(Event.RemotePlay, TrackPlayer.play);
   TrackPlayer.addEventListener(Event.RemotePause, TrackPlayer.pause);
   TrackPlayer.addEventListener(Event.RemoteStop, stopPlayback);
   TrackPlayer.addEventListener(Event.RemoteNext, TrackPlayer.skipToNext);
   TrackPlayer.addEventListener(Event.RemotePrevious, TrackPlayer.skipToPrevious);
+  TrackPlayer.addEventListener(Event.PlaybackActiveTrackChanged, ({ track, lastTrack, lastPosition }) => {
+    if (lastTrack) {
+      logListen(lastTrack, lastPosition);
+    }
+    if (track) {
+      offlineManager.markPlayed(Number(track.id)).catch(() => undefined);
+    }
+  });
 };
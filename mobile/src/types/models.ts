@@ -23,12 +23,6 @@ export interface Playlist {
   userId?: number | null;
 }
 
-export interface PlaylistTrackItem {
-  playlistTrackId?: number | null;
-  position?: number | null;
-  song: Song;
-}
-
 export interface User {
   id: number;
   username: string;
@@ -54,6 +48,20 @@ export interface BasicResponse {
   error?: string | null;
 }
 
+// Artists and albums matched by a library search
+export interface LibraryArtistMatch {
+  name: string;
+  image?: string | null;
+  trackCount: number;
+}
+
+export interface LibraryAlbumMatch {
+  title: string;
+  artist: string;
+  cover?: string | null;
+  trackCount: number;
+}
+
 export interface LibraryStats {
   totalSongs: number;
   totalArtists: number;
@@ -159,12 +167,3 @@ export interface SmartSearchResult {
   artists: RemoteArtist[];
   albums: RemoteAlbum[];
 }
-
-export interface RemoteSearchResponse {
-  success?: boolean;
-  data?: RemoteTrack[];
-  items?: RemoteTrack[];
-  results?: RemoteTrack[];
-  tracks?: RemoteTrack[];
-}
-